@@ -4,18 +4,83 @@
 // - uses a preload script at electron/preload.js
 // - handles basic app lifecycle for Windows/macOS/Linux.
 
-import { app, BrowserWindow, ipcMain, Menu } from 'electron';
+import { app, BrowserWindow, dialog, ipcMain, Menu, Notification, shell } from 'electron';
 import path from 'path';
 import fs from 'fs';
-import { PulsarAdmin } from '../services/pulsarAdmin';
-import { PulsarMessageClient, Pulsar, PulsarReader } from '../services/pulsarClient';
-import { ConnectionProfileStorage } from '../services/connectionProfileStorage';
+import crypto from 'crypto';
+import {
+  PulsarAdmin,
+  parseMessageIdString,
+  stripPartitionSuffix,
+  type PulsarAdminConfig,
+  type PulsarInternalStats,
+} from '../services/pulsarAdmin';
+import {
+  PulsarMessageClient,
+  Pulsar,
+  PulsarReader,
+  PulsarProducer,
+  PulsarConsumer,
+  createMessageId,
+  type MessageIdParts,
+  type PulsarClientConfig,
+  type PulsarMessage,
+  type SubscriptionType,
+} from '../services/pulsarClient';
+import { SchemaDecoder, type DecodedPayload } from '../services/schemaDecoder';
+import { compileMessageFilter, type MessageFilter } from '../services/messageFilter';
+import { encodePayload, decodePayload } from '../services/payloadCodec';
+import { createExportWriter, type MessageExportWriter } from '../services/messageExport';
+import { openMessageFile, type MessageFileReader } from '../services/messageImport';
+import { ConnectionProfileStorage, redactProfile } from '../services/connectionProfileStorage';
+import { authSecrets, getSecretStorageStatus, isEncryptedSecret, mergeStoredSecrets } from '../services/secretStorage';
+import { InteractiveOAuthSession, decodeJwtClaims } from '../services/oauthInteractive';
+import { OAuthSessionStore } from '../services/oauthSessionStore';
+import { checkConnectionHealth } from '../services/connectionHealth';
+import { diffClusters } from '../services/clusterDiff';
+import { readNamespacePolicies, updateNamespacePolicies } from '../services/namespacePolicies';
+import { readTopicPolicies, updateTopicPolicy } from '../services/topicPolicies';
+import { readPermissions, updatePermissions } from '../services/permissions';
+import { applyPolicyChanges, exportPolicyDocument, planPolicyDocument, readPolicyDocument, writePolicyDocument } from '../services/policyAsCode';
+import { AuditLog } from '../services/auditLog';
+import { StatsHistoryStore } from '../services/statsHistory';
+import { AlertRuleStorage, evaluateAlertRule, describeCondition } from '../services/alertRules';
 import type {
   ClusterConfig,
   TopicStats,
+  StatsSample,
+  PinnedTopic,
+  StatsHistorySettings,
+  StatsHistoryResult,
+  StatsSampleEvent,
+  AlertRule,
+  AlertRuleInput,
+  AlertEvent,
+  AlertStatus,
+  PartitionedTopicMetadata,
+  SchemaInfo,
+  ResetCursorTarget,
   BrowseMessagesOptions,
+  BrowseStartPosition,
+  MessageSearchOptions,
+  MessageSearchProgress,
+  MessageExportFormat,
+  MessageExportOptions,
+  MessageExportResult,
+  TopicExportOptions,
+  TopicExportProgress,
+  ReplayOptions,
+  ReplayProgress,
+  DlqOpenOptions,
+  DlqMessage,
+  DlqSession,
+  DlqRedriveOptions,
+  DlqRedriveItemResult,
+  DlqRedriveResult,
+  AuditEntry,
   BrowseMessagesResult,
   BrowsedMessage,
+  PeekMessage,
   PeekMessagesOptions,
   PeekMessagesResult,
   CreateProducerOptions,
@@ -24,6 +89,38 @@ import type {
   IPCResponse,
   ConnectedCluster,
   SavedProfile,
+  AuthConfig,
+  SecretStorageStatus,
+  CredentialFileKind,
+  OAuthConfig,
+  OAuthSessionStatus,
+  OAuthStatusEvent,
+  DeviceCodePrompt,
+  ConnectionIdentity,
+  PermissionGrant,
+  PermissionScopeResult,
+  PermissionReport,
+  ConnectionHealth,
+  ClusterDiffOptions,
+  ClusterDiffResult,
+  PolicyDocumentFormat,
+  PolicyExportOptions,
+  PolicyExportResult,
+  PolicyPlanOptions,
+  PolicyPlan,
+  PolicyApplyResult,
+  NamespacePolicyChanges,
+  NamespacePoliciesResult,
+  NamespacePolicyUpdateResult,
+  TopicPolicies,
+  TopicPolicyKey,
+  TopicPoliciesResult,
+  TenantInfo,
+  PermissionTarget,
+  PermissionsResult,
+  PermissionChanges,
+  PermissionUpdateResult,
+  PartitionedTopicStats,
 } from '../src/shared/types';
 
 let mainWindow: BrowserWindow | null = null;
@@ -62,13 +159,19 @@ interface ClusterConnection {
   config: ClusterConfig;
   admin: PulsarAdmin;
   client: PulsarMessageClient;
+  schemaDecoder: SchemaDecoder;
   connectedAt: number;
+  health?: ConnectionHealth; // Result of the latest health check
 }
 
 const connectedClusters = new Map<string, ClusterConnection>();
 const producers = new Map<string, any>();
 const consumers = new Map<string, any>();
 const profileStorage = new ConnectionProfileStorage();
+const auditLog = new AuditLog();
+const statsHistory = new StatsHistoryStore();
+const alertRuleStorage = new AlertRuleStorage();
+const oauthSessionStore = new OAuthSessionStore();
 let producerIdCounter = 0;
 let consumerIdCounter = 0;
 
@@ -102,6 +205,14 @@ function createWindow(): void {
     },
   });
 
+  // Links (e.g. device login pages) open in the system browser, never in an app window
+  mainWindow.webContents.setWindowOpenHandler(({ url }) => {
+    if (/^https?:/.test(url)) {
+      shell.openExternal(url);
+    }
+    return { action: 'deny' };
+  });
+
   if (isDev) {
     // Load from Vite dev server - try common ports
     const vitePort = process.env.VITE_PORT || '5173';
@@ -220,6 +331,143 @@ function error(message: string): IPCResponse<never> {
   return { success: false, error: message };
 }
 
+/**
+ * Convert a received message for the renderer, keeping the raw bytes and
+ * decoding the payload with the topic schema when a decoder is available
+ */
+async function toBrowsedMessage(msg: PulsarMessage, schemaDecoder?: SchemaDecoder): Promise<BrowsedMessage> {
+  const decoded = schemaDecoder ? await schemaDecoder.decode(msg.topicName, msg.data) : {};
+  const payload = encodePayload(msg.data);
+  return {
+    messageId: msg.messageId.toString(),
+    data: payload.data,
+    encoding: payload.encoding,
+    size: payload.size,
+    decodedData: decoded.text,
+    properties: msg.properties,
+    publishTimestamp: msg.publishTimestamp,
+    eventTimestamp: msg.eventTimestamp,
+    partitionKey: msg.partitionKey,
+    topicName: msg.topicName,
+    schemaType: decoded.schemaType,
+    schemaVersion: decoded.schemaVersion,
+    decodeError: decoded.decodeError,
+  };
+}
+
+/**
+ * Convert a read message into the peek/search result shape
+ */
+function toPeekMessage(msg: PulsarMessage, decoded: DecodedPayload): PeekMessage {
+  const payload = encodePayload(msg.data);
+  return {
+    messageId: msg.messageId,
+    payload: payload.data,
+    encoding: payload.encoding,
+    size: payload.size,
+    decodedPayload: decoded.text,
+    topicName: msg.topicName,
+    partitionKey: msg.partitionKey,
+    properties: msg.properties || {},
+    publishTimestamp: msg.publishTimestamp || Date.now(),
+    eventTimestamp: msg.eventTimestamp || undefined,
+    schemaType: decoded.schemaType,
+    schemaVersion: decoded.schemaVersion,
+    decodeError: decoded.decodeError,
+  };
+}
+
+type ParsedMessageId = ReturnType<typeof parseMessageIdString>;
+
+/**
+ * Order two parsed message IDs by ledger, entry, then batch index
+ */
+function compareMessageIds(a: ParsedMessageId, b: ParsedMessageId): number {
+  return a.ledgerId - b.ledgerId
+    || a.entryId - b.entryId
+    || (a.batchIndex ?? -1) - (b.batchIndex ?? -1);
+}
+
+/**
+ * Message IDs carrying a partition index can only be sought on that partition
+ */
+function topicForMessageId(topic: string, id: ParsedMessageId): string {
+  return id.partitionIndex >= 0
+    ? `${stripPartitionSuffix(topic)}-partition-${id.partitionIndex}`
+    : topic;
+}
+
+/**
+ * Open a reader at a browse start position
+ * Readers deliver messages after their start ID, so inclusive starts open one message earlier
+ */
+async function openReaderAt(
+  connection: ClusterConnection,
+  topic: string,
+  position: BrowseStartPosition,
+  readerName: string,
+  inclusive = true
+): Promise<PulsarReader> {
+  if (typeof position === 'object' && position.type === 'messageId') {
+    const id = parseMessageIdString(position.messageId);
+    let start: MessageIdParts = { ledgerId: id.ledgerId, entryId: id.entryId, batchIndex: id.batchIndex };
+    if (inclusive) {
+      start = id.batchIndex !== undefined && id.batchIndex > 0
+        ? { ...start, batchIndex: id.batchIndex - 1 }
+        : { ledgerId: id.ledgerId, entryId: id.entryId - 1 }; // Entry -1 sits before the ledger's first entry
+    }
+    return await connection.client.createReader({
+      topic: topicForMessageId(topic, id),
+      readerName,
+      startMessageId: createMessageId(start),
+    });
+  }
+
+  const reader = await connection.client.createReader({
+    topic,
+    readerName,
+    startMessageId: position === 'latest' ? Pulsar.MessageId.latest() : Pulsar.MessageId.earliest(),
+  });
+  if (typeof position === 'object') {
+    try {
+      await reader.seekTimestamp(position.timestamp);
+    } catch (err) {
+      await reader.close().catch(() => {});
+      throw err;
+    }
+  }
+  return reader;
+}
+
+/**
+ * Find the position to read from so that a page of `count` entries ends just before `before`
+ * Entry IDs restart in every ledger, so walk back through the topic's ledgers
+ * Returns null when the page reaches the start of the topic
+ */
+function pageStartBefore(
+  ledgers: PulsarInternalStats['ledgers'],
+  before: ParsedMessageId,
+  count: number
+): MessageIdParts | null {
+  let index = ledgers.findIndex(ledger => ledger.ledgerId === before.ledgerId);
+  let entryId = before.entryId - count;
+  if (index < 0) {
+    // Ledger not listed yet (just rolled over) - it follows every listed ledger
+    if (entryId >= 0) {
+      return { ledgerId: before.ledgerId, entryId: entryId - 1 };
+    }
+    index = ledgers.length;
+  }
+  while (entryId < 0 && index > 0) {
+    index--;
+    entryId += ledgers[index].entries;
+  }
+  if (entryId < 0) {
+    return null;
+  }
+  return { ledgerId: ledgers[index].ledgerId, entryId: entryId - 1 };
+}
+
 // ----------------------------------------------------------------------------
 // Profile Management Handlers
 // ----------------------------------------------------------------------------
@@ -227,16 +475,16 @@ function error(message: string): IPCResponse<never> {
 ipcMain.handle('profiles:listProfiles', (): IPCResponse<SavedProfile[]> => {
   try {
     const profiles = profileStorage.loadProfiles();
-    return success(profiles);
+    return success(profiles.map(redactProfile));
   } catch (err) {
     return error(`Failed to load profiles: ${err instanceof Error ? err.message : String(err)}`);
   }
 });
 
-ipcMain.handle('profiles:saveProfile', (_event, profile: Omit<SavedProfile, 'profileId' | 'savedAt'>): IPCResponse<SavedProfile> => {
+ipcMain.handle('profiles:saveProfile', (_event, profile: Omit<SavedProfile, 'profileId' | 'savedAt'>, secretsFromProfileId?: string): IPCResponse<SavedProfile> => {
   try {
-    const saved = profileStorage.saveProfile(profile);
-    return success(saved);
+    const saved = profileStorage.saveProfile(profile, undefined, secretsFromProfileId);
+    return success(redactProfile(saved));
   } catch (err) {
     return error(`Failed to save profile: ${err instanceof Error ? err.message : String(err)}`);
   }
@@ -254,12 +502,63 @@ ipcMain.handle('profiles:deleteProfile', (_event, profileId: string): IPCRespons
 ipcMain.handle('profiles:getProfile', (_event, profileId: string): IPCResponse<SavedProfile | null> => {
   try {
     const profile = profileStorage.getProfile(profileId);
-    return success(profile);
+    return success(profile ? redactProfile(profile) : null);
   } catch (err) {
     return error(`Failed to get profile: ${err instanceof Error ? err.message : String(err)}`);
   }
 });
 
+// The only handler that returns decrypted secrets; the renderer calls it when the user clicks Reveal
+ipcMain.handle('profiles:revealSecrets', (_event, profileId: string): IPCResponse<AuthConfig | null> => {
+  try {
+    const profile = profileStorage.getProfile(profileId);
+    if (!profile) {
+      return error(`Profile ${profileId} not found`);
+    }
+    if (profile.secretsUnreadable) {
+      return error(`The saved credentials of ${profile.name} could not be decrypted - enter them again`);
+    }
+    return success(profile.auth || null);
+  } catch (err) {
+    return error(`Failed to reveal profile secrets: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('profiles:getSecretStorageStatus', (): IPCResponse<SecretStorageStatus> => {
+  try {
+    return success(getSecretStorageStatus());
+  } catch (err) {
+    return error(`Failed to check secret storage: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+const CREDENTIAL_FILE_DIALOGS: Record<CredentialFileKind, { title: string; filterName: string; extensions: string[] }> = {
+  cert: { title: 'Choose Client Certificate', filterName: 'PEM files', extensions: ['pem', 'crt', 'cert'] },
+  key: { title: 'Choose Client Private Key', filterName: 'PEM files', extensions: ['pem', 'key'] },
+  ca: { title: 'Choose CA Certificate', filterName: 'PEM files', extensions: ['pem', 'crt', 'cert'] },
+  oauthKey: { title: 'Choose OAuth Credentials Key File', filterName: 'JSON files', extensions: ['json'] },
+};
+
+ipcMain.handle('profiles:chooseCredentialFile', async (_event, kind: CredentialFileKind): Promise<IPCResponse<string | null>> => {
+  try {
+    const { title, filterName, extensions } = CREDENTIAL_FILE_DIALOGS[kind];
+    const dialogOptions: Electron.OpenDialogOptions = {
+      title,
+      properties: ['openFile', 'showHiddenFiles'],
+      filters: [
+        { name: filterName, extensions },
+        { name: 'All files', extensions: ['*'] },
+      ],
+    };
+    const result = mainWindow
+      ? await dialog.showOpenDialog(mainWindow, dialogOptions)
+      : await dialog.showOpenDialog(dialogOptions);
+    return success(result.canceled || result.filePaths.length === 0 ? null : result.filePaths[0]);
+  } catch (err) {
+    return error(`Failed to choose file: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
 // ----------------------------------------------------------------------------
 // Cluster Management Handlers
 // ----------------------------------------------------------------------------
@@ -270,14 +569,39 @@ ipcMain.handle('cluster:connect', async (_event, config: ClusterConfig): Promise
     if (connectedClusters.has(config.clusterId)) {
       return error(`Cluster ${config.clusterId} is already connected`);
     }
+    const existing = config.profileId
+      ? Array.from(connectedClusters.values()).find(conn => conn.config.profileId === config.profileId)
+      : undefined;
+    if (existing) {
+      return error(`${existing.config.name || config.profileId} is already connected as ${existing.config.clusterId}`);
+    }
+
+    // Secrets of a saved profile never reach the renderer, so fill them in here
+    if (config.auth) {
+      const profile = config.profileId ? profileStorage.getProfile(config.profileId) : null;
+      const auth = mergeStoredSecrets(config.auth, profile?.auth);
+      if (authSecrets(auth).some(isEncryptedSecret)) {
+        return error(`The saved credentials of ${profile?.name ?? config.name} could not be decrypted - enter them again`);
+      }
+      config = { ...config, auth };
+    }
+
+    // Interactive OAuth logs the user in before anything talks to the cluster
+    let oauthSession: InteractiveOAuthSession | undefined;
+    if (config.auth?.type === 'oauth' && config.auth.oauth.type !== 'client_credentials') {
+      oauthSession = createOAuthSession(config.clusterId, config.adminUrl, config.auth.oauth);
+      if (!oauthSession.hasUsableTokens()) {
+        await runOAuthLogin(oauthSession);
+      }
+    }
 
     // Build authentication config for PulsarAdmin
-    const adminAuthConfig: { baseUrl: string; authToken?: string; oauthConfig?: any } = {
+    const adminAuthConfig: PulsarAdminConfig = {
       baseUrl: config.adminUrl,
     };
 
     // Build authentication config for PulsarMessageClient
-    const clientConfig: { serviceUrl: string; authentication?: any; oauthConfig?: any } = {
+    const clientConfig: PulsarClientConfig = {
       serviceUrl: config.serviceUrl,
     };
 
@@ -289,8 +613,23 @@ ipcMain.handle('cluster:connect', async (_event, config: ClusterConfig): Promise
         clientConfig.authentication = new Pulsar.AuthenticationToken({ token: config.auth.token });
       } else if (config.auth.type === 'oauth') {
         // OAuth authentication
-        adminAuthConfig.oauthConfig = config.auth.oauth;
-        clientConfig.oauthConfig = config.auth.oauth;
+        const session = oauthSession;
+        const oauthConfig = session
+          ? { ...config.auth.oauth, tokenSource: () => session.getAccessToken() }
+          : config.auth.oauth;
+        adminAuthConfig.oauthConfig = oauthConfig;
+        clientConfig.oauthConfig = oauthConfig;
+      } else if (config.auth.type === 'tls') {
+        // TLS client-certificate authentication
+        const { tls } = config.auth;
+        adminAuthConfig.tls = tls;
+        clientConfig.authentication = new Pulsar.AuthenticationTls({
+          certificatePath: tls.certFilePath,
+          privateKeyPath: tls.keyFilePath,
+        });
+        clientConfig.tlsTrustCertsFilePath = tls.caFilePath;
+        clientConfig.tlsValidateHostname = tls.validateHostname ?? true;
+        clientConfig.tlsAllowInsecureConnection = tls.allowInsecureConnection ?? false;
       }
     } else if (config.authToken) {
       // Legacy support for direct authToken (for backward compatibility)
@@ -302,23 +641,55 @@ ipcMain.handle('cluster:connect', async (_event, config: ClusterConfig): Promise
     const admin = new PulsarAdmin(adminAuthConfig);
     const client = new PulsarMessageClient(clientConfig);
 
+    // Validate before reporting the connection, so a typo in a URL fails here rather than on first browse
+    try {
+      await client.connect();
+    } catch (err) {
+      throw new Error(`Could not create the broker client: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    const health = await checkConnectionHealth(
+      config.clusterId,
+      admin,
+      config.adminUrl,
+      config.serviceUrl,
+      connectionTlsConfig(config),
+      HEALTH_CHECK_TIMEOUT_MS
+    );
+    // The broker probe is only advisory: the native client may still get through, so it just shows as degraded
+    if (!health.admin.ok) {
+      await client.close().catch((closeErr) => console.warn('[health] Error closing client:', closeErr));
+      throw new Error(health.admin.error);
+    }
+    if (!health.broker.ok) {
+      console.warn(`[health] Broker probe failed for ${config.name || config.clusterId}: ${health.broker.error}`);
+    }
+
     // Store the connection
     const connection: ClusterConnection = {
       config,
       admin,
       client,
+      schemaDecoder: new SchemaDecoder(admin),
       connectedAt: Date.now(),
+      health,
     };
 
     connectedClusters.set(config.clusterId, connection);
+    if (oauthSession) {
+      oauthSessions.set(config.clusterId, oauthSession);
+    }
 
     const result: ConnectedCluster = {
       clusterId: config.clusterId,
       name: config.name,
+      profileId: config.profileId,
       adminUrl: config.adminUrl,
       serviceUrl: config.serviceUrl,
       connected: true,
       connectedAt: connection.connectedAt,
+      environment: config.environment,
+      pulsarVersion: health.pulsarVersion,
+      health,
     };
 
     return success(result);
@@ -337,8 +708,16 @@ ipcMain.handle('cluster:disconnect', async (_event, clusterId: string): Promise<
     // Close the client (this will close all producers, consumers, readers)
     await connection.client.close();
 
-    // Remove from connected clusters
+    // Their consumers closed with the client
+    for (const [sessionId, session] of dlqSessions) {
+      if (session.clusterId === clusterId) {
+        dlqSessions.delete(sessionId);
+      }
+    }
+
+    // Remove from connected clusters; cached OAuth tokens stay on disk for the next connect
     connectedClusters.delete(clusterId);
+    oauthSessions.delete(clusterId);
 
     return success(undefined);
   } catch (err) {
@@ -351,10 +730,14 @@ ipcMain.handle('cluster:list', async (): Promise<IPCResponse<ConnectedCluster[]>
     const clusters: ConnectedCluster[] = Array.from(connectedClusters.entries()).map(([clusterId, conn]) => ({
       clusterId,
       name: conn.config.name,
+      profileId: conn.config.profileId,
       adminUrl: conn.config.adminUrl,
       serviceUrl: conn.config.serviceUrl,
       connected: true,
       connectedAt: conn.connectedAt,
+      environment: conn.config.environment,
+      pulsarVersion: conn.health?.pulsarVersion,
+      health: conn.health,
     }));
 
     return success(clusters);
@@ -363,6 +746,129 @@ ipcMain.handle('cluster:list', async (): Promise<IPCResponse<ConnectedCluster[]>
   }
 });
 
+// ----------------------------------------------------------------------------
+// Connection Health
+// ----------------------------------------------------------------------------
+
+const HEALTH_CHECK_INTERVAL_MS = 30000;
+const HEALTH_CHECK_TIMEOUT_MS = 10000;
+
+let healthCheckInProgress = false;
+
+function connectionTlsConfig(config: ClusterConfig): PulsarAdminConfig['tls'] {
+  return config.auth?.type === 'tls' ? config.auth.tls : undefined;
+}
+
+/**
+ * Recreate a cluster's streaming consumers after its broker was unreachable
+ * The native client retries on its own, but a consumer whose connection broke for good would stay silent
+ */
+async function reconnectStreamingConsumers(clusterId: string, connection: ClusterConnection, afterOutage: boolean): Promise<number> {
+  let reconnected = 0;
+  for (const streamingConsumer of streamingConsumers.values()) {
+    if (streamingConsumer.clusterId !== clusterId || streamingConsumer.stopRequested) {
+      continue;
+    }
+    if (!afterOutage && !streamingConsumer.reconnectPending) {
+      continue;
+    }
+    try {
+      // Close first: an exclusive subscription refuses a second consumer
+      await streamingConsumer.consumer.close().catch(() => undefined);
+      streamingConsumer.consumer = await connection.client.createConsumer({
+        topic: streamingConsumer.topic,
+        subscription: streamingConsumer.subscription,
+        subscriptionType: streamingConsumer.subscriptionType,
+      });
+      streamingConsumer.reconnectPending = false;
+      reconnected++;
+    } catch (err) {
+      console.warn(`[health] Failed to reconnect consumer ${streamingConsumer.consumerId}:`, err);
+      streamingConsumer.reconnectPending = true;
+    }
+  }
+  return reconnected;
+}
+
+/**
+ * Check one connection and push the result to the renderer when its state changes
+ */
+async function checkClusterHealth(clusterId: string, connection: ClusterConnection): Promise<ConnectionHealth> {
+  const health = await checkConnectionHealth(
+    clusterId,
+    connection.admin,
+    connection.config.adminUrl,
+    connection.config.serviceUrl,
+    connectionTlsConfig(connection.config),
+    HEALTH_CHECK_TIMEOUT_MS
+  );
+  // Disconnected while the check ran
+  if (connectedClusters.get(clusterId) !== connection) {
+    return health;
+  }
+
+  const previous = connection.health;
+  connection.health = health;
+  if (health.broker.ok) {
+    const reconnected = await reconnectStreamingConsumers(clusterId, connection, previous?.broker.ok === false);
+    if (reconnected > 0) {
+      health.reconnectedConsumers = reconnected;
+      console.log(`[health] Reconnected ${reconnected} consumers on ${connection.config.name || clusterId}`);
+    }
+
+    // Checks run inside the rotation margin, so handles move before the token they were opened with expires
+    try {
+      const rotation = await connection.client.refreshCredentials();
+      if (rotation && (rotation.reattached > 0 || rotation.failed > 0)) {
+        health.credentialRotation = rotation;
+      }
+    } catch (err) {
+      console.warn(`[health] Failed to refresh the broker client token on ${connection.config.name || clusterId}:`, err);
+    }
+  }
+
+  if (previous?.state !== health.state || health.reconnectedConsumers || health.credentialRotation) {
+    mainWindow?.webContents.send('cluster:health', health);
+  }
+  return health;
+}
+
+async function checkAllConnections(): Promise<void> {
+  if (healthCheckInProgress) {
+    return;
+  }
+  healthCheckInProgress = true;
+  try {
+    for (const [clusterId, connection] of connectedClusters) {
+      await checkClusterHealth(clusterId, connection).catch((err) => console.warn(`[health] Check failed for ${clusterId}:`, err));
+    }
+  } finally {
+    healthCheckInProgress = false;
+  }
+}
+
+const healthTimer = setInterval(checkAllConnections, HEALTH_CHECK_INTERVAL_MS);
+
+ipcMain.handle('cluster:getHealth', async (_event, clusterId: string): Promise<IPCResponse<ConnectionHealth | null>> => {
+  const connection = connectedClusters.get(clusterId);
+  if (!connection) {
+    return error(`Cluster ${clusterId} is not connected`);
+  }
+  return success(connection.health ?? null);
+});
+
+ipcMain.handle('cluster:checkHealth', async (_event, clusterId: string): Promise<IPCResponse<ConnectionHealth>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+    return success(await checkClusterHealth(clusterId, connection));
+  } catch (err) {
+    return error(`Failed to check connection health: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
 // ----------------------------------------------------------------------------
 // Admin API Handlers
 // ----------------------------------------------------------------------------
@@ -373,281 +879,2288 @@ ipcMain.handle('admin:listClusters', async (_event, clusterId: string): Promise<
     if (!connection) {
       return error(`Cluster ${clusterId} is not connected`);
     }
-
-    const clusters = await connection.admin.listClusters();
-    return success(clusters);
+
+    const clusters = await connection.admin.listClusters();
+    return success(clusters);
+  } catch (err) {
+    return error(`Failed to list clusters: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:listTenants', async (_event, clusterId: string): Promise<IPCResponse<string[]>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    let tenants = await connection.admin.listTenants();
+    
+    // If we got no tenants, try discovering accessible ones
+    if (tenants.length === 0) {
+      console.log('[Main] No tenants returned, attempting discovery...');
+      const discovered = await connection.admin.discoverAccessibleTenants();
+      if (discovered.length > 0) {
+        console.log('[Main] Discovered accessible tenants:', discovered);
+        tenants = discovered;
+      }
+    }
+    
+    return success(tenants);
+  } catch (err) {
+    return error(`Failed to list tenants: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:listNamespaces', async (_event, clusterId: string, tenant: string): Promise<IPCResponse<string[]>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    const namespaces = await connection.admin.listNamespaces(tenant);
+    return success(namespaces);
+  } catch (err) {
+    return error(`Failed to list namespaces: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:listTopics', async (_event, clusterId: string, tenant: string, namespace: string): Promise<IPCResponse<string[]>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    const topics = await connection.admin.listTopics(tenant, namespace);
+    return success(topics);
+  } catch (err) {
+    return error(`Failed to list topics: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:listPartitionedTopics', async (_event, clusterId: string, tenant: string, namespace: string): Promise<IPCResponse<string[]>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    const [persistentTopics, nonPersistentTopics] = await Promise.all([
+      connection.admin.listPartitionedTopics(tenant, namespace),
+      connection.admin.listPartitionedTopics(tenant, namespace, 'non-persistent').catch(() => [] as string[]),
+    ]);
+    return success([...persistentTopics, ...nonPersistentTopics]);
+  } catch (err) {
+    return error(`Failed to list partitioned topics: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:getTopicStats', async (_event, clusterId: string, fullTopicName: string): Promise<IPCResponse<TopicStats>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    const stats = await connection.admin.getTopicStats(fullTopicName);
+    return success(stats as TopicStats);
+  } catch (err) {
+    return error(`Failed to get topic stats: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:getPartitionedStats', async (_event, clusterId: string, fullTopicName: string): Promise<IPCResponse<PartitionedTopicStats>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    const stats = await connection.admin.getPartitionedStats(fullTopicName, true);
+    return success({ ...stats, partitions: stats.partitions || {} } as PartitionedTopicStats);
+  } catch (err) {
+    return error(`Failed to get partitioned topic stats: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:listSubscriptions', async (_event, clusterId: string, fullTopicName: string): Promise<IPCResponse<string[]>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    const subscriptions = await connection.admin.listSubscriptions(fullTopicName);
+    return success(subscriptions);
+  } catch (err) {
+    return error(`Failed to list subscriptions: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:getTenantInfo', async (_event, clusterId: string, tenant: string): Promise<IPCResponse<TenantInfo>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    const info = await connection.admin.getTenantInfo(tenant);
+    return success({ adminRoles: info.adminRoles || [], allowedClusters: info.allowedClusters || [] });
+  } catch (err) {
+    return error(`Failed to get tenant: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:createTenant', async (_event, clusterId: string, tenant: string, info: TenantInfo): Promise<IPCResponse<void>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    try {
+      await connection.admin.createTenant(tenant, info);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      auditLog.record({
+        clusterId,
+        action: 'tenant.create',
+        target: tenant,
+        outcome: 'failure',
+        summary: `Failed to create tenant ${tenant}: ${message}`,
+        details: { info, error: message },
+      });
+      throw err;
+    }
+    auditLog.record({
+      clusterId,
+      action: 'tenant.create',
+      target: tenant,
+      outcome: 'success',
+      summary: `Created tenant ${tenant}`,
+      details: { info },
+    });
+    return success(undefined);
+  } catch (err) {
+    return error(`Failed to create tenant: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:updateTenant', async (_event, clusterId: string, tenant: string, info: TenantInfo): Promise<IPCResponse<void>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    try {
+      await connection.admin.updateTenant(tenant, info);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      auditLog.record({
+        clusterId,
+        action: 'tenant.update',
+        target: tenant,
+        outcome: 'failure',
+        summary: `Failed to update tenant ${tenant}: ${message}`,
+        details: { info, error: message },
+      });
+      throw err;
+    }
+    auditLog.record({
+      clusterId,
+      action: 'tenant.update',
+      target: tenant,
+      outcome: 'success',
+      summary: `Updated tenant ${tenant}`,
+      details: { info },
+    });
+    return success(undefined);
+  } catch (err) {
+    return error(`Failed to update tenant: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:deleteTenant', async (_event, clusterId: string, tenant: string, force?: boolean): Promise<IPCResponse<void>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    try {
+      await connection.admin.deleteTenant(tenant, force);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      auditLog.record({
+        clusterId,
+        action: 'tenant.delete',
+        target: tenant,
+        outcome: 'failure',
+        summary: `Failed to delete tenant ${tenant}: ${message}`,
+        details: { force: Boolean(force), error: message },
+      });
+      throw err;
+    }
+    auditLog.record({
+      clusterId,
+      action: 'tenant.delete',
+      target: tenant,
+      outcome: 'success',
+      summary: `${force ? 'Force-deleted' : 'Deleted'} tenant ${tenant}`,
+      details: { force: Boolean(force) },
+    });
+    return success(undefined);
+  } catch (err) {
+    return error(`Failed to delete tenant: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:createNamespace', async (_event, clusterId: string, namespace: string): Promise<IPCResponse<void>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    try {
+      await connection.admin.createNamespace(namespace);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      auditLog.record({
+        clusterId,
+        action: 'namespace.create',
+        target: namespace,
+        outcome: 'failure',
+        summary: `Failed to create namespace ${namespace}: ${message}`,
+        details: { error: message },
+      });
+      throw err;
+    }
+    auditLog.record({
+      clusterId,
+      action: 'namespace.create',
+      target: namespace,
+      outcome: 'success',
+      summary: `Created namespace ${namespace}`,
+    });
+    return success(undefined);
+  } catch (err) {
+    return error(`Failed to create namespace: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:deleteNamespace', async (_event, clusterId: string, namespace: string, force?: boolean): Promise<IPCResponse<void>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    try {
+      await connection.admin.deleteNamespace(namespace, force);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      auditLog.record({
+        clusterId,
+        action: 'namespace.delete',
+        target: namespace,
+        outcome: 'failure',
+        summary: `Failed to delete namespace ${namespace}: ${message}`,
+        details: { force: Boolean(force), error: message },
+      });
+      throw err;
+    }
+    auditLog.record({
+      clusterId,
+      action: 'namespace.delete',
+      target: namespace,
+      outcome: 'success',
+      summary: `${force ? 'Force-deleted' : 'Deleted'} namespace ${namespace}`,
+      details: { force: Boolean(force) },
+    });
+    return success(undefined);
+  } catch (err) {
+    return error(`Failed to delete namespace: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:createTopic', async (_event, clusterId: string, fullTopicName: string, partitions: number): Promise<IPCResponse<void>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    if (!Number.isInteger(partitions) || partitions < 0) {
+      return error(`Invalid partition count ${partitions}: expected a whole number of 0 or more`);
+    }
+
+    // A partition count of 0 means a non-partitioned topic
+    if (partitions > 0) {
+      await connection.admin.createPartitionedTopic(fullTopicName, partitions);
+    } else {
+      await connection.admin.createTopic(fullTopicName);
+    }
+    return success(undefined);
+  } catch (err) {
+    return error(`Failed to create topic: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:updatePartitionedTopic', async (_event, clusterId: string, fullTopicName: string, partitions: number): Promise<IPCResponse<void>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    await connection.admin.updatePartitionedTopic(fullTopicName, partitions);
+    return success(undefined);
+  } catch (err) {
+    return error(`Failed to update partitions: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:getPartitionedMetadata', async (_event, clusterId: string, fullTopicName: string): Promise<IPCResponse<PartitionedTopicMetadata>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    const metadata = await connection.admin.getPartitionedMetadata(fullTopicName);
+    return success(metadata);
+  } catch (err) {
+    return error(`Failed to get partition metadata: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:deleteTopic', async (_event, clusterId: string, fullTopicName: string, force?: boolean): Promise<IPCResponse<void>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    await connection.admin.deleteTopic(fullTopicName, !!force);
+    return success(undefined);
+  } catch (err) {
+    return error(`Failed to delete topic: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:createSubscription', async (_event, clusterId: string, fullTopicName: string, subscription: string, position?: 'earliest' | 'latest'): Promise<IPCResponse<void>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    await connection.admin.createSubscription(fullTopicName, subscription, position || 'latest');
+    return success(undefined);
+  } catch (err) {
+    return error(`Failed to create subscription: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:deleteSubscription', async (_event, clusterId: string, fullTopicName: string, subscription: string, force?: boolean): Promise<IPCResponse<void>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    await connection.admin.deleteSubscription(fullTopicName, subscription, !!force);
+    return success(undefined);
+  } catch (err) {
+    return error(`Failed to delete subscription: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:resetCursor', async (_event, clusterId: string, fullTopicName: string, subscription: string, target: ResetCursorTarget): Promise<IPCResponse<void>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    if (target.type === 'timestamp') {
+      await connection.admin.resetCursorByTime(fullTopicName, subscription, target.timestamp);
+    } else {
+      await connection.admin.resetCursorByMessageId(fullTopicName, subscription, target.messageId);
+    }
+    return success(undefined);
+  } catch (err) {
+    return error(`Failed to reset cursor: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:skipMessages', async (_event, clusterId: string, fullTopicName: string, subscription: string, count: number): Promise<IPCResponse<void>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    await connection.admin.skipMessages(fullTopicName, subscription, count);
+    return success(undefined);
+  } catch (err) {
+    return error(`Failed to skip messages: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:clearBacklog', async (_event, clusterId: string, fullTopicName: string, subscription: string): Promise<IPCResponse<void>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    await connection.admin.clearBacklog(fullTopicName, subscription);
+    return success(undefined);
+  } catch (err) {
+    return error(`Failed to clear backlog: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:expireMessages', async (_event, clusterId: string, fullTopicName: string, subscription: string, expireTimeSeconds: number): Promise<IPCResponse<void>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    await connection.admin.expireMessages(fullTopicName, subscription, expireTimeSeconds);
+    return success(undefined);
+  } catch (err) {
+    return error(`Failed to expire messages: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:getSchema', async (_event, clusterId: string, fullTopicName: string): Promise<IPCResponse<SchemaInfo | null>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    const schema = await connection.admin.getSchema(fullTopicName);
+    return success(schema);
+  } catch (err) {
+    return error(`Failed to get schema: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:getSchemaVersions', async (_event, clusterId: string, fullTopicName: string): Promise<IPCResponse<SchemaInfo[]>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    const schemas = await connection.admin.getSchemaVersions(fullTopicName);
+    // Pick up schema changes right away when the user is looking at them
+    connection.schemaDecoder.clearCache();
+    return success(schemas);
+  } catch (err) {
+    return error(`Failed to get schema versions: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:getNamespacePolicies', async (_event, clusterId: string, namespace: string): Promise<IPCResponse<NamespacePoliciesResult>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    return success(await readNamespacePolicies(connection.admin, namespace));
+  } catch (err) {
+    return error(`Failed to get namespace policies: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:updateNamespacePolicies', async (_event, clusterId: string, namespace: string, changes: NamespacePolicyChanges): Promise<IPCResponse<NamespacePolicyUpdateResult>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    const results = await updateNamespacePolicies(connection.admin, namespace, changes);
+    const failed = results.filter(result => result.error).length;
+    const entry = auditLog.record({
+      clusterId,
+      action: 'namespace.updatePolicies',
+      target: namespace,
+      outcome: failed === 0 ? 'success' : failed === results.length ? 'failure' : 'partial',
+      summary: `Updated ${results.length - failed} of ${results.length} policies: ${results.map(result => result.policy).join(', ')}`,
+      details: { changes, results },
+    });
+
+    return success({ auditId: entry.id, results });
+  } catch (err) {
+    return error(`Failed to update namespace policies: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:getTopicPolicies', async (_event, clusterId: string, fullTopicName: string): Promise<IPCResponse<TopicPoliciesResult>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    return success(await readTopicPolicies(connection.admin, fullTopicName));
+  } catch (err) {
+    return error(`Failed to get topic policies: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:updateTopicPolicy', async (_event, clusterId: string, fullTopicName: string, policy: TopicPolicyKey, value: TopicPolicies[TopicPolicyKey] | null): Promise<IPCResponse<void>> => {
+  const connection = connectedClusters.get(clusterId);
+  if (!connection) {
+    return error(`Cluster ${clusterId} is not connected`);
+  }
+
+  const action = value === null ? 'topic.removePolicy' : 'topic.setPolicy';
+  try {
+    await updateTopicPolicy(connection.admin, fullTopicName, policy, value);
+    auditLog.record({
+      clusterId,
+      action,
+      target: fullTopicName,
+      outcome: 'success',
+      summary: value === null ? `Removed the ${policy} override` : `Set the ${policy} override`,
+      details: { policy, value },
+    });
+    return success(undefined);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    auditLog.record({
+      clusterId,
+      action,
+      target: fullTopicName,
+      outcome: 'failure',
+      summary: `Failed to ${value === null ? 'remove' : 'set'} the ${policy} override: ${message}`,
+      details: { policy, value },
+    });
+    return error(`Failed to update topic policy: ${message}`);
+  }
+});
+
+ipcMain.handle('admin:getPermissions', async (_event, clusterId: string, target: PermissionTarget, name: string): Promise<IPCResponse<PermissionsResult>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    return success(await readPermissions(connection.admin, target, name));
+  } catch (err) {
+    return error(`Failed to get permissions: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('admin:updatePermissions', async (_event, clusterId: string, target: PermissionTarget, name: string, changes: PermissionChanges): Promise<IPCResponse<PermissionUpdateResult>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    const results = await updatePermissions(connection.admin, target, name, changes);
+    const failed = results.filter(result => result.error).length;
+    const entry = auditLog.record({
+      clusterId,
+      action: 'permissions.update',
+      target: name,
+      outcome: failed === 0 ? 'success' : failed === results.length ? 'failure' : 'partial',
+      summary: `Updated ${results.length - failed} of ${results.length} roles on the ${target}: ${results.map(result => result.role).join(', ')}`,
+      details: { target, changes, results },
+    });
+
+    return success({ auditId: entry.id, results });
+  } catch (err) {
+    return error(`Failed to update permissions: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+// ----------------------------------------------------------------------------
+// Stats History
+// ----------------------------------------------------------------------------
+
+const STATS_COMPACT_INTERVAL_MS = 60 * 60 * 1000;
+const MIN_STATS_INTERVAL_SECONDS = 5;
+
+let statsSettings = statsHistory.loadSettings();
+let statsTimer: NodeJS.Timeout | null = null;
+let statsSamplingInProgress = false;
+let statsLastCompactAt = 0;
+
+function isSamePin(a: PinnedTopic, b: PinnedTopic): boolean {
+  return a.adminUrl === b.adminUrl && a.topic === b.topic;
+}
+
+function toStatsSample(stats: TopicStats): StatsSample {
+  return {
+    timestamp: Date.now(),
+    msgRateIn: stats.msgRateIn || 0,
+    msgRateOut: stats.msgRateOut || 0,
+    msgThroughputIn: stats.msgThroughputIn || 0,
+    msgThroughputOut: stats.msgThroughputOut || 0,
+    storageSize: stats.storageSize || 0,
+    backlogs: Object.fromEntries(
+      Object.entries(stats.subscriptions || {}).map(([name, sub]) => [name, sub.msgBacklog || 0])
+    ),
+  };
+}
+
+// Whether each sampled topic is partitioned, by admin client, so periodic sampling makes one stats call per topic
+const partitionedTopicCache = new WeakMap<PulsarAdmin, Map<string, boolean>>();
+
+/**
+ * Get a topic's stats, summed across partitions when it is a partitioned topic
+ */
+async function getAggregateTopicStats(admin: PulsarAdmin, topic: string): Promise<TopicStats> {
+  let cache = partitionedTopicCache.get(admin);
+  if (!cache) {
+    cache = new Map();
+    partitionedTopicCache.set(admin, cache);
+  }
+  let partitioned = cache.get(topic);
+  if (partitioned === undefined) {
+    partitioned = (await admin.getPartitionedMetadata(topic)).partitions > 0;
+    cache.set(topic, partitioned);
+  }
+  try {
+    return (partitioned ? await admin.getPartitionedStats(topic) : await admin.getTopicStats(topic)) as TopicStats;
+  } catch (err) {
+    // The topic may have been deleted and recreated the other way; check again next time
+    cache.delete(topic);
+    throw err;
+  }
+}
+
+/**
+ * Sample one pinned topic through any connected cluster with the same admin URL
+ */
+async function samplePinnedTopic(pin: PinnedTopic): Promise<void> {
+  const clusters = Array.from(connectedClusters.entries()).filter(([, conn]) => conn.config.adminUrl === pin.adminUrl);
+  if (clusters.length === 0) {
+    return;
+  }
+
+  try {
+    const stats = await getAggregateTopicStats(clusters[0][1].admin, pin.topic);
+    const sample = toStatsSample(stats);
+    statsHistory.append(pin, sample);
+    for (const [clusterId] of clusters) {
+      const event: StatsSampleEvent = { clusterId, topic: pin.topic, sample };
+      mainWindow?.webContents.send('stats:sample', event);
+    }
+  } catch (err) {
+    console.warn(`[stats] Failed to sample ${pin.topic}:`, err instanceof Error ? err.message : err);
+  }
+}
+
+async function sampleAllPinnedTopics(): Promise<void> {
+  // Skip a tick rather than overlap when the brokers are slow to answer
+  if (statsSamplingInProgress) {
+    return;
+  }
+  statsSamplingInProgress = true;
+  try {
+    for (const pin of statsSettings.pinned) {
+      await samplePinnedTopic(pin);
+    }
+    if (Date.now() - statsLastCompactAt > STATS_COMPACT_INTERVAL_MS) {
+      statsLastCompactAt = Date.now();
+      for (const pin of statsSettings.pinned) {
+        statsHistory.compact(pin, statsSettings.retentionHours);
+      }
+    }
+  } catch (err) {
+    console.error('[stats] Sampling failed:', err);
+  } finally {
+    statsSamplingInProgress = false;
+  }
+}
+
+function scheduleStatsSampler(): void {
+  if (statsTimer) {
+    clearInterval(statsTimer);
+  }
+  statsTimer = setInterval(sampleAllPinnedTopics, statsSettings.intervalSeconds * 1000);
+}
+
+scheduleStatsSampler();
+
+function pinFor(clusterId: string, topic: string): PinnedTopic {
+  const connection = connectedClusters.get(clusterId);
+  if (!connection) {
+    throw new Error(`Cluster ${clusterId} is not connected`);
+  }
+  return { adminUrl: connection.config.adminUrl, topic };
+}
+
+ipcMain.handle('stats:getSettings', async (): Promise<IPCResponse<StatsHistorySettings>> => {
+  return success(statsSettings);
+});
+
+ipcMain.handle('stats:updateSettings', async (_event, settings: Pick<StatsHistorySettings, 'intervalSeconds' | 'retentionHours'>): Promise<IPCResponse<StatsHistorySettings>> => {
+  try {
+    statsSettings = {
+      ...statsSettings,
+      intervalSeconds: Math.max(MIN_STATS_INTERVAL_SECONDS, Math.round(settings.intervalSeconds)),
+      retentionHours: Math.max(1, Math.round(settings.retentionHours)),
+    };
+    statsHistory.saveSettings(statsSettings);
+    scheduleStatsSampler();
+    return success(statsSettings);
+  } catch (err) {
+    return error(`Failed to update stats settings: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('stats:pin', async (_event, clusterId: string, topic: string): Promise<IPCResponse<void>> => {
+  try {
+    const pin = pinFor(clusterId, topic);
+    if (!statsSettings.pinned.some(p => isSamePin(p, pin))) {
+      statsSettings = { ...statsSettings, pinned: [...statsSettings.pinned, pin] };
+      statsHistory.saveSettings(statsSettings);
+    }
+    // Take the first point now rather than waiting a full interval
+    await samplePinnedTopic(pin);
+    return success(undefined);
+  } catch (err) {
+    return error(`Failed to pin topic: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('stats:unpin', async (_event, clusterId: string, topic: string, clearHistory?: boolean): Promise<IPCResponse<void>> => {
+  try {
+    const pin = pinFor(clusterId, topic);
+    statsSettings = { ...statsSettings, pinned: statsSettings.pinned.filter(p => !isSamePin(p, pin)) };
+    statsHistory.saveSettings(statsSettings);
+    if (clearHistory) {
+      statsHistory.clear(pin);
+    }
+    return success(undefined);
+  } catch (err) {
+    return error(`Failed to unpin topic: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('stats:getHistory', async (_event, clusterId: string, topic: string, since?: number): Promise<IPCResponse<StatsHistoryResult>> => {
+  try {
+    const pin = pinFor(clusterId, topic);
+    return success({
+      pinned: statsSettings.pinned.some(p => isSamePin(p, pin)),
+      samples: statsHistory.load(pin, since),
+    });
+  } catch (err) {
+    return error(`Failed to load stats history: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+// ----------------------------------------------------------------------------
+// Alerting
+// ----------------------------------------------------------------------------
+
+const ALERT_EVALUATION_INTERVAL_MS = 15000;
+const MAX_RECENT_ALERT_EVENTS = 200;
+
+interface AlertRuleState {
+  conditionSince: number | null; // When every condition first held in the current streak
+  firing: AlertEvent | null;
+}
+
+const alertRuleStates = new Map<string, AlertRuleState>();
+const recentAlertEvents: AlertEvent[] = [];
+let alertEventCounter = 0;
+let alertEvaluationInProgress = false;
+
+function formatDuration(seconds: number): string {
+  if (seconds % 3600 === 0 && seconds > 0) return `${seconds / 3600}h`;
+  if (seconds % 60 === 0 && seconds > 0) return `${seconds / 60}m`;
+  return `${seconds}s`;
+}
+
+function raiseAlertEvent(rule: AlertRule, state: AlertEvent['state'], message: string): AlertEvent {
+  const event: AlertEvent = {
+    eventId: `alert_${++alertEventCounter}`,
+    ruleId: rule.ruleId,
+    ruleName: rule.name,
+    topic: rule.topic,
+    subscription: rule.subscription,
+    state,
+    message,
+    timestamp: Date.now(),
+  };
+  recentAlertEvents.unshift(event);
+  recentAlertEvents.splice(MAX_RECENT_ALERT_EVENTS);
+  mainWindow?.webContents.send('alerts:event', event);
+
+  if (rule.notify && Notification.isSupported()) {
+    const notification = new Notification({
+      title: state === 'firing' ? `Alert: ${rule.name}` : `Resolved: ${rule.name}`,
+      body: message,
+    });
+    notification.on('click', () => {
+      if (mainWindow) {
+        if (mainWindow.isMinimized()) mainWindow.restore();
+        mainWindow.focus();
+      }
+    });
+    notification.show();
+  }
+  return event;
+}
+
+async function evaluateAlertRules(): Promise<void> {
+  if (alertEvaluationInProgress) {
+    return;
+  }
+  alertEvaluationInProgress = true;
+  try {
+    const rules = alertRuleStorage.loadRules().filter(rule => rule.enabled);
+    const activeIds = new Set(rules.map(rule => rule.ruleId));
+    for (const ruleId of alertRuleStates.keys()) {
+      if (!activeIds.has(ruleId)) {
+        alertRuleStates.delete(ruleId);
+      }
+    }
+
+    // Fetch each topic's stats once, however many rules watch it
+    const rulesByTopic = new Map<string, AlertRule[]>();
+    for (const rule of rules) {
+      const key = `${rule.adminUrl}\n${rule.topic}`;
+      rulesByTopic.set(key, [...(rulesByTopic.get(key) || []), rule]);
+    }
+
+    for (const topicRules of rulesByTopic.values()) {
+      const { adminUrl, topic } = topicRules[0];
+      const connection = Array.from(connectedClusters.values()).find(conn => conn.config.adminUrl === adminUrl);
+      if (!connection) {
+        continue; // Rules for a disconnected cluster keep their state until it reconnects
+      }
+
+      let stats: TopicStats;
+      try {
+        stats = await getAggregateTopicStats(connection.admin, topic);
+      } catch (err) {
+        console.warn(`[alerts] Failed to get stats for ${topic}:`, err instanceof Error ? err.message : err);
+        continue;
+      }
+
+      const now = Date.now();
+      for (const rule of topicRules) {
+        const state = alertRuleStates.get(rule.ruleId) || { conditionSince: null, firing: null };
+        alertRuleStates.set(rule.ruleId, state);
+        const { matched, observed } = evaluateAlertRule(rule, stats);
+        const scope = rule.subscription ? `${topic} (${rule.subscription})` : topic;
+
+        if (matched) {
+          state.conditionSince ??= now;
+          if (!state.firing && now - state.conditionSince >= rule.forSeconds * 1000) {
+            const held = rule.forSeconds > 0 ? ` for ${formatDuration(rule.forSeconds)}` : '';
+            state.firing = raiseAlertEvent(
+              rule,
+              'firing',
+              `${rule.conditions.map(describeCondition).join(' and ')}${held} on ${scope} (${observed})`
+            );
+          }
+        } else {
+          state.conditionSince = null;
+          if (state.firing) {
+            raiseAlertEvent(rule, 'resolved', `Back to normal on ${scope} (${observed})`);
+            state.firing = null;
+          }
+        }
+      }
+    }
+  } catch (err) {
+    console.error('[alerts] Evaluation failed:', err);
+  } finally {
+    alertEvaluationInProgress = false;
+  }
+}
+
+const alertTimer = setInterval(evaluateAlertRules, ALERT_EVALUATION_INTERVAL_MS);
+
+ipcMain.handle('alerts:listRules', async (_event, clusterId: string, topic?: string): Promise<IPCResponse<AlertRule[]>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+    const rules = alertRuleStorage.loadRules().filter(rule =>
+      rule.adminUrl === connection.config.adminUrl && (!topic || rule.topic === topic)
+    );
+    return success(rules);
+  } catch (err) {
+    return error(`Failed to list alert rules: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('alerts:saveRule', async (_event, clusterId: string, input: AlertRuleInput, ruleId?: string): Promise<IPCResponse<AlertRule>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+    if (input.conditions.length === 0) {
+      return error('An alert rule needs at least one condition');
+    }
+    const rule = alertRuleStorage.saveRule(connection.config.adminUrl, input, ruleId);
+    // Start the edited rule's streak over
+    alertRuleStates.delete(rule.ruleId);
+    return success(rule);
+  } catch (err) {
+    return error(`Failed to save alert rule: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('alerts:deleteRule', async (_event, ruleId: string): Promise<IPCResponse<void>> => {
+  try {
+    alertRuleStorage.deleteRule(ruleId);
+    alertRuleStates.delete(ruleId);
+    return success(undefined);
+  } catch (err) {
+    return error(`Failed to delete alert rule: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('alerts:getStatus', async (): Promise<IPCResponse<AlertStatus>> => {
+  const firing = Array.from(alertRuleStates.values())
+    .map(state => state.firing)
+    .filter((event): event is AlertEvent => event !== null);
+  return success({ firing, recent: recentAlertEvents });
+});
+
+ipcMain.handle('alerts:clearRecent', async (): Promise<IPCResponse<void>> => {
+  recentAlertEvents.length = 0;
+  return success(undefined);
+});
+
+// ----------------------------------------------------------------------------
+// Interactive OAuth
+// ----------------------------------------------------------------------------
+
+const oauthSessions = new Map<string, InteractiveOAuthSession>(); // By cluster ID
+let activeOAuthLogin: AbortController | null = null;
+
+function createOAuthSession(clusterId: string, adminUrl: string, oauth: OAuthConfig): InteractiveOAuthSession {
+  const config = {
+    flow: oauth.type === 'device_code' ? 'device_code' as const : 'authorization_code' as const,
+    clientId: oauth.clientId,
+    clientSecret: oauth.clientSecret || undefined,
+    issuerUrl: oauth.issuerUrl,
+    audience: oauth.audience || undefined,
+    scopes: oauth.scopes,
+  };
+  return new InteractiveOAuthSession(
+    config,
+    oauthSessionStore,
+    InteractiveOAuthSession.storeKeyFor(adminUrl, config),
+    (status) => {
+      const event: OAuthStatusEvent = { clusterId, status };
+      mainWindow?.webContents.send('oauth:status', event);
+    }
+  );
+}
+
+/**
+ * Run the session's login flow; only one login can be in progress at a time
+ */
+async function runOAuthLogin(session: InteractiveOAuthSession): Promise<void> {
+  activeOAuthLogin?.abort();
+  const controller = new AbortController();
+  activeOAuthLogin = controller;
+  try {
+    await session.login({
+      openBrowser: (url) => shell.openExternal(url),
+      onDeviceCode: (prompt: DeviceCodePrompt) => mainWindow?.webContents.send('oauth:deviceCode', prompt),
+      signal: controller.signal,
+    });
+  } finally {
+    if (activeOAuthLogin === controller) {
+      activeOAuthLogin = null;
+    }
+  }
+}
+
+ipcMain.handle('oauth:getStatus', async (_event, clusterId: string): Promise<IPCResponse<OAuthSessionStatus | null>> => {
+  const session = oauthSessions.get(clusterId);
+  return success(session ? session.getStatus() : null);
+});
+
+ipcMain.handle('oauth:login', async (_event, clusterId: string): Promise<IPCResponse<OAuthSessionStatus>> => {
+  try {
+    const session = oauthSessions.get(clusterId);
+    if (!session) {
+      return error(`Cluster ${clusterId} does not use an interactive OAuth login`);
+    }
+    await runOAuthLogin(session);
+    return success(session.getStatus());
+  } catch (err) {
+    return error(`Failed to log in: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('oauth:logout', async (_event, clusterId: string): Promise<IPCResponse<void>> => {
+  try {
+    const session = oauthSessions.get(clusterId);
+    if (!session) {
+      return error(`Cluster ${clusterId} does not use an interactive OAuth login`);
+    }
+    session.logout();
+    return success(undefined);
+  } catch (err) {
+    return error(`Failed to log out: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('oauth:cancelLogin', async (): Promise<IPCResponse<void>> => {
+  activeOAuthLogin?.abort();
+  activeOAuthLogin = null;
+  return success(undefined);
+});
+
+// ----------------------------------------------------------------------------
+// Cluster Diff
+// ----------------------------------------------------------------------------
+
+ipcMain.handle('diff:compare', async (_event, options: ClusterDiffOptions): Promise<IPCResponse<ClusterDiffResult>> => {
+  try {
+    const left = connectedClusters.get(options.leftClusterId);
+    if (!left) {
+      return error(`Cluster ${options.leftClusterId} is not connected`);
+    }
+    const right = connectedClusters.get(options.rightClusterId);
+    if (!right) {
+      return error(`Cluster ${options.rightClusterId} is not connected`);
+    }
+    const labels = {
+      left: left.config.name || left.config.adminUrl,
+      right: right.config.name || right.config.adminUrl,
+    };
+    return success(await diffClusters(left.admin, right.admin, labels, options));
+  } catch (err) {
+    return error(`Failed to compare clusters: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+// ----------------------------------------------------------------------------
+// Policy as Code
+// ----------------------------------------------------------------------------
+
+const POLICY_FILE_FILTERS: Record<PolicyDocumentFormat, Electron.FileFilter[]> = {
+  yaml: [{ name: 'YAML', extensions: ['yaml', 'yml'] }],
+  json: [{ name: 'JSON', extensions: ['json'] }],
+};
+
+ipcMain.handle('policy:export', async (_event, clusterId: string, options: PolicyExportOptions): Promise<IPCResponse<PolicyExportResult | null>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    // Read everything before asking where to save, so a permission error does not leave the user with a dialog for nothing
+    const document = await exportPolicyDocument(connection.admin, options.scope, connection.config.name || connection.config.adminUrl);
+
+    const filters = POLICY_FILE_FILTERS[options.format];
+    const dialogOptions: Electron.SaveDialogOptions = {
+      title: 'Export Configuration',
+      defaultPath: `${document.scope.replace('/', '-')}.${filters[0].extensions[0]}`,
+      filters,
+    };
+    const result = mainWindow
+      ? await dialog.showSaveDialog(mainWindow, dialogOptions)
+      : await dialog.showSaveDialog(dialogOptions);
+    if (result.canceled || !result.filePath) {
+      return success(null);
+    }
+
+    await writePolicyDocument(result.filePath, document, options.format);
+    return success({
+      filePath: result.filePath,
+      namespaces: document.namespaces.length,
+      topics: document.namespaces.reduce((count, namespace) => count + (namespace.topics?.length || 0), 0),
+    });
+  } catch (err) {
+    return error(`Failed to export configuration: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('policy:chooseDocument', async (): Promise<IPCResponse<string | null>> => {
+  try {
+    const dialogOptions: Electron.OpenDialogOptions = {
+      title: 'Apply Configuration From File',
+      properties: ['openFile'],
+      filters: [
+        { name: 'Configuration documents', extensions: ['yaml', 'yml', 'json'] },
+        { name: 'All files', extensions: ['*'] },
+      ],
+    };
+    const result = mainWindow
+      ? await dialog.showOpenDialog(mainWindow, dialogOptions)
+      : await dialog.showOpenDialog(dialogOptions);
+    return success(result.canceled || result.filePaths.length === 0 ? null : result.filePaths[0]);
+  } catch (err) {
+    return error(`Failed to choose file: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('policy:plan', async (_event, clusterId: string, options: PolicyPlanOptions): Promise<IPCResponse<PolicyPlan>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    const document = await readPolicyDocument(options.filePath);
+    const prune = options.prune === true;
+    const { changes, warnings } = await planPolicyDocument(connection.admin, document, prune);
+    return success({
+      clusterId,
+      filePath: options.filePath,
+      scope: document.scope,
+      prune,
+      plannedAt: Date.now(),
+      changes,
+      warnings,
+    });
+  } catch (err) {
+    return error(`Failed to plan configuration: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+// Applies exactly the changes that were previewed; the renderer re-plans if the user wants a fresh comparison
+ipcMain.handle('policy:apply', async (_event, plan: PolicyPlan): Promise<IPCResponse<PolicyApplyResult>> => {
+  try {
+    const connection = connectedClusters.get(plan.clusterId);
+    if (!connection) {
+      return error(`Cluster ${plan.clusterId} is not connected`);
+    }
+
+    const { applied, failed } = await applyPolicyChanges(connection.admin, plan.changes);
+    const entry = auditLog.record({
+      clusterId: plan.clusterId,
+      action: 'policy.apply',
+      target: plan.scope,
+      outcome: !failed ? 'success' : applied === 0 ? 'failure' : 'partial',
+      summary: `Applied ${applied} of ${plan.changes.length} changes from ${path.basename(plan.filePath)}` +
+        (failed ? `; stopped at: ${failed.error}` : ''),
+      details: {
+        filePath: plan.filePath,
+        prune: plan.prune,
+        changes: plan.changes.map(({ value: _value, ...change }, index) => ({
+          ...change,
+          status: index < applied ? 'applied' : failed?.index === index ? 'failed' : 'skipped',
+        })),
+      },
+    });
+
+    return success({ auditId: entry.id, applied, failed });
+  } catch (err) {
+    return error(`Failed to apply configuration: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+// ----------------------------------------------------------------------------
+// Identity and Permissions
+// ----------------------------------------------------------------------------
+
+function numericDateClaim(value: unknown): number | undefined {
+  return typeof value === 'number' ? value * 1000 : undefined;
+}
+
+function audienceClaim(value: unknown): string[] | undefined {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  return Array.isArray(value) ? value.filter((aud): aud is string => typeof aud === 'string') : undefined;
+}
+
+/**
+ * Describe a bearer token; Pulsar authorizes the token's `sub` claim as the role
+ */
+function describeToken(identity: ConnectionIdentity, token: string | undefined): void {
+  if (!token) {
+    identity.note = 'No token is available for this connection';
+    return;
+  }
+  const claims = decodeJwtClaims(token);
+  if (!claims) {
+    identity.note = 'The token is not a JWT, so its role and expiry cannot be read locally';
+    return;
+  }
+  identity.claims = claims;
+  identity.role = typeof claims.sub === 'string' ? claims.sub : undefined;
+  identity.issuer = typeof claims.iss === 'string' ? claims.iss : undefined;
+  identity.audience = audienceClaim(claims.aud);
+  identity.issuedAt = numericDateClaim(claims.iat);
+  identity.expiresAt = numericDateClaim(claims.exp);
+  if (!identity.role) {
+    identity.note = 'The token has no "sub" claim; the broker may be configured to read the role from another claim';
+  }
+}
+
+/**
+ * Describe a client certificate; Pulsar authorizes the certificate's common name as the role
+ */
+function describeCertificate(identity: ConnectionIdentity, certFilePath: string): void {
+  try {
+    const cert = new crypto.X509Certificate(fs.readFileSync(certFilePath));
+    const commonName = cert.subject.split('\n').find(part => part.startsWith('CN='));
+    identity.role = commonName?.slice('CN='.length);
+    identity.certificate = {
+      subject: cert.subject.replace(/\n/g, ', '),
+      issuer: cert.issuer.replace(/\n/g, ', '),
+      validTo: new Date(cert.validTo).getTime(),
+    };
+  } catch (err) {
+    identity.note = `Could not read the client certificate: ${err instanceof Error ? err.message : String(err)}`;
+  }
+}
+
+/**
+ * Whether a granted role covers the connection's role; grants may use a leading or trailing `*`
+ */
+function grantAppliesToRole(grantedRole: string, role: string | undefined): boolean {
+  if (!role) {
+    return false;
+  }
+  if (grantedRole === role || grantedRole === '*') {
+    return true;
+  }
+  if (grantedRole.startsWith('*')) {
+    return role.endsWith(grantedRole.slice(1));
+  }
+  if (grantedRole.endsWith('*')) {
+    return role.startsWith(grantedRole.slice(0, -1));
+  }
+  return false;
+}
+
+function toPermissionScope(
+  scope: PermissionScopeResult['scope'],
+  name: string,
+  permissions: Record<string, string[]>,
+  role: string | undefined
+): PermissionScopeResult {
+  const grants: PermissionGrant[] = Object.entries(permissions)
+    .map(([grantedRole, actions]) => ({ role: grantedRole, actions, appliesToRole: grantAppliesToRole(grantedRole, role) }))
+    .sort((a, b) => a.role.localeCompare(b.role));
+  const effectiveActions = new Set(grants.filter(grant => grant.appliesToRole).flatMap(grant => grant.actions));
+  return { scope, name, grants, effectiveActions: Array.from(effectiveActions).sort() };
+}
+
+async function resolveConnectionIdentity(connection: ClusterConnection): Promise<ConnectionIdentity> {
+  const auth = connection.config.auth;
+  const identity: ConnectionIdentity = { authType: auth?.type || 'none', canListTenants: null };
+
+  if (auth?.type === 'tls') {
+    describeCertificate(identity, auth.tls.certFilePath);
+  } else if (auth?.type === 'token' || auth?.type === 'oauth') {
+    if (auth.type === 'oauth') {
+      identity.oauthFlow = auth.oauth.type;
+    }
+    describeToken(identity, await connection.admin.getBearerToken());
+  }
+
+  identity.canListTenants = await connection.admin.canListAllTenants();
+  return identity;
+}
+
+ipcMain.handle('identity:whoAmI', async (_event, clusterId: string): Promise<IPCResponse<ConnectionIdentity>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+    return success(await resolveConnectionIdentity(connection));
+  } catch (err) {
+    return error(`Failed to resolve identity: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('identity:checkPermissions', async (_event, clusterId: string, namespace: string, fullTopicName?: string): Promise<IPCResponse<PermissionReport>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+    const { role } = await resolveConnectionIdentity(connection);
+    const [tenant] = namespace.split('/');
+    const results: PermissionScopeResult[] = [];
+
+    // Each scope is checked on its own: a role can often read one but not another
+    try {
+      const tenantInfo = await connection.admin.getTenantInfo(tenant);
+      const adminRoles = tenantInfo.adminRoles || [];
+      const scope = toPermissionScope('tenant', tenant, Object.fromEntries(adminRoles.map(adminRole => [adminRole, ['admin']])), role);
+      scope.isAdmin = scope.effectiveActions.includes('admin');
+      results.push(scope);
+    } catch (err) {
+      results.push({ scope: 'tenant', name: tenant, grants: [], effectiveActions: [], error: err instanceof Error ? err.message : String(err) });
+    }
+
+    try {
+      results.push(toPermissionScope('namespace', namespace, await connection.admin.getNamespacePermissions(namespace), role));
+    } catch (err) {
+      results.push({ scope: 'namespace', name: namespace, grants: [], effectiveActions: [], error: err instanceof Error ? err.message : String(err) });
+    }
+
+    if (fullTopicName) {
+      try {
+        results.push(toPermissionScope('topic', fullTopicName, await connection.admin.getTopicPermissions(fullTopicName), role));
+      } catch (err) {
+        results.push({ scope: 'topic', name: fullTopicName, grants: [], effectiveActions: [], error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+
+    return success({ role, results });
+  } catch (err) {
+    return error(`Failed to check permissions: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+// ----------------------------------------------------------------------------
+// Message Operations Handlers
+// ----------------------------------------------------------------------------
+
+ipcMain.handle('messages:browse', async (_event, clusterId: string, options: BrowseMessagesOptions): Promise<IPCResponse<BrowseMessagesResult>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    const maxMessages = options.maxMessages || 10;
+    const timeoutMs = options.timeoutMs || 5000;
+
+    // Create a reader for browsing
+    const reader = await openReaderAt(
+      connection,
+      options.topic,
+      options.startPosition ?? 'earliest',
+      `lightcurve-browse-${Date.now()}`
+    );
+
+    const messages: BrowsedMessage[] = [];
+    let totalRead = 0;
+
+    try {
+      for (let i = 0; i < maxMessages; i++) {
+        const msg = await reader.readNext_timeout(timeoutMs);
+        if (!msg) {
+          break; // Timeout or no more messages
+        }
+
+        totalRead++;
+
+        // Convert message to browsable format
+        const browsedMsg = await toBrowsedMessage(msg, connection.schemaDecoder);
+
+        messages.push(browsedMsg);
+      }
+
+      const hasMore = reader.hasNext();
+
+      // Clean up reader
+      await reader.close();
+
+      const result: BrowseMessagesResult = {
+        messages,
+        totalRead,
+        hasMore,
+      };
+
+      return success(result);
+    } catch (err) {
+      // Make sure to close the reader on error
+      await reader.close().catch(() => {});
+      throw err;
+    }
+  } catch (err) {
+    return error(`Failed to browse messages: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+// Peek messages using Admin API (non-consuming, no native reader)
+ipcMain.handle('messages:peek', async (_event, clusterId: string, options: PeekMessagesOptions): Promise<IPCResponse<PeekMessagesResult>> => {
+  let reader: PulsarReader | null = null;
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    const maxMessages = options.maxMessages ?? 50;
+    const startPosition = options.startPosition ?? 'earliest';
+    const readerName = `lightcurve-peek-${Date.now()}`;
+
+    // Backward pages read forward from an earlier position and stop at the start message
+    let stopBefore: ParsedMessageId | null = null;
+    let hasMore: boolean | undefined;
+    if (options.direction === 'backward') {
+      if (typeof startPosition !== 'object' || startPosition.type !== 'messageId') {
+        return error('Paging backward requires a message ID start position');
+      }
+      stopBefore = parseMessageIdString(startPosition.messageId);
+    }
+
+    // Create a reader at the start position to peek at messages
+    // This doesn't consume messages - they'll still be available to consumers
+    try {
+      if (stopBefore) {
+        const readerTopic = topicForMessageId(options.topic, stopBefore);
+        const internalStats = await connection.admin.getInternalStats(readerTopic);
+        const pageStart = pageStartBefore(internalStats.ledgers, stopBefore, maxMessages);
+        hasMore = pageStart !== null;
+        reader = await connection.client.createReader({
+          topic: readerTopic,
+          readerName,
+          startMessageId: pageStart ? createMessageId(pageStart) : Pulsar.MessageId.earliest(),
+        });
+      } else {
+        reader = await openReaderAt(connection, options.topic, startPosition, readerName, options.inclusive ?? true);
+      }
+
+      const messages: PeekMessage[] = [];
+      let count = 0;
+      let consecutiveNulls = 0;
+      const maxConsecutiveNulls = 3; // Stop after 3 consecutive timeouts
+
+      // Read up to maxMessages, or up to the stop message when paging backward
+      while ((stopBefore || count < maxMessages) && consecutiveNulls < maxConsecutiveNulls) {
+        try {
+          const msg = await reader.readNext_timeout(2000); // 2 second timeout
+          if (!msg) {
+            consecutiveNulls++;
+            continue;
+          }
+
+          consecutiveNulls = 0; // Reset on successful read
+          if (stopBefore && compareMessageIds(parseMessageIdString(msg.messageId), stopBefore) >= 0) {
+            break;
+          }
+          const decoded = await connection.schemaDecoder.decode(msg.topicName || options.topic, msg.data);
+          messages.push(toPeekMessage(msg, decoded));
+          count++;
+        } catch (readErr) {
+          // If read fails, increment null counter
+          console.warn('[peek] Error reading message:', readErr);
+          consecutiveNulls++;
+        }
+      }
+
+      if (stopBefore) {
+        // Batched entries yield several messages each, so trim to the newest page
+        messages.splice(0, Math.max(0, messages.length - maxMessages));
+      } else if (count >= maxMessages) {
+        hasMore = reader.hasNext();
+      } else {
+        hasMore = false;
+      }
+
+      const result: PeekMessagesResult = { messages, hasMore };
+      return success(result);
+    } catch (readerErr) {
+      console.error('[peek] Reader error:', readerErr);
+      return error(`Failed to create reader: ${readerErr instanceof Error ? readerErr.message : String(readerErr)}`);
+    }
+  } catch (err) {
+    return error(`Failed to peek messages: ${err instanceof Error ? err.message : String(err)}`);
+  } finally {
+    // Always close the reader
+    if (reader) {
+      try {
+        await reader.close();
+      } catch (closeErr) {
+        console.warn('[peek] Error closing reader:', closeErr);
+      }
+    }
+  }
+});
+
+// ----------------------------------------------------------------------------
+// Message Search
+// ----------------------------------------------------------------------------
+
+interface ActiveSearch {
+  searchId: string;
+  cancelRequested: boolean;
+}
+
+const activeSearches = new Map<string, ActiveSearch>();
+let searchIdCounter = 0;
+
+// A read that times out this long is treated as the end of the topic
+const SEARCH_READ_TIMEOUT_MS = 2000;
+// Batch matches into progress updates at most this often
+const SEARCH_PROGRESS_INTERVAL_MS = 250;
+
+/**
+ * Count the partitions a reader opened at a start position goes through, so a scan can stop once each has
+ * passed the end of a publish time window; Infinity when that can't be told, so the scan runs to the end
+ */
+async function readerPartitionCount(connection: ClusterConnection, topic: string, position: BrowseStartPosition): Promise<number> {
+  // A reader opened at a message ID only reads that message's partition
+  if (typeof position === 'object' && position.type === 'messageId') {
+    return 1;
+  }
+  try {
+    return Math.max(1, (await connection.admin.getPartitionedMetadata(topic)).partitions);
+  } catch (err) {
+    console.warn('[search] Could not read partition metadata:', err);
+    return Infinity;
+  }
+}
+
+/**
+ * Scan a reader to the end of the topic, pushing matches and progress to the renderer
+ * Stops early once every partition has passed the end of the publish time window
+ */
+async function runSearch(
+  search: ActiveSearch,
+  reader: PulsarReader,
+  filter: MessageFilter,
+  schemaDecoder: SchemaDecoder,
+  options: MessageSearchOptions,
+  partitionCount: number
+): Promise<void> {
+  const maxScanned = options.maxScanned ?? 100000;
+  const maxResults = options.maxResults ?? 500;
+  let scanned = 0;
+  let matched = 0;
+  let pending: PeekMessage[] = [];
+  let lastPublishTimestamp: number | undefined;
+  let lastProgressAt = Date.now();
+  // Publish times only grow within a partition, so each one is done once it passes the window
+  const finishedPartitions = new Set<string>();
+
+  const sendProgress = (update: Partial<MessageSearchProgress> = {}) => {
+    const progress: MessageSearchProgress = {
+      searchId: search.searchId,
+      scanned,
+      matched,
+      matches: pending,
+      lastPublishTimestamp,
+      done: false,
+      ...update,
+    };
+    mainWindow?.webContents.send('messages:searchProgress', progress);
+    pending = [];
+    lastProgressAt = Date.now();
+  };
+
+  try {
+    let stopReason: MessageSearchProgress['stopReason'] = 'end';
+    for (;;) {
+      if (search.cancelRequested) {
+        stopReason = 'cancelled';
+        break;
+      }
+      if (scanned >= maxScanned) {
+        stopReason = 'maxScanned';
+        break;
+      }
+      if (matched >= maxResults) {
+        stopReason = 'maxResults';
+        break;
+      }
+
+      const msg = await reader.readNext_timeout(SEARCH_READ_TIMEOUT_MS);
+      if (!msg) {
+        break;
+      }
+      scanned++;
+      lastPublishTimestamp = msg.publishTimestamp;
+
+      if (filter.pastEnd(msg)) {
+        finishedPartitions.add(msg.topicName || options.topic);
+        if (finishedPartitions.size >= partitionCount) {
+          stopReason = 'timeWindow';
+          break;
+        }
+        continue;
+      }
+
+      // Only decode payloads the criteria look at, plus the matches we send back
+      let decoded: DecodedPayload | undefined;
+      if (filter.needsPayload) {
+        decoded = await schemaDecoder.decode(msg.topicName || options.topic, msg.data);
+      }
+      if (filter.matches(msg, decoded?.text ?? msg.data.toString('utf-8'))) {
+        decoded ??= await schemaDecoder.decode(msg.topicName || options.topic, msg.data);
+        pending.push(toPeekMessage(msg, decoded));
+        matched++;
+      }
+
+      if (Date.now() - lastProgressAt >= SEARCH_PROGRESS_INTERVAL_MS) {
+        sendProgress();
+      }
+    }
+    sendProgress({ done: true, stopReason });
+  } catch (err) {
+    console.error('[search] Scan failed:', err);
+    sendProgress({
+      done: true,
+      stopReason: 'error',
+      error: err instanceof Error ? err.message : String(err),
+    });
+  } finally {
+    await reader.close().catch((closeErr) => console.warn('[search] Error closing reader:', closeErr));
+  }
+}
+
+ipcMain.handle('messages:search', async (_event, clusterId: string, options: MessageSearchOptions): Promise<IPCResponse<string>> => {
+  try {
+    const connection = connectedClusters.get(clusterId);
+    if (!connection) {
+      return error(`Cluster ${clusterId} is not connected`);
+    }
+
+    let filter: MessageFilter;
+    try {
+      filter = compileMessageFilter(options.criteria);
+    } catch (err) {
+      return error(err instanceof Error ? err.message : String(err));
+    }
+
+    // Skip straight to the start of the publish time window when there is one
+    const startPosition: BrowseStartPosition = options.startPosition
+      ?? (options.criteria.publishTimeFrom !== undefined
+        ? { type: 'timestamp', timestamp: options.criteria.publishTimeFrom }
+        : 'earliest');
+
+    const partitionCount = await readerPartitionCount(connection, options.topic, startPosition);
+    const searchId = `search_${++searchIdCounter}`;
+    const reader = await openReaderAt(connection, options.topic, startPosition, `lightcurve-search-${searchIdCounter}`);
+    const search: ActiveSearch = { searchId, cancelRequested: false };
+    activeSearches.set(searchId, search);
+
+    // Scan in the background; results stream back through messages:searchProgress
+    runSearch(search, reader, filter, connection.schemaDecoder, options, partitionCount)
+      .finally(() => activeSearches.delete(searchId));
+
+    return success(searchId);
+  } catch (err) {
+    return error(`Failed to start search: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+ipcMain.handle('messages:cancelSearch', async (_event, searchId: string): Promise<IPCResponse<void>> => {
+  const search = activeSearches.get(searchId);
+  if (search) {
+    search.cancelRequested = true;
+  }
+  return success(undefined);
+});
+
+// ----------------------------------------------------------------------------
+// Message Export
+// ----------------------------------------------------------------------------
+
+const EXPORT_FILE_FILTERS: Record<MessageExportFormat, Electron.FileFilter[]> = {
+  jsonl: [{ name: 'JSON Lines', extensions: ['jsonl'] }],
+  csv: [{ name: 'CSV', extensions: ['csv'] }],
+  raw: [{ name: 'LightCurve raw archive', extensions: ['lcraw'] }],
+};
+
+/**
+ * Ask where to save an export; returns null when the user cancels
+ */
+async function chooseExportPath(options: MessageExportOptions): Promise<string | null> {
+  const filters = EXPORT_FILE_FILTERS[options.format];
+  const dialogOptions: Electron.SaveDialogOptions = {
+    title: 'Export Messages',
+    defaultPath: `${options.defaultFileName || 'messages'}.${filters[0].extensions[0]}`,
+    filters,
+  };
+  const result = mainWindow
+    ? await dialog.showSaveDialog(mainWindow, dialogOptions)
+    : await dialog.showSaveDialog(dialogOptions);
+  return result.canceled || !result.filePath ? null : result.filePath;
+}
+
+// Export messages the renderer already holds (selection, search results, consumer log)
+ipcMain.handle('messages:export', async (_event, messages: BrowsedMessage[], options: MessageExportOptions): Promise<IPCResponse<MessageExportResult | null>> => {
+  try {
+    const filePath = await chooseExportPath(options);
+    if (!filePath) {
+      return success(null);
+    }
+
+    const writer = createExportWriter(filePath, options.format, options.columns);
+    try {
+      for (const message of messages) {
+        await writer.write(message);
+      }
+    } finally {
+      await writer.close();
+    }
+
+    return success({ filePath, count: messages.length });
+  } catch (err) {
+    return error(`Failed to export messages: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
+
+interface ActiveExport {
+  exportId: string;
+  cancelRequested: boolean;
+}
+
+const activeExports = new Map<string, ActiveExport>();
+let exportIdCounter = 0;
+
+/**
+ * Stream a reader into an export file, pushing progress to the renderer
+ * Stops at the message limit, the end of the topic, or once every partition has passed the publish time window
+ */
+async function runTopicExport(
+  active: ActiveExport,
+  reader: PulsarReader,
+  writer: MessageExportWriter,
+  filter: MessageFilter | null,
+  schemaDecoder: SchemaDecoder | undefined,
+  options: TopicExportOptions,
+  partitionCount: number,
+  filePath: string
+): Promise<void> {
+  const maxMessages = options.maxMessages ?? 10000;
+  let scanned = 0;
+  let count = 0;
+  let lastProgressAt = Date.now();
+  const finishedPartitions = new Set<string>();
+
+  const sendProgress = (update: Partial<TopicExportProgress> = {}) => {
+    const progress: TopicExportProgress = { exportId: active.exportId, scanned, exported: count, done: false, ...update };
+    mainWindow?.webContents.send('messages:exportProgress', progress);
+    lastProgressAt = Date.now();
+  };
+
+  try {
+    try {
+      while (count < maxMessages && !active.cancelRequested) {
+        const msg = await reader.readNext_timeout(SEARCH_READ_TIMEOUT_MS);
+        if (!msg) {
+          break;
+        }
+        scanned++;
+        if (filter?.pastEnd(msg)) {
+          finishedPartitions.add(msg.topicName || options.topic);
+          if (finishedPartitions.size >= partitionCount) {
+            break;
+          }
+          continue;
+        }
+        const message = await toBrowsedMessage(msg, schemaDecoder);
+        if (!filter || filter.matches(msg, message.decodedData ?? msg.data.toString('utf-8'))) {
+          await writer.write(message);
+          count++;
+        }
+        if (Date.now() - lastProgressAt >= SEARCH_PROGRESS_INTERVAL_MS) {
+          sendProgress();
+        }
+      }
+    } finally {
+      await writer.close();
+    }
+    sendProgress({ done: true, result: { filePath, count, ...(active.cancelRequested ? { cancelled: true } : {}) } });
   } catch (err) {
-    return error(`Failed to list clusters: ${err instanceof Error ? err.message : String(err)}`);
+    console.error('[export] Export failed:', err);
+    sendProgress({ done: true, error: `Failed to export topic: ${err instanceof Error ? err.message : String(err)}` });
+  } finally {
+    await reader.close().catch((closeErr) => console.warn('[export] Error closing reader:', closeErr));
   }
-});
+}
 
-ipcMain.handle('admin:listTenants', async (_event, clusterId: string): Promise<IPCResponse<string[]>> => {
+// Export straight from a reader so large topics stream to disk
+// Resolves to the export ID once the file is chosen (null when the dialog is cancelled); progress follows as events
+ipcMain.handle('messages:exportTopic', async (_event, clusterId: string, options: TopicExportOptions): Promise<IPCResponse<string | null>> => {
   try {
     const connection = connectedClusters.get(clusterId);
     if (!connection) {
       return error(`Cluster ${clusterId} is not connected`);
     }
 
-    let tenants = await connection.admin.listTenants();
-    
-    // If we got no tenants, try discovering accessible ones
-    if (tenants.length === 0) {
-      console.log('[Main] No tenants returned, attempting discovery...');
-      const discovered = await connection.admin.discoverAccessibleTenants();
-      if (discovered.length > 0) {
-        console.log('[Main] Discovered accessible tenants:', discovered);
-        tenants = discovered;
+    let filter: MessageFilter | null = null;
+    if (options.criteria) {
+      try {
+        filter = compileMessageFilter(options.criteria);
+      } catch (err) {
+        return error(err instanceof Error ? err.message : String(err));
       }
     }
-    
-    return success(tenants);
+
+    const filePath = await chooseExportPath(options);
+    if (!filePath) {
+      return success(null);
+    }
+
+    const startPosition = options.startPosition ?? 'earliest';
+    const partitionCount = filter ? await readerPartitionCount(connection, options.topic, startPosition) : Infinity;
+    const exportId = `export_${++exportIdCounter}`;
+    const reader = await openReaderAt(connection, options.topic, startPosition, `lightcurve-export-${exportIdCounter}`);
+
+    // Raw archives keep the original bytes, so only decode when the format or the filter reads payloads
+    const schemaDecoder = options.format === 'raw' && !filter?.needsPayload ? undefined : connection.schemaDecoder;
+    const writer = createExportWriter(filePath, options.format, options.columns);
+
+    const active: ActiveExport = { exportId, cancelRequested: false };
+    activeExports.set(exportId, active);
+    runTopicExport(active, reader, writer, filter, schemaDecoder, options, partitionCount, filePath)
+      .finally(() => activeExports.delete(exportId));
+
+    return success(exportId);
   } catch (err) {
-    return error(`Failed to list tenants: ${err instanceof Error ? err.message : String(err)}`);
+    return error(`Failed to export topic: ${err instanceof Error ? err.message : String(err)}`);
   }
 });
 
-ipcMain.handle('admin:listNamespaces', async (_event, clusterId: string, tenant: string): Promise<IPCResponse<string[]>> => {
+ipcMain.handle('messages:cancelExport', async (_event, exportId: string): Promise<IPCResponse<void>> => {
+  const active = activeExports.get(exportId);
+  if (active) {
+    active.cancelRequested = true;
+  }
+  return success(undefined);
+});
+
+// ----------------------------------------------------------------------------
+// Message Replay
+// ----------------------------------------------------------------------------
+
+interface ActiveReplay {
+  replayId: string;
+  cancelRequested: boolean;
+}
+
+const activeReplays = new Map<string, ActiveReplay>();
+let replayIdCounter = 0;
+
+const REPLAY_PROGRESS_INTERVAL_MS = 250;
+
+/**
+ * Wait until a deadline, waking periodically so a cancel takes effect promptly
+ */
+async function waitUntil(deadline: number, replay: ActiveReplay): Promise<void> {
+  while (!replay.cancelRequested) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, Math.min(remaining, 250)));
+  }
+}
+
+/**
+ * Publish every message in a file, pushing progress to the renderer
+ */
+async function runReplay(
+  replay: ActiveReplay,
+  file: MessageFileReader,
+  connection: ClusterConnection,
+  options: ReplayOptions
+): Promise<void> {
+  const progress: ReplayProgress = {
+    replayId: replay.replayId,
+    read: 0,
+    published: 0,
+    failed: 0,
+    bytesRead: 0,
+    totalBytes: file.totalBytes,
+    done: false,
+  };
+  let lastProgressAt = 0;
+  const sendProgress = (force = false) => {
+    if (!force && Date.now() - lastProgressAt < REPLAY_PROGRESS_INTERVAL_MS) {
+      return;
+    }
+    progress.bytesRead = file.bytesRead();
+    mainWindow?.webContents.send('messages:replayProgress', { ...progress });
+    lastProgressAt = Date.now();
+  };
+
+  let producer: PulsarProducer | null = null;
   try {
-    const connection = connectedClusters.get(clusterId);
-    if (!connection) {
-      return error(`Cluster ${clusterId} is not connected`);
+    if (!options.dryRun) {
+      producer = await connection.client.createProducer(options.topic, {
+        producerName: `lightcurve-replay-${Date.now()}`,
+      });
     }
 
-    const namespaces = await connection.admin.listNamespaces(tenant);
-    return success(namespaces);
+    const minIntervalMs = options.rateLimit && options.rateLimit > 0 ? 1000 / options.rateLimit : 0;
+    const startedAt = Date.now();
+    let firstPublishTimestamp: number | undefined;
+    let nextSendAt = startedAt;
+
+    for await (const message of file.messages()) {
+      if (replay.cancelRequested) {
+        break;
+      }
+      progress.read++;
+
+      // Original timing offsets each send by its publish time relative to the first message;
+      // a rate limit can only slow that down further
+      let sendAt = nextSendAt;
+      if (options.originalTiming && message.publishTimestamp) {
+        firstPublishTimestamp ??= message.publishTimestamp;
+        sendAt = Math.max(sendAt, startedAt + (message.publishTimestamp - firstPublishTimestamp));
+      }
+      await waitUntil(sendAt, replay);
+      if (replay.cancelRequested) {
+        break;
+      }
+      nextSendAt = Math.max(sendAt, Date.now()) + minIntervalMs;
+
+      if (producer) {
+        try {
+          await producer.send({
+            data: message.data,
+            properties: message.properties,
+            partitionKey: message.partitionKey,
+            eventTimestamp: message.eventTimestamp,
+          });
+          progress.published++;
+        } catch (err) {
+          progress.failed++;
+          progress.error = err instanceof Error ? err.message : String(err);
+        }
+      }
+      sendProgress();
+    }
+
+    if (producer) {
+      await producer.flush();
+    }
+    progress.cancelled = replay.cancelRequested;
   } catch (err) {
-    return error(`Failed to list namespaces: ${err instanceof Error ? err.message : String(err)}`);
+    console.error('[replay] Replay failed:', err);
+    progress.error = err instanceof Error ? err.message : String(err);
+  } finally {
+    file.close();
+    if (producer) {
+      await producer.close().catch((closeErr) => console.warn('[replay] Error closing producer:', closeErr));
+    }
+    progress.done = true;
+    sendProgress(true);
   }
-});
+}
 
-ipcMain.handle('admin:listTopics', async (_event, clusterId: string, tenant: string, namespace: string): Promise<IPCResponse<string[]>> => {
+ipcMain.handle('messages:chooseReplayFile', async (): Promise<IPCResponse<string | null>> => {
   try {
-    const connection = connectedClusters.get(clusterId);
-    if (!connection) {
-      return error(`Cluster ${clusterId} is not connected`);
-    }
-
-    const topics = await connection.admin.listTopics(tenant, namespace);
-    return success(topics);
+    const dialogOptions: Electron.OpenDialogOptions = {
+      title: 'Replay Messages From File',
+      properties: ['openFile'],
+      filters: [
+        { name: 'Message exports', extensions: ['jsonl', 'lcraw'] },
+        { name: 'All files', extensions: ['*'] },
+      ],
+    };
+    const result = mainWindow
+      ? await dialog.showOpenDialog(mainWindow, dialogOptions)
+      : await dialog.showOpenDialog(dialogOptions);
+    return success(result.canceled || result.filePaths.length === 0 ? null : result.filePaths[0]);
   } catch (err) {
-    return error(`Failed to list topics: ${err instanceof Error ? err.message : String(err)}`);
+    return error(`Failed to choose file: ${err instanceof Error ? err.message : String(err)}`);
   }
 });
 
-ipcMain.handle('admin:getTopicStats', async (_event, clusterId: string, fullTopicName: string): Promise<IPCResponse<TopicStats>> => {
+ipcMain.handle('messages:replay', async (_event, clusterId: string, options: ReplayOptions): Promise<IPCResponse<string>> => {
   try {
     const connection = connectedClusters.get(clusterId);
     if (!connection) {
       return error(`Cluster ${clusterId} is not connected`);
     }
 
-    const stats = await connection.admin.getTopicStats(fullTopicName);
-    return success(stats as TopicStats);
+    const file = await openMessageFile(options.filePath);
+    const replayId = `replay_${++replayIdCounter}`;
+    const replay: ActiveReplay = { replayId, cancelRequested: false };
+    activeReplays.set(replayId, replay);
+
+    // Publish in the background; progress streams back through messages:replayProgress
+    runReplay(replay, file, connection, options)
+      .finally(() => activeReplays.delete(replayId));
+
+    return success(replayId);
   } catch (err) {
-    return error(`Failed to get topic stats: ${err instanceof Error ? err.message : String(err)}`);
+    return error(`Failed to start replay: ${err instanceof Error ? err.message : String(err)}`);
   }
 });
 
-ipcMain.handle('admin:listSubscriptions', async (_event, clusterId: string, fullTopicName: string): Promise<IPCResponse<string[]>> => {
+ipcMain.handle('messages:cancelReplay', async (_event, replayId: string): Promise<IPCResponse<void>> => {
+  const replay = activeReplays.get(replayId);
+  if (replay) {
+    replay.cancelRequested = true;
+  }
+  return success(undefined);
+});
+
+ipcMain.handle('messages:send', async (_event, clusterId: string, topic: string, payload: string, key?: string, properties?: Record<string, string>): Promise<IPCResponse<string>> => {
   try {
     const connection = connectedClusters.get(clusterId);
     if (!connection) {
       return error(`Cluster ${clusterId} is not connected`);
     }
 
-    const subscriptions = await connection.admin.listSubscriptions(fullTopicName);
-    return success(subscriptions);
+    // Create a temporary producer for this message
+    const producer = await connection.client.createProducer(topic, {
+      producerName: `lightcurve-temp-${Date.now()}`,
+    });
+
+    try {
+      const data = Buffer.from(payload, 'utf-8');
+      const messageId = await producer.send({
+        data,
+        properties,
+        partitionKey: key,
+      });
+
+      await producer.close();
+      return success(messageId.toString());
+    } catch (err) {
+      await producer.close().catch(() => {});
+      throw err;
+    }
   } catch (err) {
-    return error(`Failed to list subscriptions: ${err instanceof Error ? err.message : String(err)}`);
+    return error(`Failed to send message: ${err instanceof Error ? err.message : String(err)}`);
   }
 });
 
 // ----------------------------------------------------------------------------
-// Message Operations Handlers
+// Dead-Letter Queue Workbench
 // ----------------------------------------------------------------------------
 
-ipcMain.handle('messages:browse', async (_event, clusterId: string, options: BrowseMessagesOptions): Promise<IPCResponse<BrowseMessagesResult>> => {
+// Properties the client's dead-letter and retry-letter policies stamp on each message
+const DLQ_REAL_TOPIC_PROPERTY = 'REAL_TOPIC';
+const DLQ_ORIGIN_MESSAGE_ID_PROPERTY = 'ORIGIN_MESSAGE_ID';
+const DLQ_RECONSUME_TIMES_PROPERTY = 'RECONSUMETIMES';
+
+const DLQ_RECEIVE_TIMEOUT_MS = 2000;
+const DLQ_MAX_MESSAGES = 1000;
+
+// Received messages stay unacknowledged, and so held back from other consumers
+// of the subscription, until they are re-driven or the session closes
+interface DlqWorkbenchSession {
+  sessionId: string;
+  clusterId: string;
+  topic: string;
+  subscription: string;
+  consumer: PulsarConsumer;
+  pending: Map<string, Buffer>; // Received but not yet acknowledged, to the serialized native ID to acknowledge with
+  published: Map<string, string>; // Re-published but not yet acknowledged, to the published ID; never published twice
+}
+
+const dlqSessions = new Map<string, DlqWorkbenchSession>();
+let dlqSessionIdCounter = 0;
+
+async function toDlqMessage(msg: PulsarMessage, schemaDecoder: SchemaDecoder): Promise<DlqMessage> {
+  const reconsumeTimes = Number(msg.properties[DLQ_RECONSUME_TIMES_PROPERTY]);
+  return {
+    ...(await toBrowsedMessage(msg, schemaDecoder)),
+    redeliveryCount: msg.redeliveryCount,
+    realTopic: msg.properties[DLQ_REAL_TOPIC_PROPERTY] || undefined,
+    originMessageId: msg.properties[DLQ_ORIGIN_MESSAGE_ID_PROPERTY] || undefined,
+    reconsumeTimes: Number.isFinite(reconsumeTimes) && msg.properties[DLQ_RECONSUME_TIMES_PROPERTY] ? reconsumeTimes : undefined,
+  };
+}
+
+async function closeDlqSession(session: DlqWorkbenchSession): Promise<void> {
+  dlqSessions.delete(session.sessionId);
+  // Closing redelivers everything still pending to the subscription's other consumers
+  await session.consumer.close().catch((closeErr) => console.warn('[dlq] Error closing consumer:', closeErr));
+}
+
+ipcMain.handle('dlq:open', async (_event, clusterId: string, options: DlqOpenOptions): Promise<IPCResponse<DlqSession>> => {
   try {
     const connection = connectedClusters.get(clusterId);
     if (!connection) {
       return error(`Cluster ${clusterId} is not connected`);
     }
 
-    const maxMessages = options.maxMessages || 10;
-    const timeoutMs = options.timeoutMs || 5000;
-    const startMessageId = options.startPosition === 'latest' 
-      ? Pulsar.MessageId.latest() 
-      : Pulsar.MessageId.earliest();
-
-    // Create a reader for browsing
-    const reader = await connection.client.createReader({
+    const maxMessages = Math.min(Math.max(options.maxMessages ?? 100, 1), DLQ_MAX_MESSAGES);
+    // Shared so the workbench can attach alongside any consumers already draining the DLQ
+    const consumer = await connection.client.createConsumer({
       topic: options.topic,
-      startMessageId,
+      subscription: options.subscription,
+      subscriptionType: 'Shared',
+      receiverQueueSize: maxMessages,
+      consumerName: `lightcurve-dlq-${Date.now()}`,
     });
 
-    const messages: BrowsedMessage[] = [];
-    let totalRead = 0;
+    const sessionId = `dlq_${++dlqSessionIdCounter}`;
+    const session: DlqWorkbenchSession = {
+      sessionId,
+      clusterId,
+      topic: options.topic,
+      subscription: options.subscription,
+      consumer,
+      pending: new Map(),
+      published: new Map(),
+    };
+    dlqSessions.set(sessionId, session);
 
+    const messages: DlqMessage[] = [];
     try {
-      for (let i = 0; i < maxMessages; i++) {
-        const msg = await reader.readNext_timeout(timeoutMs);
+      while (messages.length < maxMessages) {
+        const msg = await consumer.receive_timeout(DLQ_RECEIVE_TIMEOUT_MS);
         if (!msg) {
-          break; // Timeout or no more messages
+          break;
         }
-
-        totalRead++;
-
-        // Convert message to browsable format
-        const browsedMsg: BrowsedMessage = {
-          messageId: msg.messageId.toString(),
-          data: msg.data.toString('utf-8'), // Try UTF-8, could also use base64
-          properties: msg.properties,
-          publishTimestamp: msg.publishTimestamp,
-          eventTimestamp: msg.eventTimestamp,
-          partitionKey: msg.partitionKey,
-          topicName: msg.topicName,
-        };
-
-        messages.push(browsedMsg);
+        session.pending.set(msg.messageId, msg.serializedMessageId);
+        messages.push(await toDlqMessage(msg, connection.schemaDecoder));
       }
-
-      const hasMore = reader.hasNext();
-
-      // Clean up reader
-      await reader.close();
-
-      const result: BrowseMessagesResult = {
-        messages,
-        totalRead,
-        hasMore,
-      };
-
-      return success(result);
     } catch (err) {
-      // Make sure to close the reader on error
-      await reader.close().catch(() => {});
+      await closeDlqSession(session);
       throw err;
     }
+
+    return success({ sessionId, messages });
   } catch (err) {
-    return error(`Failed to browse messages: ${err instanceof Error ? err.message : String(err)}`);
+    return error(`Failed to open DLQ: ${err instanceof Error ? err.message : String(err)}`);
   }
 });
 
-// Peek messages using Admin API (non-consuming, no native reader)
-ipcMain.handle('messages:peek', async (_event, clusterId: string, options: PeekMessagesOptions): Promise<IPCResponse<PeekMessagesResult>> => {
-  let reader: PulsarReader | null = null;
+// Re-publish and acknowledge as one audited operation; a message is only acknowledged once its re-publish succeeded
+ipcMain.handle('dlq:redrive', async (_event, sessionId: string, options: DlqRedriveOptions): Promise<IPCResponse<DlqRedriveResult>> => {
   try {
-    const connection = connectedClusters.get(clusterId);
+    const session = dlqSessions.get(sessionId);
+    if (!session) {
+      return error(`DLQ session ${sessionId} not found`);
+    }
+    const connection = connectedClusters.get(session.clusterId);
     if (!connection) {
-      return error(`Cluster ${clusterId} is not connected`);
+      return error(`Cluster ${session.clusterId} is not connected`);
     }
 
-    const maxMessages = options.maxMessages ?? 50;
-    
-    // Create a reader at the beginning of the topic to peek at messages
-    // This doesn't consume messages - they'll still be available to consumers
-    try {
-      reader = await connection.client.createReader({
-        topic: options.topic,
-        readerName: `lightcurve-peek-${Date.now()}`,
-        startMessageId: (Pulsar as any).MessageId.earliest(),
-      });
-
-      const messages: any[] = [];
-      let count = 0;
-      let consecutiveNulls = 0;
-      const maxConsecutiveNulls = 3; // Stop after 3 consecutive timeouts
+    const unknown = options.items.find(item => !session.pending.has(item.messageId));
+    if (unknown) {
+      return error(`Message ${unknown.messageId} is not pending in this DLQ session`);
+    }
 
-      // Read up to maxMessages
-      while (count < maxMessages && consecutiveNulls < maxConsecutiveNulls) {
+    const producersByTopic = new Map<string, PulsarProducer>();
+    const results: DlqRedriveItemResult[] = [];
+    try {
+      for (const item of options.items) {
+        const result: DlqRedriveItemResult = {
+          messageId: item.messageId,
+          targetTopic: item.targetTopic,
+          acknowledged: false,
+        };
+        results.push(result);
         try {
-          const msg = await reader.readNext_timeout(2000); // 2 second timeout
-          if (!msg) {
-            consecutiveNulls++;
-            continue;
+          // A retry after a failed acknowledgement only acknowledges, so the target never gets a duplicate
+          const previous = session.published.get(item.messageId);
+          if (previous) {
+            result.publishedMessageId = previous;
+            result.previouslyPublished = true;
+          } else {
+            let producer = producersByTopic.get(item.targetTopic);
+            if (!producer) {
+              producer = await connection.client.createProducer(item.targetTopic, {
+                producerName: `lightcurve-redrive-${Date.now()}`,
+              });
+              producersByTopic.set(item.targetTopic, producer);
+            }
+            const published = await producer.send({
+              data: decodePayload(item.data, item.encoding),
+              properties: item.properties,
+              partitionKey: item.partitionKey,
+              eventTimestamp: item.eventTimestamp,
+            });
+            result.publishedMessageId = published.toString();
+            session.published.set(item.messageId, result.publishedMessageId);
           }
 
-          consecutiveNulls = 0; // Reset on successful read
-          const payload = typeof msg.data === 'string' ? msg.data : msg.data?.toString('utf-8') || '';
-          messages.push({
-            messageId: msg.messageId || `msg-${count}`,
-            payload,
-            properties: msg.properties || {},
-            publishTimestamp: msg.publishTimestamp || Date.now(),
-            eventTimestamp: msg.eventTimestamp || undefined,
-          });
-          count++;
-        } catch (readErr) {
-          // If read fails, increment null counter
-          console.warn('[peek] Error reading message:', readErr);
-          consecutiveNulls++;
+          if (options.acknowledge) {
+            // Acknowledge with the ID as received; the display string can't be turned back into it reliably
+            const receivedId = session.pending.get(item.messageId);
+            if (!receivedId) {
+              throw new Error('The message is no longer pending in this DLQ session');
+            }
+            await session.consumer.acknowledgeById(Pulsar.MessageId.deserialize(receivedId));
+            session.pending.delete(item.messageId);
+            session.published.delete(item.messageId);
+            result.acknowledged = true;
+          }
+        } catch (err) {
+          result.error = err instanceof Error ? err.message : String(err);
         }
       }
-
-      const result: PeekMessagesResult = { messages };
-      return success(result);
-    } catch (readerErr) {
-      console.error('[peek] Reader error:', readerErr);
-      return error(`Failed to create reader: ${readerErr instanceof Error ? readerErr.message : String(readerErr)}`);
-    }
-  } catch (err) {
-    return error(`Failed to peek messages: ${err instanceof Error ? err.message : String(err)}`);
-  } finally {
-    // Always close the reader
-    if (reader) {
-      try {
-        await reader.close();
-      } catch (closeErr) {
-        console.warn('[peek] Error closing reader:', closeErr);
+    } finally {
+      for (const [topic, producer] of producersByTopic) {
+        await producer.close().catch((closeErr) => console.warn(`[dlq] Error closing producer for ${topic}:`, closeErr));
       }
     }
-  }
-});
-
-ipcMain.handle('messages:send', async (_event, clusterId: string, topic: string, payload: string, key?: string, properties?: Record<string, string>): Promise<IPCResponse<string>> => {
-  try {
-    const connection = connectedClusters.get(clusterId);
-    if (!connection) {
-      return error(`Cluster ${clusterId} is not connected`);
-    }
 
-    // Create a temporary producer for this message
-    const producer = await connection.client.createProducer(topic, {
-      producerName: `lightcurve-temp-${Date.now()}`,
+    const failed = results.filter(r => r.error).length;
+    const unacknowledged = results.filter(r => r.error && r.publishedMessageId).length;
+    const entry = auditLog.record({
+      clusterId: session.clusterId,
+      action: 'dlq.redrive',
+      target: session.topic,
+      outcome: failed === 0 ? 'success' : failed === results.length ? 'failure' : 'partial',
+      summary: `Re-drove ${results.length - failed} of ${results.length} messages from ${session.subscription}` +
+        (options.acknowledge ? ' and acknowledged them' : ' without acknowledging') +
+        (unacknowledged > 0 ? `; ${unacknowledged} published but not acknowledged` : ''),
+      details: {
+        subscription: session.subscription,
+        acknowledge: options.acknowledge,
+        messages: results.map((r, i) => ({ ...r, edited: options.items[i].edited })),
+      },
     });
 
-    try {
-      const data = Buffer.from(payload, 'utf-8');
-      const messageId = await producer.send({
-        data,
-        properties,
-        partitionKey: key,
-      });
+    return success({ auditId: entry.id, results });
+  } catch (err) {
+    return error(`Failed to re-drive messages: ${err instanceof Error ? err.message : String(err)}`);
+  }
+});
 
-      await producer.close();
-      return success(messageId.toString());
-    } catch (err) {
-      await producer.close().catch(() => {});
-      throw err;
-    }
+ipcMain.handle('dlq:close', async (_event, sessionId: string): Promise<IPCResponse<void>> => {
+  const session = dlqSessions.get(sessionId);
+  if (session) {
+    await closeDlqSession(session);
+  }
+  return success(undefined);
+});
+
+ipcMain.handle('audit:list', async (_event, limit?: number, action?: string): Promise<IPCResponse<AuditEntry[]>> => {
+  try {
+    return success(auditLog.list(limit, action));
   } catch (err) {
-    return error(`Failed to send message: ${err instanceof Error ? err.message : String(err)}`);
+    return error(`Failed to load audit log: ${err instanceof Error ? err.message : String(err)}`);
   }
 });
 
 // Streaming consumer management
 interface StreamingConsumer {
   consumerId: string;
+  clusterId: string;
+  topic: string;
+  subscription: string;
+  subscriptionType: SubscriptionType;
   consumer: any;
+  schemaDecoder: SchemaDecoder;
   paused: boolean;
   stopRequested: boolean;
   receiveLoop: Promise<void> | null;
+  reconnectPending: boolean; // A reconnect after a broker outage failed and is retried on the next health check
 }
 
 const streamingConsumers = new Map<string, StreamingConsumer>();
 const readers = new Map<string, PulsarReader>();
 
-ipcMain.handle('messages:startConsumer', async (_event, clusterId: string, topic: string, subscription: string, subscriptionType?: string): Promise<IPCResponse<string>> => {
+ipcMain.handle('messages:startConsumer', async (_event, clusterId: string, topic: string, subscription: string, subscriptionType?: SubscriptionType): Promise<IPCResponse<string>> => {
   try {
     const connection = connectedClusters.get(clusterId);
     if (!connection) {
@@ -657,16 +3170,22 @@ ipcMain.handle('messages:startConsumer', async (_event, clusterId: string, topic
     const consumer = await connection.client.createConsumer({
       topic,
       subscription,
-      subscriptionType: (subscriptionType as any) || 'Exclusive',
+      subscriptionType: subscriptionType || 'Exclusive',
     });
 
     const consumerId = `streaming_consumer_${++consumerIdCounter}`;
     const streamingConsumer: StreamingConsumer = {
       consumerId,
+      clusterId,
+      topic,
+      subscription,
+      subscriptionType: subscriptionType || 'Exclusive',
       consumer,
+      schemaDecoder: connection.schemaDecoder,
       paused: false,
       stopRequested: false,
       receiveLoop: null,
+      reconnectPending: false,
     };
 
     streamingConsumers.set(consumerId, streamingConsumer);
@@ -733,17 +3252,9 @@ async function startConsumerLoop(streamingConsumer: StreamingConsumer): Promise<
       
       if (msg && mainWindow && !streamingConsumer.stopRequested) {
         // Send message to renderer
-        const browsedMsg: BrowsedMessage = {
-          messageId: msg.messageId.toString(),
-          data: msg.data.toString('utf-8'),
-          properties: msg.properties,
-          publishTimestamp: msg.publishTimestamp,
-          eventTimestamp: msg.eventTimestamp,
-          partitionKey: msg.partitionKey,
-          topicName: msg.topicName,
-        };
+        const browsedMsg = await toBrowsedMessage(msg, streamingConsumer.schemaDecoder);
 
-        mainWindow.webContents.send('messages:received', {
+        mainWindow?.webContents.send('messages:received', {
           consumerId: streamingConsumer.consumerId,
           message: browsedMsg,
         });
@@ -792,7 +3303,7 @@ ipcMain.handle('producer:send', async (_event, producerId: string, message: Send
       return error(`Producer ${producerId} not found`);
     }
 
-    const data = Buffer.from(message.data, 'utf-8');
+    const data = decodePayload(message.data, message.encoding);
     const messageId = await producer.send({
       data,
       properties: message.properties,
@@ -863,17 +3374,7 @@ ipcMain.handle('consumer:receive', async (_event, consumerId: string, timeoutMs?
       return error('No message received within timeout');
     }
 
-    const browsedMsg: BrowsedMessage = {
-      messageId: msg.messageId.toString(),
-      data: msg.data.toString('utf-8'),
-      properties: msg.properties,
-      publishTimestamp: msg.publishTimestamp,
-      eventTimestamp: msg.eventTimestamp,
-      partitionKey: msg.partitionKey,
-      topicName: msg.topicName,
-    };
-
-    return success(browsedMsg);
+    return success(await toBrowsedMessage(msg));
   } catch (err) {
     return error(`Failed to receive message: ${err instanceof Error ? err.message : String(err)}`);
   }
@@ -1003,6 +3504,13 @@ ipcMain.handle('messages:unsubscribe', async (_event, clusterId: string, topic:
 
 // Clean up all connections on app quit
 app.on('before-quit', async () => {
+  if (statsTimer) {
+    clearInterval(statsTimer);
+    statsTimer = null;
+  }
+  clearInterval(alertTimer);
+  clearInterval(healthTimer);
+
   // Close all producers
   for (const [id, producer] of producers.entries()) {
     try {
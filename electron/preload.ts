@@ -2,16 +2,68 @@ import { contextBridge, ipcRenderer } from 'electron';
 import type {
   ClusterConfig,
   TopicStats,
+  StatsSampleEvent,
+  StatsHistorySettings,
+  StatsHistoryResult,
+  AlertRule,
+  AlertRuleInput,
+  AlertEvent,
+  AlertStatus,
+  PartitionedTopicMetadata,
+  SchemaInfo,
+  ResetCursorTarget,
   BrowseMessagesOptions,
   BrowseMessagesResult,
   PeekMessagesOptions,
   PeekMessagesResult,
+  MessageSearchOptions,
+  MessageSearchProgress,
+  BrowsedMessage,
+  MessageExportOptions,
+  MessageExportResult,
+  TopicExportOptions,
+  TopicExportProgress,
+  ReplayOptions,
+  ReplayProgress,
+  DlqOpenOptions,
+  DlqSession,
+  DlqRedriveOptions,
+  DlqRedriveResult,
+  AuditEntry,
   CreateProducerOptions,
   CreateConsumerOptions,
   SendMessageOptions,
   IPCResponse,
   ConnectedCluster,
   SavedProfile,
+  AuthConfig,
+  SecretStorageStatus,
+  CredentialFileKind,
+  OAuthSessionStatus,
+  OAuthStatusEvent,
+  DeviceCodePrompt,
+  ConnectionIdentity,
+  PermissionReport,
+  ConnectionHealth,
+  ClusterDiffOptions,
+  ClusterDiffResult,
+  PolicyExportOptions,
+  PolicyExportResult,
+  PolicyPlanOptions,
+  PolicyPlan,
+  PolicyApplyResult,
+  NamespacePolicyChanges,
+  NamespacePoliciesResult,
+  NamespacePolicyUpdateResult,
+  TopicPolicies,
+  TopicPolicyKey,
+  TopicPoliciesResult,
+  TenantInfo,
+  PermissionTarget,
+  PermissionsResult,
+  PermissionChanges,
+  PermissionUpdateResult,
+  PartitionedTopicStats,
 } from '../src/shared/types';
 
 // Expose a secure API to the renderer process
@@ -28,6 +80,17 @@ contextBridge.exposeInMainWorld('lightcurve', {
     listConnected: async (): Promise<IPCResponse<ConnectedCluster[]>> => {
       return await ipcRenderer.invoke('cluster:list');
     },
+    getHealth: async (clusterId: string): Promise<IPCResponse<ConnectionHealth | null>> => {
+      return await ipcRenderer.invoke('cluster:getHealth', clusterId);
+    },
+    checkHealth: async (clusterId: string): Promise<IPCResponse<ConnectionHealth>> => {
+      return await ipcRenderer.invoke('cluster:checkHealth', clusterId);
+    },
+    onHealth: (callback: (health: ConnectionHealth) => void) => {
+      const listener = (_event: any, health: ConnectionHealth) => callback(health);
+      ipcRenderer.on('cluster:health', listener);
+      return () => ipcRenderer.removeListener('cluster:health', listener);
+    },
   },
 
   // Connection Profiles
@@ -35,8 +98,8 @@ contextBridge.exposeInMainWorld('lightcurve', {
     listProfiles: async (): Promise<IPCResponse<SavedProfile[]>> => {
       return await ipcRenderer.invoke('profiles:listProfiles');
     },
-    saveProfile: async (profile: Omit<SavedProfile, 'profileId' | 'savedAt'>): Promise<IPCResponse<SavedProfile>> => {
-      return await ipcRenderer.invoke('profiles:saveProfile', profile);
+    saveProfile: async (profile: Omit<SavedProfile, 'profileId' | 'savedAt'>, secretsFromProfileId?: string): Promise<IPCResponse<SavedProfile>> => {
+      return await ipcRenderer.invoke('profiles:saveProfile', profile, secretsFromProfileId);
     },
     deleteProfile: async (profileId: string): Promise<IPCResponse<void>> => {
       return await ipcRenderer.invoke('profiles:deleteProfile', profileId);
@@ -44,6 +107,15 @@ contextBridge.exposeInMainWorld('lightcurve', {
     getProfile: async (profileId: string): Promise<IPCResponse<SavedProfile | null>> => {
       return await ipcRenderer.invoke('profiles:getProfile', profileId);
     },
+    revealSecrets: async (profileId: string): Promise<IPCResponse<AuthConfig | null>> => {
+      return await ipcRenderer.invoke('profiles:revealSecrets', profileId);
+    },
+    getSecretStorageStatus: async (): Promise<IPCResponse<SecretStorageStatus>> => {
+      return await ipcRenderer.invoke('profiles:getSecretStorageStatus');
+    },
+    chooseCredentialFile: async (kind: CredentialFileKind): Promise<IPCResponse<string | null>> => {
+      return await ipcRenderer.invoke('profiles:chooseCredentialFile', kind);
+    },
   },
 
   // Admin API - Cluster Discovery
@@ -60,12 +132,100 @@ contextBridge.exposeInMainWorld('lightcurve', {
     listTopics: async (clusterId: string, tenant: string, namespace: string): Promise<IPCResponse<string[]>> => {
       return await ipcRenderer.invoke('admin:listTopics', clusterId, tenant, namespace);
     },
+    listPartitionedTopics: async (clusterId: string, tenant: string, namespace: string): Promise<IPCResponse<string[]>> => {
+      return await ipcRenderer.invoke('admin:listPartitionedTopics', clusterId, tenant, namespace);
+    },
     getTopicStats: async (clusterId: string, fullTopicName: string): Promise<IPCResponse<TopicStats>> => {
       return await ipcRenderer.invoke('admin:getTopicStats', clusterId, fullTopicName);
     },
+    getPartitionedStats: async (clusterId: string, fullTopicName: string): Promise<IPCResponse<PartitionedTopicStats>> => {
+      return await ipcRenderer.invoke('admin:getPartitionedStats', clusterId, fullTopicName);
+    },
     listSubscriptions: async (clusterId: string, fullTopicName: string): Promise<IPCResponse<string[]>> => {
       return await ipcRenderer.invoke('admin:listSubscriptions', clusterId, fullTopicName);
     },
+    // Tenant and namespace lifecycle
+    getTenantInfo: async (clusterId: string, tenant: string): Promise<IPCResponse<TenantInfo>> => {
+      return await ipcRenderer.invoke('admin:getTenantInfo', clusterId, tenant);
+    },
+    createTenant: async (clusterId: string, tenant: string, info: TenantInfo): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('admin:createTenant', clusterId, tenant, info);
+    },
+    updateTenant: async (clusterId: string, tenant: string, info: TenantInfo): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('admin:updateTenant', clusterId, tenant, info);
+    },
+    deleteTenant: async (clusterId: string, tenant: string, force?: boolean): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('admin:deleteTenant', clusterId, tenant, force);
+    },
+    createNamespace: async (clusterId: string, namespace: string): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('admin:createNamespace', clusterId, namespace);
+    },
+    deleteNamespace: async (clusterId: string, namespace: string, force?: boolean): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('admin:deleteNamespace', clusterId, namespace, force);
+    },
+    // Topic lifecycle
+    createTopic: async (clusterId: string, fullTopicName: string, partitions: number): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('admin:createTopic', clusterId, fullTopicName, partitions);
+    },
+    updatePartitionedTopic: async (clusterId: string, fullTopicName: string, partitions: number): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('admin:updatePartitionedTopic', clusterId, fullTopicName, partitions);
+    },
+    getPartitionedMetadata: async (clusterId: string, fullTopicName: string): Promise<IPCResponse<PartitionedTopicMetadata>> => {
+      return await ipcRenderer.invoke('admin:getPartitionedMetadata', clusterId, fullTopicName);
+    },
+    deleteTopic: async (clusterId: string, fullTopicName: string, force?: boolean): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('admin:deleteTopic', clusterId, fullTopicName, force);
+    },
+    // Subscription cursor operations
+    createSubscription: async (clusterId: string, fullTopicName: string, subscription: string, position?: 'earliest' | 'latest'): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('admin:createSubscription', clusterId, fullTopicName, subscription, position);
+    },
+    deleteSubscription: async (clusterId: string, fullTopicName: string, subscription: string, force?: boolean): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('admin:deleteSubscription', clusterId, fullTopicName, subscription, force);
+    },
+    resetCursor: async (clusterId: string, fullTopicName: string, subscription: string, target: ResetCursorTarget): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('admin:resetCursor', clusterId, fullTopicName, subscription, target);
+    },
+    skipMessages: async (clusterId: string, fullTopicName: string, subscription: string, count: number): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('admin:skipMessages', clusterId, fullTopicName, subscription, count);
+    },
+    clearBacklog: async (clusterId: string, fullTopicName: string, subscription: string): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('admin:clearBacklog', clusterId, fullTopicName, subscription);
+    },
+    expireMessages: async (clusterId: string, fullTopicName: string, subscription: string, expireTimeSeconds: number): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('admin:expireMessages', clusterId, fullTopicName, subscription, expireTimeSeconds);
+    },
+    // Schema registry
+    getSchema: async (clusterId: string, fullTopicName: string): Promise<IPCResponse<SchemaInfo | null>> => {
+      return await ipcRenderer.invoke('admin:getSchema', clusterId, fullTopicName);
+    },
+    getSchemaVersions: async (clusterId: string, fullTopicName: string): Promise<IPCResponse<SchemaInfo[]>> => {
+      return await ipcRenderer.invoke('admin:getSchemaVersions', clusterId, fullTopicName);
+    },
+
+    // Namespace policies
+    getNamespacePolicies: async (clusterId: string, namespace: string): Promise<IPCResponse<NamespacePoliciesResult>> => {
+      return await ipcRenderer.invoke('admin:getNamespacePolicies', clusterId, namespace);
+    },
+    updateNamespacePolicies: async (clusterId: string, namespace: string, changes: NamespacePolicyChanges): Promise<IPCResponse<NamespacePolicyUpdateResult>> => {
+      return await ipcRenderer.invoke('admin:updateNamespacePolicies', clusterId, namespace, changes);
+    },
+
+    // Topic policy overrides
+    getTopicPolicies: async (clusterId: string, fullTopicName: string): Promise<IPCResponse<TopicPoliciesResult>> => {
+      return await ipcRenderer.invoke('admin:getTopicPolicies', clusterId, fullTopicName);
+    },
+    updateTopicPolicy: async <K extends TopicPolicyKey>(clusterId: string, fullTopicName: string, policy: K, value: TopicPolicies[K] | null): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('admin:updateTopicPolicy', clusterId, fullTopicName, policy, value);
+    },
+
+    // Permissions
+    getPermissions: async (clusterId: string, target: PermissionTarget, name: string): Promise<IPCResponse<PermissionsResult>> => {
+      return await ipcRenderer.invoke('admin:getPermissions', clusterId, target, name);
+    },
+    updatePermissions: async (clusterId: string, target: PermissionTarget, name: string, changes: PermissionChanges): Promise<IPCResponse<PermissionUpdateResult>> => {
+      return await ipcRenderer.invoke('admin:updatePermissions', clusterId, target, name, changes);
+    },
   },
 
   // Message Operations
@@ -76,6 +236,49 @@ contextBridge.exposeInMainWorld('lightcurve', {
     peek: async (clusterId: string, options: PeekMessagesOptions): Promise<IPCResponse<PeekMessagesResult>> => {
       return await ipcRenderer.invoke('messages:peek', clusterId, options);
     },
+    // Topic search (scans in the main process, streams progress events)
+    search: async (clusterId: string, options: MessageSearchOptions): Promise<IPCResponse<string>> => {
+      return await ipcRenderer.invoke('messages:search', clusterId, options);
+    },
+    cancelSearch: async (searchId: string): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('messages:cancelSearch', searchId);
+    },
+    onSearchProgress: (callback: (progress: MessageSearchProgress) => void) => {
+      const listener = (_event: any, progress: MessageSearchProgress) => callback(progress);
+      ipcRenderer.on('messages:searchProgress', listener);
+      return () => ipcRenderer.removeListener('messages:searchProgress', listener);
+    },
+    // Export to disk through a save dialog; resolves to null when the dialog is cancelled
+    export: async (messages: BrowsedMessage[], options: MessageExportOptions): Promise<IPCResponse<MessageExportResult | null>> => {
+      return await ipcRenderer.invoke('messages:export', messages, options);
+    },
+    // Resolves to an export ID once the file is chosen; the export itself reports through export progress events
+    exportTopic: async (clusterId: string, options: TopicExportOptions): Promise<IPCResponse<string | null>> => {
+      return await ipcRenderer.invoke('messages:exportTopic', clusterId, options);
+    },
+    cancelExport: async (exportId: string): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('messages:cancelExport', exportId);
+    },
+    onExportProgress: (callback: (progress: TopicExportProgress) => void) => {
+      const listener = (_event: any, progress: TopicExportProgress) => callback(progress);
+      ipcRenderer.on('messages:exportProgress', listener);
+      return () => ipcRenderer.removeListener('messages:exportProgress', listener);
+    },
+    // Replay an exported file into a topic (runs in the main process, streams progress events)
+    chooseReplayFile: async (): Promise<IPCResponse<string | null>> => {
+      return await ipcRenderer.invoke('messages:chooseReplayFile');
+    },
+    replay: async (clusterId: string, options: ReplayOptions): Promise<IPCResponse<string>> => {
+      return await ipcRenderer.invoke('messages:replay', clusterId, options);
+    },
+    cancelReplay: async (replayId: string): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('messages:cancelReplay', replayId);
+    },
+    onReplayProgress: (callback: (progress: ReplayProgress) => void) => {
+      const listener = (_event: any, progress: ReplayProgress) => callback(progress);
+      ipcRenderer.on('messages:replayProgress', listener);
+      return () => ipcRenderer.removeListener('messages:replayProgress', listener);
+    },
     send: async (clusterId: string, topic: string, payload: string, key?: string, properties?: Record<string, string>): Promise<IPCResponse<string>> => {
       return await ipcRenderer.invoke('messages:send', clusterId, topic, payload, key, properties);
     },
@@ -139,6 +342,133 @@ contextBridge.exposeInMainWorld('lightcurve', {
     },
   },
 
+  // Dead-letter queue workbench
+  dlq: {
+    open: async (clusterId: string, options: DlqOpenOptions): Promise<IPCResponse<DlqSession>> => {
+      return await ipcRenderer.invoke('dlq:open', clusterId, options);
+    },
+    redrive: async (sessionId: string, options: DlqRedriveOptions): Promise<IPCResponse<DlqRedriveResult>> => {
+      return await ipcRenderer.invoke('dlq:redrive', sessionId, options);
+    },
+    close: async (sessionId: string): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('dlq:close', sessionId);
+    },
+  },
+
+  // Audit log of bulk operations
+  audit: {
+    list: async (limit?: number, action?: string): Promise<IPCResponse<AuditEntry[]>> => {
+      return await ipcRenderer.invoke('audit:list', limit, action);
+    },
+  },
+
+  // Background stats sampling for pinned topics
+  stats: {
+    getSettings: async (): Promise<IPCResponse<StatsHistorySettings>> => {
+      return await ipcRenderer.invoke('stats:getSettings');
+    },
+    updateSettings: async (settings: Pick<StatsHistorySettings, 'intervalSeconds' | 'retentionHours'>): Promise<IPCResponse<StatsHistorySettings>> => {
+      return await ipcRenderer.invoke('stats:updateSettings', settings);
+    },
+    pin: async (clusterId: string, topic: string): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('stats:pin', clusterId, topic);
+    },
+    unpin: async (clusterId: string, topic: string, clearHistory?: boolean): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('stats:unpin', clusterId, topic, clearHistory);
+    },
+    getHistory: async (clusterId: string, topic: string, since?: number): Promise<IPCResponse<StatsHistoryResult>> => {
+      return await ipcRenderer.invoke('stats:getHistory', clusterId, topic, since);
+    },
+    onSample: (callback: (event: StatsSampleEvent) => void) => {
+      const listener = (_event: any, sample: StatsSampleEvent) => callback(sample);
+      ipcRenderer.on('stats:sample', listener);
+      return () => ipcRenderer.removeListener('stats:sample', listener);
+    },
+  },
+
+  // Alert rules and the alerts they raise
+  alerts: {
+    listRules: async (clusterId: string, topic?: string): Promise<IPCResponse<AlertRule[]>> => {
+      return await ipcRenderer.invoke('alerts:listRules', clusterId, topic);
+    },
+    saveRule: async (clusterId: string, rule: AlertRuleInput, ruleId?: string): Promise<IPCResponse<AlertRule>> => {
+      return await ipcRenderer.invoke('alerts:saveRule', clusterId, rule, ruleId);
+    },
+    deleteRule: async (ruleId: string): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('alerts:deleteRule', ruleId);
+    },
+    getStatus: async (): Promise<IPCResponse<AlertStatus>> => {
+      return await ipcRenderer.invoke('alerts:getStatus');
+    },
+    clearRecent: async (): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('alerts:clearRecent');
+    },
+    onAlert: (callback: (event: AlertEvent) => void) => {
+      const listener = (_event: any, alert: AlertEvent) => callback(alert);
+      ipcRenderer.on('alerts:event', listener);
+      return () => ipcRenderer.removeListener('alerts:event', listener);
+    },
+  },
+
+  // Interactive OAuth login state
+  oauth: {
+    getStatus: async (clusterId: string): Promise<IPCResponse<OAuthSessionStatus | null>> => {
+      return await ipcRenderer.invoke('oauth:getStatus', clusterId);
+    },
+    login: async (clusterId: string): Promise<IPCResponse<OAuthSessionStatus>> => {
+      return await ipcRenderer.invoke('oauth:login', clusterId);
+    },
+    logout: async (clusterId: string): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('oauth:logout', clusterId);
+    },
+    cancelLogin: async (): Promise<IPCResponse<void>> => {
+      return await ipcRenderer.invoke('oauth:cancelLogin');
+    },
+    onStatus: (callback: (event: OAuthStatusEvent) => void) => {
+      const listener = (_event: any, status: OAuthStatusEvent) => callback(status);
+      ipcRenderer.on('oauth:status', listener);
+      return () => ipcRenderer.removeListener('oauth:status', listener);
+    },
+    onDeviceCode: (callback: (prompt: DeviceCodePrompt) => void) => {
+      const listener = (_event: any, prompt: DeviceCodePrompt) => callback(prompt);
+      ipcRenderer.on('oauth:deviceCode', listener);
+      return () => ipcRenderer.removeListener('oauth:deviceCode', listener);
+    },
+  },
+
+  // Cross-cluster comparison
+  diff: {
+    compare: async (options: ClusterDiffOptions): Promise<IPCResponse<ClusterDiffResult>> => {
+      return await ipcRenderer.invoke('diff:compare', options);
+    },
+  },
+
+  // Declarative tenant and namespace configuration
+  policy: {
+    export: async (clusterId: string, options: PolicyExportOptions): Promise<IPCResponse<PolicyExportResult | null>> => {
+      return await ipcRenderer.invoke('policy:export', clusterId, options);
+    },
+    chooseDocument: async (): Promise<IPCResponse<string | null>> => {
+      return await ipcRenderer.invoke('policy:chooseDocument');
+    },
+    plan: async (clusterId: string, options: PolicyPlanOptions): Promise<IPCResponse<PolicyPlan>> => {
+      return await ipcRenderer.invoke('policy:plan', clusterId, options);
+    },
+    apply: async (plan: PolicyPlan): Promise<IPCResponse<PolicyApplyResult>> => {
+      return await ipcRenderer.invoke('policy:apply', plan);
+    },
+  },
+
+  // Who the connection authenticates as, and what its role may do
+  identity: {
+    whoAmI: async (clusterId: string): Promise<IPCResponse<ConnectionIdentity>> => {
+      return await ipcRenderer.invoke('identity:whoAmI', clusterId);
+    },
+    checkPermissions: async (clusterId: string, namespace: string, fullTopicName?: string): Promise<IPCResponse<PermissionReport>> => {
+      return await ipcRenderer.invoke('identity:checkPermissions', clusterId, namespace, fullTopicName);
+    },
+  },
+
   // Logs from main process forwarded to renderer
   logs: {
     onLog: (callback: (payload: { level: string; args: string[] }) => void) => {
@@ -155,14 +485,43 @@ export interface LightCurveAPI {
     connect: (config: ClusterConfig) => Promise<IPCResponse<ConnectedCluster>>;
     disconnect: (clusterId: string) => Promise<IPCResponse<void>>;
     listConnected: () => Promise<IPCResponse<ConnectedCluster[]>>;
+    getHealth: (clusterId: string) => Promise<IPCResponse<ConnectionHealth | null>>;
+    checkHealth: (clusterId: string) => Promise<IPCResponse<ConnectionHealth>>;
+    onHealth: (callback: (health: ConnectionHealth) => void) => () => void;
   };
   admin: {
     listClusters: (clusterId: string) => Promise<IPCResponse<string[]>>;
     listTenants: (clusterId: string) => Promise<IPCResponse<string[]>>;
     listNamespaces: (clusterId: string, tenant: string) => Promise<IPCResponse<string[]>>;
     listTopics: (clusterId: string, tenant: string, namespace: string) => Promise<IPCResponse<string[]>>;
+    listPartitionedTopics: (clusterId: string, tenant: string, namespace: string) => Promise<IPCResponse<string[]>>;
     getTopicStats: (clusterId: string, fullTopicName: string) => Promise<IPCResponse<TopicStats>>;
+    getPartitionedStats: (clusterId: string, fullTopicName: string) => Promise<IPCResponse<PartitionedTopicStats>>;
     listSubscriptions: (clusterId: string, fullTopicName: string) => Promise<IPCResponse<string[]>>;
+    getTenantInfo: (clusterId: string, tenant: string) => Promise<IPCResponse<TenantInfo>>;
+    createTenant: (clusterId: string, tenant: string, info: TenantInfo) => Promise<IPCResponse<void>>;
+    updateTenant: (clusterId: string, tenant: string, info: TenantInfo) => Promise<IPCResponse<void>>;
+    deleteTenant: (clusterId: string, tenant: string, force?: boolean) => Promise<IPCResponse<void>>;
+    createNamespace: (clusterId: string, namespace: string) => Promise<IPCResponse<void>>;
+    deleteNamespace: (clusterId: string, namespace: string, force?: boolean) => Promise<IPCResponse<void>>;
+    createTopic: (clusterId: string, fullTopicName: string, partitions: number) => Promise<IPCResponse<void>>;
+    updatePartitionedTopic: (clusterId: string, fullTopicName: string, partitions: number) => Promise<IPCResponse<void>>;
+    getPartitionedMetadata: (clusterId: string, fullTopicName: string) => Promise<IPCResponse<PartitionedTopicMetadata>>;
+    deleteTopic: (clusterId: string, fullTopicName: string, force?: boolean) => Promise<IPCResponse<void>>;
+    createSubscription: (clusterId: string, fullTopicName: string, subscription: string, position?: 'earliest' | 'latest') => Promise<IPCResponse<void>>;
+    deleteSubscription: (clusterId: string, fullTopicName: string, subscription: string, force?: boolean) => Promise<IPCResponse<void>>;
+    resetCursor: (clusterId: string, fullTopicName: string, subscription: string, target: ResetCursorTarget) => Promise<IPCResponse<void>>;
+    skipMessages: (clusterId: string, fullTopicName: string, subscription: string, count: number) => Promise<IPCResponse<void>>;
+    clearBacklog: (clusterId: string, fullTopicName: string, subscription: string) => Promise<IPCResponse<void>>;
+    expireMessages: (clusterId: string, fullTopicName: string, subscription: string, expireTimeSeconds: number) => Promise<IPCResponse<void>>;
+    getSchema: (clusterId: string, fullTopicName: string) => Promise<IPCResponse<SchemaInfo | null>>;
+    getSchemaVersions: (clusterId: string, fullTopicName: string) => Promise<IPCResponse<SchemaInfo[]>>;
+    getNamespacePolicies: (clusterId: string, namespace: string) => Promise<IPCResponse<NamespacePoliciesResult>>;
+    updateNamespacePolicies: (clusterId: string, namespace: string, changes: NamespacePolicyChanges) => Promise<IPCResponse<NamespacePolicyUpdateResult>>;
+    getTopicPolicies: (clusterId: string, fullTopicName: string) => Promise<IPCResponse<TopicPoliciesResult>>;
+    updateTopicPolicy: <K extends TopicPolicyKey>(clusterId: string, fullTopicName: string, policy: K, value: TopicPolicies[K] | null) => Promise<IPCResponse<void>>;
+    getPermissions: (clusterId: string, target: PermissionTarget, name: string) => Promise<IPCResponse<PermissionsResult>>;
+    updatePermissions: (clusterId: string, target: PermissionTarget, name: string, changes: PermissionChanges) => Promise<IPCResponse<PermissionUpdateResult>>;
   };
   messages: {
     browse: (clusterId: string, options: BrowseMessagesOptions) => Promise<IPCResponse<BrowseMessagesResult>>;
@@ -171,6 +530,17 @@ export interface LightCurveAPI {
     pauseConsumer: (consumerId: string) => Promise<IPCResponse<void>>;
     stopConsumer: (consumerId: string) => Promise<IPCResponse<void>>;
     onMessage: (callback: (data: { consumerId: string; message: any }) => void) => () => void;
+    search: (clusterId: string, options: MessageSearchOptions) => Promise<IPCResponse<string>>;
+    cancelSearch: (searchId: string) => Promise<IPCResponse<void>>;
+    onSearchProgress: (callback: (progress: MessageSearchProgress) => void) => () => void;
+    export: (messages: BrowsedMessage[], options: MessageExportOptions) => Promise<IPCResponse<MessageExportResult | null>>;
+    exportTopic: (clusterId: string, options: TopicExportOptions) => Promise<IPCResponse<string | null>>;
+    cancelExport: (exportId: string) => Promise<IPCResponse<void>>;
+    onExportProgress: (callback: (progress: TopicExportProgress) => void) => () => void;
+    chooseReplayFile: () => Promise<IPCResponse<string | null>>;
+    replay: (clusterId: string, options: ReplayOptions) => Promise<IPCResponse<string>>;
+    cancelReplay: (replayId: string) => Promise<IPCResponse<void>>;
+    onReplayProgress: (callback: (progress: ReplayProgress) => void) => () => void;
     browseMessages: (clusterId: string, topicName: string) => Promise<IPCResponse<{ readerId: string }>>;
     readMessages: (clusterId: string, readerId: string, maxMessages: number) => Promise<IPCResponse<any[]>>;
     closeReader: (clusterId: string, readerId: string) => Promise<IPCResponse<void>>;
@@ -186,6 +556,51 @@ export interface LightCurveAPI {
     acknowledge: (consumerId: string, messageId: string) => Promise<IPCResponse<void>>;
     close: (consumerId: string) => Promise<IPCResponse<void>>;
   };
+  dlq: {
+    open: (clusterId: string, options: DlqOpenOptions) => Promise<IPCResponse<DlqSession>>;
+    redrive: (sessionId: string, options: DlqRedriveOptions) => Promise<IPCResponse<DlqRedriveResult>>;
+    close: (sessionId: string) => Promise<IPCResponse<void>>;
+  };
+  audit: {
+    list: (limit?: number, action?: string) => Promise<IPCResponse<AuditEntry[]>>;
+  };
+  stats: {
+    getSettings: () => Promise<IPCResponse<StatsHistorySettings>>;
+    updateSettings: (settings: Pick<StatsHistorySettings, 'intervalSeconds' | 'retentionHours'>) => Promise<IPCResponse<StatsHistorySettings>>;
+    pin: (clusterId: string, topic: string) => Promise<IPCResponse<void>>;
+    unpin: (clusterId: string, topic: string, clearHistory?: boolean) => Promise<IPCResponse<void>>;
+    getHistory: (clusterId: string, topic: string, since?: number) => Promise<IPCResponse<StatsHistoryResult>>;
+    onSample: (callback: (event: StatsSampleEvent) => void) => () => void;
+  };
+  alerts: {
+    listRules: (clusterId: string, topic?: string) => Promise<IPCResponse<AlertRule[]>>;
+    saveRule: (clusterId: string, rule: AlertRuleInput, ruleId?: string) => Promise<IPCResponse<AlertRule>>;
+    deleteRule: (ruleId: string) => Promise<IPCResponse<void>>;
+    getStatus: () => Promise<IPCResponse<AlertStatus>>;
+    clearRecent: () => Promise<IPCResponse<void>>;
+    onAlert: (callback: (event: AlertEvent) => void) => () => void;
+  };
+  oauth: {
+    getStatus: (clusterId: string) => Promise<IPCResponse<OAuthSessionStatus | null>>;
+    login: (clusterId: string) => Promise<IPCResponse<OAuthSessionStatus>>;
+    logout: (clusterId: string) => Promise<IPCResponse<void>>;
+    cancelLogin: () => Promise<IPCResponse<void>>;
+    onStatus: (callback: (event: OAuthStatusEvent) => void) => () => void;
+    onDeviceCode: (callback: (prompt: DeviceCodePrompt) => void) => () => void;
+  };
+  diff: {
+    compare: (options: ClusterDiffOptions) => Promise<IPCResponse<ClusterDiffResult>>;
+  };
+  policy: {
+    export: (clusterId: string, options: PolicyExportOptions) => Promise<IPCResponse<PolicyExportResult | null>>;
+    chooseDocument: () => Promise<IPCResponse<string | null>>;
+    plan: (clusterId: string, options: PolicyPlanOptions) => Promise<IPCResponse<PolicyPlan>>;
+    apply: (plan: PolicyPlan) => Promise<IPCResponse<PolicyApplyResult>>;
+  };
+  identity: {
+    whoAmI: (clusterId: string) => Promise<IPCResponse<ConnectionIdentity>>;
+    checkPermissions: (clusterId: string, namespace: string, fullTopicName?: string) => Promise<IPCResponse<PermissionReport>>;
+  };
   logs: {
     onLog: (callback: (payload: { level: string; args: string[] }) => void) => () => void;
   };
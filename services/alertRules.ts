@@ -0,0 +1,162 @@
+/**
+ * Alert Rules Service
+ * Persists alert rules and evaluates them against topic stats
+ */
+
+import path from 'path';
+import fs from 'fs';
+import { app } from 'electron';
+import type {
+  AlertComparator,
+  AlertCondition,
+  AlertMetric,
+  AlertRule,
+  AlertRuleInput,
+  TopicStats,
+} from '../src/shared/types';
+
+export interface AlertRulesData {
+  rules: AlertRule[];
+}
+
+export class AlertRuleStorage {
+  private readonly configDir: string;
+  private readonly configFilePath: string;
+
+  constructor() {
+    // Store rules next to the saved profiles
+    this.configDir = path.join(app.getPath('userData'), 'lightcurve');
+    this.configFilePath = path.join(this.configDir, 'alert-rules.json');
+    this.ensureConfigDirExists();
+  }
+
+  private ensureConfigDirExists(): void {
+    if (!fs.existsSync(this.configDir)) {
+      fs.mkdirSync(this.configDir, { recursive: true });
+    }
+  }
+
+  /**
+   * Load all alert rules
+   */
+  loadRules(): AlertRule[] {
+    try {
+      if (!fs.existsSync(this.configFilePath)) {
+        return [];
+      }
+      const parsed = JSON.parse(fs.readFileSync(this.configFilePath, 'utf-8')) as AlertRulesData;
+      return parsed.rules || [];
+    } catch (error) {
+      console.error('Error loading alert rules:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save a new rule or update an existing one
+   */
+  saveRule(adminUrl: string, input: AlertRuleInput, ruleId?: string): AlertRule {
+    const rules = this.loadRules();
+    const existing = ruleId ? rules.find(r => r.ruleId === ruleId) : undefined;
+
+    const saved: AlertRule = {
+      ...input,
+      ruleId: existing?.ruleId || `rule_${Date.now()}`,
+      adminUrl: existing?.adminUrl || adminUrl,
+      createdAt: existing?.createdAt || Date.now(),
+    };
+
+    this.writeRules([...rules.filter(r => r.ruleId !== saved.ruleId), saved]);
+    return saved;
+  }
+
+  /**
+   * Delete a rule
+   */
+  deleteRule(ruleId: string): boolean {
+    const rules = this.loadRules();
+    const filtered = rules.filter(r => r.ruleId !== ruleId);
+    if (filtered.length === rules.length) {
+      return false; // Rule not found
+    }
+    this.writeRules(filtered);
+    return true;
+  }
+
+  private writeRules(rules: AlertRule[]): void {
+    fs.writeFileSync(this.configFilePath, JSON.stringify({ rules }, null, 2), 'utf-8');
+  }
+}
+
+/**
+ * Read a metric from topic stats, scoped to one subscription when given.
+ * Returns undefined when the subscription does not exist.
+ */
+export function readAlertMetric(stats: TopicStats, metric: AlertMetric, subscription?: string): number | undefined {
+  const subscriptions = stats.subscriptions || {};
+  if (subscription) {
+    const sub = subscriptions[subscription];
+    if (!sub) {
+      return undefined;
+    }
+    switch (metric) {
+      case 'backlog':
+        return sub.msgBacklog || 0;
+      case 'msgRateOut':
+        return sub.msgRateOut || 0;
+      case 'consumers':
+        return (sub.consumers || []).length;
+      default:
+        break; // Topic-wide metrics read the same either way
+    }
+  }
+
+  switch (metric) {
+    case 'backlog':
+      return Object.values(subscriptions).reduce((total, sub) => total + (sub.msgBacklog || 0), 0);
+    case 'msgRateIn':
+      return stats.msgRateIn || 0;
+    case 'msgRateOut':
+      return stats.msgRateOut || 0;
+    case 'publishers':
+      return (stats.publishers || []).length;
+    case 'consumers':
+      return Object.values(subscriptions).reduce((total, sub) => total + (sub.consumers || []).length, 0);
+    case 'storageSize':
+      return stats.storageSize || 0;
+  }
+}
+
+function compare(value: number, comparator: AlertComparator, threshold: number): boolean {
+  switch (comparator) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+    case '==': return value === threshold;
+    case '!=': return value !== threshold;
+  }
+}
+
+export function describeCondition(condition: AlertCondition): string {
+  return `${condition.metric} ${condition.comparator} ${condition.threshold.toLocaleString()}`;
+}
+
+/**
+ * Test every condition of a rule; the observed values are returned for the alert message
+ */
+export function evaluateAlertRule(
+  rule: AlertRule,
+  stats: TopicStats
+): { matched: boolean; observed: string } {
+  const observed: string[] = [];
+  let matched = rule.conditions.length > 0;
+  for (const condition of rule.conditions) {
+    const value = readAlertMetric(stats, condition.metric, rule.subscription);
+    if (value === undefined || !compare(value, condition.comparator, condition.threshold)) {
+      matched = false;
+    }
+    observed.push(`${condition.metric}=${value === undefined ? 'n/a' : Math.round(value * 100) / 100}`);
+  }
+  return { matched, observed: observed.join(', ') };
+}
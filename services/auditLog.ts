@@ -0,0 +1,80 @@
+/**
+ * Audit Log Service
+ * Appends a record of every state-changing bulk operation to a JSON Lines file on disk
+ */
+
+import path from 'path';
+import fs from 'fs';
+import { app } from 'electron';
+import type { AuditEntry } from '../src/shared/types';
+
+export class AuditLog {
+  private readonly configDir: string;
+  private readonly logFilePath: string;
+  private entryCounter = 0;
+
+  constructor() {
+    // Keep the log next to the saved profiles
+    this.configDir = path.join(app.getPath('userData'), 'lightcurve');
+    this.logFilePath = path.join(this.configDir, 'audit.jsonl');
+    this.ensureConfigDirExists();
+  }
+
+  private ensureConfigDirExists(): void {
+    if (!fs.existsSync(this.configDir)) {
+      fs.mkdirSync(this.configDir, { recursive: true });
+    }
+  }
+
+  /**
+   * Append an entry; failures are logged but never fail the audited operation
+   */
+  record(entry: Omit<AuditEntry, 'id' | 'timestamp'>): AuditEntry {
+    const timestamp = Date.now();
+    const saved: AuditEntry = {
+      id: `audit_${timestamp}_${++this.entryCounter}`,
+      timestamp,
+      ...entry,
+    };
+    try {
+      fs.appendFileSync(this.logFilePath, JSON.stringify(saved) + '\n', 'utf-8');
+    } catch (error) {
+      console.error('Error writing audit log:', error);
+    }
+    return saved;
+  }
+
+  /**
+   * Load the most recent entries, newest first
+   */
+  list(limit = 100, action?: string): AuditEntry[] {
+    try {
+      if (!fs.existsSync(this.logFilePath)) {
+        return [];
+      }
+      const lines = fs.readFileSync(this.logFilePath, 'utf-8').split('\n');
+      const entries: AuditEntry[] = [];
+      for (let i = lines.length - 1; i >= 0 && entries.length < limit; i--) {
+        if (!lines[i].trim()) {
+          continue;
+        }
+        try {
+          const entry = JSON.parse(lines[i]) as AuditEntry;
+          if (!action || entry.action === action) {
+            entries.push(entry);
+          }
+        } catch {
+          // Skip a line torn by a crash mid-write
+        }
+      }
+      return entries;
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      return [];
+    }
+  }
+
+  getLogFilePath(): string {
+    return this.logFilePath;
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Cluster Diff
+ * Compares tenants, namespaces, topics and their configuration between two clusters
+ */
+
+import { stripPartitionSuffix, type PulsarAdmin } from './pulsarAdmin';
+import { isNotFound, mapWithConcurrency, stableStringify } from './adminHelpers';
+import type { ClusterDiffEntry, ClusterDiffKind, ClusterDiffOptions, ClusterDiffResult } from '../src/shared/types';
+
+// Topics are compared a few at a time so large namespaces do not flood either admin API
+const TOPIC_DETAIL_CONCURRENCY = 4;
+
+// Policies that are expected to differ between environments
+const IGNORED_POLICIES = new Set([
+  'bundles',
+  'auth_policies',
+  'replication_clusters',
+  'allowed_clusters',
+  'deleted',
+  'latency_stats_sample_rate',
+]);
+
+// Policies keyed by cluster name; only their values are compared
+const PER_CLUSTER_POLICIES = new Set([
+  'clusterDispatchRate',
+  'clusterSubscribeRate',
+  'replicatorDispatchRate',
+  'topicDispatchRate',
+  'subscriptionDispatchRate',
+  'publishMaxMessageRate',
+]);
+
+type Side = 'left' | 'right';
+
+function normalizePolicies(policies: Record<string, unknown>): Map<string, string> {
+  const normalized = new Map<string, string>();
+  for (const [key, value] of Object.entries(policies)) {
+    if (IGNORED_POLICIES.has(key) || value === null || value === undefined) {
+      continue;
+    }
+    const comparable = PER_CLUSTER_POLICIES.has(key) && typeof value === 'object'
+      ? Object.values(value as Record<string, unknown>)
+      : value;
+    normalized.set(key, stableStringify(comparable));
+  }
+  return normalized;
+}
+
+class ClusterDiffBuilder {
+  readonly entries: ClusterDiffEntry[] = [];
+  readonly errors: string[] = [];
+  readonly compared = { tenants: 0, namespaces: 0, topics: 0 };
+
+  constructor(
+    private readonly admins: Record<Side, PulsarAdmin>,
+    private readonly labels: Record<Side, string>
+  ) {}
+
+  /**
+   * Run a read on one side, recording a failure instead of aborting the whole diff
+   */
+  async read<T>(side: Side, what: string, fn: (admin: PulsarAdmin) => Promise<T>): Promise<T | null> {
+    try {
+      return await fn(this.admins[side]);
+    } catch (error) {
+      this.errors.push(`${this.labels[side]}: could not read ${what}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * Record names present on only one side and return the ones on both
+   */
+  compareSets(kind: ClusterDiffKind, path: (name: string) => string, left: string[], right: string[], asName = false): string[] {
+    const leftSet = new Set(left);
+    const rightSet = new Set(right);
+    const add = (name: string, status: ClusterDiffEntry['status']) => {
+      this.entries.push(asName ? { kind, path: path(name), name, status } : { kind, path: path(name), status });
+    };
+    leftSet.forEach(name => !rightSet.has(name) && add(name, 'onlyLeft'));
+    rightSet.forEach(name => !leftSet.has(name) && add(name, 'onlyRight'));
+    return Array.from(leftSet).filter(name => rightSet.has(name)).sort();
+  }
+
+  different(kind: ClusterDiffKind, path: string, left: string, right: string, name?: string): void {
+    this.entries.push({ kind, path, name, status: 'different', left, right });
+  }
+}
+
+/**
+ * List a tenant's namespaces, or 'missing' when the tenant does not exist on that side
+ */
+async function readNamespaces(builder: ClusterDiffBuilder, side: Side, tenant: string): Promise<string[] | 'missing' | null> {
+  return await builder.read(side, `namespaces of ${tenant}`, async (admin) => {
+    try {
+      return await admin.listNamespaces(tenant);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return 'missing' as const;
+      }
+      throw error;
+    }
+  });
+}
+
+async function diffPolicies(builder: ClusterDiffBuilder, namespace: string): Promise<void> {
+  const [left, right] = await Promise.all([
+    builder.read('left', `policies of ${namespace}`, admin => admin.getNamespacePolicies(namespace)),
+    builder.read('right', `policies of ${namespace}`, admin => admin.getNamespacePolicies(namespace)),
+  ]);
+  if (!left || !right) {
+    return;
+  }
+
+  const leftPolicies = normalizePolicies(left);
+  const rightPolicies = normalizePolicies(right);
+  const keys = Array.from(new Set([...leftPolicies.keys(), ...rightPolicies.keys()])).sort();
+  for (const key of keys) {
+    const leftValue = leftPolicies.get(key) ?? 'not set';
+    const rightValue = rightPolicies.get(key) ?? 'not set';
+    if (leftValue !== rightValue) {
+      builder.different('policy', namespace, leftValue, rightValue, key);
+    }
+  }
+}
+
+async function diffTopicDetails(builder: ClusterDiffBuilder, topic: string): Promise<void> {
+  const readBoth = <T>(what: string, fn: (admin: PulsarAdmin) => Promise<T>) => Promise.all([
+    builder.read('left', `${what} of ${topic}`, fn),
+    builder.read('right', `${what} of ${topic}`, fn),
+  ]);
+
+  const [leftMeta, rightMeta] = await readBoth('partitions', admin => admin.getPartitionedMetadata(topic));
+  if (leftMeta && rightMeta && leftMeta.partitions !== rightMeta.partitions) {
+    const describe = (partitions: number) => (partitions > 0 ? `${partitions} partitions` : 'non-partitioned');
+    builder.different('partitions', topic, describe(leftMeta.partitions), describe(rightMeta.partitions));
+  }
+
+  const [leftSubs, rightSubs] = await readBoth('subscriptions', admin => admin.listSubscriptions(topic));
+  if (leftSubs && rightSubs) {
+    builder.compareSets('subscription', () => topic, leftSubs, rightSubs, true);
+  }
+
+  // null means the read failed, so a topic without a schema reads as undefined
+  const [leftSchema, rightSchema] = await readBoth('schema', async admin => (await admin.getSchema(topic)) ?? undefined);
+  if (leftSchema === null || rightSchema === null) {
+    return;
+  }
+  const describe = (schema: typeof leftSchema) => (schema ? `${schema.type} (version ${schema.version})` : 'no schema');
+  const sameSchema = leftSchema?.type === rightSchema?.type && (leftSchema?.data || '').trim() === (rightSchema?.data || '').trim();
+  if (!sameSchema) {
+    builder.different('schema', topic, describe(leftSchema), describe(rightSchema));
+  }
+}
+
+async function diffNamespace(builder: ClusterDiffBuilder, namespace: string, includeTopicDetails: boolean): Promise<void> {
+  builder.compared.namespaces++;
+  await diffPolicies(builder, namespace);
+
+  const [tenant, name] = namespace.split('/');
+  const [leftTopics, rightTopics] = await Promise.all([
+    builder.read('left', `topics of ${namespace}`, admin => admin.listTopics(tenant, name)),
+    builder.read('right', `topics of ${namespace}`, admin => admin.listTopics(tenant, name)),
+  ]);
+  if (!leftTopics || !rightTopics) {
+    return;
+  }
+
+  // Partitions of one partitioned topic count as that topic
+  const baseNames = (topics: string[]) => Array.from(new Set(topics.map(stripPartitionSuffix)));
+  const common = builder.compareSets('topic', topic => topic, baseNames(leftTopics), baseNames(rightTopics));
+  builder.compared.topics += common.length;
+
+  if (includeTopicDetails) {
+    await mapWithConcurrency(common, TOPIC_DETAIL_CONCURRENCY, topic => diffTopicDetails(builder, topic));
+  }
+}
+
+/**
+ * Compare two clusters through their admin APIs
+ * Anything one side cannot read is reported in `errors` rather than as a difference
+ */
+export async function diffClusters(
+  left: PulsarAdmin,
+  right: PulsarAdmin,
+  labels: Record<Side, string>,
+  options: ClusterDiffOptions
+): Promise<ClusterDiffResult> {
+  const builder = new ClusterDiffBuilder({ left, right }, labels);
+  const includeTopicDetails = options.includeTopicDetails !== false;
+
+  let tenants: string[];
+  if (options.tenants && options.tenants.length > 0) {
+    tenants = options.tenants;
+  } else {
+    const [leftTenants, rightTenants] = await Promise.all([
+      builder.read('left', 'tenants', admin => admin.listTenants()),
+      builder.read('right', 'tenants', admin => admin.listTenants()),
+    ]);
+    tenants = builder.compareSets('tenant', tenant => tenant, leftTenants || [], rightTenants || []);
+  }
+
+  for (const tenant of tenants) {
+    const [leftNamespaces, rightNamespaces] = await Promise.all([
+      readNamespaces(builder, 'left', tenant),
+      readNamespaces(builder, 'right', tenant),
+    ]);
+    if (leftNamespaces === 'missing' || rightNamespaces === 'missing') {
+      if (leftNamespaces !== rightNamespaces) {
+        builder.entries.push({ kind: 'tenant', path: tenant, status: leftNamespaces === 'missing' ? 'onlyRight' : 'onlyLeft' });
+      }
+      continue;
+    }
+    if (!leftNamespaces || !rightNamespaces) {
+      continue;
+    }
+
+    builder.compared.tenants++;
+    const namespaces = builder.compareSets('namespace', namespace => namespace, leftNamespaces, rightNamespaces);
+    for (const namespace of namespaces) {
+      await diffNamespace(builder, namespace, includeTopicDetails);
+    }
+  }
+
+  return {
+    leftClusterId: options.leftClusterId,
+    rightClusterId: options.rightClusterId,
+    comparedAt: Date.now(),
+    compared: builder.compared,
+    entries: builder.entries.sort((a, b) => a.path.localeCompare(b.path) || (a.name || '').localeCompare(b.name || '')),
+    errors: builder.errors,
+  };
+}
@@ -0,0 +1,226 @@
+/**
+ * Connection Health
+ * Probes the admin API and the broker service URL and explains why a connection fails
+ */
+
+import fs from 'fs';
+import net from 'net';
+import tls from 'tls';
+import type { PulsarAdmin, PulsarAdminTlsConfig } from './pulsarAdmin';
+import type { ConnectionErrorKind, ConnectionHealth, EndpointHealth } from '../src/shared/types';
+
+const DNS_ERROR_CODES = new Set(['ENOTFOUND', 'EAI_AGAIN', 'EAI_NONAME', 'EAI_NODATA', 'EAI_FAIL']);
+const NETWORK_ERROR_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'EHOSTUNREACH', 'ENETUNREACH', 'EPIPE', 'UND_ERR_SOCKET']);
+const TIMEOUT_ERROR_CODES = new Set(['ETIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT']);
+const TLS_ERROR_CODES = new Set([
+  'EPROTO',
+  'CERT_HAS_EXPIRED',
+  'CERT_NOT_YET_VALID',
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'SELF_SIGNED_CERT_IN_CHAIN',
+  'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'UNABLE_TO_GET_ISSUER_CERT',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+  'HOSTNAME_MISMATCH',
+]);
+
+const DEFAULT_SERVICE_PORTS: Record<string, number> = {
+  'pulsar:': 6650,
+  'pulsar+ssl:': 6651,
+  'http:': 80,
+  'https:': 443,
+};
+
+function causeOf(error: unknown): unknown {
+  return error instanceof Error ? (error as { cause?: unknown }).cause : undefined;
+}
+
+/**
+ * Innermost error of a cause chain; fetch reports "fetch failed" with the real reason as its cause
+ */
+function rootCause(error: unknown): unknown {
+  let current = error;
+  while (causeOf(current) instanceof Error) {
+    current = causeOf(current);
+  }
+  return current;
+}
+
+function errorCode(error: unknown): string | undefined {
+  for (let current = error; current instanceof Error; current = causeOf(current)) {
+    const code = (current as NodeJS.ErrnoException).code;
+    if (code) {
+      return code;
+    }
+  }
+  return undefined;
+}
+
+export function classifyConnectionError(error: unknown): ConnectionErrorKind {
+  const code = errorCode(error);
+  if (code) {
+    if (DNS_ERROR_CODES.has(code)) return 'dns';
+    if (TIMEOUT_ERROR_CODES.has(code)) return 'timeout';
+    if (NETWORK_ERROR_CODES.has(code)) return 'network';
+    if (TLS_ERROR_CODES.has(code) || code.startsWith('ERR_TLS_') || code.startsWith('ERR_SSL_')) return 'tls';
+  }
+
+  const root = rootCause(error);
+  if (root instanceof Error && (root.name === 'TimeoutError' || /timed out/i.test(root.message))) {
+    return 'timeout';
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (/^HTTP (401|403)\b/.test(message) || message.includes('Failed to acquire OAuth token')) {
+    return 'auth';
+  }
+  if (/^HTTP \d{3}\b/.test(message)) {
+    return 'http';
+  }
+  return 'unknown';
+}
+
+/**
+ * Turn a failed request into a message naming what went wrong in terms the user can act on
+ * @param target - What was contacted, e.g. "admin API at https://host:8443"
+ */
+export function describeConnectionError(target: string, error: unknown): { kind: ConnectionErrorKind; message: string } {
+  const kind = classifyConnectionError(error);
+  const root = rootCause(error);
+  const detail = root instanceof Error ? root.message : String(root);
+
+  switch (kind) {
+    case 'dns':
+      return { kind, message: `Cannot resolve the host of the ${target} (${detail}) - check the URL for typos` };
+    case 'network':
+      return { kind, message: `Could not connect to the ${target} (${detail}) - check the port and that the cluster is running` };
+    case 'timeout':
+      return { kind, message: `The ${target} did not respond in time (${detail})` };
+    case 'tls':
+      return { kind, message: `TLS handshake with the ${target} failed (${detail}) - check the CA and certificate settings` };
+    case 'auth':
+      return { kind, message: `The ${target} rejected the credentials (${detail})` };
+    case 'http':
+      return { kind, message: `The ${target} answered with an error (${detail}) - check that the URL points at the admin API` };
+    default:
+      return { kind, message: `Could not reach the ${target}: ${detail}` };
+  }
+}
+
+function isForbidden(error: unknown): boolean {
+  return error instanceof Error && /^HTTP 403\b/.test(error.message);
+}
+
+function failedEndpoint(target: string, error: unknown): EndpointHealth {
+  const { kind, message } = describeConnectionError(target, error);
+  return { ok: false, errorKind: kind, error: message };
+}
+
+/**
+ * Check the admin API with the version and health endpoints
+ * Both are restricted to super-users on many clusters; a 403 still proves the API is up and the credentials work
+ */
+async function checkAdmin(admin: PulsarAdmin, adminUrl: string, timeoutMs: number): Promise<{ health: EndpointHealth; version?: string }> {
+  const target = `admin API at ${adminUrl}`;
+  const startedAt = Date.now();
+  let version: string | undefined;
+
+  try {
+    version = await admin.getBrokerVersion(timeoutMs);
+  } catch (error) {
+    if (!isForbidden(error)) {
+      return { health: failedEndpoint(target, error) };
+    }
+  }
+  try {
+    await admin.checkBrokerHealth(timeoutMs);
+  } catch (error) {
+    if (!isForbidden(error)) {
+      return { health: failedEndpoint(target, error), version };
+    }
+  }
+
+  return { health: { ok: true, latencyMs: Date.now() - startedAt }, version };
+}
+
+/**
+ * Open a socket to the service URL, completing the TLS handshake for pulsar+ssl and https
+ * Only the first host of a multi-host service URL is probed
+ * The certificate is only verified against a configured CA file: without one the native client trusts the OS
+ * certificate store, which Node's bundled CA list does not match, so the probe would reject brokers it accepts
+ */
+export async function probeServiceUrl(serviceUrl: string, tlsConfig: PulsarAdminTlsConfig | undefined, timeoutMs: number): Promise<void> {
+  const url = new URL(serviceUrl.split(',')[0].trim());
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const port = url.port ? Number(url.port) : DEFAULT_SERVICE_PORTS[url.protocol];
+  if (!port) {
+    throw new Error(`Unsupported service URL protocol ${url.protocol} - expected pulsar:// or pulsar+ssl://`);
+  }
+  const secure = url.protocol === 'pulsar+ssl:' || url.protocol === 'https:';
+
+  await new Promise<void>((resolve, reject) => {
+    const socket = secure
+      ? tls.connect({
+        host,
+        port,
+        servername: net.isIP(host) ? undefined : host,
+        ca: tlsConfig?.caFilePath ? fs.readFileSync(tlsConfig.caFilePath) : undefined,
+        cert: tlsConfig?.certFilePath ? fs.readFileSync(tlsConfig.certFilePath) : undefined,
+        key: tlsConfig?.keyFilePath ? fs.readFileSync(tlsConfig.keyFilePath) : undefined,
+        rejectUnauthorized: Boolean(tlsConfig?.caFilePath) && !tlsConfig?.allowInsecureConnection,
+        checkServerIdentity: tlsConfig?.validateHostname === false ? () => undefined : undefined,
+      })
+      : net.connect({ host, port });
+
+    socket.setTimeout(timeoutMs, () => {
+      socket.destroy(Object.assign(new Error(`Connection timed out after ${timeoutMs}ms`), { code: 'ETIMEDOUT' }));
+    });
+    socket.once(secure ? 'secureConnect' : 'connect', () => {
+      socket.end();
+      resolve();
+    });
+    socket.once('error', reject);
+  });
+}
+
+async function checkBroker(serviceUrl: string, tlsConfig: PulsarAdminTlsConfig | undefined, timeoutMs: number): Promise<EndpointHealth> {
+  const startedAt = Date.now();
+  try {
+    await probeServiceUrl(serviceUrl, tlsConfig, timeoutMs);
+    return { ok: true, latencyMs: Date.now() - startedAt };
+  } catch (error) {
+    return failedEndpoint(`broker at ${serviceUrl}`, error);
+  }
+}
+
+/**
+ * Check both the admin API and the broker service URL of a connection
+ */
+export async function checkConnectionHealth(
+  clusterId: string,
+  admin: PulsarAdmin,
+  adminUrl: string,
+  serviceUrl: string,
+  tlsConfig: PulsarAdminTlsConfig | undefined,
+  timeoutMs: number
+): Promise<ConnectionHealth> {
+  const [adminResult, broker] = await Promise.all([
+    checkAdmin(admin, adminUrl, timeoutMs),
+    checkBroker(serviceUrl, tlsConfig, timeoutMs),
+  ]);
+
+  let state: ConnectionHealth['state'] = 'unreachable';
+  if (adminResult.health.ok && broker.ok) {
+    state = 'healthy';
+  } else if (adminResult.health.ok || broker.ok) {
+    state = 'degraded';
+  }
+
+  return {
+    clusterId,
+    state,
+    checkedAt: Date.now(),
+    admin: adminResult.health,
+    broker,
+    pulsarVersion: adminResult.version,
+  };
+}
@@ -1,12 +1,22 @@
 /**
  * Connection Profile Storage Service
  * Manages saving and loading connection profiles from disk
+ * Credential fields are encrypted at rest and only ever decrypted in the main process
  */
 
 import path from 'path';
 import fs from 'fs';
 import { app } from 'electron';
-import type { SavedProfile } from '../src/shared/types';
+import { STORED_SECRET, type SavedProfile } from '../src/shared/types';
+import {
+  decryptSecret,
+  encryptSecret,
+  getSecretStorageStatus,
+  isEncryptedSecret,
+  authSecrets,
+  mapAuthSecrets,
+  mergeStoredSecrets,
+} from './secretStorage';
 
 export interface ProfilesData {
   profiles: SavedProfile[];
@@ -31,7 +41,8 @@ export class ConnectionProfileStorage {
   }
 
   /**
-   * Load all saved profiles
+   * Load all saved profiles with their secrets decrypted.
+   * Plaintext secrets from older versions are encrypted in place once a keyring is available.
    */
   loadProfiles(): SavedProfile[] {
     try {
@@ -40,7 +51,17 @@ export class ConnectionProfileStorage {
       }
       const data = fs.readFileSync(this.configFilePath, 'utf-8');
       const parsed = JSON.parse(data) as ProfilesData;
-      return parsed.profiles || [];
+      const stored = parsed.profiles || [];
+      const profiles = stored.map(profile => this.decryptProfile(profile));
+
+      const hasPlaintext = stored.some(profile =>
+        profile.auth && authSecrets(profile.auth).some(value => value && !isEncryptedSecret(value))
+      );
+      if (hasPlaintext && getSecretStorageStatus().encrypted) {
+        console.log('Encrypting plaintext credentials in saved profiles');
+        this.writeProfiles(profiles);
+      }
+      return profiles;
     } catch (error) {
       console.error('Error loading profiles:', error);
       return [];
@@ -48,9 +69,14 @@ export class ConnectionProfileStorage {
   }
 
   /**
-   * Save a new profile or update existing one
+   * Save a new profile or update existing one.
+   * Secret fields set to STORED_SECRET keep the value stored on `secretsFromProfileId` (or the profile being replaced).
    */
-  saveProfile(profile: Omit<SavedProfile, 'profileId' | 'savedAt'>, profileId?: string): SavedProfile {
+  saveProfile(
+    profile: Omit<SavedProfile, 'profileId' | 'savedAt'>,
+    profileId?: string,
+    secretsFromProfileId?: string
+  ): SavedProfile {
     const profiles = this.loadProfiles();
     
     // Check if a profile with same connection details already exists
@@ -65,8 +91,11 @@ export class ConnectionProfileStorage {
     // Remove existing profile if updating
     const filtered = profiles.filter(p => p.profileId !== id);
 
+    const secretsSource = profiles.find(p => p.profileId === (secretsFromProfileId || id));
+    const { secretsRedacted: _redacted, secretsUnreadable: _unreadable, ...fields } = profile;
     const savedProfile: SavedProfile = {
-      ...profile,
+      ...fields,
+      auth: fields.auth ? mergeStoredSecrets(fields.auth, secretsSource?.auth) : undefined,
       profileId: id,
       savedAt: Date.now(),
     };
@@ -146,13 +175,47 @@ export class ConnectionProfileStorage {
     }
   }
 
+  private decryptProfile(profile: SavedProfile): SavedProfile {
+    if (!profile.auth) {
+      return profile;
+    }
+    let secretsUnreadable = false;
+    const auth = mapAuthSecrets(profile.auth, (value) => {
+      try {
+        return decryptSecret(value);
+      } catch (error) {
+        // Usually the OS keyring changed; keep the ciphertext so it is not lost on the next write
+        console.error(`Error decrypting credentials for profile ${profile.name}:`, error);
+        secretsUnreadable = true;
+        return value;
+      }
+    });
+    return secretsUnreadable ? { ...profile, auth, secretsUnreadable } : { ...profile, auth };
+  }
+
   private writeProfiles(profiles: SavedProfile[]): void {
     try {
       const data = this.readProfilesData();
-      data.profiles = profiles;
+      data.profiles = profiles.map(profile =>
+        profile.auth ? { ...profile, auth: mapAuthSecrets(profile.auth, encryptSecret) } : profile
+      );
       fs.writeFileSync(this.configFilePath, JSON.stringify(data, null, 2), 'utf-8');
     } catch (error) {
       console.error('Error writing profiles:', error);
     }
   }
 }
+
+/**
+ * Replace secret values with STORED_SECRET before a profile is sent to the renderer
+ */
+export function redactProfile(profile: SavedProfile): SavedProfile {
+  if (!profile.auth) {
+    return profile;
+  }
+  return {
+    ...profile,
+    auth: mapAuthSecrets(profile.auth, (value) => (value ? STORED_SECRET : '')),
+    secretsRedacted: true,
+  };
+}
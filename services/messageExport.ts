@@ -0,0 +1,158 @@
+/**
+ * Message export - Streams messages to JSON Lines, CSV or a raw binary archive
+ *
+ * Raw archive layout: the RAW_ARCHIVE_MAGIC line, then one record per message:
+ *   uint32 BE header length | UTF-8 JSON RawArchiveHeader | uint32 BE payload length | payload bytes
+ */
+
+import fs from 'fs';
+import type { BrowsedMessage, MessageExportColumn, MessageExportFormat } from '../src/shared/types';
+import { decodePayload } from './payloadCodec';
+
+export const RAW_ARCHIVE_MAGIC = 'LIGHTCURVE-RAW 1\n';
+
+// Metadata stored ahead of each payload in a raw archive
+export interface RawArchiveHeader {
+  messageId: string;
+  topicName: string;
+  properties: Record<string, string>;
+  publishTimestamp: number;
+  eventTimestamp: number;
+  partitionKey?: string;
+}
+
+export const ALL_EXPORT_COLUMNS: MessageExportColumn[] = [
+  'messageId',
+  'topicName',
+  'publishTimestamp',
+  'eventTimestamp',
+  'partitionKey',
+  'properties',
+  'payload',
+  'encoding',
+  'size',
+  'schemaType',
+];
+
+export interface MessageExportWriter {
+  write(message: BrowsedMessage): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break (RFC 4180)
+ */
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function formatTimestamp(timestamp: number): string {
+  return timestamp > 0 ? new Date(timestamp).toISOString() : '';
+}
+
+function csvValue(message: BrowsedMessage, column: MessageExportColumn): string {
+  switch (column) {
+    case 'publishTimestamp':
+      return formatTimestamp(message.publishTimestamp);
+    case 'eventTimestamp':
+      return formatTimestamp(message.eventTimestamp);
+    case 'properties':
+      return Object.keys(message.properties || {}).length > 0 ? JSON.stringify(message.properties) : '';
+    case 'payload':
+      // Prefer the schema-decoded form; binary payloads stay base64 (see the encoding column)
+      return message.decodedData ?? message.data;
+    case 'size':
+      return String(message.size);
+    default:
+      return message[column] ?? '';
+  }
+}
+
+function rawRecord(message: BrowsedMessage): Buffer {
+  const header: RawArchiveHeader = {
+    messageId: message.messageId,
+    topicName: message.topicName,
+    properties: message.properties || {},
+    publishTimestamp: message.publishTimestamp,
+    eventTimestamp: message.eventTimestamp,
+    partitionKey: message.partitionKey,
+  };
+  const headerBytes = Buffer.from(JSON.stringify(header), 'utf-8');
+  const payload = decodePayload(message.data, message.encoding);
+
+  const record = Buffer.alloc(8 + headerBytes.length + payload.length);
+  record.writeUInt32BE(headerBytes.length, 0);
+  headerBytes.copy(record, 4);
+  record.writeUInt32BE(payload.length, 4 + headerBytes.length);
+  payload.copy(record, 8 + headerBytes.length);
+  return record;
+}
+
+/**
+ * Open an export file and return a writer for the chosen format
+ */
+export function createExportWriter(
+  filePath: string,
+  format: MessageExportFormat,
+  columns: MessageExportColumn[] = ALL_EXPORT_COLUMNS
+): MessageExportWriter {
+  const stream = fs.createWriteStream(filePath);
+  let streamError: Error | null = null;
+  stream.on('error', (err) => {
+    streamError = err;
+  });
+
+  // Respect backpressure so streamed exports don't buffer the whole topic in memory
+  const writeChunk = async (chunk: string | Buffer): Promise<void> => {
+    if (streamError) {
+      throw streamError;
+    }
+    if (!stream.write(chunk)) {
+      await new Promise<void>((resolve, reject) => {
+        stream.once('drain', resolve);
+        stream.once('error', reject);
+      });
+    }
+  };
+
+  let started = false;
+  const writeHeader = async () => {
+    started = true;
+    if (format === 'csv') {
+      await writeChunk(columns.join(',') + '\n');
+    } else if (format === 'raw') {
+      await writeChunk(RAW_ARCHIVE_MAGIC);
+    }
+  };
+
+  return {
+    async write(message) {
+      if (!started) {
+        await writeHeader();
+      }
+      switch (format) {
+        case 'jsonl':
+          await writeChunk(JSON.stringify(message) + '\n');
+          break;
+        case 'csv':
+          await writeChunk(columns.map(column => csvField(csvValue(message, column))).join(',') + '\n');
+          break;
+        case 'raw':
+          await writeChunk(rawRecord(message));
+          break;
+      }
+    },
+
+    async close() {
+      if (!started) {
+        await writeHeader();
+      }
+      await new Promise<void>((resolve, reject) => {
+        stream.end((err?: Error | null) => (err ? reject(err) : resolve()));
+      });
+      if (streamError) {
+        throw streamError;
+      }
+    },
+  };
+}
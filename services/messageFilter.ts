@@ -0,0 +1,183 @@
+/**
+ * Message filter - Compiles search criteria into a predicate over received messages
+ * Includes a small JSONPath evaluator covering $, .key, ['key'], [n], [*], .* and ..key
+ */
+
+import type { MessageSearchCriteria } from '../src/shared/types';
+import type { PulsarMessage } from './pulsarClient';
+
+export interface MessageFilter {
+  // Whether matching needs the payload text, so callers can skip decoding otherwise
+  needsPayload: boolean;
+  matches(msg: PulsarMessage, payloadText: string): boolean;
+  // Whether a message was published after the publish time window; later messages of its partition can't match either
+  pastEnd(msg: PulsarMessage): boolean;
+}
+
+interface JsonPathSegment {
+  key: string | number | '*';
+  recursive: boolean;
+}
+
+/**
+ * Parse a JSONPath expression into segments; the leading "$" is optional
+ */
+function parseJsonPath(path: string): JsonPathSegment[] {
+  const expression = path.trim();
+  const segments: JsonPathSegment[] = [];
+  let i = expression.startsWith('$') ? 1 : 0;
+
+  while (i < expression.length) {
+    let recursive = false;
+    if (expression.startsWith('..', i)) {
+      recursive = true;
+      i += 2;
+    } else if (expression[i] === '.') {
+      i++;
+    }
+
+    if (expression[i] === '[') {
+      const end = expression.indexOf(']', i);
+      if (end < 0) {
+        throw new Error(`Unclosed bracket in JSONPath ${path}`);
+      }
+      const inner = expression.slice(i + 1, end).trim();
+      i = end + 1;
+      if (inner === '*') {
+        segments.push({ key: '*', recursive });
+      } else if (/^-?\d+$/.test(inner)) {
+        segments.push({ key: Number(inner), recursive });
+      } else if (/^'.*'$|^".*"$/.test(inner)) {
+        segments.push({ key: inner.slice(1, -1), recursive });
+      } else {
+        throw new Error(`Unsupported JSONPath selector [${inner}] in ${path}`);
+      }
+      continue;
+    }
+
+    const name = /^[^.[\]]+/.exec(expression.slice(i));
+    if (!name) {
+      throw new Error(`Invalid JSONPath ${path}`);
+    }
+    segments.push({ key: name[0], recursive });
+    i += name[0].length;
+  }
+
+  return segments;
+}
+
+/**
+ * Select every value a parsed JSONPath reaches within a document
+ */
+function evaluateJsonPath(document: unknown, segments: JsonPathSegment[]): unknown[] {
+  let current: unknown[] = [document];
+
+  for (const segment of segments) {
+    const next: unknown[] = [];
+    const visit = (value: unknown) => {
+      if (value === null || typeof value !== 'object') {
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      if (segment.key === '*') {
+        next.push(...Object.values(record));
+      } else if (typeof segment.key === 'number') {
+        if (Array.isArray(value)) {
+          const index = segment.key < 0 ? value.length + segment.key : segment.key;
+          if (index >= 0 && index < value.length) {
+            next.push(value[index]);
+          }
+        }
+      } else if (Object.prototype.hasOwnProperty.call(record, segment.key)) {
+        next.push(record[segment.key]);
+      }
+      if (segment.recursive) {
+        Object.values(record).forEach(visit);
+      }
+    };
+    current.forEach(visit);
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * Build a predicate that passes messages meeting every criterion that is set
+ * Throws when a regex or JSONPath expression is invalid
+ */
+export function compileMessageFilter(criteria: MessageSearchCriteria): MessageFilter {
+  const checks: Array<(msg: PulsarMessage, payloadText: string) => boolean> = [];
+  let needsPayload = false;
+
+  if (criteria.payloadText) {
+    needsPayload = true;
+    if (criteria.payloadRegex) {
+      const pattern = new RegExp(criteria.payloadText, criteria.caseSensitive ? '' : 'i');
+      checks.push((_msg, text) => pattern.test(text));
+    } else if (criteria.caseSensitive) {
+      const needle = criteria.payloadText;
+      checks.push((_msg, text) => text.includes(needle));
+    } else {
+      const needle = criteria.payloadText.toLowerCase();
+      checks.push((_msg, text) => text.toLowerCase().includes(needle));
+    }
+  }
+
+  if (criteria.jsonPath) {
+    needsPayload = true;
+    const segments = parseJsonPath(criteria.jsonPath);
+    const expected = criteria.jsonPathValue;
+    checks.push((_msg, text) => {
+      let document: unknown;
+      try {
+        document = JSON.parse(text);
+      } catch {
+        return false;
+      }
+      const values = evaluateJsonPath(document, segments);
+      if (expected === undefined || expected === '') {
+        return values.length > 0;
+      }
+      return values.some(value => (typeof value === 'string' ? value : JSON.stringify(value)) === expected);
+    });
+  }
+
+  if (criteria.propertyKey || criteria.propertyValue) {
+    const { propertyKey, propertyValue } = criteria;
+    checks.push((msg) => {
+      const properties = msg.properties || {};
+      if (propertyKey) {
+        if (!Object.prototype.hasOwnProperty.call(properties, propertyKey)) {
+          return false;
+        }
+        return !propertyValue || properties[propertyKey] === propertyValue;
+      }
+      return Object.values(properties).includes(propertyValue as string);
+    });
+  }
+
+  if (criteria.partitionKey) {
+    const partitionKey = criteria.partitionKey;
+    checks.push((msg) => msg.partitionKey === partitionKey);
+  }
+
+  if (criteria.publishTimeFrom !== undefined || criteria.publishTimeTo !== undefined) {
+    const from = criteria.publishTimeFrom ?? -Infinity;
+    const to = criteria.publishTimeTo ?? Infinity;
+    checks.push((msg) => msg.publishTimestamp >= from && msg.publishTimestamp <= to);
+  }
+
+  if (criteria.eventTimeFrom !== undefined || criteria.eventTimeTo !== undefined) {
+    const from = criteria.eventTimeFrom ?? -Infinity;
+    const to = criteria.eventTimeTo ?? Infinity;
+    // An event time of 0 means the producer didn't set one
+    checks.push((msg) => msg.eventTimestamp > 0 && msg.eventTimestamp >= from && msg.eventTimestamp <= to);
+  }
+
+  return {
+    needsPayload,
+    matches: (msg, payloadText) => checks.every(check => check(msg, payloadText)),
+    pastEnd: (msg) => criteria.publishTimeTo !== undefined && msg.publishTimestamp > criteria.publishTimeTo,
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Message import - Streams records back out of JSONL exports and raw archives for replay
+ */
+
+import fs from 'fs';
+import readline from 'readline';
+import type { PayloadEncoding } from '../src/shared/types';
+import { RAW_ARCHIVE_MAGIC, type RawArchiveHeader } from './messageExport';
+import { decodePayload } from './payloadCodec';
+
+export interface ImportedMessage {
+  data: Buffer;
+  properties: Record<string, string>;
+  partitionKey?: string;
+  eventTimestamp?: number;
+  publishTimestamp?: number;
+}
+
+export interface MessageFileReader {
+  format: 'jsonl' | 'raw';
+  totalBytes: number;
+  bytesRead(): number;
+  messages(): AsyncGenerator<ImportedMessage>;
+  close(): void;
+}
+
+// JSONL lines are exported BrowsedMessage objects; peek results (payload instead of data) work too
+interface JsonlRecord {
+  data?: string;
+  payload?: string;
+  encoding?: PayloadEncoding;
+  properties?: Record<string, string>;
+  partitionKey?: string;
+  eventTimestamp?: number;
+  publishTimestamp?: number;
+}
+
+async function readFileHead(filePath: string, length: number): Promise<Buffer> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+async function* readJsonl(stream: fs.ReadStream): AsyncGenerator<ImportedMessage> {
+  const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line.trim()) {
+      continue;
+    }
+
+    let record: JsonlRecord;
+    try {
+      record = JSON.parse(line);
+    } catch (err) {
+      throw new Error(`Line ${lineNumber} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    const data = record.data ?? record.payload;
+    if (typeof data !== 'string') {
+      throw new Error(`Line ${lineNumber} has no data or payload field`);
+    }
+
+    yield {
+      data: decodePayload(data, record.encoding),
+      properties: record.properties || {},
+      partitionKey: record.partitionKey || undefined,
+      eventTimestamp: record.eventTimestamp || undefined,
+      publishTimestamp: record.publishTimestamp || undefined,
+    };
+  }
+}
+
+async function* readRawArchive(stream: fs.ReadStream): AsyncGenerator<ImportedMessage> {
+  let buffer: Buffer = Buffer.alloc(0);
+  let skippedMagic = false;
+  let recordNumber = 0;
+
+  for await (const chunk of stream) {
+    buffer = Buffer.concat([buffer, chunk as Buffer]);
+    if (!skippedMagic) {
+      if (buffer.length < RAW_ARCHIVE_MAGIC.length) {
+        continue;
+      }
+      buffer = buffer.subarray(RAW_ARCHIVE_MAGIC.length);
+      skippedMagic = true;
+    }
+
+    // Emit every complete record in the buffer, keeping any partial record for the next chunk
+    for (;;) {
+      if (buffer.length < 4) {
+        break;
+      }
+      const headerLength = buffer.readUInt32BE(0);
+      if (buffer.length < 8 + headerLength) {
+        break;
+      }
+      const payloadLength = buffer.readUInt32BE(4 + headerLength);
+      const recordLength = 8 + headerLength + payloadLength;
+      if (buffer.length < recordLength) {
+        break;
+      }
+
+      recordNumber++;
+      let header: RawArchiveHeader;
+      try {
+        header = JSON.parse(buffer.subarray(4, 4 + headerLength).toString('utf-8'));
+      } catch {
+        throw new Error(`Record ${recordNumber} has a corrupt header`);
+      }
+      yield {
+        // Copy so the record doesn't pin the whole read buffer
+        data: Buffer.from(buffer.subarray(8 + headerLength, recordLength)),
+        properties: header.properties || {},
+        partitionKey: header.partitionKey || undefined,
+        eventTimestamp: header.eventTimestamp || undefined,
+        publishTimestamp: header.publishTimestamp || undefined,
+      };
+      buffer = buffer.subarray(recordLength);
+    }
+  }
+
+  if (buffer.length > 0) {
+    throw new Error(`Archive ends with a truncated record after record ${recordNumber}`);
+  }
+}
+
+/**
+ * Open an exported message file, detecting raw archives by their magic line
+ */
+export async function openMessageFile(filePath: string): Promise<MessageFileReader> {
+  const { size } = await fs.promises.stat(filePath);
+  const head = await readFileHead(filePath, RAW_ARCHIVE_MAGIC.length);
+  const format = head.toString('utf-8') === RAW_ARCHIVE_MAGIC ? 'raw' : 'jsonl';
+  const stream = fs.createReadStream(filePath);
+
+  return {
+    format,
+    totalBytes: size,
+    bytesRead: () => stream.bytesRead,
+    messages: () => (format === 'raw' ? readRawArchive(stream) : readJsonl(stream)),
+    close: () => stream.destroy(),
+  };
+}
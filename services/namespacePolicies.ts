@@ -0,0 +1,170 @@
+/**
+ * Namespace Policies
+ * Reads and updates the policies a namespace sets, one admin sub-resource per policy
+ */
+
+import type { PulsarAdmin } from './pulsarAdmin';
+import type {
+  NamespacePolicies,
+  NamespacePolicyChanges,
+  NamespacePolicyKey,
+  NamespacePoliciesResult,
+  NamespacePolicyUpdateResult,
+} from '../src/shared/types';
+
+interface PolicyEndpoint {
+  path: string; // Sub-resource of /admin/v2/namespaces/{namespace}
+  readPath?: string; // When the policy is read from a different sub-resource
+  fromBroker?: (value: any) => unknown; // Keep only the fields the editor manages
+  setMethod?: 'PUT';
+  removeValue?: unknown; // Policies without a DELETE endpoint are reset by setting this value
+}
+
+// Broker responses carry more fields than the editors manage; these keep the managed ones
+// Topic policies share the shapes, so the topic service reuses them
+
+export const pickRetention = (retention: any) => ({
+  retentionTimeInMinutes: retention.retentionTimeInMinutes,
+  retentionSizeInMB: retention.retentionSizeInMB,
+});
+
+export const pickStorageQuota = (quotas: any) => {
+  const quota = quotas.destination_storage;
+  // Older brokers only report the deprecated "limit" field
+  return quota ? { limitSize: quota.limitSize ?? quota.limit ?? -1, limitTime: quota.limitTime ?? -1, policy: quota.policy } : undefined;
+};
+
+export const pickDispatchRate = (rate: any) => ({
+  dispatchThrottlingRateInMsg: rate.dispatchThrottlingRateInMsg,
+  dispatchThrottlingRateInByte: rate.dispatchThrottlingRateInByte,
+  ratePeriodInSecond: rate.ratePeriodInSecond,
+});
+
+export const pickPublishRate = (rate: any) => ({
+  publishThrottlingRateInMsg: rate.publishThrottlingRateInMsg,
+  publishThrottlingRateInByte: rate.publishThrottlingRateInByte,
+});
+
+const ENDPOINTS: Record<NamespacePolicyKey, PolicyEndpoint> = {
+  retention: { path: 'retention', fromBroker: pickRetention },
+  messageTtlSeconds: { path: 'messageTTL' },
+  backlogQuota: {
+    path: 'backlogQuota?backlogQuotaType=destination_storage',
+    readPath: 'backlogQuotaMap',
+    fromBroker: pickStorageQuota,
+  },
+  deduplicationEnabled: { path: 'deduplication' },
+  dispatchRate: { path: 'dispatchRate', fromBroker: pickDispatchRate },
+  subscriptionDispatchRate: { path: 'subscriptionDispatchRate', fromBroker: pickDispatchRate },
+  publishRate: { path: 'publishRate', fromBroker: pickPublishRate },
+  subscribeRate: {
+    path: 'subscribeRate',
+    fromBroker: (rate) => ({
+      subscribeThrottlingRatePerConsumer: rate.subscribeThrottlingRatePerConsumer,
+      ratePeriodInSecond: rate.ratePeriodInSecond,
+    }),
+  },
+  maxProducersPerTopic: { path: 'maxProducersPerTopic' },
+  maxConsumersPerTopic: { path: 'maxConsumersPerTopic' },
+  maxConsumersPerSubscription: { path: 'maxConsumersPerSubscription' },
+  schemaCompatibilityStrategy: {
+    path: 'schemaCompatibilityStrategy',
+    fromBroker: (strategy) => (strategy === 'UNDEFINED' ? undefined : strategy),
+    setMethod: 'PUT',
+    removeValue: 'UNDEFINED',
+  },
+  autoTopicCreation: {
+    path: 'autoTopicCreation',
+    fromBroker: (override) => ({
+      allowAutoTopicCreation: override.allowAutoTopicCreation,
+      topicType: override.topicType,
+      ...(override.defaultNumPartitions ? { defaultNumPartitions: override.defaultNumPartitions } : {}),
+    }),
+  },
+};
+
+const POLICY_KEYS = Object.keys(ENDPOINTS) as NamespacePolicyKey[];
+
+export const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Brokers older than a policy answer its endpoint with 404 or 405
+export const isMissingEndpoint = (error: unknown) => /^HTTP (404|405)\b/.test(errorMessage(error));
+
+/**
+ * Read every editable policy of a namespace
+ */
+export async function readNamespacePolicies(admin: PulsarAdmin, namespace: string): Promise<NamespacePoliciesResult> {
+  const policies: Record<string, unknown> = {};
+  const unsupported: NamespacePolicyKey[] = [];
+
+  const reads = await Promise.allSettled(POLICY_KEYS.map(async (key) => {
+    const endpoint = ENDPOINTS[key];
+    const value = await admin.getNamespacePolicy<unknown>(namespace, endpoint.readPath || endpoint.path);
+    return value === undefined || !endpoint.fromBroker ? value : endpoint.fromBroker(value);
+  }));
+
+  reads.forEach((read, index) => {
+    const key = POLICY_KEYS[index];
+    if (read.status === 'fulfilled') {
+      if (read.value !== undefined) {
+        policies[key] = read.value;
+      }
+    } else if (isMissingEndpoint(read.reason)) {
+      unsupported.push(key);
+    } else {
+      throw read.reason;
+    }
+  });
+
+  // Every endpoint missing means the namespace itself was not found
+  if (unsupported.length === POLICY_KEYS.length) {
+    throw (reads[0] as PromiseRejectedResult).reason;
+  }
+  return { policies: policies as NamespacePolicies, unsupported };
+}
+
+async function applyPolicy(admin: PulsarAdmin, namespace: string, key: NamespacePolicyKey, value: unknown): Promise<void> {
+  const endpoint = ENDPOINTS[key];
+  if (value !== null) {
+    await admin.setNamespacePolicy(namespace, endpoint.path, value, endpoint.setMethod);
+  } else if (endpoint.removeValue !== undefined) {
+    await admin.setNamespacePolicy(namespace, endpoint.path, endpoint.removeValue, endpoint.setMethod);
+  } else {
+    await admin.removeNamespacePolicy(namespace, endpoint.path);
+  }
+}
+
+/**
+ * Apply changed policies one by one; a failed policy does not stop the others
+ */
+export async function updateNamespacePolicies(
+  admin: PulsarAdmin,
+  namespace: string,
+  changes: NamespacePolicyChanges
+): Promise<NamespacePolicyUpdateResult['results']> {
+  const keys = POLICY_KEYS.filter(key => key in changes);
+  const failures = new Map<NamespacePolicyKey, string>();
+
+  for (const key of keys) {
+    try {
+      await applyPolicy(admin, namespace, key, changes[key]);
+    } catch (error) {
+      failures.set(key, errorMessage(error));
+    }
+  }
+
+  // The broker checks retention against the backlog quota, so one of them can fail only
+  // because the other had not been changed yet; retry once after everything else
+  if (failures.size > 0 && failures.size < keys.length) {
+    for (const key of Array.from(failures.keys())) {
+      try {
+        await applyPolicy(admin, namespace, key, changes[key]);
+        failures.delete(key);
+      } catch (error) {
+        failures.set(key, errorMessage(error));
+      }
+    }
+  }
+
+  return keys.map(policy => (failures.has(policy) ? { policy, error: failures.get(policy) } : { policy }));
+}
@@ -3,6 +3,8 @@
  * Acquires and manages access tokens for authentication
  */
 
+import fs from 'fs';
+
 export interface OAuthTokenResponse {
   access_token: string;
   token_type: string;
@@ -16,6 +18,39 @@ export interface OAuthClientConfig {
   issuerUrl: string;
   audience: string;
   scopes?: string[];
+  privateKeyFile?: string; // Pulsar/StreamNative credentials JSON; supplies the client ID and secret
+  tokenSource?: () => Promise<string>; // Interactive logins supply tokens from their session instead
+}
+
+// Credentials JSON key file as issued by Pulsar/StreamNative ("private key" in pulsar-admin terms)
+interface OAuthKeyFile {
+  type?: string;
+  client_id: string;
+  client_secret: string;
+  client_email?: string;
+  issuer_url?: string;
+}
+
+export interface OAuthCredentials {
+  clientId: string;
+  clientSecret: string;
+  issuerUrl: string;
+}
+
+/**
+ * Read a credentials key file
+ */
+export function readOAuthKeyFile(filePath: string): OAuthKeyFile {
+  let parsed: Partial<OAuthKeyFile>;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath.replace(/^file:\/\//, ''), 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read OAuth key file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed.client_id || !parsed.client_secret) {
+    throw new Error(`OAuth key file ${filePath} must contain client_id and client_secret`);
+  }
+  return parsed as OAuthKeyFile;
 }
 
 export class OAuthClient {
@@ -23,13 +58,68 @@ export class OAuthClient {
     token: string;
     expiresAt: number;
   } | null = null;
+  private pendingToken: Promise<string> | null = null;
+  private tokenEndpoint: string | null = null;
+  private discoveryAttempted = false;
 
   constructor(private config: OAuthClientConfig) {}
 
+  /**
+   * Resolve the client credentials, reading them from the key file when one is configured
+   */
+  getCredentials(): OAuthCredentials {
+    if (!this.config.privateKeyFile) {
+      return {
+        clientId: this.config.clientId,
+        clientSecret: this.config.clientSecret,
+        issuerUrl: this.config.issuerUrl,
+      };
+    }
+    const keyFile = readOAuthKeyFile(this.config.privateKeyFile);
+    return {
+      clientId: keyFile.client_id,
+      clientSecret: keyFile.client_secret,
+      issuerUrl: this.config.issuerUrl || keyFile.issuer_url || '',
+    };
+  }
+
+  /**
+   * Look up the token endpoint in the issuer's OpenID configuration
+   * Returns null when the issuer does not publish one
+   */
+  async discoverTokenEndpoint(): Promise<string | null> {
+    if (this.discoveryAttempted) {
+      return this.tokenEndpoint;
+    }
+    this.discoveryAttempted = true;
+
+    const issuerUrl = this.getCredentials().issuerUrl.replace(/\/$/, '');
+    const discoveryUrl = `${issuerUrl}/.well-known/openid-configuration`;
+    try {
+      const response = await fetch(discoveryUrl);
+      if (!response.ok) {
+        console.warn(`[OAuthClient] OpenID discovery failed: ${discoveryUrl} -> HTTP ${response.status}`);
+        return null;
+      }
+      const metadata = (await response.json()) as { token_endpoint?: string };
+      if (metadata.token_endpoint) {
+        console.log('[OAuthClient] Discovered token endpoint', metadata.token_endpoint);
+        this.tokenEndpoint = metadata.token_endpoint;
+      }
+    } catch (error) {
+      console.warn(`[OAuthClient] OpenID discovery failed: ${discoveryUrl} ->`, error instanceof Error ? error.message : error);
+    }
+    return this.tokenEndpoint;
+  }
+
   /**
    * Get a valid access token, using cached token if not expired
    */
   async getAccessToken(): Promise<string> {
+    if (this.config.tokenSource) {
+      return await this.config.tokenSource();
+    }
+
     // Return cached token if still valid (with 60s buffer)
     if (
       this.tokenCache &&
@@ -38,21 +128,32 @@ export class OAuthClient {
       return this.tokenCache.token;
     }
 
-    // Request new token
-    const token = await this.requestToken();
-    return token;
+    // Share one request between concurrent callers
+    if (!this.pendingToken) {
+      this.pendingToken = this.requestToken().finally(() => {
+        this.pendingToken = null;
+      });
+    }
+    return await this.pendingToken;
   }
 
   /**
    * Request a new access token from the OAuth provider
    */
   private async requestToken(): Promise<string> {
-    const issuerUrl = this.config.issuerUrl.replace(/\/$/, ''); // Remove trailing slash
+    const credentials = this.getCredentials();
+    const issuerUrl = credentials.issuerUrl.replace(/\/$/, ''); // Remove trailing slash
 
     // Build a list of token endpoints to try. Many providers use different token paths
     // (e.g., /oauth/token, /cached/oauth/token, /protocol/openid-connect/token).
     const tokenEndpoints: string[] = [];
 
+    // The discovered endpoint is authoritative; the guesses below are for issuers without discovery
+    const discovered = await this.discoverTokenEndpoint();
+    if (discovered) {
+      tokenEndpoints.push(discovered);
+    }
+
     // If the issuer already looks like a token endpoint, try it first.
     if (/\/token(\?|$)/.test(issuerUrl)) {
       tokenEndpoints.push(issuerUrl);
@@ -70,8 +171,8 @@ export class OAuthClient {
 
     const body = new URLSearchParams({
       grant_type: 'client_credentials',
-      client_id: this.config.clientId,
-      client_secret: this.config.clientSecret,
+      client_id: credentials.clientId,
+      client_secret: credentials.clientSecret,
       audience: this.config.audience,
     });
 
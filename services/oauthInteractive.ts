@@ -0,0 +1,441 @@
+/**
+ * Interactive OAuth Service - Handles user logins through the
+ * authorization code (with PKCE) and device code flows, and refreshes the resulting tokens
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import type { DeviceCodePrompt, OAuthSessionStatus } from '../src/shared/types';
+import type { OAuthSessionStore } from './oauthSessionStore';
+
+export type InteractiveOAuthFlow = 'authorization_code' | 'device_code';
+
+export interface InteractiveOAuthConfig {
+  flow: InteractiveOAuthFlow;
+  clientId: string;
+  clientSecret?: string; // Public clients have none
+  issuerUrl: string;
+  audience?: string;
+  scopes?: string[];
+}
+
+export interface OAuthTokenSet {
+  accessToken: string;
+  refreshToken?: string;
+  idToken?: string;
+  expiresAt: number;
+}
+
+interface OAuthEndpoints {
+  authorizationEndpoint?: string;
+  tokenEndpoint: string;
+  deviceAuthorizationEndpoint?: string;
+}
+
+interface TokenEndpointResponse {
+  access_token: string;
+  refresh_token?: string;
+  id_token?: string;
+  expires_in?: number;
+  error?: string;
+  error_description?: string;
+}
+
+export interface InteractiveLoginHandlers {
+  openBrowser: (url: string) => Promise<void>;
+  onDeviceCode: (prompt: DeviceCodePrompt) => void;
+  signal: AbortSignal;
+}
+
+const LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+// Ask for an ID token to name the user and a refresh token to outlive the access token
+const DEFAULT_SCOPES = ['openid', 'profile', 'email', 'offline_access'];
+
+const base64Url = (buffer: Buffer): string =>
+  buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/**
+ * Decode the claims of a JWT without verifying it; only used to show who is logged in
+ */
+export function decodeJwtClaims(token: string): Record<string, unknown> | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+  try {
+    return JSON.parse(Buffer.from(parts[1], 'base64').toString('utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+async function discoverEndpoints(issuerUrl: string): Promise<OAuthEndpoints> {
+  const discoveryUrl = `${issuerUrl.replace(/\/$/, '')}/.well-known/openid-configuration`;
+  const response = await fetch(discoveryUrl);
+  if (!response.ok) {
+    throw new Error(`OpenID discovery failed: ${discoveryUrl} -> HTTP ${response.status} ${response.statusText}`);
+  }
+  const metadata = (await response.json()) as {
+    authorization_endpoint?: string;
+    token_endpoint?: string;
+    device_authorization_endpoint?: string;
+  };
+  if (!metadata.token_endpoint) {
+    throw new Error(`OpenID configuration at ${discoveryUrl} has no token_endpoint`);
+  }
+  return {
+    authorizationEndpoint: metadata.authorization_endpoint,
+    tokenEndpoint: metadata.token_endpoint,
+    deviceAuthorizationEndpoint: metadata.device_authorization_endpoint,
+  };
+}
+
+async function postForm(url: string, params: Record<string, string | undefined>, signal?: AbortSignal): Promise<{ status: number; body: TokenEndpointResponse }> {
+  const form = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value) {
+      form.append(key, value);
+    }
+  }
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: form.toString(),
+    signal,
+  });
+  const text = await response.text();
+  let body: TokenEndpointResponse;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new Error(`${url} -> HTTP ${response.status} ${response.statusText} - ${text}`);
+  }
+  return { status: response.status, body };
+}
+
+function toTokenSet(response: TokenEndpointResponse, previous?: OAuthTokenSet): OAuthTokenSet {
+  return {
+    accessToken: response.access_token,
+    // Providers that do not rotate refresh tokens leave it out of refresh responses
+    refreshToken: response.refresh_token || previous?.refreshToken,
+    idToken: response.id_token || previous?.idToken,
+    expiresAt: Date.now() + (response.expires_in ?? 3600) * 1000,
+  };
+}
+
+function describeTokenError(body: TokenEndpointResponse, status: number): string {
+  return body.error
+    ? `${body.error}${body.error_description ? `: ${body.error_description}` : ''}`
+    : `HTTP ${status}`;
+}
+
+function scopeParam(config: InteractiveOAuthConfig): string {
+  return Array.from(new Set([...DEFAULT_SCOPES, ...(config.scopes || [])])).join(' ');
+}
+
+/**
+ * Authorization code flow with PKCE: the browser redirects back to a one-shot loopback server
+ */
+async function loginWithPkce(
+  config: InteractiveOAuthConfig,
+  endpoints: OAuthEndpoints,
+  handlers: InteractiveLoginHandlers
+): Promise<OAuthTokenSet> {
+  if (!endpoints.authorizationEndpoint) {
+    throw new Error('The issuer does not publish an authorization endpoint');
+  }
+  const verifier = base64Url(crypto.randomBytes(32));
+  const challenge = base64Url(crypto.createHash('sha256').update(verifier).digest());
+  const state = base64Url(crypto.randomBytes(16));
+
+  const server = http.createServer();
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => resolve());
+  });
+  const redirectUri = `http://127.0.0.1:${(server.address() as AddressInfo).port}/callback`;
+
+  // Cleared on every way out, so a failed browser launch leaves nothing waiting behind it
+  let timer: NodeJS.Timeout | undefined;
+  let onAbort: (() => void) | undefined;
+  try {
+    const codePromise = new Promise<string>((resolve, reject) => {
+      timer = setTimeout(() => reject(new Error('Timed out waiting for the browser login')), LOGIN_TIMEOUT_MS);
+      onAbort = () => {
+        clearTimeout(timer);
+        reject(new Error('Login cancelled'));
+      };
+      handlers.signal.addEventListener('abort', onAbort, { once: true });
+
+      server.on('request', (req, res) => {
+        const url = new URL(req.url || '/', redirectUri);
+        if (url.pathname !== '/callback') {
+          res.writeHead(404).end();
+          return;
+        }
+        const finish = (message: string) => {
+          res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+          res.end(`<!doctype html><title>LightCurve</title><p style="font-family:sans-serif">${message}</p>`);
+        };
+        clearTimeout(timer);
+        if (url.searchParams.get('state') !== state) {
+          finish('Login failed: the response did not match this login attempt. You can close this tab.');
+          reject(new Error('OAuth state mismatch'));
+        } else if (url.searchParams.get('error')) {
+          finish('Login failed. You can close this tab and try again in LightCurve.');
+          reject(new Error(`${url.searchParams.get('error')}: ${url.searchParams.get('error_description') || 'login was not completed'}`));
+        } else {
+          finish('Logged in to LightCurve. You can close this tab.');
+          resolve(url.searchParams.get('code') || '');
+        }
+      });
+    });
+
+    const authorizeUrl = new URL(endpoints.authorizationEndpoint);
+    authorizeUrl.searchParams.set('response_type', 'code');
+    authorizeUrl.searchParams.set('client_id', config.clientId);
+    authorizeUrl.searchParams.set('redirect_uri', redirectUri);
+    authorizeUrl.searchParams.set('scope', scopeParam(config));
+    authorizeUrl.searchParams.set('state', state);
+    authorizeUrl.searchParams.set('code_challenge', challenge);
+    authorizeUrl.searchParams.set('code_challenge_method', 'S256');
+    if (config.audience) {
+      authorizeUrl.searchParams.set('audience', config.audience);
+    }
+    // Awaited after the browser opens; a cancel while it is opening must not go unhandled meanwhile
+    codePromise.catch(() => undefined);
+    await handlers.openBrowser(authorizeUrl.toString());
+
+    const code = await codePromise;
+    const { status, body } = await postForm(endpoints.tokenEndpoint, {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+      code_verifier: verifier,
+    });
+    if (status !== 200 || !body.access_token) {
+      throw new Error(`Token exchange failed: ${describeTokenError(body, status)}`);
+    }
+    return toTokenSet(body);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) {
+      handlers.signal.removeEventListener('abort', onAbort);
+    }
+    server.close();
+    server.closeAllConnections();
+  }
+}
+
+/**
+ * Device code flow: the user enters a code on another device while we poll the token endpoint
+ */
+async function loginWithDeviceCode(
+  config: InteractiveOAuthConfig,
+  endpoints: OAuthEndpoints,
+  handlers: InteractiveLoginHandlers
+): Promise<OAuthTokenSet> {
+  if (!endpoints.deviceAuthorizationEndpoint) {
+    throw new Error('The issuer does not publish a device authorization endpoint');
+  }
+  const response = await fetch(endpoints.deviceAuthorizationEndpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: config.clientId,
+      scope: scopeParam(config),
+      ...(config.audience ? { audience: config.audience } : {}),
+    }).toString(),
+    signal: handlers.signal,
+  });
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => 'Unknown error');
+    throw new Error(`Device authorization failed: HTTP ${response.status} - ${errorText}`);
+  }
+  const device = (await response.json()) as {
+    device_code: string;
+    user_code: string;
+    verification_uri?: string;
+    verification_url?: string; // Older Google-style name
+    verification_uri_complete?: string;
+    expires_in: number;
+    interval?: number;
+  };
+
+  const expiresAt = Date.now() + device.expires_in * 1000;
+  handlers.onDeviceCode({
+    userCode: device.user_code,
+    verificationUri: device.verification_uri || device.verification_url || '',
+    verificationUriComplete: device.verification_uri_complete,
+    expiresAt,
+  });
+
+  let intervalMs = (device.interval ?? 5) * 1000;
+  while (Date.now() < expiresAt) {
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new Error('Login cancelled'));
+      };
+      const timer = setTimeout(() => {
+        handlers.signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, intervalMs);
+      handlers.signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+    const { status, body } = await postForm(endpoints.tokenEndpoint, {
+      grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
+      device_code: device.device_code,
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+    }, handlers.signal);
+
+    if (status === 200 && body.access_token) {
+      return toTokenSet(body);
+    }
+    if (body.error === 'authorization_pending') {
+      continue;
+    }
+    if (body.error === 'slow_down') {
+      intervalMs += 5000;
+      continue;
+    }
+    throw new Error(`Device login failed: ${describeTokenError(body, status)}`);
+  }
+  throw new Error('The device code expired before the login was completed');
+}
+
+/**
+ * A user's login for one cluster connection
+ * Tokens are cached in the session store, so reconnecting the same profile skips the login
+ */
+export class InteractiveOAuthSession {
+  private tokens: OAuthTokenSet | null;
+  private endpoints: OAuthEndpoints | null = null;
+  private pendingRefresh: Promise<OAuthTokenSet> | null = null;
+
+  constructor(
+    private readonly config: InteractiveOAuthConfig,
+    private readonly store: OAuthSessionStore,
+    private readonly storeKey: string,
+    private readonly onChange: (status: OAuthSessionStatus) => void
+  ) {
+    this.tokens = store.load(storeKey);
+  }
+
+  /**
+   * Key the token cache by who is logging in where, so each profile keeps its own login
+   */
+  static storeKeyFor(adminUrl: string, config: InteractiveOAuthConfig): string {
+    return crypto
+      .createHash('sha1')
+      .update(`${adminUrl}\n${config.issuerUrl}\n${config.clientId}\n${config.audience || ''}`)
+      .digest('hex');
+  }
+
+  private async getEndpoints(): Promise<OAuthEndpoints> {
+    if (!this.endpoints) {
+      this.endpoints = await discoverEndpoints(this.config.issuerUrl);
+    }
+    return this.endpoints;
+  }
+
+  /**
+   * Whether a token is available without asking the user to log in
+   */
+  hasUsableTokens(): boolean {
+    return Boolean(this.tokens && (this.tokens.expiresAt > Date.now() + 60000 || this.tokens.refreshToken));
+  }
+
+  async login(handlers: InteractiveLoginHandlers): Promise<void> {
+    const endpoints = await this.getEndpoints();
+    const tokens = this.config.flow === 'authorization_code'
+      ? await loginWithPkce(this.config, endpoints, handlers)
+      : await loginWithDeviceCode(this.config, endpoints, handlers);
+    this.setTokens(tokens);
+  }
+
+  logout(): void {
+    this.tokens = null;
+    this.store.remove(this.storeKey);
+    this.onChange(this.getStatus());
+  }
+
+  /**
+   * Get a valid access token, refreshing it when it is about to expire
+   */
+  async getAccessToken(): Promise<string> {
+    if (!this.tokens) {
+      throw new Error('Not logged in. Log in again from the header to continue.');
+    }
+    if (this.tokens.expiresAt > Date.now() + 60000) {
+      return this.tokens.accessToken;
+    }
+    if (!this.tokens.refreshToken) {
+      throw new Error('The login has expired. Log in again from the header to continue.');
+    }
+
+    // Share one refresh between concurrent callers
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.refresh(this.tokens).finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+    return (await this.pendingRefresh).accessToken;
+  }
+
+  private async refresh(current: OAuthTokenSet): Promise<OAuthTokenSet> {
+    let response: { status: number; body: TokenEndpointResponse };
+    try {
+      const endpoints = await this.getEndpoints();
+      response = await postForm(endpoints.tokenEndpoint, {
+        grant_type: 'refresh_token',
+        refresh_token: current.refreshToken,
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+      });
+    } catch (err) {
+      // Network trouble or an outage; the refresh token may still be good
+      throw new Error(`Token refresh failed (${err instanceof Error ? err.message : String(err)}). It will be retried on the next request.`);
+    }
+    const { status, body } = response;
+    if (body.error === 'invalid_grant') {
+      // The refresh token was revoked or expired; only a new login helps
+      this.logout();
+      throw new Error(`Token refresh failed (${describeTokenError(body, status)}). Log in again from the header to continue.`);
+    }
+    if (status !== 200 || !body.access_token) {
+      throw new Error(`Token refresh failed (${describeTokenError(body, status)}). It will be retried on the next request.`);
+    }
+    console.log('[OAuthSession] Refreshed access token');
+    const tokens = toTokenSet(body, current);
+    this.setTokens(tokens);
+    return tokens;
+  }
+
+  private setTokens(tokens: OAuthTokenSet): void {
+    this.tokens = tokens;
+    this.store.save(this.storeKey, tokens);
+    this.onChange(this.getStatus());
+  }
+
+  getStatus(): OAuthSessionStatus {
+    if (!this.tokens) {
+      return { flow: this.config.flow, loggedIn: false, canRefresh: false };
+    }
+    const claims = decodeJwtClaims(this.tokens.idToken || this.tokens.accessToken) || {};
+    const subject = [claims.preferred_username, claims.email, claims.name, claims.sub]
+      .find((value): value is string => typeof value === 'string' && value.length > 0);
+    return {
+      flow: this.config.flow,
+      loggedIn: this.hasUsableTokens(),
+      subject,
+      expiresAt: this.tokens.expiresAt,
+      canRefresh: Boolean(this.tokens.refreshToken),
+    };
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * OAuth Session Store
+ * Caches tokens from interactive OAuth logins on disk, encrypted like profile secrets
+ */
+
+import path from 'path';
+import fs from 'fs';
+import { app } from 'electron';
+import { decryptSecret, encryptSecret } from './secretStorage';
+import type { OAuthTokenSet } from './oauthInteractive';
+
+interface OAuthSessionsData {
+  sessions: Record<string, string>; // Session key -> encrypted token set JSON
+}
+
+export class OAuthSessionStore {
+  private readonly configDir: string;
+  private readonly configFilePath: string;
+
+  constructor() {
+    // Keep sessions next to the saved profiles
+    this.configDir = path.join(app.getPath('userData'), 'lightcurve');
+    this.configFilePath = path.join(this.configDir, 'oauth-sessions.json');
+    this.ensureConfigDirExists();
+  }
+
+  private ensureConfigDirExists(): void {
+    if (!fs.existsSync(this.configDir)) {
+      fs.mkdirSync(this.configDir, { recursive: true });
+    }
+  }
+
+  /**
+   * Load the cached tokens for a session, or null when there are none
+   */
+  load(key: string): OAuthTokenSet | null {
+    const stored = this.readData().sessions[key];
+    if (!stored) {
+      return null;
+    }
+    try {
+      return JSON.parse(decryptSecret(stored)) as OAuthTokenSet;
+    } catch (error) {
+      console.error('Error loading OAuth session:', error);
+      return null;
+    }
+  }
+
+  save(key: string, tokens: OAuthTokenSet): void {
+    const data = this.readData();
+    data.sessions[key] = encryptSecret(JSON.stringify(tokens));
+    this.writeData(data);
+  }
+
+  remove(key: string): void {
+    const data = this.readData();
+    if (key in data.sessions) {
+      delete data.sessions[key];
+      this.writeData(data);
+    }
+  }
+
+  private readData(): OAuthSessionsData {
+    try {
+      if (!fs.existsSync(this.configFilePath)) {
+        return { sessions: {} };
+      }
+      const parsed = JSON.parse(fs.readFileSync(this.configFilePath, 'utf-8')) as Partial<OAuthSessionsData>;
+      return { sessions: parsed.sessions || {} };
+    } catch {
+      return { sessions: {} };
+    }
+  }
+
+  private writeData(data: OAuthSessionsData): void {
+    try {
+      fs.writeFileSync(this.configFilePath, JSON.stringify(data, null, 2), 'utf-8');
+    } catch (error) {
+      console.error('Error writing OAuth sessions:', error);
+    }
+  }
+}
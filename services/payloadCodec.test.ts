@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodePayload, encodePayload } from './payloadCodec';
+
+const roundTrip = (data: Buffer) => {
+  const encoded = encodePayload(data);
+  return { encoded, decoded: decodePayload(encoded.data, encoded.encoding) };
+};
+
+test('keeps a leading byte order mark', () => {
+  const data = Buffer.from([0xef, 0xbb, 0xbf, ...Buffer.from('{"a":1}')]);
+  const { encoded, decoded } = roundTrip(data);
+  assert.equal(encoded.encoding, 'utf-8');
+  assert.equal(encoded.size, data.length);
+  assert.deepEqual(decoded, data);
+});
+
+test('falls back to base64 for invalid UTF-8', () => {
+  const data = Buffer.from([0x61, 0xc3, 0x28, 0xff]);
+  const { encoded, decoded } = roundTrip(data);
+  assert.equal(encoded.encoding, 'base64');
+  assert.deepEqual(decoded, data);
+});
+
+test('round-trips an empty payload', () => {
+  const { encoded, decoded } = roundTrip(Buffer.alloc(0));
+  assert.equal(encoded.size, 0);
+  assert.equal(decoded.length, 0);
+});
@@ -0,0 +1,40 @@
+/**
+ * Payload Codec - Converts message payload bytes to and from IPC-safe strings
+ * Text payloads travel as UTF-8 so they stay readable; anything else is base64
+ */
+
+import type { PayloadEncoding } from '../src/shared/types';
+
+export interface EncodedPayload {
+  data: string;
+  encoding: PayloadEncoding;
+  size: number;
+}
+
+// ignoreBOM keeps a leading U+FEFF in the text, so the bytes round-trip exactly
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true, ignoreBOM: true });
+
+// C0 control characters other than tab, line feed and carriage return mark a payload as binary
+const BINARY_CONTROL_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/;
+
+/**
+ * Encode payload bytes for transport to the renderer without losing data
+ */
+export function encodePayload(data: Buffer): EncodedPayload {
+  try {
+    const text = utf8Decoder.decode(data);
+    if (!BINARY_CONTROL_CHARS.test(text)) {
+      return { data: text, encoding: 'utf-8', size: data.length };
+    }
+  } catch {
+    // Not valid UTF-8 - fall through to base64
+  }
+  return { data: data.toString('base64'), encoding: 'base64', size: data.length };
+}
+
+/**
+ * Turn an encoded payload string back into the original bytes
+ */
+export function decodePayload(data: string, encoding: PayloadEncoding = 'utf-8'): Buffer {
+  return Buffer.from(data, encoding === 'base64' ? 'base64' : 'utf-8');
+}
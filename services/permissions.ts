@@ -0,0 +1,64 @@
+/**
+ * Permissions
+ * Reads and changes the actions roles are granted on a namespace or topic
+ */
+
+import type { PulsarAdmin } from './pulsarAdmin';
+import { errorMessage } from './namespacePolicies';
+import type {
+  PermissionChanges,
+  PermissionTarget,
+  PermissionsResult,
+  PermissionUpdateResult,
+  RolePermissions,
+} from '../src/shared/types';
+
+const namespaceOf = (fullTopicName: string) =>
+  fullTopicName.replace(/^[a-z-]+:\/\//, '').split('/').slice(0, 2).join('/');
+
+/**
+ * Read the roles granted on a namespace, or on a topic along with what it inherits from its namespace
+ */
+export async function readPermissions(admin: PulsarAdmin, target: PermissionTarget, name: string): Promise<PermissionsResult> {
+  let direct: Record<string, string[]>;
+  let inherited: Record<string, string[]> = {};
+  if (target === 'namespace') {
+    direct = await admin.getNamespacePermissions(name);
+  } else {
+    [direct, inherited] = await Promise.all([admin.getTopicGrants(name), admin.getNamespacePermissions(namespaceOf(name))]);
+  }
+
+  const roles = Array.from(new Set([...Object.keys(direct), ...Object.keys(inherited)])).sort();
+  const grants: RolePermissions[] = roles.map(role => ({
+    role,
+    actions: [...(direct[role] || [])].sort(),
+    inherited: [...(inherited[role] || [])].sort(),
+  }));
+  return { target, name, grants };
+}
+
+/**
+ * Grant or revoke each changed role; a failed role does not stop the others
+ * Granting replaces the actions a role had on the target, so every change is a single request
+ */
+export async function updatePermissions(
+  admin: PulsarAdmin,
+  target: PermissionTarget,
+  name: string,
+  changes: PermissionChanges
+): Promise<PermissionUpdateResult['results']> {
+  const results: PermissionUpdateResult['results'] = [];
+  for (const [role, actions] of Object.entries(changes)) {
+    try {
+      if (target === 'namespace') {
+        await (actions.length > 0 ? admin.grantNamespacePermission(name, role, actions) : admin.revokeNamespacePermission(name, role));
+      } else {
+        await (actions.length > 0 ? admin.grantTopicPermission(name, role, actions) : admin.revokeTopicPermission(name, role));
+      }
+      results.push({ role });
+    } catch (error) {
+      results.push({ role, error: errorMessage(error) });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,622 @@
+/**
+ * Policy as code
+ * Exports a tenant or namespace subtree to a YAML or JSON document and plans and applies
+ * such a document against a cluster
+ */
+
+import fs from 'fs';
+import yaml from 'js-yaml';
+import { stripPartitionSuffix, type PulsarAdmin } from './pulsarAdmin';
+import { isNotFound, mapWithConcurrency, stableStringify } from './adminHelpers';
+import type {
+  PolicyChange,
+  PolicyDocument,
+  PolicyDocumentFormat,
+  PolicyDocumentNamespace,
+  PolicyDocumentTopic,
+} from '../src/shared/types';
+
+// Topics are read a few at a time so large namespaces do not flood the admin API
+const TOPIC_READ_CONCURRENCY = 4;
+
+const BACKLOG_QUOTA_POLICIES = ['producer_request_hold', 'producer_exception', 'consumer_backlog_eviction'];
+
+// Deletions run after every create and update, children before their parents
+const DELETE_ORDER: Partial<Record<PolicyChange['resource'], number>> = {
+  subscription: 0,
+  permission: 0,
+  topic: 1,
+  namespace: 2,
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+function sortedGrants(grants: unknown): Record<string, string[]> {
+  const result: Record<string, string[]> = {};
+  if (isRecord(grants)) {
+    for (const role of Object.keys(grants).sort()) {
+      const actions = grants[role];
+      result[role] = Array.isArray(actions) ? actions.map(String).sort() : [];
+    }
+  }
+  return result;
+}
+
+/**
+ * Schema data of Avro, JSON and Protobuf schemas is a JSON definition; keep it readable in the document
+ */
+function parseSchemaDefinition(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+function schemaDefinitionText(definition: unknown): string {
+  return typeof definition === 'string' ? definition : JSON.stringify(definition);
+}
+
+function comparableDefinition(definition: unknown): string {
+  return stableStringify(typeof definition === 'string' ? parseSchemaDefinition(definition.trim()) : definition);
+}
+
+// ----------------------------------------------------------------------------
+// Reading a cluster
+// ----------------------------------------------------------------------------
+
+async function readTopicConfig(
+  admin: PulsarAdmin,
+  namespace: string,
+  name: string,
+  topicGrants: Record<string, string[]>
+): Promise<PolicyDocumentTopic> {
+  const fullTopicName = `persistent://${namespace}/${name}`;
+  const [metadata, subscriptions, schema] = await Promise.all([
+    admin.getPartitionedMetadata(fullTopicName),
+    admin.listSubscriptions(fullTopicName),
+    admin.getSchema(fullTopicName),
+  ]);
+
+  const topic: PolicyDocumentTopic = { name };
+  if (metadata.partitions > 0) {
+    topic.partitions = metadata.partitions;
+  }
+  // Readers use non-durable "reader-" subscriptions that come and go with them
+  topic.subscriptions = subscriptions.filter(subscription => !subscription.startsWith('reader-')).sort();
+  if (Object.keys(topicGrants).length > 0) {
+    topic.permissions = topicGrants;
+  }
+  if (schema) {
+    topic.schema = { type: schema.type, definition: parseSchemaDefinition(schema.data) };
+    if (schema.properties && Object.keys(schema.properties).length > 0) {
+      topic.schema.properties = schema.properties;
+    }
+  }
+  return topic;
+}
+
+/**
+ * Read a namespace's managed policies, grants and persistent topics
+ */
+export async function readNamespaceConfig(admin: PulsarAdmin, namespace: string): Promise<PolicyDocumentNamespace> {
+  const [tenant, name] = namespace.split('/');
+  const [policies, topics, partitionedTopics] = await Promise.all([
+    admin.getNamespacePolicies(namespace),
+    admin.listTopics(tenant, name),
+    admin.listPartitionedTopics(tenant, name),
+  ]);
+
+  const config: PolicyDocumentNamespace = { name: namespace };
+
+  const retention = policies.retention_policies;
+  if (isRecord(retention)) {
+    config.retention = {
+      retentionTimeInMinutes: Number(retention.retentionTimeInMinutes),
+      retentionSizeInMB: Number(retention.retentionSizeInMB),
+    };
+  }
+  if (typeof policies.message_ttl_in_seconds === 'number') {
+    config.messageTtlSeconds = policies.message_ttl_in_seconds;
+  }
+  const quota = isRecord(policies.backlog_quota_map) ? policies.backlog_quota_map.destination_storage : undefined;
+  if (isRecord(quota)) {
+    config.backlogQuota = {
+      // Older brokers only report the deprecated "limit" field
+      limitSize: Number(quota.limitSize ?? quota.limit ?? -1),
+      limitTime: Number(quota.limitTime ?? -1),
+      policy: String(quota.policy),
+    };
+  }
+
+  const auth = isRecord(policies.auth_policies) ? policies.auth_policies : {};
+  config.permissions = sortedGrants(auth.namespace_auth);
+  const destinationAuth = isRecord(auth.destination_auth) ? auth.destination_auth : {};
+
+  // Partitions of one partitioned topic count as that topic; system topics such as __change_events are left out
+  const names = Array.from(new Set(
+    [...topics, ...partitionedTopics]
+      .filter(topic => topic.startsWith('persistent://'))
+      .map(topic => stripPartitionSuffix(topic).slice(`persistent://${namespace}/`.length))
+      .filter(topic => topic && !topic.startsWith('__'))
+  )).sort();
+
+  const topicConfigs = new Map<string, PolicyDocumentTopic>();
+  await mapWithConcurrency(names, TOPIC_READ_CONCURRENCY, async (topic) => {
+    const grants = sortedGrants(destinationAuth[`persistent://${namespace}/${topic}`]);
+    topicConfigs.set(topic, await readTopicConfig(admin, namespace, topic, grants));
+  });
+  config.topics = names.map(topic => topicConfigs.get(topic)!);
+
+  return config;
+}
+
+/**
+ * Build a document describing a tenant (every namespace in it) or a single namespace
+ */
+export async function exportPolicyDocument(admin: PulsarAdmin, scope: string, source?: string): Promise<PolicyDocument> {
+  const trimmed = scope.trim().replace(/\/$/, '');
+  if (!/^[^/]+(\/[^/]+)?$/.test(trimmed)) {
+    throw new Error(`Scope must be a tenant or tenant/namespace, got "${scope}"`);
+  }
+
+  const namespaces = trimmed.includes('/') ? [trimmed] : (await admin.listNamespaces(trimmed)).sort();
+  const document: PolicyDocument = {
+    version: 1,
+    scope: trimmed,
+    exportedFrom: source,
+    exportedAt: new Date().toISOString(),
+    namespaces: [],
+  };
+  for (const namespace of namespaces) {
+    document.namespaces.push(await readNamespaceConfig(admin, namespace));
+  }
+  return document;
+}
+
+// ----------------------------------------------------------------------------
+// Reading and writing documents
+// ----------------------------------------------------------------------------
+
+export function serializePolicyDocument(document: PolicyDocument, format: PolicyDocumentFormat): string {
+  // Drop undefined fields so they do not show up as nulls
+  const plain = JSON.parse(JSON.stringify(document));
+  return format === 'json'
+    ? JSON.stringify(plain, null, 2) + '\n'
+    : yaml.dump(plain, { noRefs: true, lineWidth: -1 });
+}
+
+export async function writePolicyDocument(filePath: string, document: PolicyDocument, format: PolicyDocumentFormat): Promise<void> {
+  await fs.promises.writeFile(filePath, serializePolicyDocument(document, format), 'utf-8');
+}
+
+function checkGrants(value: unknown, where: string): Record<string, string[]> {
+  if (!isRecord(value)) {
+    throw new Error(`${where} must map roles to lists of actions`);
+  }
+  for (const [role, actions] of Object.entries(value)) {
+    if (!Array.isArray(actions) || actions.some(action => typeof action !== 'string')) {
+      throw new Error(`${where}.${role} must be a list of actions such as [produce, consume]`);
+    }
+  }
+  return sortedGrants(value);
+}
+
+function checkNumber(value: unknown, where: string, integer = false): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+    throw new Error(`${where} must be ${integer ? 'an integer' : 'a number'}`);
+  }
+  return value;
+}
+
+function checkTopic(value: unknown, where: string): PolicyDocumentTopic {
+  if (!isRecord(value) || typeof value.name !== 'string' || !value.name || value.name.includes('://')) {
+    throw new Error(`${where}.name must be the topic's name within its namespace`);
+  }
+  const topic: PolicyDocumentTopic = { name: value.name };
+  if (value.partitions !== undefined) {
+    topic.partitions = checkNumber(value.partitions, `${where}.partitions`, true);
+    if (topic.partitions < 0) {
+      throw new Error(`${where}.partitions must not be negative`);
+    }
+  }
+  if (value.subscriptions !== undefined) {
+    if (!Array.isArray(value.subscriptions) || value.subscriptions.some(name => typeof name !== 'string' || !name)) {
+      throw new Error(`${where}.subscriptions must be a list of subscription names`);
+    }
+    topic.subscriptions = Array.from(new Set(value.subscriptions as string[])).sort();
+  }
+  if (value.permissions !== undefined) {
+    topic.permissions = checkGrants(value.permissions, `${where}.permissions`);
+  }
+  if (value.schema !== undefined) {
+    const schema = value.schema;
+    if (!isRecord(schema) || typeof schema.type !== 'string' || schema.definition === undefined) {
+      throw new Error(`${where}.schema needs a type and a definition`);
+    }
+    topic.schema = {
+      type: schema.type.toUpperCase(),
+      definition: schema.definition,
+      properties: isRecord(schema.properties) ? schema.properties as Record<string, string> : undefined,
+    };
+  }
+  return topic;
+}
+
+function checkNamespace(value: unknown, where: string, scope: string): PolicyDocumentNamespace {
+  if (!isRecord(value) || typeof value.name !== 'string' || !/^[^/]+\/[^/]+$/.test(value.name)) {
+    throw new Error(`${where}.name must be in tenant/namespace form`);
+  }
+  if (value.name !== scope && !value.name.startsWith(`${scope}/`)) {
+    throw new Error(`${where} (${value.name}) lies outside the document scope ${scope}`);
+  }
+
+  const namespace: PolicyDocumentNamespace = { name: value.name };
+  if (value.retention !== undefined) {
+    const retention = isRecord(value.retention) ? value.retention : {};
+    namespace.retention = {
+      retentionTimeInMinutes: checkNumber(retention.retentionTimeInMinutes, `${where}.retention.retentionTimeInMinutes`, true),
+      retentionSizeInMB: checkNumber(retention.retentionSizeInMB, `${where}.retention.retentionSizeInMB`),
+    };
+  }
+  if (value.messageTtlSeconds !== undefined) {
+    namespace.messageTtlSeconds = checkNumber(value.messageTtlSeconds, `${where}.messageTtlSeconds`, true);
+  }
+  if (value.backlogQuota !== undefined) {
+    const quota = isRecord(value.backlogQuota) ? value.backlogQuota : {};
+    if (!BACKLOG_QUOTA_POLICIES.includes(String(quota.policy))) {
+      throw new Error(`${where}.backlogQuota.policy must be one of ${BACKLOG_QUOTA_POLICIES.join(', ')}`);
+    }
+    namespace.backlogQuota = {
+      limitSize: checkNumber(quota.limitSize ?? -1, `${where}.backlogQuota.limitSize`, true),
+      limitTime: checkNumber(quota.limitTime ?? -1, `${where}.backlogQuota.limitTime`, true),
+      policy: String(quota.policy),
+    };
+  }
+  if (value.permissions !== undefined) {
+    namespace.permissions = checkGrants(value.permissions, `${where}.permissions`);
+  }
+  if (value.topics !== undefined) {
+    if (!Array.isArray(value.topics)) {
+      throw new Error(`${where}.topics must be a list`);
+    }
+    namespace.topics = value.topics.map((topic, index) => checkTopic(topic, `${where}.topics[${index}]`));
+    const seen = new Set<string>();
+    for (const topic of namespace.topics) {
+      if (seen.has(topic.name)) {
+        throw new Error(`${where} declares topic ${topic.name} more than once`);
+      }
+      seen.add(topic.name);
+    }
+  }
+  return namespace;
+}
+
+/**
+ * Parse and validate a document; YAML is a superset of JSON so both formats load the same way
+ */
+export function parsePolicyDocument(text: string, fileName?: string): PolicyDocument {
+  let value: unknown;
+  try {
+    value = yaml.load(text, { filename: fileName });
+  } catch (error) {
+    throw new Error(`Not valid YAML or JSON: ${errorMessage(error)}`);
+  }
+
+  if (!isRecord(value)) {
+    throw new Error('The document must be an object with scope and namespaces');
+  }
+  if (value.version !== 1) {
+    throw new Error(`Unsupported document version ${String(value.version)}; expected version: 1`);
+  }
+  if (typeof value.scope !== 'string' || !/^[^/]+(\/[^/]+)?$/.test(value.scope)) {
+    throw new Error('scope must be a tenant or tenant/namespace');
+  }
+  if (!Array.isArray(value.namespaces)) {
+    throw new Error('namespaces must be a list');
+  }
+
+  const scope = value.scope;
+  const namespaces = value.namespaces.map((namespace, index) => checkNamespace(namespace, `namespaces[${index}]`, scope));
+  const seen = new Set<string>();
+  for (const namespace of namespaces) {
+    if (seen.has(namespace.name)) {
+      throw new Error(`Namespace ${namespace.name} is declared more than once`);
+    }
+    seen.add(namespace.name);
+  }
+
+  return {
+    version: 1,
+    scope,
+    exportedFrom: typeof value.exportedFrom === 'string' ? value.exportedFrom : undefined,
+    exportedAt: typeof value.exportedAt === 'string' ? value.exportedAt : undefined,
+    namespaces,
+  };
+}
+
+export async function readPolicyDocument(filePath: string): Promise<PolicyDocument> {
+  const text = await fs.promises.readFile(filePath, 'utf-8');
+  return parsePolicyDocument(text, filePath);
+}
+
+// ----------------------------------------------------------------------------
+// Planning
+// ----------------------------------------------------------------------------
+
+const describeLimit = (value: number, unit: string) => (value < 0 ? 'unlimited' : `${value} ${unit}`);
+
+const describeRetention = (retention: NonNullable<PolicyDocumentNamespace['retention']>) =>
+  `${describeLimit(retention.retentionTimeInMinutes, 'min')}, ${describeLimit(retention.retentionSizeInMB, 'MB')}`;
+
+const describeQuota = (quota: NonNullable<PolicyDocumentNamespace['backlogQuota']>) =>
+  `${describeLimit(quota.limitSize, 'bytes')}, ${describeLimit(quota.limitTime, 's')}, ${quota.policy}`;
+
+const describePartitions = (partitions = 0) => (partitions > 0 ? `${partitions} partitions` : 'non-partitioned');
+
+class PolicyPlanBuilder {
+  readonly changes: PolicyChange[] = [];
+  readonly deletions: PolicyChange[] = [];
+  readonly warnings: string[] = [];
+
+  add(change: PolicyChange): void {
+    (change.change === 'delete' ? this.deletions : this.changes).push(change);
+  }
+
+  /**
+   * Set a policy the document declares when the target's value differs
+   */
+  policy<T>(resource: PolicyChange['resource'], path: string, desired: T | undefined, current: T | undefined, describe: (value: T) => string): void {
+    if (desired === undefined || stableStringify(desired) === stableStringify(current)) {
+      return;
+    }
+    this.add({
+      change: current === undefined ? 'create' : 'update',
+      resource,
+      path,
+      from: current === undefined ? undefined : describe(current),
+      to: describe(desired),
+      value: desired,
+    });
+  }
+
+  grants(path: string, desired: Record<string, string[]> | undefined, current: Record<string, string[]>, prune: boolean): void {
+    if (!desired) {
+      return;
+    }
+    for (const [role, actions] of Object.entries(desired)) {
+      const existing = current[role];
+      if (!existing || existing.join(',') !== actions.join(',')) {
+        this.add({
+          change: existing ? 'update' : 'create',
+          resource: 'permission',
+          path,
+          name: role,
+          from: existing?.join(', '),
+          to: actions.join(', '),
+          value: actions,
+        });
+      }
+    }
+    if (prune) {
+      for (const role of Object.keys(current).filter(role => !desired[role])) {
+        this.add({ change: 'delete', resource: 'permission', path, name: role, from: current[role].join(', ') });
+      }
+    }
+  }
+
+  topic(namespace: string, desired: PolicyDocumentTopic, current: PolicyDocumentTopic | undefined, prune: boolean): void {
+    const path = `persistent://${namespace}/${desired.name}`;
+    const partitions = desired.partitions || 0;
+
+    if (!current) {
+      this.add({ change: 'create', resource: 'topic', path, to: describePartitions(partitions), value: partitions });
+    } else {
+      const currentPartitions = current.partitions || 0;
+      if (partitions > 0 && currentPartitions > 0 && partitions > currentPartitions) {
+        this.add({
+          change: 'update',
+          resource: 'partitions',
+          path,
+          from: describePartitions(currentPartitions),
+          to: describePartitions(partitions),
+          value: partitions,
+        });
+      } else if (partitions !== currentPartitions) {
+        this.warnings.push(
+          `${path} has ${describePartitions(currentPartitions)} but the document declares ${describePartitions(partitions)}; ` +
+          (partitions > 0 && currentPartitions > 0
+            ? 'Pulsar cannot reduce the number of partitions'
+            : 'changing between partitioned and non-partitioned means deleting and recreating the topic')
+        );
+      }
+    }
+
+    if (desired.subscriptions) {
+      const existing = new Set(current?.subscriptions || []);
+      desired.subscriptions
+        .filter(subscription => !existing.has(subscription))
+        .forEach(subscription => this.add({ change: 'create', resource: 'subscription', path, name: subscription }));
+      if (prune) {
+        const wanted = new Set(desired.subscriptions);
+        Array.from(existing)
+          .filter(subscription => !wanted.has(subscription))
+          .forEach(subscription => this.add({ change: 'delete', resource: 'subscription', path, name: subscription }));
+      }
+    }
+
+    if (desired.schema) {
+      const currentSchema = current?.schema;
+      const same = currentSchema &&
+        currentSchema.type === desired.schema.type &&
+        comparableDefinition(currentSchema.definition) === comparableDefinition(desired.schema.definition);
+      if (!same) {
+        this.add({
+          change: currentSchema ? 'update' : 'create',
+          resource: 'schema',
+          path,
+          from: currentSchema?.type,
+          to: desired.schema.type,
+          value: {
+            type: desired.schema.type,
+            schema: schemaDefinitionText(desired.schema.definition),
+            properties: desired.schema.properties,
+          },
+        });
+      }
+    }
+
+    this.grants(path, desired.permissions, current?.permissions || {}, prune);
+  }
+
+  namespace(desired: PolicyDocumentNamespace, current: PolicyDocumentNamespace | undefined, prune: boolean): void {
+    const path = desired.name;
+    if (!current) {
+      this.add({ change: 'create', resource: 'namespace', path });
+    }
+    this.policy('retention', path, desired.retention, current?.retention, describeRetention);
+    this.policy('messageTtl', path, desired.messageTtlSeconds, current?.messageTtlSeconds, ttl => `${ttl} s`);
+    this.policy('backlogQuota', path, desired.backlogQuota, current?.backlogQuota, describeQuota);
+    this.grants(path, desired.permissions, current?.permissions || {}, prune);
+
+    if (!desired.topics) {
+      return;
+    }
+    const currentTopics = new Map((current?.topics || []).map(topic => [topic.name, topic]));
+    for (const topic of desired.topics) {
+      this.topic(path, topic, currentTopics.get(topic.name), prune);
+    }
+    if (prune) {
+      const wanted = new Set(desired.topics.map(topic => topic.name));
+      for (const name of currentTopics.keys()) {
+        if (!wanted.has(name)) {
+          this.add({ change: 'delete', resource: 'topic', path: `persistent://${path}/${name}` });
+        }
+      }
+    }
+  }
+
+  /**
+   * Delete a namespace the document does not declare, after the topics in it
+   */
+  removeNamespace(current: PolicyDocumentNamespace): void {
+    for (const topic of current.topics || []) {
+      this.add({ change: 'delete', resource: 'topic', path: `persistent://${current.name}/${topic.name}` });
+    }
+    this.add({ change: 'delete', resource: 'namespace', path: current.name });
+  }
+
+  ordered(): PolicyChange[] {
+    const rank = (change: PolicyChange) => DELETE_ORDER[change.resource] ?? 0;
+    // Array.prototype.sort is stable, so changes of equal rank keep the order they were planned in
+    return [...this.changes, ...[...this.deletions].sort((a, b) => rank(a) - rank(b))];
+  }
+}
+
+/**
+ * Work out the changes that make a cluster match a document
+ * Only what the document declares is compared; with prune, undeclared namespaces, topics,
+ * subscriptions and grants are deleted where the document declares the enclosing list
+ */
+export async function planPolicyDocument(
+  admin: PulsarAdmin,
+  document: PolicyDocument,
+  prune: boolean
+): Promise<{ changes: PolicyChange[]; warnings: string[] }> {
+  const builder = new PolicyPlanBuilder();
+  const tenant = document.scope.split('/')[0];
+
+  let existing: string[];
+  try {
+    existing = await admin.listNamespaces(tenant);
+  } catch (error) {
+    if (isNotFound(error)) {
+      throw new Error(`Tenant ${tenant} does not exist on the target cluster`);
+    }
+    throw error;
+  }
+  const existingSet = new Set(existing);
+
+  for (const namespace of document.namespaces) {
+    const current = existingSet.has(namespace.name) ? await readNamespaceConfig(admin, namespace.name) : undefined;
+    builder.namespace(namespace, current, prune);
+  }
+
+  // A namespace-scoped document says nothing about the tenant's other namespaces
+  if (prune && !document.scope.includes('/')) {
+    const declared = new Set(document.namespaces.map(namespace => namespace.name));
+    for (const namespace of existing.filter(name => !declared.has(name)).sort()) {
+      builder.removeNamespace(await readNamespaceConfig(admin, namespace));
+    }
+  }
+
+  return { changes: builder.ordered(), warnings: builder.warnings };
+}
+
+// ----------------------------------------------------------------------------
+// Applying
+// ----------------------------------------------------------------------------
+
+/**
+ * Apply one planned change through the admin API
+ */
+export async function applyPolicyChange(admin: PulsarAdmin, change: PolicyChange): Promise<void> {
+  const remove = change.change === 'delete';
+  switch (change.resource) {
+    case 'namespace':
+      return remove ? admin.deleteNamespace(change.path) : admin.createNamespace(change.path);
+    case 'retention':
+      return admin.setRetention(change.path, change.value as NonNullable<PolicyDocumentNamespace['retention']>);
+    case 'messageTtl':
+      return admin.setMessageTtl(change.path, change.value as number);
+    case 'backlogQuota':
+      return admin.setBacklogQuota(change.path, change.value as NonNullable<PolicyDocumentNamespace['backlogQuota']>);
+    case 'permission': {
+      const onTopic = change.path.includes('://');
+      if (remove) {
+        return onTopic
+          ? admin.revokeTopicPermission(change.path, change.name!)
+          : admin.revokeNamespacePermission(change.path, change.name!);
+      }
+      const actions = change.value as string[];
+      return onTopic
+        ? admin.grantTopicPermission(change.path, change.name!, actions)
+        : admin.grantNamespacePermission(change.path, change.name!, actions);
+    }
+    case 'topic': {
+      if (remove) {
+        return admin.deleteTopic(change.path);
+      }
+      const partitions = change.value as number;
+      return partitions > 0 ? admin.createPartitionedTopic(change.path, partitions) : admin.createTopic(change.path);
+    }
+    case 'partitions':
+      return admin.updatePartitionedTopic(change.path, change.value as number);
+    case 'subscription':
+      return remove
+        ? admin.deleteSubscription(change.path, change.name!)
+        : admin.createSubscription(change.path, change.name!);
+    case 'schema':
+      return admin.uploadSchema(change.path, change.value as { type: string; schema: string; properties?: Record<string, string> });
+  }
+}
+
+/**
+ * Apply changes in order, stopping at the first failure since later changes may depend on it
+ */
+export async function applyPolicyChanges(
+  admin: PulsarAdmin,
+  changes: PolicyChange[]
+): Promise<{ applied: number; failed?: { index: number; error: string } }> {
+  for (let index = 0; index < changes.length; index++) {
+    try {
+      await applyPolicyChange(admin, changes[index]);
+    } catch (error) {
+      return { applied: index, failed: { index, error: errorMessage(error) } };
+    }
+  }
+  return { applied: changes.length };
+}
@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseMessageIdString } from './pulsarAdmin';
+
+test('reads the partition before the batch index in native client IDs', () => {
+  assert.deepEqual(parseMessageIdString('(12,34,2,5)'), {
+    ledgerId: 12,
+    entryId: 34,
+    partitionIndex: 2,
+    batchIndex: 5,
+  });
+});
+
+test('leaves out the batch index of unbatched native client IDs', () => {
+  assert.deepEqual(parseMessageIdString('(12,34,3,-1)'), { ledgerId: 12, entryId: 34, partitionIndex: 3 });
+  assert.deepEqual(parseMessageIdString('(12,34,-1,-1)'), { ledgerId: 12, entryId: 34, partitionIndex: -1 });
+});
+
+test('reads CLI IDs with and without a partition', () => {
+  assert.deepEqual(parseMessageIdString('12:34'), { ledgerId: 12, entryId: 34, partitionIndex: -1 });
+  assert.deepEqual(parseMessageIdString('12:34:2'), { ledgerId: 12, entryId: 34, partitionIndex: 2 });
+});
+
+test('rejects anything else', () => {
+  assert.throws(() => parseMessageIdString('12-34'), /Invalid message ID/);
+});
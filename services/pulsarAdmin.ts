@@ -2,6 +2,8 @@
  * PulsarAdmin - Service class for interacting with Apache Pulsar Admin REST API
  */
 
+import fs from 'fs';
+import https from 'https';
 import { OAuthClient, type OAuthClientConfig } from './oauthClient';
 
 export interface PulsarTopicStats {
@@ -31,16 +33,120 @@ export interface PulsarTopicStats {
   }>;
 }
 
+export interface PulsarAdminTlsConfig {
+  certFilePath?: string;
+  keyFilePath?: string;
+  caFilePath?: string;
+  validateHostname?: boolean;
+  allowInsecureConnection?: boolean;
+}
+
 export interface PulsarAdminConfig {
   baseUrl: string;
   authToken?: string;
   oauthConfig?: OAuthClientConfig;
+  tls?: PulsarAdminTlsConfig;
+}
+
+interface HttpResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  text(): Promise<string>;
+}
+
+export interface PulsarTenantInfo {
+  adminRoles: string[];
+  allowedClusters: string[];
+}
+
+export interface PulsarSchemaInfo {
+  version: number;
+  type: string;
+  timestamp: number;
+  data: string;
+  properties: Record<string, string>;
+}
+
+export interface PartitionedTopicMetadata {
+  partitions: number;
+}
+
+export interface PulsarPartitionedTopicStats extends PulsarTopicStats {
+  metadata: PartitionedTopicMetadata;
+  partitions?: Record<string, PulsarTopicStats>; // Only when requested per partition
+}
+
+export interface PulsarInternalStats {
+  entriesAddedCounter: number;
+  numberOfEntries: number;
+  currentLedgerEntries: number;
+  // Oldest first; the last ledger is the one currently being written
+  ledgers: Array<{
+    ledgerId: number;
+    entries: number;
+    size: number;
+  }>;
+}
+
+interface RequestOptions {
+  method?: 'GET' | 'PUT' | 'POST' | 'DELETE';
+  body?: unknown;
+  responseType?: 'json' | 'text'; // Some broker endpoints answer with plain text
+  timeoutMs?: number;
+}
+
+/**
+ * Strip the "-partition-N" suffix so per-partition names resolve to their parent topic
+ */
+export function stripPartitionSuffix(fullTopicName: string): string {
+  return fullTopicName.replace(/-partition-\d+$/, '');
+}
+
+/**
+ * Parse a message ID string into the JSON shape the admin API expects
+ * Accepts the native client format "(ledgerId,entryId,partition,batchIndex)"
+ * as well as the CLI format "ledgerId:entryId[:partition]"
+ */
+export function parseMessageIdString(messageId: string): {
+  ledgerId: number;
+  entryId: number;
+  partitionIndex: number;
+  batchIndex?: number;
+} {
+  const trimmed = messageId.trim();
+
+  const tupleMatch = trimmed.match(/^\(?\s*(\d+)\s*,\s*(\d+)\s*,\s*(-?\d+)\s*,\s*(-?\d+)\s*\)?$/);
+  if (tupleMatch) {
+    const batchIndex = Number(tupleMatch[4]);
+    return {
+      ledgerId: Number(tupleMatch[1]),
+      entryId: Number(tupleMatch[2]),
+      partitionIndex: Number(tupleMatch[3]),
+      ...(batchIndex >= 0 ? { batchIndex } : {}),
+    };
+  }
+
+  const colonMatch = trimmed.match(/^(\d+):(\d+)(?::(-?\d+))?$/);
+  if (colonMatch) {
+    return {
+      ledgerId: Number(colonMatch[1]),
+      entryId: Number(colonMatch[2]),
+      partitionIndex: colonMatch[3] !== undefined ? Number(colonMatch[3]) : -1,
+    };
+  }
+
+  throw new Error(
+    `Invalid message ID: ${messageId}. ` +
+    'Expected (ledgerId,entryId,partition,batchIndex) or ledgerId:entryId'
+  );
 }
 
 export class PulsarAdmin {
   private readonly baseUrl: string;
   private readonly authToken?: string;
   private readonly oauthClient?: OAuthClient;
+  private readonly tlsAgent?: https.Agent;
 
   constructor(config: PulsarAdminConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, ''); // Remove trailing slash
@@ -48,38 +154,101 @@ export class PulsarAdmin {
     if (config.oauthConfig) {
       this.oauthClient = new OAuthClient(config.oauthConfig);
     }
+    if (config.tls) {
+      this.tlsAgent = PulsarAdmin.createTlsAgent(config.tls);
+    }
+  }
+
+  /**
+   * Build an HTTPS agent carrying the client certificate and CA
+   * fetch cannot present client certificates, so TLS requests go through node's https module
+   */
+  private static createTlsAgent(tls: PulsarAdminTlsConfig): https.Agent {
+    const readFile = (label: string, filePath: string): Buffer => {
+      try {
+        return fs.readFileSync(filePath);
+      } catch (error) {
+        throw new Error(`Failed to read TLS ${label} file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    };
+
+    return new https.Agent({
+      cert: tls.certFilePath ? readFile('certificate', tls.certFilePath) : undefined,
+      key: tls.keyFilePath ? readFile('private key', tls.keyFilePath) : undefined,
+      ca: tls.caFilePath ? readFile('CA', tls.caFilePath) : undefined,
+      rejectUnauthorized: !tls.allowInsecureConnection,
+      checkServerIdentity: tls.validateHostname === false ? () => undefined : undefined,
+      keepAlive: true,
+    });
+  }
+
+  private httpsRequest(url: string, method: string, headers: Record<string, string>, body?: string, timeoutMs?: number): Promise<HttpResponse> {
+    return new Promise((resolve, reject) => {
+      const req = https.request(url, { method, headers, agent: this.tlsAgent, timeout: timeoutMs }, (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('error', reject);
+        res.on('end', () => {
+          const status = res.statusCode || 0;
+          const text = Buffer.concat(chunks).toString('utf-8');
+          resolve({
+            ok: status >= 200 && status < 300,
+            status,
+            statusText: res.statusMessage || '',
+            text: async () => text,
+          });
+        });
+      });
+      req.on('error', reject);
+      req.on('timeout', () => req.destroy(new Error(`Request timed out after ${timeoutMs}ms`)));
+      if (body !== undefined) {
+        req.write(body);
+      }
+      req.end();
+    });
+  }
+
+  /**
+   * Get the bearer token sent with admin requests - either the direct token or one from OAuth
+   */
+  async getBearerToken(): Promise<string | undefined> {
+    if (this.authToken || !this.oauthClient) {
+      return this.authToken;
+    }
+    try {
+      return await this.oauthClient.getAccessToken();
+    } catch (error) {
+      throw new Error(`Failed to acquire OAuth token for Pulsar Admin API: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
 
   /**
    * Make an HTTP request to the Pulsar Admin API
+   * Write operations often answer with an empty body, in which case undefined is returned
    */
-  private async request<T>(path: string): Promise<T> {
+  private async request<T>(path: string, options: RequestOptions = {}): Promise<T> {
     const url = `${this.baseUrl}${path}`;
+    const method = options.method || 'GET';
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
     };
 
-    // Get authorization token - either from direct token or OAuth
-    let authToken = this.authToken;
-    if (!authToken && this.oauthClient) {
-      try {
-        console.log('[PulsarAdmin] Fetching OAuth token for', url);
-        authToken = await this.oauthClient.getAccessToken();
-      } catch (error) {
-        throw new Error(`Failed to acquire OAuth token for Pulsar Admin API: ${error instanceof Error ? error.message : String(error)}`);
-      }
-    }
-
+    const authToken = await this.getBearerToken();
     if (authToken) {
       headers['Authorization'] = `Bearer ${authToken}`;
     }
 
     try {
-      console.log('[PulsarAdmin] GET', url);
-      const response = await fetch(url, {
-        method: 'GET',
-        headers,
-      });
+      console.log(`[PulsarAdmin] ${method}`, url);
+      const body = options.body !== undefined ? JSON.stringify(options.body) : undefined;
+      const response: HttpResponse = this.tlsAgent && url.startsWith('https:')
+        ? await this.httpsRequest(url, method, headers, body, options.timeoutMs)
+        : await fetch(url, {
+          method,
+          headers,
+          body,
+          signal: options.timeoutMs !== undefined ? AbortSignal.timeout(options.timeoutMs) : undefined,
+        });
 
       if (!response.ok) {
         const errorText = await response.text().catch(() => 'Unknown error');
@@ -88,7 +257,11 @@ export class PulsarAdmin {
         );
       }
 
-      return await response.json() as T;
+      const text = await response.text();
+      if (options.responseType === 'text') {
+        return text as T;
+      }
+      return (text ? JSON.parse(text) : undefined) as T;
     } catch (error) {
       if (error instanceof Error) {
         throw error;
@@ -97,6 +270,22 @@ export class PulsarAdmin {
     }
   }
 
+  /**
+   * Get the Pulsar version of the broker serving the admin API
+   */
+  async getBrokerVersion(timeoutMs?: number): Promise<string> {
+    const version = await this.request<string>('/admin/v2/brokers/version', { responseType: 'text', timeoutMs });
+    return version.trim();
+  }
+
+  /**
+   * Run the broker health check, which round-trips a message through a heartbeat topic
+   * Pulsar restricts it to super-users, so a 403 still shows the broker is up and the caller authenticated
+   */
+  async checkBrokerHealth(timeoutMs?: number): Promise<void> {
+    await this.request<string>('/admin/v2/brokers/health', { responseType: 'text', timeoutMs });
+  }
+
   /**
    * List all clusters in the Pulsar instance
    */
@@ -220,6 +409,18 @@ export class PulsarAdmin {
     }
   }
 
+  /**
+   * List the partitioned topics of a namespace by their base names
+   * Unlike listTopics this includes partitioned topics whose partitions were never created
+   */
+  async listPartitionedTopics(
+    tenant: string,
+    namespace: string,
+    persistence: 'persistent' | 'non-persistent' = 'persistent'
+  ): Promise<string[]> {
+    return (await this.request<string[]>(`/admin/v2/${persistence}/${tenant}/${namespace}/partitioned`)) || [];
+  }
+
   /**
    * Get statistics for a specific topic
    * @param fullTopicName - Full topic name (e.g., "persistent://tenant/namespace/topic")
@@ -237,6 +438,32 @@ export class PulsarAdmin {
     return await this.request<PulsarTopicStats>(path);
   }
 
+  /**
+   * Get statistics for a partitioned topic, summed across its partitions
+   * @param fullTopicName - Full name of the partitioned topic, without a partition suffix
+   * @param perPartition - Also return each partition's own stats
+   */
+  async getPartitionedStats(fullTopicName: string, perPartition = false): Promise<PulsarPartitionedTopicStats> {
+    const { persistence, tenant, namespace, topic } = this.parseTopicName(fullTopicName);
+    const path = `/admin/v2/${persistence}/${tenant}/${namespace}/${topic}/partitioned-stats?perPartition=${perPartition}`;
+    return await this.request<PulsarPartitionedTopicStats>(path);
+  }
+
+  /**
+   * Get managed-ledger internals for a topic, including its ledgers and their entry counts
+   * Only valid for non-partitioned topics or individual partitions
+   * @param fullTopicName - Full topic name (e.g., "persistent://tenant/namespace/topic")
+   */
+  async getInternalStats(fullTopicName: string): Promise<PulsarInternalStats> {
+    if (!fullTopicName) {
+      throw new Error('Topic name is required');
+    }
+
+    const { persistence, tenant, namespace, topic } = this.parseTopicName(fullTopicName);
+    const path = `/admin/v2/${persistence}/${tenant}/${namespace}/${topic}/internalStats`;
+    return await this.request<PulsarInternalStats>(path);
+  }
+
   /**
    * List all subscriptions for a specific topic
    * @param fullTopicName - Full topic name (e.g., "persistent://tenant/namespace/topic")
@@ -253,6 +480,445 @@ export class PulsarAdmin {
     return await this.request<string[]>(path);
   }
 
+  /**
+   * Get partition metadata for a topic (partitions is 0 for non-partitioned topics)
+   * @param fullTopicName - Full topic name (e.g., "persistent://tenant/namespace/topic")
+   */
+  async getPartitionedMetadata(fullTopicName: string): Promise<PartitionedTopicMetadata> {
+    const { persistence, tenant, namespace, topic } = this.parseTopicName(fullTopicName);
+    const path = `/admin/v2/${persistence}/${tenant}/${namespace}/${topic}/partitions`;
+    return await this.request<PartitionedTopicMetadata>(path);
+  }
+
+  /**
+   * Check whether the caller may list every tenant, which Pulsar reserves for super-users
+   * Returns null when the check fails for another reason
+   */
+  async canListAllTenants(): Promise<boolean | null> {
+    try {
+      await this.request<string[]>('/admin/v2/tenants');
+      return true;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return /HTTP (401|403)/.test(errorMsg) ? false : null;
+    }
+  }
+
+  /**
+   * Get a tenant's admin roles and allowed clusters
+   */
+  async getTenantInfo(tenant: string): Promise<PulsarTenantInfo> {
+    return await this.request<PulsarTenantInfo>(`/admin/v2/tenants/${tenant}`);
+  }
+
+  /**
+   * Create a tenant
+   * @param info - Roles that administer the tenant and clusters its namespaces may use (at least one)
+   */
+  async createTenant(tenant: string, info: PulsarTenantInfo): Promise<void> {
+    await this.request<void>(`/admin/v2/tenants/${tenant}`, { method: 'PUT', body: info });
+  }
+
+  /**
+   * Replace a tenant's admin roles and allowed clusters
+   * The broker rejects removing a cluster that one of the tenant's namespaces still replicates to
+   */
+  async updateTenant(tenant: string, info: PulsarTenantInfo): Promise<void> {
+    await this.request<void>(`/admin/v2/tenants/${tenant}`, { method: 'POST', body: info });
+  }
+
+  /**
+   * Delete a tenant, which must not contain any namespaces
+   * @param force - Delete the tenant's namespaces and topics along with it
+   */
+  async deleteTenant(tenant: string, force = false): Promise<void> {
+    await this.request<void>(`/admin/v2/tenants/${tenant}?force=${force}`, { method: 'DELETE' });
+  }
+
+  /**
+   * Get every policy of a namespace as the broker stores it
+   * @param namespace - Namespace in tenant/namespace form
+   */
+  async getNamespacePolicies(namespace: string): Promise<Record<string, unknown>> {
+    return (await this.request<Record<string, unknown>>(`/admin/v2/namespaces/${namespace}`)) || {};
+  }
+
+  /**
+   * Get the roles granted on a namespace and their actions
+   * @param namespace - Namespace in tenant/namespace form
+   */
+  async getNamespacePermissions(namespace: string): Promise<Record<string, string[]>> {
+    return (await this.request<Record<string, string[]>>(`/admin/v2/namespaces/${namespace}/permissions`)) || {};
+  }
+
+  /**
+   * Read one namespace policy sub-resource, such as "messageTTL" or "dispatchRate"
+   * Returns undefined when the namespace does not set the policy
+   * @param namespace - Namespace in tenant/namespace form
+   */
+  async getNamespacePolicy<T>(namespace: string, policy: string): Promise<T | undefined> {
+    const value = await this.request<T | null>(`/admin/v2/namespaces/${namespace}/${policy}`);
+    return value ?? undefined;
+  }
+
+  /**
+   * Set one namespace policy sub-resource
+   * @param method - Most policies are set with POST; a few, like schemaCompatibilityStrategy, with PUT
+   */
+  async setNamespacePolicy(namespace: string, policy: string, value: unknown, method: 'POST' | 'PUT' = 'POST'): Promise<void> {
+    await this.request<void>(`/admin/v2/namespaces/${namespace}/${policy}`, { method, body: value });
+  }
+
+  /**
+   * Remove a namespace's own value for a policy so the broker default applies again
+   */
+  async removeNamespacePolicy(namespace: string, policy: string): Promise<void> {
+    await this.request<void>(`/admin/v2/namespaces/${namespace}/${policy}`, { method: 'DELETE' });
+  }
+
+  /**
+   * Create a namespace
+   * @param namespace - Namespace in tenant/namespace form
+   */
+  async createNamespace(namespace: string): Promise<void> {
+    await this.request<void>(`/admin/v2/namespaces/${namespace}`, { method: 'PUT' });
+  }
+
+  /**
+   * Delete a namespace, which must not contain any topics
+   * @param namespace - Namespace in tenant/namespace form
+   * @param force - Delete the namespace's topics along with it
+   */
+  async deleteNamespace(namespace: string, force = false): Promise<void> {
+    await this.request<void>(`/admin/v2/namespaces/${namespace}?force=${force}`, { method: 'DELETE' });
+  }
+
+  /**
+   * Set how long and how much acknowledged data a namespace keeps
+   * -1 means unlimited for either bound
+   */
+  async setRetention(namespace: string, retention: { retentionTimeInMinutes: number; retentionSizeInMB: number }): Promise<void> {
+    await this.setNamespacePolicy(namespace, 'retention', retention);
+  }
+
+  /**
+   * Set the time after which unacknowledged messages expire in a namespace
+   */
+  async setMessageTtl(namespace: string, ttlSeconds: number): Promise<void> {
+    if (!Number.isInteger(ttlSeconds) || ttlSeconds < 0) {
+      throw new Error('Message TTL must be a non-negative number of seconds');
+    }
+    await this.setNamespacePolicy(namespace, 'messageTTL', ttlSeconds);
+  }
+
+  /**
+   * Set the storage backlog quota of a namespace
+   * @param quota - Size limit in bytes, time limit in seconds and the policy applied when either is exceeded
+   */
+  async setBacklogQuota(namespace: string, quota: { limitSize: number; limitTime: number; policy: string }): Promise<void> {
+    await this.setNamespacePolicy(namespace, 'backlogQuota?backlogQuotaType=destination_storage', quota);
+  }
+
+  /**
+   * Grant a role actions on a namespace, replacing any actions it had
+   */
+  async grantNamespacePermission(namespace: string, role: string, actions: string[]): Promise<void> {
+    const path = `/admin/v2/namespaces/${namespace}/permissions/${encodeURIComponent(role)}`;
+    await this.request<void>(path, { method: 'POST', body: actions });
+  }
+
+  /**
+   * Revoke every action a role was granted on a namespace
+   */
+  async revokeNamespacePermission(namespace: string, role: string): Promise<void> {
+    const path = `/admin/v2/namespaces/${namespace}/permissions/${encodeURIComponent(role)}`;
+    await this.request<void>(path, { method: 'DELETE' });
+  }
+
+  /**
+   * Get the roles granted on a topic, including those inherited from its namespace
+   * @param fullTopicName - Full topic name (e.g., "persistent://tenant/namespace/topic")
+   */
+  async getTopicPermissions(fullTopicName: string): Promise<Record<string, string[]>> {
+    const { persistence, tenant, namespace, topic } = this.parseTopicName(fullTopicName);
+    const path = `/admin/v2/${persistence}/${tenant}/${namespace}/${topic}/permissions`;
+    return (await this.request<Record<string, string[]>>(path)) || {};
+  }
+
+  /**
+   * Get the roles granted on a topic itself, without those inherited from its namespace
+   * Topic grants are stored in the namespace's auth policies, keyed by topic name
+   * @param fullTopicName - Full topic name (e.g., "persistent://tenant/namespace/topic")
+   */
+  async getTopicGrants(fullTopicName: string): Promise<Record<string, string[]>> {
+    const { tenant, namespace } = this.parseTopicName(fullTopicName);
+    const policies = await this.getNamespacePolicies(`${tenant}/${namespace}`);
+    const auth = policies.auth_policies as { destination_auth?: Record<string, Record<string, string[]>> } | undefined;
+    return auth?.destination_auth?.[fullTopicName] || {};
+  }
+
+  /**
+   * Grant a role actions on a topic, replacing any topic-level actions it had
+   * @param fullTopicName - Full topic name (e.g., "persistent://tenant/namespace/topic")
+   */
+  async grantTopicPermission(fullTopicName: string, role: string, actions: string[]): Promise<void> {
+    const { persistence, tenant, namespace, topic } = this.parseTopicName(fullTopicName);
+    const path = `/admin/v2/${persistence}/${tenant}/${namespace}/${topic}/permissions/${encodeURIComponent(role)}`;
+    await this.request<void>(path, { method: 'POST', body: actions });
+  }
+
+  /**
+   * Revoke the actions a role was granted on a topic itself
+   * @param fullTopicName - Full topic name (e.g., "persistent://tenant/namespace/topic")
+   */
+  async revokeTopicPermission(fullTopicName: string, role: string): Promise<void> {
+    const { persistence, tenant, namespace, topic } = this.parseTopicName(fullTopicName);
+    const path = `/admin/v2/${persistence}/${tenant}/${namespace}/${topic}/permissions/${encodeURIComponent(role)}`;
+    await this.request<void>(path, { method: 'DELETE' });
+  }
+
+  /**
+   * Build the admin path for a topic policy sub-resource
+   * Policies of a partitioned topic live on the topic itself, never on its partitions
+   */
+  private topicPolicyPath(fullTopicName: string, policy: string): string {
+    const { persistence, tenant, namespace, topic } = this.parseTopicName(stripPartitionSuffix(fullTopicName));
+    return `/admin/v2/${persistence}/${tenant}/${namespace}/${topic}/${policy}`;
+  }
+
+  /**
+   * Read one topic policy sub-resource, such as "messageTTL" or "retention"
+   * Returns undefined when the topic does not override the policy
+   * @param applied - Return the value the broker applies, falling back to the namespace and broker default
+   */
+  async getTopicPolicy<T>(fullTopicName: string, policy: string, applied = false): Promise<T | undefined> {
+    const path = this.topicPolicyPath(fullTopicName, policy);
+    const value = await this.request<T | null>(applied ? `${path}?applied=true` : path);
+    return value ?? undefined;
+  }
+
+  /**
+   * Override one policy on a topic
+   * @param value - Request body; omitted for policies that take their value as a query parameter
+   */
+  async setTopicPolicy(fullTopicName: string, policy: string, value?: unknown): Promise<void> {
+    await this.request<void>(this.topicPolicyPath(fullTopicName, policy), { method: 'POST', body: value });
+  }
+
+  /**
+   * Remove a topic's override so the namespace value or broker default applies again
+   */
+  async removeTopicPolicy(fullTopicName: string, policy: string): Promise<void> {
+    await this.request<void>(this.topicPolicyPath(fullTopicName, policy), { method: 'DELETE' });
+  }
+
+  /**
+   * Create a non-partitioned topic
+   * @param fullTopicName - Full topic name (e.g., "persistent://tenant/namespace/topic")
+   */
+  async createTopic(fullTopicName: string): Promise<void> {
+    const { persistence, tenant, namespace, topic } = this.parseTopicName(fullTopicName);
+    const path = `/admin/v2/${persistence}/${tenant}/${namespace}/${topic}`;
+    await this.request<void>(path, { method: 'PUT' });
+  }
+
+  /**
+   * Create a partitioned topic
+   * @param fullTopicName - Full topic name (e.g., "persistent://tenant/namespace/topic")
+   * @param partitions - Number of partitions (must be at least 1)
+   */
+  async createPartitionedTopic(fullTopicName: string, partitions: number): Promise<void> {
+    if (!Number.isInteger(partitions) || partitions < 1) {
+      throw new Error('Partition count must be a positive integer');
+    }
+
+    const { persistence, tenant, namespace, topic } = this.parseTopicName(fullTopicName);
+    const path = `/admin/v2/${persistence}/${tenant}/${namespace}/${topic}/partitions`;
+    await this.request<void>(path, { method: 'PUT', body: partitions });
+  }
+
+  /**
+   * Change the partition count of a partitioned topic
+   * Pulsar only allows increasing the number of partitions
+   * @param fullTopicName - Full topic name (e.g., "persistent://tenant/namespace/topic")
+   * @param partitions - New total number of partitions
+   */
+  async updatePartitionedTopic(fullTopicName: string, partitions: number): Promise<void> {
+    if (!Number.isInteger(partitions) || partitions < 1) {
+      throw new Error('Partition count must be a positive integer');
+    }
+
+    const current = await this.getPartitionedMetadata(fullTopicName);
+    if (current.partitions === 0) {
+      throw new Error(`${fullTopicName} is not a partitioned topic`);
+    }
+    if (partitions <= current.partitions) {
+      throw new Error(
+        `Partition count can only be increased (currently ${current.partitions})`
+      );
+    }
+
+    const { persistence, tenant, namespace, topic } = this.parseTopicName(fullTopicName);
+    const path = `/admin/v2/${persistence}/${tenant}/${namespace}/${topic}/partitions`;
+    await this.request<void>(path, { method: 'POST', body: partitions });
+  }
+
+  /**
+   * Delete a topic, using the partitioned endpoint when the topic has partitions
+   * @param fullTopicName - Full topic name (e.g., "persistent://tenant/namespace/topic")
+   * @param force - Delete even if the topic has producers, consumers, or subscriptions
+   */
+  async deleteTopic(fullTopicName: string, force = false): Promise<void> {
+    const { persistence, tenant, namespace, topic } = this.parseTopicName(fullTopicName);
+    const metadata = await this.getPartitionedMetadata(fullTopicName).catch(() => ({ partitions: 0 }));
+
+    const basePath = `/admin/v2/${persistence}/${tenant}/${namespace}/${topic}`;
+    const path = metadata.partitions > 0
+      ? `${basePath}/partitions?force=${force}`
+      : `${basePath}?force=${force}`;
+    await this.request<void>(path, { method: 'DELETE' });
+  }
+
+  /**
+   * Build the admin path for a subscription on a topic
+   */
+  private subscriptionPath(fullTopicName: string, subscription: string): string {
+    if (!subscription) {
+      throw new Error('Subscription name is required');
+    }
+    const { persistence, tenant, namespace, topic } = this.parseTopicName(fullTopicName);
+    return `/admin/v2/${persistence}/${tenant}/${namespace}/${topic}/subscription/${encodeURIComponent(subscription)}`;
+  }
+
+  /**
+   * Create a subscription on a topic
+   * @param position - Where the new cursor starts ('latest' by default)
+   */
+  async createSubscription(
+    fullTopicName: string,
+    subscription: string,
+    position: 'earliest' | 'latest' = 'latest'
+  ): Promise<void> {
+    const path = this.subscriptionPath(fullTopicName, subscription);
+    // Without a body the broker positions the cursor at the latest message
+    const body = position === 'earliest'
+      ? { ledgerId: -1, entryId: -1, partitionIndex: -1 }
+      : undefined;
+    await this.request<void>(path, { method: 'PUT', body });
+  }
+
+  /**
+   * Delete a subscription from a topic
+   * @param force - Disconnect active consumers before deleting
+   */
+  async deleteSubscription(fullTopicName: string, subscription: string, force = false): Promise<void> {
+    const path = `${this.subscriptionPath(fullTopicName, subscription)}?force=${force}`;
+    await this.request<void>(path, { method: 'DELETE' });
+  }
+
+  /**
+   * Reset a subscription cursor to the first message published at or after a timestamp
+   * @param timestamp - Epoch milliseconds
+   */
+  async resetCursorByTime(fullTopicName: string, subscription: string, timestamp: number): Promise<void> {
+    if (!Number.isFinite(timestamp) || timestamp < 0) {
+      throw new Error('A valid timestamp is required');
+    }
+    const path = `${this.subscriptionPath(fullTopicName, subscription)}/resetcursor/${Math.floor(timestamp)}`;
+    await this.request<void>(path, { method: 'POST' });
+  }
+
+  /**
+   * Reset a subscription cursor to a specific message ID
+   * @param messageId - Either "(ledgerId,entryId,partition,batchIndex)" or "ledgerId:entryId[:partition]"
+   */
+  async resetCursorByMessageId(fullTopicName: string, subscription: string, messageId: string): Promise<void> {
+    const parsed = parseMessageIdString(messageId);
+    const path = `${this.subscriptionPath(fullTopicName, subscription)}/resetcursor`;
+    await this.request<void>(path, { method: 'POST', body: parsed });
+  }
+
+  /**
+   * Skip a number of messages on a subscription
+   */
+  async skipMessages(fullTopicName: string, subscription: string, count: number): Promise<void> {
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error('Message count must be a positive integer');
+    }
+    const path = `${this.subscriptionPath(fullTopicName, subscription)}/skip/${count}`;
+    await this.request<void>(path, { method: 'POST' });
+  }
+
+  /**
+   * Skip all messages on a subscription, clearing its backlog
+   */
+  async clearBacklog(fullTopicName: string, subscription: string): Promise<void> {
+    const path = `${this.subscriptionPath(fullTopicName, subscription)}/skip_all`;
+    await this.request<void>(path, { method: 'POST' });
+  }
+
+  /**
+   * Expire messages older than the given age on a subscription
+   */
+  async expireMessages(fullTopicName: string, subscription: string, expireTimeSeconds: number): Promise<void> {
+    if (!Number.isInteger(expireTimeSeconds) || expireTimeSeconds < 0) {
+      throw new Error('Expiry time must be a non-negative number of seconds');
+    }
+    const path = `${this.subscriptionPath(fullTopicName, subscription)}/expireMessages/${expireTimeSeconds}`;
+    await this.request<void>(path, { method: 'POST' });
+  }
+
+  /**
+   * Get the latest schema registered for a topic
+   * Returns null when the topic has no schema
+   * @param fullTopicName - Full topic name (e.g., "persistent://tenant/namespace/topic")
+   */
+  async getSchema(fullTopicName: string): Promise<PulsarSchemaInfo | null> {
+    const { tenant, namespace, topic } = this.parseTopicName(stripPartitionSuffix(fullTopicName));
+    try {
+      return await this.request<PulsarSchemaInfo>(`/admin/v2/schemas/${tenant}/${namespace}/${topic}/schema`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      if (errorMsg.includes('404')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get every schema version registered for a topic, newest first
+   * @param fullTopicName - Full topic name (e.g., "persistent://tenant/namespace/topic")
+   */
+  async getSchemaVersions(fullTopicName: string): Promise<PulsarSchemaInfo[]> {
+    const { tenant, namespace, topic } = this.parseTopicName(stripPartitionSuffix(fullTopicName));
+    try {
+      const response = await this.request<{ getSchemaResponses?: PulsarSchemaInfo[] }>(
+        `/admin/v2/schemas/${tenant}/${namespace}/${topic}/schemas`
+      );
+      return [...(response?.getSchemaResponses || [])].sort((a, b) => b.version - a.version);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      if (errorMsg.includes('404')) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Register a schema for a topic, adding a version when it differs from the latest
+   * The broker rejects schemas that break the namespace's compatibility strategy
+   * @param fullTopicName - Full topic name (e.g., "persistent://tenant/namespace/topic")
+   */
+  async uploadSchema(fullTopicName: string, schema: { type: string; schema: string; properties?: Record<string, string> }): Promise<void> {
+    const { tenant, namespace, topic } = this.parseTopicName(stripPartitionSuffix(fullTopicName));
+    await this.request<void>(`/admin/v2/schemas/${tenant}/${namespace}/${topic}/schema`, {
+      method: 'POST',
+      body: { type: schema.type, schema: schema.schema, properties: schema.properties || {} },
+    });
+  }
+
   /**
    * Parse a full topic name into its components
    * @param fullTopicName - Full topic name (e.g., "persistent://tenant/namespace/topic")
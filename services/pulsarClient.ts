@@ -4,7 +4,10 @@
  */
 
 import Pulsar from 'pulsar-client';
+import protobuf from 'protobufjs';
 import { OAuthClient, type OAuthClientConfig } from './oauthClient';
+import { decodeJwtClaims } from './oauthInteractive';
+import type { CredentialRotation } from '../src/shared/types';
 
 export interface PulsarClientConfig {
   serviceUrl: string;
@@ -36,10 +39,12 @@ export interface ProducerOptions {
   batchingMaxMessages?: number;
 }
 
+export type SubscriptionType = 'Exclusive' | 'Shared' | 'Failover' | 'Key_Shared';
+
 export interface ConsumerOptions {
   topic: string;
   subscription: string;
-  subscriptionType?: 'Exclusive' | 'Shared' | 'Failover' | 'Key_Shared';
+  subscriptionType?: SubscriptionType;
   subscriptionInitialPosition?: 'Latest' | 'Earliest';
   ackTimeoutMs?: number;
   nAckRedeliverTimeoutMs?: number;
@@ -58,9 +63,17 @@ export interface ReaderOptions {
   readCompacted?: boolean;
 }
 
+export interface MessageIdParts {
+  ledgerId: number;
+  entryId: number;
+  partitionIndex?: number;
+  batchIndex?: number;
+}
+
 export interface PulsarMessage {
   data: Buffer;
   messageId: string;
+  serializedMessageId: Buffer; // Rebuilds the exact native ID (partition and batch slot included) with MessageId.deserialize
   properties: Record<string, string>;
   publishTimestamp: number;
   eventTimestamp: number;
@@ -80,11 +93,32 @@ export interface ProducerSendOptions {
   deliverAt?: number;
 }
 
+/**
+ * Build a native MessageId from its components
+ * The client can only deserialize message IDs, so encode the MessageIdData protobuf by hand
+ */
+export function createMessageId(parts: MessageIdParts): Pulsar.MessageId {
+  const writer = protobuf.Writer.create()
+    .uint32(8).uint64(parts.ledgerId)
+    .uint32(16).uint64(parts.entryId);
+  if (parts.partitionIndex !== undefined && parts.partitionIndex >= 0) {
+    writer.uint32(24).int32(parts.partitionIndex);
+  }
+  if (parts.batchIndex !== undefined && parts.batchIndex >= 0) {
+    writer.uint32(32).int32(parts.batchIndex);
+  }
+  return Pulsar.MessageId.deserialize(Buffer.from(writer.finish()));
+}
+
 /**
  * Wrapper for Pulsar Producer
  */
 export class PulsarProducer {
-  constructor(private readonly producer: Pulsar.Producer) {}
+  constructor(
+    private producer: Pulsar.Producer,
+    private readonly reopen: (client: Pulsar.Client) => Promise<Pulsar.Producer>,
+    private readonly onClose: () => void
+  ) {}
 
   async send(options: ProducerSendOptions): Promise<Pulsar.MessageId> {
     const message: Pulsar.ProducerMessage = {
@@ -121,7 +155,20 @@ export class PulsarProducer {
   }
 
   async close(): Promise<void> {
-    await this.producer.close();
+    try {
+      await this.producer.close();
+    } finally {
+      this.onClose();
+    }
+  }
+
+  /**
+   * Move to a new producer on another client
+   * The old producer is closed first, since the broker refuses a second producer with the same name
+   */
+  async reattach(client: Pulsar.Client): Promise<void> {
+    await this.producer.close().catch(() => undefined);
+    this.producer = await this.reopen(client);
   }
 
   getProducerName(): string {
@@ -137,7 +184,11 @@ export class PulsarProducer {
  * Wrapper for Pulsar Consumer
  */
 export class PulsarConsumer {
-  constructor(private readonly consumer: Pulsar.Consumer) {}
+  constructor(
+    private consumer: Pulsar.Consumer,
+    private readonly reopen: (client: Pulsar.Client) => Promise<Pulsar.Consumer>,
+    private readonly onClose: () => void
+  ) {}
 
   async receive(): Promise<PulsarMessage> {
     const msg = await this.consumer.receive();
@@ -171,7 +222,21 @@ export class PulsarConsumer {
   }
 
   async close(): Promise<void> {
-    await this.consumer.close();
+    try {
+      await this.consumer.close();
+    } finally {
+      this.onClose();
+    }
+  }
+
+  /**
+   * Resubscribe on another client
+   * The old consumer is closed first, since an exclusive subscription refuses a second consumer;
+   * messages it had not acknowledged are redelivered to the new one
+   */
+  async reattach(client: Pulsar.Client): Promise<void> {
+    await this.consumer.close().catch(() => undefined);
+    this.consumer = await this.reopen(client);
   }
 
   getSubscription(): string {
@@ -190,6 +255,7 @@ export class PulsarConsumer {
       data: Buffer.from(msg.getData()),
       // Store messageId as string to avoid native handle lifetime issues
       messageId: msg.getMessageId().toString(),
+      serializedMessageId: msg.getMessageId().serialize(),
       // Clone properties to detach from native memory
       properties: { ...(msg.getProperties() || {}) },
       publishTimestamp: msg.getPublishTimestamp(),
@@ -205,16 +271,26 @@ export class PulsarConsumer {
  * Wrapper for Pulsar Reader
  */
 export class PulsarReader {
-  constructor(private readonly reader: Pulsar.Reader) {}
+  // Where a reattached reader resumes: after the last message read, or at the last seeked time
+  private lastMessageId: Buffer | null = null;
+  private seekedTimestamp: number | null = null;
+
+  constructor(
+    private reader: Pulsar.Reader,
+    private readonly reopen: (client: Pulsar.Client, startMessageId?: Pulsar.MessageId) => Promise<Pulsar.Reader>,
+    private readonly onClose: () => void
+  ) {}
 
   async readNext(): Promise<PulsarMessage> {
     const msg = await this.reader.readNext();
+    this.lastMessageId = msg.getMessageId().serialize();
     return this.convertMessage(msg);
   }
 
   async readNext_timeout(timeoutMs: number): Promise<PulsarMessage | null> {
     try {
       const msg = await this.reader.readNext(timeoutMs);
+      this.lastMessageId = msg.getMessageId().serialize();
       return this.convertMessage(msg);
     } catch (error) {
       // Timeout returns null
@@ -226,8 +302,34 @@ export class PulsarReader {
     return this.reader.hasNext();
   }
 
+  /**
+   * Reposition the reader to the first message published at or after timestamp (epoch ms)
+   */
+  async seekTimestamp(timestamp: number): Promise<void> {
+    await this.reader.seekTimestamp(timestamp);
+    this.lastMessageId = null;
+    this.seekedTimestamp = timestamp;
+  }
+
   async close(): Promise<void> {
-    await this.reader.close();
+    try {
+      await this.reader.close();
+    } finally {
+      this.onClose();
+    }
+  }
+
+  /**
+   * Reopen on another client at the current position, so reading continues where it left off
+   */
+  async reattach(client: Pulsar.Client): Promise<void> {
+    const startMessageId = this.lastMessageId ? Pulsar.MessageId.deserialize(this.lastMessageId) : undefined;
+    const next = await this.reopen(client, startMessageId);
+    if (!startMessageId && this.seekedTimestamp !== null) {
+      await next.seekTimestamp(this.seekedTimestamp);
+    }
+    await this.reader.close().catch(() => undefined);
+    this.reader = next;
   }
 
   getTopic(): string {
@@ -239,6 +341,7 @@ export class PulsarReader {
     return {
       data: msg.getData(),
       messageId: msg.getMessageId().toString(),
+      serializedMessageId: msg.getMessageId().serialize(),
       properties: { ...(msg.getProperties() || {}) },
       publishTimestamp: msg.getPublishTimestamp(),
       eventTimestamp: msg.getEventTimestamp(),
@@ -249,6 +352,11 @@ export class PulsarReader {
   }
 }
 
+type ClientHandle = PulsarProducer | PulsarConsumer | PulsarReader;
+
+// Health checks run every 30 seconds, so one of them always lands inside this window before a token expires
+const TOKEN_ROTATION_MARGIN_MS = 45000;
+
 /**
  * Main PulsarMessageClient class
  */
@@ -256,9 +364,16 @@ export class PulsarMessageClient {
   private client: Pulsar.Client | null = null;
   private readonly config: PulsarClientConfig;
   private oauthClient: OAuthClient | null = null;
+  // Set when the native client was built with a fixed OAuth token that has to be swapped before it expires
+  private staticOAuthToken: string | null = null;
+  private staticOAuthTokenExpiresAt: number | null = null; // From the token's exp claim; null when it has none
+  private retiredClients: Pulsar.Client[] = [];
+  private rotation: Promise<CredentialRotation | null> | null = null;
   private producers: Set<PulsarProducer> = new Set();
   private consumers: Set<PulsarConsumer> = new Set();
   private readers: Set<PulsarReader> = new Set();
+  // The native client each open handle currently runs on
+  private handleClients: Map<ClientHandle, Pulsar.Client> = new Map();
 
   constructor(config: PulsarClientConfig) {
     this.config = config;
@@ -272,51 +387,180 @@ export class PulsarMessageClient {
    * Initialize the Pulsar client connection
    */
   private async ensureClient(): Promise<Pulsar.Client> {
+    // New handles must not start on a client whose token was already replaced
+    await this.refreshCredentials();
     if (!this.client) {
-      const clientConfig: Pulsar.ClientConfig = {
-        serviceUrl: this.config.serviceUrl,
-      };
-
-      // If OAuth is configured, get token and set up token authentication
-      if (this.oauthClient) {
-        try {
-          const token = await this.oauthClient.getAccessToken();
-          clientConfig.authentication = new Pulsar.AuthenticationToken({ token });
-        } catch (error) {
-          throw new Error(`Failed to acquire OAuth token for Pulsar client: ${error instanceof Error ? error.message : String(error)}`);
-        }
-      } else if (this.config.authentication) {
-        clientConfig.authentication = this.config.authentication;
-      }
-      
-      if (this.config.operationTimeoutSeconds !== undefined) {
-        clientConfig.operationTimeoutSeconds = this.config.operationTimeoutSeconds;
-      }
-      if (this.config.ioThreads !== undefined) {
-        clientConfig.ioThreads = this.config.ioThreads;
-      }
-      if (this.config.messageListenerThreads !== undefined) {
-        clientConfig.messageListenerThreads = this.config.messageListenerThreads;
-      }
-      if (this.config.concurrentLookupRequest !== undefined) {
-        clientConfig.concurrentLookupRequest = this.config.concurrentLookupRequest;
-      }
-      if (this.config.tlsTrustCertsFilePath) {
-        clientConfig.tlsTrustCertsFilePath = this.config.tlsTrustCertsFilePath;
-      }
-      if (this.config.tlsValidateHostname !== undefined) {
-        clientConfig.tlsValidateHostname = this.config.tlsValidateHostname;
-      }
-      if (this.config.tlsAllowInsecureConnection !== undefined) {
-        clientConfig.tlsAllowInsecureConnection = this.config.tlsAllowInsecureConnection;
+      this.client = await this.buildClient();
+    }
+    return this.client;
+  }
+
+  /**
+   * Move every producer, consumer and reader to a new client when the fixed OAuth token it was built with is about to expire
+   * A client's token cannot be changed, and its connections fail re-authentication once the token expires.
+   * Moving re-creates each handle: sends still in flight fail and unacknowledged messages are redelivered,
+   * so it only happens when the broker would otherwise start rejecting the old token, not on every refresh.
+   * Returns null when nothing had to move
+   */
+  async refreshCredentials(): Promise<CredentialRotation | null> {
+    if (!this.rotation) {
+      this.rotation = this.rotateClient().finally(() => {
+        this.rotation = null;
+      });
+    }
+    return await this.rotation;
+  }
+
+  private async rotateClient(): Promise<CredentialRotation | null> {
+    if (!this.client || !this.oauthClient || this.staticOAuthToken === null) {
+      return null;
+    }
+    // A token without an expiry stays valid for the client's whole life
+    if (this.staticOAuthTokenExpiresAt === null || this.staticOAuthTokenExpiresAt - Date.now() > TOKEN_ROTATION_MARGIN_MS) {
+      return null;
+    }
+    const token = await this.oauthClient.getAccessToken();
+    if (token === this.staticOAuthToken) {
+      return null;
+    }
+
+    console.log('[PulsarMessageClient] OAuth token about to expire; moving producers, consumers and readers to a new client');
+    const client = await this.buildClient();
+    this.retiredClients.push(this.client);
+    this.client = client;
+
+    // Handles that failed to move on an earlier rotation get another try
+    const handles = Array.from(this.handleClients).filter(([, owner]) => owner !== client).map(([handle]) => handle);
+    let reattached = 0;
+    for (const handle of handles) {
+      try {
+        await handle.reattach(client);
+        this.handleClients.set(handle, client);
+        reattached++;
+      } catch (error) {
+        console.warn('[PulsarMessageClient] Failed to move a handle to the new client:', error instanceof Error ? error.message : error);
       }
-      if (this.config.statsIntervalInSeconds !== undefined) {
-        clientConfig.statsIntervalInSeconds = this.config.statsIntervalInSeconds;
+    }
+    this.closeIdleRetiredClients();
+    return { reattached, failed: handles.length - reattached };
+  }
+
+  /**
+   * Close retired clients that no longer carry any open handle
+   */
+  private closeIdleRetiredClients(): void {
+    const inUse = new Set(this.handleClients.values());
+    const idle = this.retiredClients.filter(client => !inUse.has(client));
+    this.retiredClients = this.retiredClients.filter(client => inUse.has(client));
+    for (const client of idle) {
+      client.close().catch(err => console.error('Error closing client:', err));
+    }
+  }
+
+  /**
+   * Forget a closed handle, and close its client if that was retired and is now unused
+   */
+  private release(handle: ClientHandle): void {
+    this.producers.delete(handle as PulsarProducer);
+    this.consumers.delete(handle as PulsarConsumer);
+    this.readers.delete(handle as PulsarReader);
+    this.handleClients.delete(handle);
+    this.closeIdleRetiredClients();
+  }
+
+  /**
+   * Create a native client from the configuration, with a current OAuth token where one is needed
+   */
+  private async buildClient(): Promise<Pulsar.Client> {
+    const clientConfig: Pulsar.ClientConfig = {
+      serviceUrl: this.config.serviceUrl,
+    };
+
+    // If OAuth is configured, set up authentication that refreshes its token
+    if (this.oauthClient && this.config.oauthConfig) {
+      try {
+        clientConfig.authentication = await this.createOAuthAuthentication(this.oauthClient, this.config.oauthConfig);
+      } catch (error) {
+        throw new Error(`Failed to acquire OAuth token for Pulsar client: ${error instanceof Error ? error.message : String(error)}`);
       }
+    } else if (this.config.authentication) {
+      clientConfig.authentication = this.config.authentication;
+    }
+    
+    if (this.config.operationTimeoutSeconds !== undefined) {
+      clientConfig.operationTimeoutSeconds = this.config.operationTimeoutSeconds;
+    }
+    if (this.config.ioThreads !== undefined) {
+      clientConfig.ioThreads = this.config.ioThreads;
+    }
+    if (this.config.messageListenerThreads !== undefined) {
+      clientConfig.messageListenerThreads = this.config.messageListenerThreads;
+    }
+    if (this.config.concurrentLookupRequest !== undefined) {
+      clientConfig.concurrentLookupRequest = this.config.concurrentLookupRequest;
+    }
+    if (this.config.tlsTrustCertsFilePath) {
+      clientConfig.tlsTrustCertsFilePath = this.config.tlsTrustCertsFilePath;
+    }
+    if (this.config.tlsValidateHostname !== undefined) {
+      clientConfig.tlsValidateHostname = this.config.tlsValidateHostname;
+    }
+    if (this.config.tlsAllowInsecureConnection !== undefined) {
+      clientConfig.tlsAllowInsecureConnection = this.config.tlsAllowInsecureConnection;
+    }
+    if (this.config.statsIntervalInSeconds !== undefined) {
+      clientConfig.statsIntervalInSeconds = this.config.statsIntervalInSeconds;
+    }
+
+    return new Pulsar.Client(clientConfig);
+  }
+
+  /**
+   * Create the native client up front so bad settings and credentials surface on connect
+   * The native client only opens broker connections lazily, so this does not prove the broker is reachable
+   */
+  async connect(): Promise<void> {
+    await this.ensureClient();
+  }
 
-      this.client = new Pulsar.Client(clientConfig);
+  /**
+   * Build OAuth authentication for the native client
+   * A plain token would be fixed for the life of the client and break once it expires, so when the
+   * issuer supports OpenID discovery the native OAuth2 provider supplies tokens instead: it fetches
+   * a new one before expiry and answers the broker's re-authentication challenges with it.
+   * Otherwise the client gets a fixed token, and refreshCredentials moves everything to a new client shortly
+   * before that token expires. pulsar-client 1.9 has no token supplier callback, so there is no way to hand a
+   * refreshed token to an existing client.
+   */
+  private async createOAuthAuthentication(
+    oauthClient: OAuthClient,
+    oauthConfig: OAuthClientConfig
+  ): Promise<Pulsar.AuthenticationOauth2 | Pulsar.AuthenticationToken> {
+    // Fetch a token up front so bad credentials fail the connection with a clear error
+    const token = await oauthClient.getAccessToken();
+    this.staticOAuthToken = null;
+
+    // The native provider only speaks client_credentials; user logins hand over their current token
+    if (!oauthConfig.tokenSource && await oauthClient.discoverTokenEndpoint()) {
+      const credentials = oauthClient.getCredentials();
+      const { audience, scopes } = oauthConfig;
+      return new Pulsar.AuthenticationOauth2({
+        type: 'client_credentials',
+        issuer_url: credentials.issuerUrl,
+        client_id: credentials.clientId,
+        client_secret: credentials.clientSecret,
+        audience,
+        scope: scopes && scopes.length > 0 ? scopes.join(' ') : undefined,
+      });
     }
-    return this.client;
+
+    if (!oauthConfig.tokenSource) {
+      console.warn('[PulsarMessageClient] Issuer has no OpenID configuration; existing binary connections will stop authenticating when their token expires');
+    }
+    this.staticOAuthToken = token;
+    const exp = decodeJwtClaims(token)?.exp;
+    this.staticOAuthTokenExpiresAt = typeof exp === 'number' ? exp * 1000 : null;
+    return new Pulsar.AuthenticationToken({ token });
   }
 
   /**
@@ -339,8 +583,13 @@ export class PulsarMessageClient {
     };
 
     const producer = await client.createProducer(producerConfig);
-    const wrapper = new PulsarProducer(producer);
+    const wrapper: PulsarProducer = new PulsarProducer(
+      producer,
+      (next) => next.createProducer(producerConfig),
+      () => this.release(wrapper)
+    );
     this.producers.add(wrapper);
+    this.handleClients.set(wrapper, client);
     return wrapper;
   }
 
@@ -381,8 +630,13 @@ export class PulsarMessageClient {
     }
 
     const consumer = await client.subscribe(consumerConfig);
-    const wrapper = new PulsarConsumer(consumer);
+    const wrapper: PulsarConsumer = new PulsarConsumer(
+      consumer,
+      (next) => next.subscribe(consumerConfig),
+      () => this.release(wrapper)
+    );
     this.consumers.add(wrapper);
+    this.handleClients.set(wrapper, client);
     return wrapper;
   }
 
@@ -411,8 +665,13 @@ export class PulsarMessageClient {
     }
 
     const reader = await client.createReader(readerConfig);
-    const wrapper = new PulsarReader(reader);
+    const wrapper: PulsarReader = new PulsarReader(
+      reader,
+      (next, startMessageId) => next.createReader({ ...readerConfig, startMessageId: startMessageId || readerConfig.startMessageId }),
+      () => this.release(wrapper)
+    );
     this.readers.add(wrapper);
+    this.handleClients.set(wrapper, client);
     return wrapper;
   }
 
@@ -440,12 +699,17 @@ export class PulsarMessageClient {
     );
     await Promise.all(readerClosePromises);
     this.readers.clear();
+    this.handleClients.clear();
 
     // Close the client
     if (this.client) {
       await this.client.close();
       this.client = null;
     }
+    for (const retired of this.retiredClients) {
+      await retired.close().catch(err => console.error('Error closing client:', err));
+    }
+    this.retiredClients = [];
   }
 
   /**
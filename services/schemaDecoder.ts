@@ -0,0 +1,201 @@
+/**
+ * SchemaDecoder - Decodes message payloads using the topic's registered schema
+ * Supports AVRO, JSON, PROTOBUF_NATIVE and the primitive schema types
+ */
+
+import avro from 'avsc';
+import protobuf from 'protobufjs';
+import descriptor from 'protobufjs/ext/descriptor';
+import { stripPartitionSuffix, type PulsarAdmin, type PulsarSchemaInfo } from './pulsarAdmin';
+
+export interface DecodedPayload {
+  text?: string; // Only set when a schema decoded the payload
+  schemaType?: string;
+  schemaVersion?: number;
+  decodeError?: string;
+}
+
+type PayloadDecoder = (data: Buffer) => unknown;
+
+interface CachedSchemas {
+  fetchedAt: number;
+  // Newest first, so recent messages decode on the first attempt
+  schemas: Array<{ info: PulsarSchemaInfo; decoder: PayloadDecoder | null; buildError?: string }>;
+}
+
+// Schemas rarely change; refetch at most once a minute per topic
+const SCHEMA_CACHE_TTL_MS = 60000;
+
+/**
+ * Serialize decoded values to JSON, rendering bytes as base64 and 64-bit integers as strings
+ */
+function toJson(value: unknown): string {
+  return JSON.stringify(
+    value,
+    (_key, v) => {
+      if (typeof v === 'bigint') {
+        return v.toString();
+      }
+      if (v && typeof v === 'object' && v.type === 'Buffer' && Array.isArray(v.data)) {
+        return Buffer.from(v.data).toString('base64');
+      }
+      return v;
+    },
+    2
+  );
+}
+
+/**
+ * Build a decoder for a schema definition, or null when the type needs no decoding
+ */
+function buildDecoder(info: PulsarSchemaInfo): PayloadDecoder | null {
+  switch (info.type) {
+    case 'AVRO': {
+      const type = avro.Type.forSchema(JSON.parse(info.data));
+      return (data) => type.fromBuffer(data);
+    }
+    case 'JSON':
+      return (data) => JSON.parse(data.toString('utf-8'));
+    case 'PROTOBUF_NATIVE': {
+      const definition = JSON.parse(info.data) as {
+        fileDescriptorSet: string;
+        rootMessageTypeName: string;
+      };
+      const descriptorSet = descriptor.FileDescriptorSet.decode(
+        Buffer.from(definition.fileDescriptorSet, 'base64')
+      );
+      // Root.fromDescriptor is added by the descriptor extension import above
+      const root = (protobuf.Root as unknown as {
+        fromDescriptor(set: protobuf.Message): protobuf.Root;
+      }).fromDescriptor(descriptorSet);
+      const messageType = root.lookupType(definition.rootMessageTypeName);
+      return (data) => messageType.toObject(messageType.decode(data), {
+        longs: String,
+        enums: String,
+        bytes: String,
+        defaults: true,
+      });
+    }
+    case 'BOOLEAN':
+      return (data) => data.readUInt8(0) !== 0;
+    case 'INT8':
+      return (data) => data.readInt8(0);
+    case 'INT16':
+      return (data) => data.readInt16BE(0);
+    case 'INT32':
+      return (data) => data.readInt32BE(0);
+    case 'INT64':
+      return (data) => data.readBigInt64BE(0);
+    case 'FLOAT':
+      return (data) => data.readFloatBE(0);
+    case 'DOUBLE':
+      return (data) => data.readDoubleBE(0);
+    case 'DATE':
+    case 'TIMESTAMP':
+      return (data) => new Date(Number(data.readBigInt64BE(0))).toISOString();
+    case 'TIME':
+      return (data) => Number(data.readBigInt64BE(0));
+    case 'INSTANT':
+      return (data) => {
+        const millis = Number(data.readBigInt64BE(0)) * 1000 + Math.floor(data.readInt32BE(8) / 1e6);
+        return new Date(millis).toISOString();
+      };
+    case 'STRING':
+    case 'BYTES':
+    case 'NONE':
+      return null;
+    default:
+      throw new Error(`Unsupported schema type ${info.type}`);
+  }
+}
+
+export class SchemaDecoder {
+  private readonly cache = new Map<string, CachedSchemas>();
+  private readonly pending = new Map<string, Promise<CachedSchemas>>();
+
+  constructor(private readonly admin: PulsarAdmin) {}
+
+  /**
+   * Decode a payload published to a topic
+   * Leaves text unset when the topic has no schema, the schema carries raw bytes, or decoding fails
+   */
+  async decode(topicName: string, data: Buffer): Promise<DecodedPayload> {
+    const cached = await this.getSchemas(topicName);
+    if (cached.schemas.length === 0) {
+      return {};
+    }
+
+    // Messages don't carry their schema version through the client, so try
+    // each registered version from newest to oldest until one decodes cleanly
+    const errors: string[] = [];
+    for (const { info, decoder, buildError } of cached.schemas) {
+      if (buildError) {
+        errors.push(`v${info.version}: ${buildError}`);
+        continue;
+      }
+      if (!decoder) {
+        return { schemaType: info.type, schemaVersion: info.version };
+      }
+      try {
+        const value = decoder(data);
+        return {
+          text: typeof value === 'string' ? value : toJson(value),
+          schemaType: info.type,
+          schemaVersion: info.version,
+        };
+      } catch (error) {
+        errors.push(`v${info.version}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return {
+      schemaType: cached.schemas[0].info.type,
+      decodeError: `Could not decode with any schema version (${errors.join('; ')})`,
+    };
+  }
+
+  /**
+   * Drop cached schemas so the next decode refetches them
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async getSchemas(topicName: string): Promise<CachedSchemas> {
+    const baseTopic = stripPartitionSuffix(topicName);
+    const cached = this.cache.get(baseTopic);
+    if (cached && Date.now() - cached.fetchedAt < SCHEMA_CACHE_TTL_MS) {
+      return cached;
+    }
+
+    // Share one in-flight fetch between messages read in quick succession
+    let pending = this.pending.get(baseTopic);
+    if (!pending) {
+      pending = this.fetchSchemas(baseTopic).finally(() => this.pending.delete(baseTopic));
+      this.pending.set(baseTopic, pending);
+    }
+    return await pending;
+  }
+
+  private async fetchSchemas(baseTopic: string): Promise<CachedSchemas> {
+    let versions: PulsarSchemaInfo[] = [];
+    try {
+      versions = await this.admin.getSchemaVersions(baseTopic);
+    } catch (error) {
+      // Cache the miss as well, so a topic we can't read schemas for isn't refetched per message
+      console.warn(`[SchemaDecoder] Failed to load schemas for ${baseTopic}, showing raw payloads:`, error);
+    }
+
+    const schemas = versions.map(info => {
+      try {
+        return { info, decoder: buildDecoder(info) };
+      } catch (error) {
+        return { info, decoder: null, buildError: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    const entry: CachedSchemas = { fetchedAt: Date.now(), schemas };
+    this.cache.set(baseTopic, entry);
+    return entry;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Secret Storage Service
+ * Encrypts credential fields at rest with Electron's safeStorage (OS keyring)
+ */
+
+import { safeStorage } from 'electron';
+import { STORED_SECRET, type AuthConfig, type SecretStorageStatus } from '../src/shared/types';
+
+// Marks a value written by encryptSecret; anything else on disk is legacy plaintext
+const ENCRYPTED_PREFIX = 'safeStorage:v1:';
+
+/**
+ * Report whether secrets can be protected by an OS keyring.
+ * Linux without a secret service falls back to a hardcoded key, which we treat as unavailable.
+ */
+export function getSecretStorageStatus(): SecretStorageStatus {
+  if (!safeStorage.isEncryptionAvailable()) {
+    return {
+      encrypted: false,
+      message: 'No OS keyring is available, so saved credentials are stored unencrypted.',
+    };
+  }
+  if (process.platform === 'linux') {
+    const backend = safeStorage.getSelectedStorageBackend();
+    if (backend === 'basic_text' || backend === 'unknown') {
+      return {
+        encrypted: false,
+        backend,
+        message: 'No secret service (GNOME Keyring or KWallet) was found, so saved credentials are stored unencrypted.',
+      };
+    }
+    return { encrypted: true, backend };
+  }
+  return { encrypted: true };
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Encrypt a secret for writing to disk; returned unchanged when no keyring is available
+ */
+export function encryptSecret(value: string): string {
+  if (!value || isEncryptedSecret(value) || !getSecretStorageStatus().encrypted) {
+    return value;
+  }
+  return ENCRYPTED_PREFIX + safeStorage.encryptString(value).toString('base64');
+}
+
+/**
+ * Decrypt a secret read from disk; plaintext values pass through unchanged
+ */
+export function decryptSecret(value: string): string {
+  if (!value || !isEncryptedSecret(value)) {
+    return value;
+  }
+  return safeStorage.decryptString(Buffer.from(value.slice(ENCRYPTED_PREFIX.length), 'base64'));
+}
+
+/**
+ * Apply a transform to every secret field of an auth config
+ */
+export function mapAuthSecrets(auth: AuthConfig, transform: (value: string) => string): AuthConfig {
+  switch (auth.type) {
+    case 'token':
+      return { ...auth, token: transform(auth.token) };
+    case 'oauth':
+      return { ...auth, oauth: { ...auth.oauth, clientSecret: transform(auth.oauth.clientSecret) } };
+    default:
+      return auth;
+  }
+}
+
+/**
+ * List the secret values of an auth config
+ */
+export function authSecrets(auth: AuthConfig): string[] {
+  const secrets: string[] = [];
+  mapAuthSecrets(auth, (value) => {
+    secrets.push(value);
+    return value;
+  });
+  return secrets;
+}
+
+/**
+ * Replace STORED_SECRET markers in `auth` with the secrets of a stored config of the same type.
+ * Any other value, including an empty one, is taken as entered.
+ */
+export function mergeStoredSecrets(auth: AuthConfig, stored: AuthConfig | undefined): AuthConfig {
+  const storedSecrets = stored && stored.type === auth.type ? authSecrets(stored) : [];
+  let index = 0;
+  return mapAuthSecrets(auth, (value) => {
+    const storedValue = storedSecrets[index++];
+    return value === STORED_SECRET ? storedValue ?? '' : value;
+  });
+}
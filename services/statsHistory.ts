@@ -0,0 +1,120 @@
+/**
+ * Stats History Store
+ * Persists sampler settings and per-topic stats samples under the app's user data directory
+ */
+
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import { app } from 'electron';
+import type { PinnedTopic, StatsHistorySettings, StatsSample } from '../src/shared/types';
+
+const DEFAULT_SETTINGS: StatsHistorySettings = {
+  intervalSeconds: 30,
+  retentionHours: 24 * 7,
+  pinned: [],
+};
+
+export class StatsHistoryStore {
+  private readonly historyDir: string;
+  private readonly settingsFilePath: string;
+
+  constructor() {
+    this.historyDir = path.join(app.getPath('userData'), 'lightcurve', 'stats-history');
+    this.settingsFilePath = path.join(this.historyDir, 'settings.json');
+    this.ensureHistoryDirExists();
+  }
+
+  private ensureHistoryDirExists(): void {
+    if (!fs.existsSync(this.historyDir)) {
+      fs.mkdirSync(this.historyDir, { recursive: true });
+    }
+  }
+
+  // History is keyed by admin URL rather than cluster ID, which changes on every connect
+  private samplesFilePath(pin: PinnedTopic): string {
+    const key = crypto.createHash('sha1').update(`${pin.adminUrl}\n${pin.topic}`).digest('hex');
+    return path.join(this.historyDir, `${key}.jsonl`);
+  }
+
+  /**
+   * Load sampler settings, falling back to defaults for anything missing
+   */
+  loadSettings(): StatsHistorySettings {
+    try {
+      if (!fs.existsSync(this.settingsFilePath)) {
+        return { ...DEFAULT_SETTINGS };
+      }
+      const parsed = JSON.parse(fs.readFileSync(this.settingsFilePath, 'utf-8')) as Partial<StatsHistorySettings>;
+      return { ...DEFAULT_SETTINGS, ...parsed, pinned: parsed.pinned || [] };
+    } catch (error) {
+      console.error('Error loading stats history settings:', error);
+      return { ...DEFAULT_SETTINGS };
+    }
+  }
+
+  saveSettings(settings: StatsHistorySettings): void {
+    fs.writeFileSync(this.settingsFilePath, JSON.stringify(settings, null, 2), 'utf-8');
+  }
+
+  /**
+   * Append one sample for a pinned topic
+   */
+  append(pin: PinnedTopic, sample: StatsSample): void {
+    fs.appendFileSync(this.samplesFilePath(pin), JSON.stringify(sample) + '\n', 'utf-8');
+  }
+
+  /**
+   * Load samples at or after a timestamp, oldest first
+   */
+  load(pin: PinnedTopic, since = 0): StatsSample[] {
+    const filePath = this.samplesFilePath(pin);
+    try {
+      if (!fs.existsSync(filePath)) {
+        return [];
+      }
+      const samples: StatsSample[] = [];
+      for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          const sample = JSON.parse(line) as StatsSample;
+          if (sample.timestamp >= since) {
+            samples.push(sample);
+          }
+        } catch {
+          // Skip a line torn by a crash mid-write
+        }
+      }
+      return samples;
+    } catch (error) {
+      console.error('Error loading stats history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Rewrite a topic's history without samples older than the retention window
+   */
+  compact(pin: PinnedTopic, retentionHours: number): void {
+    const filePath = this.samplesFilePath(pin);
+    if (!fs.existsSync(filePath)) {
+      return;
+    }
+    const kept = this.load(pin, Date.now() - retentionHours * 60 * 60 * 1000);
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, kept.map(sample => JSON.stringify(sample) + '\n').join(''), 'utf-8');
+    fs.renameSync(tempPath, filePath);
+  }
+
+  /**
+   * Delete a topic's history, e.g. when it is unpinned
+   */
+  clear(pin: PinnedTopic): void {
+    const filePath = this.samplesFilePath(pin);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  }
+}
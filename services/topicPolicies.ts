@@ -0,0 +1,150 @@
+/**
+ * Topic Policies
+ * Reads topic-level policy overrides alongside the namespace values and the values the broker applies,
+ * so a topic's effective behaviour can be traced to where it is configured
+ */
+
+import type { PulsarAdmin } from './pulsarAdmin';
+import { mapWithConcurrency } from './adminHelpers';
+import {
+  errorMessage,
+  isMissingEndpoint,
+  pickDispatchRate,
+  pickPublishRate,
+  pickRetention,
+  pickStorageQuota,
+} from './namespacePolicies';
+import type { TopicPolicies, TopicPolicyKey, TopicPoliciesResult } from '../src/shared/types';
+
+interface TopicPolicyEndpoint {
+  path: string; // Sub-resource of the topic
+  readPath?: string; // When the topic policy is read from a different sub-resource
+  namespacePath: string; // Sub-resource of the namespace holding the same policy
+  fromBroker?: (value: any) => unknown; // Keep only the fields the editor manages
+  setPath?: (value: any) => string; // Policies that take their value as a query parameter instead of a body
+}
+
+const ENDPOINTS: Record<TopicPolicyKey, TopicPolicyEndpoint> = {
+  retention: { path: 'retention', namespacePath: 'retention', fromBroker: pickRetention },
+  messageTtlSeconds: {
+    path: 'messageTTL',
+    namespacePath: 'messageTTL',
+    setPath: (ttl) => `messageTTL?messageTTL=${ttl}`,
+  },
+  backlogQuota: {
+    path: 'backlogQuota?backlogQuotaType=destination_storage',
+    readPath: 'backlogQuotaMap',
+    namespacePath: 'backlogQuotaMap',
+    fromBroker: pickStorageQuota,
+  },
+  maxUnackedMessagesOnConsumer: { path: 'maxUnackedMessagesOnConsumer', namespacePath: 'maxUnackedMessagesPerConsumer' },
+  maxUnackedMessagesOnSubscription: { path: 'maxUnackedMessagesOnSubscription', namespacePath: 'maxUnackedMessagesPerSubscription' },
+  delayedDelivery: {
+    path: 'delayedDelivery',
+    namespacePath: 'delayedDelivery',
+    fromBroker: (policy) => ({ active: policy.active, tickTime: policy.tickTime }),
+  },
+  deduplicationEnabled: { path: 'deduplicationEnabled', namespacePath: 'deduplication' },
+  maxProducers: { path: 'maxProducers', namespacePath: 'maxProducersPerTopic' },
+  maxConsumers: { path: 'maxConsumers', namespacePath: 'maxConsumersPerTopic' },
+  maxConsumersPerSubscription: { path: 'maxConsumersPerSubscription', namespacePath: 'maxConsumersPerSubscription' },
+  dispatchRate: { path: 'dispatchRate', namespacePath: 'dispatchRate', fromBroker: pickDispatchRate },
+  subscriptionDispatchRate: { path: 'subscriptionDispatchRate', namespacePath: 'subscriptionDispatchRate', fromBroker: pickDispatchRate },
+  publishRate: { path: 'publishRate', namespacePath: 'publishRate', fromBroker: pickPublishRate },
+  compactionThreshold: { path: 'compactionThreshold', namespacePath: 'compactionThreshold' },
+};
+
+const POLICY_KEYS = Object.keys(ENDPOINTS) as TopicPolicyKey[];
+
+const READ_CONCURRENCY = 4;
+
+const namespaceOf = (fullTopicName: string) =>
+  fullTopicName.replace(/^[a-z-]+:\/\//, '').split('/').slice(0, 2).join('/');
+
+const normalize = (endpoint: TopicPolicyEndpoint, value: unknown) =>
+  (value === undefined || !endpoint.fromBroker ? value : endpoint.fromBroker(value));
+
+/**
+ * Read every editable policy of a topic at the topic, namespace and applied levels
+ */
+export async function readTopicPolicies(admin: PulsarAdmin, fullTopicName: string): Promise<TopicPoliciesResult> {
+  const namespace = namespaceOf(fullTopicName);
+  const overrides: Record<string, unknown> = {};
+  const namespaceValues: Record<string, unknown> = {};
+  const effective: Record<string, unknown> = {};
+  const unsupported: TopicPolicyKey[] = [];
+  let disabledReason: string | undefined;
+
+  await mapWithConcurrency(POLICY_KEYS, READ_CONCURRENCY, async (key) => {
+    const endpoint = ENDPOINTS[key];
+    const readPath = endpoint.readPath || endpoint.path;
+
+    let override: unknown;
+    try {
+      override = normalize(endpoint, await admin.getTopicPolicy<unknown>(fullTopicName, readPath));
+    } catch (error) {
+      if (!isMissingEndpoint(error)) {
+        throw error;
+      }
+      unsupported.push(key);
+      // Brokers without topicLevelPoliciesEnabled answer every topic policy with 405
+      if (/disabled/i.test(errorMessage(error))) {
+        disabledReason = errorMessage(error).replace(/^HTTP \d+:\s*/, '');
+      }
+    }
+
+    let namespaceValue: unknown;
+    try {
+      namespaceValue = normalize(endpoint, await admin.getNamespacePolicy<unknown>(namespace, endpoint.namespacePath));
+    } catch (error) {
+      if (!isMissingEndpoint(error)) {
+        throw error;
+      }
+    }
+
+    // Only brokers that resolve "applied" values know the broker default; older ones leave it unknown
+    let applied: unknown;
+    if (!unsupported.includes(key)) {
+      applied = await admin.getTopicPolicy<unknown>(fullTopicName, readPath, true)
+        .then(value => normalize(endpoint, value))
+        .catch(() => undefined);
+    }
+
+    if (override !== undefined) overrides[key] = override;
+    if (namespaceValue !== undefined) namespaceValues[key] = namespaceValue;
+    const value = override ?? namespaceValue ?? applied;
+    if (value !== undefined) effective[key] = value;
+  });
+
+  // Every endpoint missing means the topic was not found, unless topic policies are turned off
+  if (unsupported.length === POLICY_KEYS.length && !disabledReason) {
+    throw new Error(`Topic ${fullTopicName} not found or it does not support topic-level policies`);
+  }
+
+  return {
+    overrides: overrides as TopicPolicies,
+    namespace: namespaceValues as TopicPolicies,
+    effective: effective as TopicPolicies,
+    unsupported: POLICY_KEYS.filter(key => unsupported.includes(key)),
+    ...(disabledReason ? { disabledReason } : {}),
+  };
+}
+
+/**
+ * Set a topic override, or remove it when the value is null
+ */
+export async function updateTopicPolicy(
+  admin: PulsarAdmin,
+  fullTopicName: string,
+  key: TopicPolicyKey,
+  value: TopicPolicies[TopicPolicyKey] | null
+): Promise<void> {
+  const endpoint = ENDPOINTS[key];
+  if (value === null) {
+    await admin.removeTopicPolicy(fullTopicName, endpoint.path);
+  } else if (endpoint.setPath) {
+    await admin.setTopicPolicy(fullTopicName, endpoint.setPath(value));
+  } else {
+    await admin.setTopicPolicy(fullTopicName, endpoint.path, value);
+  }
+}
@@ -1,8 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { SplitLayout } from './components/SplitLayout';
-import { ExplorerTree } from './components/ExplorerTree';
+import { ClusterExplorer } from './components/ClusterExplorer';
+import type { StructureChange } from './components/ExplorerTree';
+import { ClusterDiff } from './components/ClusterDiff';
+import { PolicyAsCode } from './components/PolicyAsCode';
 import { DetailsPanel } from './components/DetailsPanel';
-import type { ClusterConfig, ConnectedCluster, AuthConfig, SavedProfile } from './shared/types';
+import { AlertCenter } from './components/AlertCenter';
+import { OAuthLoginPrompt } from './components/OAuthLoginPrompt';
+import { OAuthSessionIndicator } from './components/OAuthSessionIndicator';
+import { IdentityPanel } from './components/IdentityPanel';
+import { ConnectionHealthIndicator } from './components/ConnectionHealthIndicator';
+import { EnvironmentBadge, ENVIRONMENT_LABELS } from './components/EnvironmentBadge';
+import { STORED_SECRET, type ClusterConfig, type ConnectedCluster, type AuthConfig, type SavedProfile, type SecretStorageStatus, type CredentialFileKind, type OAuthFlow, type ClusterEnvironment } from './shared/types';
 import './App.css';
 
 interface TreeNode {
@@ -13,9 +22,10 @@ interface TreeNode {
   children?: TreeNode[];
   loading?: boolean;
   fullPath?: string;
+  partitioned?: boolean;
 }
 
-type AuthType = 'token' | 'oauth';
+type AuthType = 'token' | 'oauth' | 'tls';
 
 interface AppState {
   screen: 'splash' | 'profile-selection' | 'form' | 'connected';
@@ -24,10 +34,14 @@ interface AppState {
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>({ screen: 'splash' });
-  const [connectedCluster, setConnectedCluster] = useState<ConnectedCluster | null>(null);
+  const [connectedClusters, setConnectedClusters] = useState<ConnectedCluster[]>([]);
+  // Cluster the header tools act on: the one last selected in the explorer
+  const [activeClusterId, setActiveClusterId] = useState<string | null>(null);
   const [connecting, setConnecting] = useState(false);
   const [connectionError, setConnectionError] = useState<string | null>(null);
-  const [selectedNode, setSelectedNode] = useState<TreeNode | null>(null);
+  const [selection, setSelection] = useState<{ clusterId: string; node: TreeNode } | null>(null);
+  const [toolPanel, setToolPanel] = useState<'diff' | 'policy' | null>(null);
+  const [structureChange, setStructureChange] = useState<StructureChange | null>(null);
   const [apiReady, setApiReady] = useState(false);
   const [savedProfiles, setSavedProfiles] = useState<SavedProfile[]>([]);
 
@@ -35,17 +49,35 @@ const App: React.FC = () => {
   const [clusterName, setClusterName] = useState('Local Pulsar');
   const [adminUrl, setAdminUrl] = useState('http://localhost:8080');
   const [serviceUrl, setServiceUrl] = useState('pulsar://localhost:6650');
+  const [environment, setEnvironment] = useState<ClusterEnvironment | ''>('');
   const [authType, setAuthType] = useState<AuthType>('token');
   
   // Token auth fields
   const [authToken, setAuthToken] = useState('');
   
   // OAuth auth fields
+  const [oauthFlow, setOAuthFlow] = useState<OAuthFlow>('client_credentials');
   const [oauthClientId, setOAuthClientId] = useState('');
   const [oauthClientSecret, setOAuthClientSecret] = useState('');
   const [oauthIssuerUrl, setOAuthIssuerUrl] = useState('');
   const [oauthAudience, setOAuthAudience] = useState('');
   const [oauthScopes, setOAuthScopes] = useState('');
+  const [oauthKeyFile, setOAuthKeyFile] = useState('');
+
+  // TLS client-certificate auth fields
+  const [tlsCertFile, setTlsCertFile] = useState('');
+  const [tlsKeyFile, setTlsKeyFile] = useState('');
+  const [tlsCaFile, setTlsCaFile] = useState('');
+  const [tlsValidateHostname, setTlsValidateHostname] = useState(true);
+  const [tlsAllowInsecure, setTlsAllowInsecure] = useState(false);
+
+  // Saved profile whose stored secrets back any secret field left blank
+  const [secretsProfileId, setSecretsProfileId] = useState<string | null>(null);
+  const [secretsRevealed, setSecretsRevealed] = useState(false);
+  const [secretsUnreadable, setSecretsUnreadable] = useState(false);
+  const [secretStorageStatus, setSecretStorageStatus] = useState<SecretStorageStatus | null>(null);
+  // Interactive OAuth login running as part of the current connect
+  const [loginFlow, setLoginFlow] = useState<OAuthFlow | null>(null);
 
   const hasAPI = typeof window !== 'undefined' && (window as any).lightcurve?.cluster;
 
@@ -85,6 +117,11 @@ const App: React.FC = () => {
   }, [hasAPI]);
 
   const loadProfiles = async () => {
+    window.lightcurve.profiles.getSecretStorageStatus().then(response => {
+      if (response.success && response.data) {
+        setSecretStorageStatus(response.data);
+      }
+    });
     try {
       const response = await (window as any).lightcurve?.profiles?.listProfiles?.();
       if (response?.success && response.data) {
@@ -107,17 +144,56 @@ const App: React.FC = () => {
     setClusterName(profile.name);
     setAdminUrl(profile.adminUrl);
     setServiceUrl(profile.serviceUrl);
+    setEnvironment(profile.environment || '');
+    setSecretsProfileId(profile.secretsRedacted ? profile.profileId : null);
+    setSecretsRevealed(false);
+    setSecretsUnreadable(Boolean(profile.secretsUnreadable));
 
     if (profile.auth?.type === 'token') {
       setAuthType('token');
       setAuthToken(profile.auth.token);
     } else if (profile.auth?.type === 'oauth') {
       setAuthType('oauth');
+      setOAuthFlow(profile.auth.oauth.type);
       setOAuthClientId(profile.auth.oauth.clientId);
       setOAuthClientSecret(profile.auth.oauth.clientSecret);
       setOAuthIssuerUrl(profile.auth.oauth.issuerUrl);
       setOAuthAudience(profile.auth.oauth.audience);
       setOAuthScopes(profile.auth.oauth.scopes?.join(' ') || '');
+      setOAuthKeyFile(profile.auth.oauth.privateKeyFile || '');
+    } else if (profile.auth?.type === 'tls') {
+      setAuthType('tls');
+      setTlsCertFile(profile.auth.tls.certFilePath);
+      setTlsKeyFile(profile.auth.tls.keyFilePath);
+      setTlsCaFile(profile.auth.tls.caFilePath || '');
+      setTlsValidateHostname(profile.auth.tls.validateHostname ?? true);
+      setTlsAllowInsecure(profile.auth.tls.allowInsecureConnection ?? false);
+    }
+  };
+
+  // A key file carries the client ID, secret and usually the issuer; user logins need no secret
+  const hasOAuthCredentials = () => {
+    if (oauthFlow !== 'client_credentials') {
+      return Boolean(oauthClientId && oauthIssuerUrl);
+    }
+    return oauthKeyFile
+      ? Boolean(oauthAudience)
+      : Boolean(oauthClientId && oauthClientSecret && oauthIssuerUrl && oauthAudience);
+  };
+
+  const buildTlsConfig = () => ({
+    certFilePath: tlsCertFile,
+    keyFilePath: tlsKeyFile,
+    caFilePath: tlsCaFile || undefined,
+    validateHostname: tlsValidateHostname,
+    allowInsecureConnection: tlsAllowInsecure,
+  });
+
+  const handleChooseCredentialFile = async (kind: CredentialFileKind) => {
+    const response = await window.lightcurve.profiles.chooseCredentialFile(kind);
+    if (response.success && response.data) {
+      const setters = { cert: setTlsCertFile, key: setTlsKeyFile, ca: setTlsCaFile, oauthKey: setOAuthKeyFile };
+      setters[kind](response.data);
     }
   };
 
@@ -126,7 +202,28 @@ const App: React.FC = () => {
     setAppState({ screen: 'form' });
   };
 
+  const addConnectedCluster = (cluster: ConnectedCluster) => {
+    setConnectedClusters(prev => [...prev, cluster]);
+    setActiveClusterId(cluster.clusterId);
+    setAppState({ screen: 'connected' });
+  };
+
+  // A profile is only connected once; connecting it again switches to the open connection
+  const switchToConnectedProfile = (profileId: string | null | undefined) => {
+    const existing = profileId ? connectedClusters.find(cluster => cluster.profileId === profileId) : undefined;
+    if (!existing) {
+      return false;
+    }
+    setActiveClusterId(existing.clusterId);
+    setConnectionError(null);
+    setAppState({ screen: 'connected' });
+    return true;
+  };
+
   const handleConnectProfile = async (profile: SavedProfile) => {
+    if (switchToConnectedProfile(profile.profileId)) {
+      return;
+    }
     setConnecting(true);
     setConnectionError(null);
 
@@ -136,13 +233,17 @@ const App: React.FC = () => {
       adminUrl: profile.adminUrl,
       serviceUrl: profile.serviceUrl,
       auth: profile.auth,
+      profileId: profile.profileId,
+      environment: profile.environment,
     };
+    if (profile.auth?.type === 'oauth' && profile.auth.oauth.type !== 'client_credentials') {
+      setLoginFlow(profile.auth.oauth.type);
+    }
 
     try {
       const response = await window.lightcurve.cluster.connect(config);
       if (response.success && response.data) {
-        setConnectedCluster(response.data);
-        setAppState({ screen: 'connected' });
+        addConnectedCluster(response.data);
       } else {
         setConnectionError(response.error || 'Failed to connect');
         setAppState({ screen: 'profile-selection', savedProfiles });
@@ -152,6 +253,7 @@ const App: React.FC = () => {
       setAppState({ screen: 'profile-selection', savedProfiles });
     } finally {
       setConnecting(false);
+      setLoginFlow(null);
     }
   };
 
@@ -159,20 +261,23 @@ const App: React.FC = () => {
     if (!hasAPI) return;
 
     const auth: AuthConfig | undefined = 
-      authType === 'token' && authToken.trim() 
+      authType === 'token' && authToken.trim()
         ? { type: 'token', token: authToken }
-        : authType === 'oauth' && oauthClientId && oauthClientSecret && oauthIssuerUrl && oauthAudience
+        : authType === 'oauth' && hasOAuthCredentials()
         ? {
             type: 'oauth',
             oauth: {
-              type: 'client_credentials',
+              type: oauthFlow,
               clientId: oauthClientId,
               clientSecret: oauthClientSecret,
               issuerUrl: oauthIssuerUrl,
               audience: oauthAudience,
               scopes: oauthScopes.trim() ? oauthScopes.trim().split(/\s+/) : undefined,
+              privateKeyFile: oauthFlow === 'client_credentials' && oauthKeyFile ? oauthKeyFile : undefined,
             },
           }
+        : authType === 'tls' && tlsCertFile && tlsKeyFile
+        ? { type: 'tls', tls: buildTlsConfig() }
         : undefined;
 
     try {
@@ -181,7 +286,8 @@ const App: React.FC = () => {
         adminUrl,
         serviceUrl,
         auth,
-      });
+        environment: environment || undefined,
+      }, secretsProfileId || undefined);
 
       if (response?.success) {
         await loadProfiles();
@@ -211,11 +317,35 @@ const App: React.FC = () => {
     }
   };
 
+  // Fetch the stored secrets only when the user asks to see them
+  const handleToggleSecrets = async () => {
+    if (secretsRevealed) {
+      setSecretsRevealed(false);
+      return;
+    }
+    if (secretsProfileId && (authToken === STORED_SECRET || oauthClientSecret === STORED_SECRET)) {
+      const response = await window.lightcurve.profiles.revealSecrets(secretsProfileId);
+      if (!response.success) {
+        setConnectionError(response.error || 'Failed to reveal saved credentials');
+        return;
+      }
+      if (response.data?.type === 'token' && authToken === STORED_SECRET) {
+        setAuthToken(response.data.token);
+      } else if (response.data?.type === 'oauth' && oauthClientSecret === STORED_SECRET) {
+        setOAuthClientSecret(response.data.oauth.clientSecret);
+      }
+    }
+    setSecretsRevealed(true);
+  };
+
   const handleConnect = async () => {
     if (!hasAPI) {
       setConnectionError('Desktop API unavailable. Please run the Electron app (npm run dev) instead of opening the Vite URL directly.');
       return;
     }
+    if (switchToConnectedProfile(secretsProfileId)) {
+      return;
+    }
     setConnecting(true);
     setConnectionError(null);
 
@@ -224,6 +354,8 @@ const App: React.FC = () => {
       name: clusterName,
       adminUrl,
       serviceUrl,
+      profileId: secretsProfileId || undefined,
+      environment: environment || undefined,
     };
 
     // Build auth config based on selected auth type
@@ -232,25 +364,34 @@ const App: React.FC = () => {
         type: 'token',
         token: authToken,
       };
-    } else if (authType === 'oauth' && oauthClientId && oauthClientSecret && oauthIssuerUrl && oauthAudience) {
+    } else if (authType === 'oauth' && hasOAuthCredentials()) {
       config.auth = {
         type: 'oauth',
         oauth: {
-          type: 'client_credentials',
+          type: oauthFlow,
           clientId: oauthClientId,
           clientSecret: oauthClientSecret,
           issuerUrl: oauthIssuerUrl,
           audience: oauthAudience,
           scopes: oauthScopes.trim() ? oauthScopes.trim().split(/\s+/) : undefined,
+          privateKeyFile: oauthFlow === 'client_credentials' && oauthKeyFile ? oauthKeyFile : undefined,
         },
       };
+    } else if (authType === 'tls' && tlsCertFile && tlsKeyFile) {
+      config.auth = {
+        type: 'tls',
+        tls: buildTlsConfig(),
+      };
+    }
+
+    if (config.auth?.type === 'oauth' && config.auth.oauth.type !== 'client_credentials') {
+      setLoginFlow(config.auth.oauth.type);
     }
 
     try {
       const response = await window.lightcurve.cluster.connect(config);
       if (response.success && response.data) {
-        setConnectedCluster(response.data);
-        setAppState({ screen: 'connected' });
+        addConnectedCluster(response.data);
       } else {
         setConnectionError(response.error || 'Failed to connect');
       }
@@ -258,23 +399,45 @@ const App: React.FC = () => {
       setConnectionError(err instanceof Error ? err.message : 'Connection failed');
     } finally {
       setConnecting(false);
+      setLoginFlow(null);
     }
   };
 
-  const handleDisconnect = async () => {
-    if (!connectedCluster) return;
+  const handleDisconnect = async (clusterId: string) => {
     if (!hasAPI) return;
 
     try {
-      await window.lightcurve.cluster.disconnect(connectedCluster.clusterId);
-      setConnectedCluster(null);
-      setSelectedNode(null);
-      setAppState(savedProfiles.length > 0 ? { screen: 'profile-selection', savedProfiles } : { screen: 'form' });
+      await window.lightcurve.cluster.disconnect(clusterId);
+      const remaining = connectedClusters.filter(cluster => cluster.clusterId !== clusterId);
+      setConnectedClusters(remaining);
+      if (selection?.clusterId === clusterId) {
+        setSelection(null);
+      }
+      if (activeClusterId === clusterId) {
+        setActiveClusterId(remaining[0]?.clusterId ?? null);
+      }
+      if (remaining.length === 0) {
+        setAppState(savedProfiles.length > 0 ? { screen: 'profile-selection', savedProfiles } : { screen: 'form' });
+      }
     } catch (err) {
       console.error('Error disconnecting:', err);
     }
   };
 
+  const handleStructureChange = (change: StructureChange) => {
+    setStructureChange(change);
+
+    // Drop the selection when it, or the tenant or namespace holding it, was deleted
+    if (change.removed && selection?.clusterId === change.clusterId) {
+      const { node } = selection;
+      const removedPath = change.nodeId.slice(change.nodeId.indexOf(':') + 1);
+      const selectedPath = node.fullPath ? node.fullPath.split('://')[1] : node.id.slice(node.id.indexOf(':') + 1);
+      if (selectedPath === removedPath || selectedPath.startsWith(`${removedPath}/`)) {
+        setSelection(null);
+      }
+    }
+  };
+
   // Show splash screen if not ready
   if (!apiReady) {
     return (
@@ -306,6 +469,17 @@ const App: React.FC = () => {
 
           <div className="connection-form">
             <h2>Select Connection</h2>
+
+            {connectionError && (
+              <div className="connection-error">
+                {connectionError}
+              </div>
+            )}
+
+            {loginFlow && (
+              <OAuthLoginPrompt flow={loginFlow} onCancel={() => window.lightcurve.oauth.cancelLogin()} />
+            )}
+
             <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
               {savedProfiles.map((profile) => (
                 <div
@@ -327,7 +501,10 @@ const App: React.FC = () => {
                   }}
                 >
                   <div style={{ flex: 1 }} onClick={() => handleConnectProfile(profile)}>
-                    <div style={{ fontWeight: 500, color: '#f1f5f9' }}>{profile.name}</div>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontWeight: 500, color: '#f1f5f9' }}>
+                      {profile.environment && <EnvironmentBadge environment={profile.environment} />}
+                      {profile.name}
+                    </div>
                     <div style={{ fontSize: '12px', color: '#94a3b8', marginTop: '0.25rem' }}>
                       {profile.adminUrl}
                     </div>
@@ -370,20 +547,40 @@ const App: React.FC = () => {
               ))}
             </div>
 
+            {secretStorageStatus && !secretStorageStatus.encrypted && (
+              <div className="connection-warning">{secretStorageStatus.message}</div>
+            )}
+
             <button
               className="connect-button"
-              onClick={() => setAppState({ screen: 'form' })}
+              onClick={() => {
+                setSecretsProfileId(null);
+                setSecretsUnreadable(false);
+                setAuthToken('');
+                setOAuthClientSecret('');
+                setAppState({ screen: 'form' });
+              }}
               style={{ marginTop: '1.5rem' }}
             >
               New Connection
             </button>
+
+            {connectedClusters.length > 0 && (
+              <button
+                className="connect-button"
+                onClick={() => setAppState({ screen: 'connected' })}
+                style={{ marginTop: '0.75rem', opacity: 0.6 }}
+              >
+                Back to Explorer
+              </button>
+            )}
           </div>
         </div>
       </div>
     );
   }
 
-  if (!connectedCluster) {
+  if (appState.screen !== 'connected' || connectedClusters.length === 0) {
     if (!hasAPI) {
       return (
         <div className="app">
@@ -422,6 +619,14 @@ const App: React.FC = () => {
               </div>
             )}
 
+            {secretStorageStatus && !secretStorageStatus.encrypted && (
+              <div className="connection-warning">{secretStorageStatus.message}</div>
+            )}
+
+            {loginFlow && (
+              <OAuthLoginPrompt flow={loginFlow} onCancel={() => window.lightcurve.oauth.cancelLogin()} />
+            )}
+
             <div className="form-group">
               <label>Cluster Name</label>
               <input
@@ -433,6 +638,20 @@ const App: React.FC = () => {
               />
             </div>
 
+            <div className="form-group">
+              <label>Environment</label>
+              <select
+                value={environment}
+                onChange={(e) => setEnvironment(e.target.value as ClusterEnvironment | '')}
+                disabled={connecting}
+              >
+                <option value="">Not set</option>
+                {(Object.keys(ENVIRONMENT_LABELS) as ClusterEnvironment[]).map(env => (
+                  <option key={env} value={env}>{ENVIRONMENT_LABELS[env]}</option>
+                ))}
+              </select>
+            </div>
+
             <div className="form-group">
               <label>Admin URL</label>
               <input
@@ -464,24 +683,76 @@ const App: React.FC = () => {
               >
                 <option value="token">Bearer Token (Optional)</option>
                 <option value="oauth">OAuth 2.0 Client Credentials</option>
+                <option value="tls">TLS Client Certificate (mTLS)</option>
               </select>
             </div>
 
             {authType === 'token' && (
               <div className="form-group">
-                <label>Auth Token (optional)</label>
+                <label>
+                  Auth Token (optional)
+                  {authToken && !secretsUnreadable && (
+                    <button className="secret-reveal" onClick={handleToggleSecrets} type="button">
+                      {secretsRevealed ? 'Hide' : 'Reveal'}
+                    </button>
+                  )}
+                  {authToken === STORED_SECRET && (
+                    <button className="secret-reveal" onClick={() => setAuthToken('')} type="button">
+                      Clear
+                    </button>
+                  )}
+                </label>
                 <input
-                  type="password"
-                  value={authToken}
+                  type={secretsRevealed ? 'text' : 'password'}
+                  value={authToken === STORED_SECRET ? '' : authToken}
                   onChange={(e) => setAuthToken(e.target.value)}
-                  placeholder="Enter authentication token"
+                  placeholder={authToken === STORED_SECRET ? 'Saved token - leave blank to keep it' : 'Enter authentication token'}
                   disabled={connecting}
                 />
+                {authToken === STORED_SECRET && secretsUnreadable && (
+                  <div className="connection-warning">The saved token could not be decrypted - enter it again</div>
+                )}
               </div>
             )}
 
             {authType === 'oauth' && (
               <>
+                <div className="form-group">
+                  <label>Sign-in Method</label>
+                  <select
+                    value={oauthFlow}
+                    onChange={(e) => setOAuthFlow(e.target.value as OAuthFlow)}
+                    disabled={connecting}
+                  >
+                    <option value="client_credentials">Service account (client credentials)</option>
+                    <option value="authorization_code">My account, in the browser (authorization code + PKCE)</option>
+                    <option value="device_code">My account, with a device code</option>
+                  </select>
+                </div>
+
+                {oauthFlow === 'client_credentials' && (
+                  <div className="form-group">
+                    <label>Credentials Key File (optional)</label>
+                    <div className="file-input-row">
+                      <input
+                        type="text"
+                        value={oauthKeyFile}
+                        onChange={(e) => setOAuthKeyFile(e.target.value)}
+                        placeholder="Use a credentials JSON instead of a client ID and secret"
+                        disabled={connecting}
+                      />
+                      <button
+                        className="file-browse-button"
+                        onClick={() => handleChooseCredentialFile('oauthKey')}
+                        disabled={connecting}
+                        type="button"
+                      >
+                        Browse...
+                      </button>
+                    </div>
+                  </div>
+                )}
+
                 <div className="form-group">
                   <label>Client ID</label>
                   <input
@@ -494,14 +765,29 @@ const App: React.FC = () => {
                 </div>
 
                 <div className="form-group">
-                  <label>Client Secret</label>
+                  <label>
+                    Client Secret{oauthFlow !== 'client_credentials' && ' (optional for public clients)'}
+                    {oauthClientSecret && !secretsUnreadable && (
+                      <button className="secret-reveal" onClick={handleToggleSecrets} type="button">
+                        {secretsRevealed ? 'Hide' : 'Reveal'}
+                      </button>
+                    )}
+                    {oauthClientSecret === STORED_SECRET && (
+                      <button className="secret-reveal" onClick={() => setOAuthClientSecret('')} type="button">
+                        Clear
+                      </button>
+                    )}
+                  </label>
                   <input
-                    type="password"
-                    value={oauthClientSecret}
+                    type={secretsRevealed ? 'text' : 'password'}
+                    value={oauthClientSecret === STORED_SECRET ? '' : oauthClientSecret}
                     onChange={(e) => setOAuthClientSecret(e.target.value)}
-                    placeholder="Your OAuth client secret"
+                    placeholder={oauthClientSecret === STORED_SECRET ? 'Saved secret - leave blank to keep it' : 'Your OAuth client secret'}
                     disabled={connecting}
                   />
+                  {oauthClientSecret === STORED_SECRET && secretsUnreadable && (
+                    <div className="connection-warning">The saved secret could not be decrypted - enter it again</div>
+                  )}
                 </div>
 
                 <div className="form-group">
@@ -539,6 +825,93 @@ const App: React.FC = () => {
               </>
             )}
 
+            {authType === 'tls' && (
+              <>
+                <div className="form-group">
+                  <label>Client Certificate</label>
+                  <div className="file-input-row">
+                    <input
+                      type="text"
+                      value={tlsCertFile}
+                      onChange={(e) => setTlsCertFile(e.target.value)}
+                      placeholder="/path/to/client-cert.pem"
+                      disabled={connecting}
+                    />
+                    <button
+                      className="file-browse-button"
+                      onClick={() => handleChooseCredentialFile('cert')}
+                      disabled={connecting}
+                      type="button"
+                    >
+                      Browse...
+                    </button>
+                  </div>
+                </div>
+
+                <div className="form-group">
+                  <label>Client Private Key</label>
+                  <div className="file-input-row">
+                    <input
+                      type="text"
+                      value={tlsKeyFile}
+                      onChange={(e) => setTlsKeyFile(e.target.value)}
+                      placeholder="/path/to/client-key.pem"
+                      disabled={connecting}
+                    />
+                    <button
+                      className="file-browse-button"
+                      onClick={() => handleChooseCredentialFile('key')}
+                      disabled={connecting}
+                      type="button"
+                    >
+                      Browse...
+                    </button>
+                  </div>
+                </div>
+
+                <div className="form-group">
+                  <label>CA Certificate (optional)</label>
+                  <div className="file-input-row">
+                    <input
+                      type="text"
+                      value={tlsCaFile}
+                      onChange={(e) => setTlsCaFile(e.target.value)}
+                      placeholder="System trust store"
+                      disabled={connecting}
+                    />
+                    <button
+                      className="file-browse-button"
+                      onClick={() => handleChooseCredentialFile('ca')}
+                      disabled={connecting}
+                      type="button"
+                    >
+                      Browse...
+                    </button>
+                  </div>
+                </div>
+
+                <label className="form-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={tlsValidateHostname}
+                    onChange={(e) => setTlsValidateHostname(e.target.checked)}
+                    disabled={connecting}
+                  />
+                  Verify the server hostname matches its certificate
+                </label>
+
+                <label className="form-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={tlsAllowInsecure}
+                    onChange={(e) => setTlsAllowInsecure(e.target.checked)}
+                    disabled={connecting}
+                  />
+                  Allow untrusted server certificates (insecure)
+                </label>
+              </>
+            )}
+
             <div style={{ display: 'flex', gap: '0.75rem' }}>
               <button
                 className="connect-button"
@@ -568,12 +941,32 @@ const App: React.FC = () => {
                 Back to Profiles
               </button>
             )}
+
+            {connectedClusters.length > 0 && (
+              <button
+                className="connect-button"
+                onClick={() => setAppState({ screen: 'connected' })}
+                style={{ marginTop: '0.75rem', opacity: 0.6 }}
+              >
+                Back to Explorer
+              </button>
+            )}
           </div>
         </div>
       </div>
     );
   }
 
+  const activeCluster = connectedClusters.find(cluster => cluster.clusterId === activeClusterId) || connectedClusters[0];
+  const selectedNode = selection?.node ?? null;
+
+  // Namespace of the explorer selection, in tenant/namespace form
+  const selectedNamespace = selection?.clusterId !== activeCluster.clusterId
+    ? undefined
+    : selectedNode?.type === 'namespace'
+    ? selectedNode.id.slice('namespace:'.length)
+    : selectedNode?.fullPath?.split('://')[1]?.split('/').slice(0, 2).join('/');
+
   // Show explorer when connected
   return (
     <div className="app">
@@ -582,28 +975,75 @@ const App: React.FC = () => {
           <div className="app-icon">✦</div>
           <div>
             <h1>LightCurve</h1>
-            <p className="connected-cluster">{connectedCluster.name || connectedCluster.clusterId}</p>
+            <p className="connected-cluster">
+              <EnvironmentBadge environment={activeCluster.environment} />
+              {' '}{activeCluster.name || activeCluster.clusterId}
+              {connectedClusters.length > 1 && ` · ${connectedClusters.length} clusters connected`}
+            </p>
           </div>
         </div>
-        <button className="disconnect-button" onClick={handleDisconnect}>
-          Disconnect
-        </button>
+        <div className="app-header-actions">
+          <ConnectionHealthIndicator
+            key={`health-${activeCluster.clusterId}`}
+            clusterId={activeCluster.clusterId}
+            initialHealth={activeCluster.health}
+          />
+          <OAuthSessionIndicator key={`oauth-${activeCluster.clusterId}`} clusterId={activeCluster.clusterId} />
+          <IdentityPanel
+            key={`identity-${activeCluster.clusterId}`}
+            clusterId={activeCluster.clusterId}
+            namespace={selectedNamespace}
+            topic={selectedNamespace && selectedNode?.type === 'topic' ? selectedNode.fullPath : undefined}
+          />
+          <AlertCenter />
+          <button className="disconnect-button" onClick={() => handleDisconnect(activeCluster.clusterId)}>
+            Disconnect
+          </button>
+        </div>
       </div>
 
       <div className="app-content">
         <SplitLayout
           left={
-            <ExplorerTree
-              clusterId={connectedCluster.clusterId}
-              onSelectNode={setSelectedNode}
-              selectedNodeId={selectedNode?.id || null}
+            <ClusterExplorer
+              clusters={connectedClusters}
+              activeClusterId={activeCluster.clusterId}
+              selection={selection}
+              onSelectNode={(clusterId, node) => {
+                setSelection({ clusterId, node });
+                setActiveClusterId(clusterId);
+                setToolPanel(null);
+              }}
+              onActivate={setActiveClusterId}
+              onDisconnect={handleDisconnect}
+              onAddConnection={() => {
+                setConnectionError(null);
+                setAppState(savedProfiles.length > 0 ? { screen: 'profile-selection', savedProfiles } : { screen: 'form' });
+              }}
+              onCompare={() => setToolPanel('diff')}
+              onConfigure={() => setToolPanel('policy')}
+              structureChange={structureChange}
+              onStructureChange={handleStructureChange}
             />
           }
           right={
-            <DetailsPanel
-              clusterId={connectedCluster.clusterId}
-              node={selectedNode}
-            />
+            toolPanel === 'diff' && connectedClusters.length > 1 ? (
+              <ClusterDiff clusters={connectedClusters} onClose={() => setToolPanel(null)} />
+            ) : toolPanel === 'policy' ? (
+              <PolicyAsCode
+                clusters={connectedClusters}
+                initialClusterId={selection?.clusterId ?? activeCluster.clusterId}
+                initialScope={selectedNode?.type === 'tenant' ? selectedNode.label : selectedNamespace}
+                onClose={() => setToolPanel(null)}
+              />
+            ) : (
+              <DetailsPanel
+                key={selection?.clusterId ?? activeCluster.clusterId}
+                clusterId={selection?.clusterId ?? activeCluster.clusterId}
+                node={selectedNode}
+                onStructureChange={handleStructureChange}
+              />
+            )
           }
           leftWidth="350px"
         />
@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import type { AlertEvent } from '../shared/types';
+import './AlertCenter.css';
+
+// Matches the number of events the main process keeps
+const MAX_RECENT = 200;
+
+/**
+ * Header bell listing firing alerts and recent alert activity
+ */
+export const AlertCenter: React.FC = () => {
+  const [firing, setFiring] = useState<AlertEvent[]>([]);
+  const [recent, setRecent] = useState<AlertEvent[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    loadStatus();
+    const unsubscribe = window.lightcurve.alerts.onAlert((event) => {
+      setRecent(prev => [event, ...prev].slice(0, MAX_RECENT));
+      setFiring(prev => {
+        const others = prev.filter(e => e.ruleId !== event.ruleId);
+        return event.state === 'firing' ? [event, ...others] : others;
+      });
+    });
+    return unsubscribe;
+  }, []);
+
+  const loadStatus = async () => {
+    const response = await window.lightcurve.alerts.getStatus();
+    if (response.success && response.data) {
+      setFiring(response.data.firing);
+      setRecent(response.data.recent);
+    }
+  };
+
+  const clearRecent = async () => {
+    await window.lightcurve.alerts.clearRecent();
+    setRecent([]);
+  };
+
+  return (
+    <div className="alert-center">
+      <button
+        className={`alert-bell ${firing.length > 0 ? 'firing' : ''}`}
+        onClick={() => {
+          if (!open) loadStatus();
+          setOpen(!open);
+        }}
+        title={firing.length > 0 ? `${firing.length} alerts firing` : 'Alerts'}
+      >
+        🔔
+        {firing.length > 0 && <span className="alert-badge">{firing.length}</span>}
+      </button>
+
+      {open && (
+        <div className="alert-panel">
+          <div className="alert-panel-section">
+            <div className="alert-panel-title">Firing ({firing.length})</div>
+            {firing.length === 0 ? (
+              <div className="alert-panel-empty">No alerts firing</div>
+            ) : (
+              firing.map(event => (
+                <div key={event.eventId} className="alert-item firing">
+                  <div className="alert-item-name">{event.ruleName}</div>
+                  <div className="alert-item-message">{event.message}</div>
+                  <div className="alert-item-time">since {new Date(event.timestamp).toLocaleString()}</div>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="alert-panel-section">
+            <div className="alert-panel-title">
+              Recent
+              {recent.length > 0 && (
+                <button className="alert-panel-clear" onClick={clearRecent}>Clear</button>
+              )}
+            </div>
+            {recent.length === 0 ? (
+              <div className="alert-panel-empty">No alert activity yet</div>
+            ) : (
+              recent.map(event => (
+                <div key={event.eventId} className={`alert-item ${event.state}`}>
+                  <div className="alert-item-name">
+                    {event.state === 'firing' ? '⚠' : '✓'} {event.ruleName}
+                  </div>
+                  <div className="alert-item-message">{event.message}</div>
+                  <div className="alert-item-time">{new Date(event.timestamp).toLocaleString()}</div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,325 @@
+import React, { useState, useEffect } from 'react';
+import type { AlertComparator, AlertCondition, AlertMetric, AlertRule, AlertRuleInput } from '../shared/types';
+import { ModalDialog } from './ModalDialog';
+import './AlertRules.css';
+
+interface AlertRulesProps {
+  clusterId: string;
+  topicName: string;
+  subscriptions: string[];
+}
+
+const METRICS: Array<{ id: AlertMetric; label: string }> = [
+  { id: 'backlog', label: 'Backlog (msgs)' },
+  { id: 'msgRateIn', label: 'Rate in (msg/s)' },
+  { id: 'msgRateOut', label: 'Rate out (msg/s)' },
+  { id: 'publishers', label: 'Publishers' },
+  { id: 'consumers', label: 'Consumers' },
+  { id: 'storageSize', label: 'Storage size (bytes)' },
+];
+
+const COMPARATORS: AlertComparator[] = ['>', '>=', '<', '<=', '==', '!='];
+
+// Starting points for the rules people ask for most
+const TEMPLATES: Array<{ label: string; name: string; conditions: AlertCondition[]; forSeconds: number }> = [
+  {
+    label: 'Backlog above 10k for 5 minutes',
+    name: 'Backlog high',
+    conditions: [{ metric: 'backlog', comparator: '>', threshold: 10000 }],
+    forSeconds: 300,
+  },
+  {
+    label: 'Nothing consumed while backlog waits',
+    name: 'Consumption stalled',
+    conditions: [
+      { metric: 'msgRateOut', comparator: '==', threshold: 0 },
+      { metric: 'backlog', comparator: '>', threshold: 0 },
+    ],
+    forSeconds: 120,
+  },
+  {
+    label: 'No publishers connected',
+    name: 'No publishers',
+    conditions: [{ metric: 'publishers', comparator: '==', threshold: 0 }],
+    forSeconds: 60,
+  },
+];
+
+const describeRule = (rule: AlertRule): string => {
+  const conditions = rule.conditions
+    .map(c => `${c.metric} ${c.comparator} ${c.threshold.toLocaleString()}`)
+    .join(' and ');
+  return rule.forSeconds > 0 ? `${conditions} for ${rule.forSeconds}s` : conditions;
+};
+
+const emptyRule = (topicName: string): AlertRuleInput => ({
+  name: '',
+  enabled: true,
+  topic: topicName,
+  conditions: [{ metric: 'backlog', comparator: '>', threshold: 10000 }],
+  forSeconds: 300,
+  notify: true,
+});
+
+export const AlertRules: React.FC<AlertRulesProps> = ({ clusterId, topicName, subscriptions }) => {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [editing, setEditing] = useState<{ ruleId?: string; rule: AlertRuleInput } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [dialogError, setDialogError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadRules();
+  }, [clusterId, topicName]);
+
+  const loadRules = async () => {
+    const response = await window.lightcurve.alerts.listRules(clusterId, topicName);
+    if (response.success && response.data) {
+      setRules(response.data);
+    } else {
+      setError(response.error || 'Failed to load alert rules');
+    }
+  };
+
+  const openEditor = (rule?: AlertRule) => {
+    setDialogError(null);
+    setEditing(rule
+      ? {
+          ruleId: rule.ruleId,
+          rule: {
+            name: rule.name,
+            enabled: rule.enabled,
+            topic: rule.topic,
+            subscription: rule.subscription,
+            conditions: rule.conditions,
+            forSeconds: rule.forSeconds,
+            notify: rule.notify,
+          },
+        }
+      : { rule: emptyRule(topicName) });
+  };
+
+  const saveRule = async (rule: AlertRuleInput, ruleId?: string): Promise<boolean> => {
+    const response = await window.lightcurve.alerts.saveRule(clusterId, rule, ruleId);
+    if (!response.success) {
+      setError(response.error || 'Failed to save alert rule');
+      return false;
+    }
+    await loadRules();
+    return true;
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setBusy(true);
+    setDialogError(null);
+    try {
+      const response = await window.lightcurve.alerts.saveRule(clusterId, editing.rule, editing.ruleId);
+      if (response.success) {
+        setEditing(null);
+        await loadRules();
+      } else {
+        setDialogError(response.error || 'Failed to save alert rule');
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const deleteRule = async (ruleId: string) => {
+    const response = await window.lightcurve.alerts.deleteRule(ruleId);
+    if (response.success) {
+      await loadRules();
+    } else {
+      setError(response.error || 'Failed to delete alert rule');
+    }
+  };
+
+  const updateEditing = (changes: Partial<AlertRuleInput>) => {
+    setEditing(prev => (prev ? { ...prev, rule: { ...prev.rule, ...changes } } : prev));
+  };
+
+  const updateCondition = (index: number, changes: Partial<AlertCondition>) => {
+    if (!editing) return;
+    updateEditing({
+      conditions: editing.rule.conditions.map((c, i) => (i === index ? { ...c, ...changes } : c)),
+    });
+  };
+
+  return (
+    <div className="details-section">
+      <div className="subscription-table-header">
+        <h3>Alert Rules ({rules.length})</h3>
+        <button className="subscription-action" onClick={() => openEditor()}>
+          ➕ New Rule
+        </button>
+      </div>
+
+      {error && <div className="alert-rules-error">{error}</div>}
+
+      {rules.length === 0 ? (
+        <p className="details-description">
+          No alert rules. Rules are checked in the background while the cluster is connected.
+        </p>
+      ) : (
+        <div className="details-list">
+          {rules.map(rule => (
+            <div key={rule.ruleId} className={`list-item ${rule.enabled ? '' : 'alert-rule-disabled'}`}>
+              <div className="list-item-name">
+                {rule.name}
+                {rule.subscription && <span className="alert-rule-scope">{rule.subscription}</span>}
+                {!rule.enabled && <span className="alert-rule-scope">disabled</span>}
+              </div>
+              <div className="list-item-stats">{describeRule(rule)}</div>
+              <div className="subscription-actions">
+                <button className="subscription-action" onClick={() => openEditor(rule)}>
+                  ✎ Edit
+                </button>
+                <button
+                  className="subscription-action"
+                  onClick={() => {
+                    const { ruleId, adminUrl: _adminUrl, createdAt: _createdAt, ...input } = rule;
+                    saveRule({ ...input, enabled: !rule.enabled }, ruleId);
+                  }}
+                >
+                  {rule.enabled ? '⏸ Disable' : '▶ Enable'}
+                </button>
+                <button className="subscription-action danger" onClick={() => deleteRule(rule.ruleId)}>
+                  🗑 Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editing && (
+        <ModalDialog
+          title={editing.ruleId ? 'Edit Alert Rule' : 'New Alert Rule'}
+          confirmLabel="Save Rule"
+          busy={busy}
+          error={dialogError}
+          confirmDisabled={!editing.rule.name.trim() || editing.rule.conditions.length === 0}
+          onConfirm={handleSave}
+          onCancel={() => setEditing(null)}
+        >
+          {!editing.ruleId && (
+            <div>
+              <label>Template</label>
+              <select
+                value=""
+                onChange={(e) => {
+                  const template = TEMPLATES[Number(e.target.value)];
+                  if (template) {
+                    updateEditing({
+                      name: template.name,
+                      conditions: template.conditions,
+                      forSeconds: template.forSeconds,
+                    });
+                  }
+                }}
+              >
+                <option value="">Start from a template...</option>
+                {TEMPLATES.map((t, i) => (
+                  <option key={t.label} value={i}>{t.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label>Name</label>
+            <input
+              type="text"
+              value={editing.rule.name}
+              onChange={(e) => updateEditing({ name: e.target.value })}
+              placeholder="Backlog high"
+            />
+          </div>
+          <div>
+            <label>Scope</label>
+            <select
+              value={editing.rule.subscription || ''}
+              onChange={(e) => updateEditing({ subscription: e.target.value || undefined })}
+            >
+              <option value="">Whole topic</option>
+              {subscriptions.map(sub => (
+                <option key={sub} value={sub}>Subscription: {sub}</option>
+              ))}
+            </select>
+          </div>
+          <div className="alert-rule-conditions">
+            <label>When all of</label>
+            {editing.rule.conditions.map((condition, index) => (
+              <div key={index} className="alert-rule-condition">
+                <select
+                  value={condition.metric}
+                  onChange={(e) => updateCondition(index, { metric: e.target.value as AlertMetric })}
+                >
+                  {METRICS.map(m => (
+                    <option key={m.id} value={m.id}>{m.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={condition.comparator}
+                  onChange={(e) => updateCondition(index, { comparator: e.target.value as AlertComparator })}
+                >
+                  {COMPARATORS.map(c => (
+                    <option key={c} value={c}>{c}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  value={condition.threshold}
+                  onChange={(e) => updateCondition(index, { threshold: Number(e.target.value) || 0 })}
+                />
+                <button
+                  className="subscription-action danger"
+                  onClick={() => updateEditing({ conditions: editing.rule.conditions.filter((_, i) => i !== index) })}
+                  disabled={editing.rule.conditions.length === 1}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              className="subscription-action"
+              onClick={() => updateEditing({
+                conditions: [...editing.rule.conditions, { metric: 'backlog', comparator: '>', threshold: 0 }],
+              })}
+            >
+              + Add Condition
+            </button>
+          </div>
+          <div>
+            <label>Hold for (seconds)</label>
+            <input
+              type="number"
+              min={0}
+              value={editing.rule.forSeconds}
+              onChange={(e) => updateEditing({ forSeconds: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+            />
+          </div>
+          <p className="modal-hint">
+            The rule fires once every condition has held this long, and resolves when any stops holding.
+          </p>
+          <label className="modal-checkbox">
+            <input
+              type="checkbox"
+              checked={editing.rule.notify}
+              onChange={(e) => updateEditing({ notify: e.target.checked })}
+            />
+            Desktop notification
+          </label>
+          <label className="modal-checkbox">
+            <input
+              type="checkbox"
+              checked={editing.rule.enabled}
+              onChange={(e) => updateEditing({ enabled: e.target.checked })}
+            />
+            Enabled
+          </label>
+        </ModalDialog>
+      )}
+    </div>
+  );
+};
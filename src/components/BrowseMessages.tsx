@@ -1,28 +1,99 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { JsonHighlighter } from './JsonHighlighter';
+import type {
+  BrowseStartPosition,
+  BrowsedMessage as TopicMessage,
+  MessageExportResult,
+  PayloadEncoding,
+  PeekMessage,
+  PeekMessagesOptions,
+  TopicExportProgress,
+} from '../shared/types';
+import { PayloadViewer } from './PayloadViewer';
+import { MessageSearchPanel } from './MessageSearchPanel';
+import { ExportDialog, type ExportRequest } from './ExportDialog';
 import { Tooltip } from './Tooltip';
 import './BrowseMessages.css';
 
 interface BrowseMessagesProps {
   clusterId: string;
   topicName: string;
+  partitioned?: boolean; // topicName is a partitioned topic, read across all of its partitions
 }
 
 interface BrowsedMessage {
   messageId: string;
   timestamp: number;
   payload: string;
+  encoding: PayloadEncoding;
+  size: number;
+  decodedPayload?: string;
+  topicName?: string;
+  eventTimestamp?: number;
+  partitionKey?: string;
   properties: Record<string, string>;
   publisherName?: string;
+  schemaType?: string;
+  schemaVersion?: number;
+  decodeError?: string;
 }
 
+const fromPeekMessage = (msg: PeekMessage): BrowsedMessage => ({
+  messageId: msg.messageId,
+  timestamp: msg.publishTimestamp,
+  payload: msg.payload,
+  encoding: msg.encoding,
+  size: msg.size,
+  decodedPayload: msg.decodedPayload,
+  topicName: msg.topicName,
+  eventTimestamp: msg.eventTimestamp,
+  partitionKey: msg.partitionKey,
+  properties: msg.properties || {},
+  schemaType: msg.schemaType,
+  schemaVersion: msg.schemaVersion,
+  decodeError: msg.decodeError,
+});
+
+// Convert back to the shared message shape for export
+const toTopicMessage = (msg: BrowsedMessage, topicName: string): TopicMessage => ({
+  messageId: msg.messageId,
+  data: msg.payload,
+  encoding: msg.encoding,
+  size: msg.size,
+  decodedData: msg.decodedPayload,
+  properties: msg.properties,
+  publishTimestamp: msg.timestamp,
+  eventTimestamp: msg.eventTimestamp ?? 0,
+  partitionKey: msg.partitionKey,
+  topicName: msg.topicName ?? topicName,
+  schemaType: msg.schemaType,
+  schemaVersion: msg.schemaVersion,
+  decodeError: msg.decodeError,
+});
+
+// Where the current page was read from, so refreshes reload the same page
+interface PageAnchor {
+  topic: string;
+  position: BrowseStartPosition;
+}
+
+type PositionMode = 'earliest' | 'messageId' | 'timestamp';
+
+const PAGE_SIZE = 50;
+const PARTITIONED_PAGING_HINT = 'Paging works within one partition - browse a partition from the Partitions table to page through it';
+
+// Format a Date as the value expected by <input type="datetime-local">
+const toLocalInputValue = (date: Date): string => {
+  const offsetMs = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
 interface SubscriptionPosition {
   name: string;
   msgBacklog: number;
   lastMessageId?: string;
 }
 
-export const BrowseMessages: React.FC<BrowseMessagesProps> = ({ clusterId, topicName }) => {
+export const BrowseMessages: React.FC<BrowseMessagesProps> = ({ clusterId, topicName, partitioned = false }) => {
   const [messages, setMessages] = useState<BrowsedMessage[]>([]);
   const [subscriptions, setSubscriptions] = useState<SubscriptionPosition[]>([]);
   const [loading, setLoading] = useState(false);
@@ -36,6 +107,19 @@ export const BrowseMessages: React.FC<BrowseMessagesProps> = ({ clusterId, topic
   const timelineRef = useRef<HTMLDivElement>(null);
   const seenMessageIdsRef = useRef<Set<string>>(new Set());
   const [newMessageIds, setNewMessageIds] = useState<Set<string>>(new Set());
+  const [positionMode, setPositionMode] = useState<PositionMode>('earliest');
+  const [positionMessageId, setPositionMessageId] = useState('');
+  const [positionTime, setPositionTime] = useState(() => toLocalInputValue(new Date(Date.now() - 60 * 60 * 1000)));
+  const [anchor, setAnchor] = useState<PageAnchor>({ topic: topicName, position: 'earliest' });
+  const [hasOlder, setHasOlder] = useState(false);
+  const [hasNewer, setHasNewer] = useState(false);
+  const [searchMode, setSearchMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showExport, setShowExport] = useState(false);
+  const [exportNotice, setExportNotice] = useState<string | null>(null);
+  const [exportProgress, setExportProgress] = useState<TopicExportProgress | null>(null);
+  const exportIdRef = useRef<string | null>(null);
+  const exportDoneRef = useRef<((progress: TopicExportProgress) => void) | null>(null);
 
   // Clear messages when topic changes
   useEffect(() => {
@@ -43,8 +127,35 @@ export const BrowseMessages: React.FC<BrowseMessagesProps> = ({ clusterId, topic
     setSubscriptions([]);
     setError(null);
     setAutoRefresh(false);
+    setAnchor({ topic: topicName, position: 'earliest' });
+    setHasOlder(false);
+    setHasNewer(false);
+    setSearchMode(false);
+    setSelectedIds(new Set());
+    setExportNotice(null);
   }, [clusterId, topicName]);
 
+  // Follow a topic export streaming to disk in the main process; stop it if the view goes away
+  useEffect(() => {
+    const unsubscribe = window.lightcurve.messages.onExportProgress((update) => {
+      if (update.exportId !== exportIdRef.current) {
+        return;
+      }
+      setExportProgress(update);
+      if (update.done) {
+        exportIdRef.current = null;
+        exportDoneRef.current?.(update);
+      }
+    });
+    return () => {
+      unsubscribe();
+      if (exportIdRef.current) {
+        window.lightcurve.messages.cancelExport(exportIdRef.current).catch(() => {});
+        exportIdRef.current = null;
+      }
+    };
+  }, []);
+
   // Cleanup on unmount: unsubscribe from topic
   useEffect(() => {
     return () => {
@@ -84,10 +195,19 @@ export const BrowseMessages: React.FC<BrowseMessagesProps> = ({ clusterId, topic
         clearInterval(intervalRef.current);
       }
     };
-  }, [autoRefresh, refreshInterval, clusterId, topicName]);
+  }, [autoRefresh, refreshInterval, clusterId, topicName, anchor]);
 
-  const fetchPeek = async (options?: { silent?: boolean }) => {
+  /**
+   * Load a page of messages
+   * Without a request, the page at the current anchor is reloaded
+   */
+  const fetchPeek = async (options?: { silent?: boolean; request?: PeekMessagesOptions }) => {
     const silent = options?.silent;
+    const request: PeekMessagesOptions = options?.request ?? {
+      topic: anchor.topic,
+      maxMessages: PAGE_SIZE,
+      startPosition: anchor.position,
+    };
     if (!silent) {
       setLoading(true);
     }
@@ -96,11 +216,10 @@ export const BrowseMessages: React.FC<BrowseMessagesProps> = ({ clusterId, topic
     try {
       // Fetch messages and subscription stats in parallel
       const [messagesResponse, statsResponse] = await Promise.all([
-        window.lightcurve.messages.peek(clusterId, {
-          topic: topicName,
-          maxMessages: 50,
-        }),
-        window.lightcurve.admin.getTopicStats(clusterId, topicName),
+        window.lightcurve.messages.peek(clusterId, request),
+        partitioned
+          ? window.lightcurve.admin.getPartitionedStats(clusterId, topicName)
+          : window.lightcurve.admin.getTopicStats(clusterId, topicName),
       ]);
 
       if (messagesResponse.success && messagesResponse.data) {
@@ -111,12 +230,17 @@ export const BrowseMessages: React.FC<BrowseMessagesProps> = ({ clusterId, topic
           ? listEl.scrollHeight - listEl.scrollTop
           : 0;
 
-        const mapped = (messagesResponse.data.messages || []).map(msg => ({
-          messageId: msg.messageId,
-          timestamp: msg.publishTimestamp,
-          payload: msg.payload,
-          properties: msg.properties || {},
-        }));
+        const mapped = (messagesResponse.data.messages || []).map(fromPeekMessage);
+        // A page past either end comes back empty; keep showing the current page
+        if (options?.request && mapped.length === 0 && messages.length > 0) {
+          if (request.direction === 'backward') {
+            setHasOlder(false);
+          } else {
+            setHasNewer(false);
+          }
+          return;
+        }
+
         // Determine newly arrived messages (by messageId)
         const newIds: string[] = [];
         mapped.forEach(m => {
@@ -149,6 +273,21 @@ export const BrowseMessages: React.FC<BrowseMessagesProps> = ({ clusterId, topic
         } else {
           // Manual fetch or first load: rebind everything
           setMessages(mapped);
+          setSelectedIds(new Set());
+        }
+
+        if (request.direction === 'backward') {
+          setHasOlder(!!messagesResponse.data.hasMore);
+          setHasNewer(true);
+        } else {
+          setHasNewer(!!messagesResponse.data.hasMore);
+          setHasOlder(request.startPosition !== undefined && request.startPosition !== 'earliest');
+        }
+        // Re-anchor on the first message of a newly loaded page so refreshes reload it
+        if (options?.request) {
+          setAnchor(mapped.length > 0
+            ? { topic: mapped[0].topicName ?? request.topic, position: { type: 'messageId', messageId: mapped[0].messageId } }
+            : { topic: request.topic, position: request.startPosition ?? 'earliest' });
         }
 
         if (preserveScroll && listEl) {
@@ -183,36 +322,125 @@ export const BrowseMessages: React.FC<BrowseMessagesProps> = ({ clusterId, topic
     }
   };
 
-  const clearMessages = () => {
-    setMessages([]);
+  const goToPosition = () => {
+    let position: BrowseStartPosition = 'earliest';
+    if (positionMode === 'messageId') {
+      if (!positionMessageId.trim()) {
+        setError('Enter a message ID to start from');
+        return;
+      }
+      position = { type: 'messageId', messageId: positionMessageId.trim() };
+    } else if (positionMode === 'timestamp') {
+      const timestamp = new Date(positionTime).getTime();
+      if (Number.isNaN(timestamp)) {
+        setError('Enter a valid publish time to start from');
+        return;
+      }
+      position = { type: 'timestamp', timestamp };
+    }
+    fetchPeek({ request: { topic: topicName, maxMessages: PAGE_SIZE, startPosition: position } });
   };
 
-  const parsePayload = (payload: string): string => {
-    try {
-      return JSON.stringify(JSON.parse(payload), null, 2);
-    } catch {
-      return payload;
+  // Page relative to the oldest or newest message currently shown
+  // Paging seeks one partition by message ID, so it is off when reading across all partitions of a topic
+  const fetchAdjacentPage = (direction: 'forward' | 'backward') => {
+    if (partitioned) {
+      return;
+    }
+    const ordered = [...messages].sort((a, b) => a.timestamp - b.timestamp);
+    const edge = direction === 'backward' ? ordered[0] : ordered[ordered.length - 1];
+    if (!edge) {
+      return;
     }
+    fetchPeek({
+      request: {
+        topic: edge.topicName ?? anchor.topic,
+        maxMessages: PAGE_SIZE,
+        startPosition: { type: 'messageId', messageId: edge.messageId },
+        direction,
+        inclusive: false,
+      },
+    });
   };
 
-  const isJson = (payload: string): boolean => {
-    try {
-      JSON.parse(payload);
-      return true;
-    } catch {
-      return false;
+  const toggleSearchMode = () => {
+    setAutoRefresh(false);
+    setMessages([]);
+    setNewMessageIds(new Set());
+    setSelectedIds(new Set());
+    setSearchMode(!searchMode);
+  };
+
+  const toggleSelected = (messageId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(messageId)) {
+        next.delete(messageId);
+      } else {
+        next.add(messageId);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = async (request: ExportRequest): Promise<MessageExportResult | null> => {
+    const options = {
+      format: request.format,
+      columns: request.columns,
+      defaultFileName: request.defaultFileName,
+    };
+    if (request.scope === 'topic') {
+      const started = await window.lightcurve.messages.exportTopic(clusterId, {
+        ...options,
+        topic: anchor.topic,
+        startPosition: anchor.position,
+        maxMessages: request.maxMessages,
+      });
+      if (!started.success) {
+        throw new Error(started.error || 'Export failed');
+      }
+      if (!started.data) {
+        return null;
+      }
+      exportIdRef.current = started.data;
+      setExportProgress(null);
+      const finished = await new Promise<TopicExportProgress>((resolve) => {
+        exportDoneRef.current = resolve;
+      });
+      exportDoneRef.current = null;
+      setExportProgress(null);
+      if (finished.error) {
+        throw new Error(finished.error);
+      }
+      return finished.result ?? null;
+    }
+
+    const response = await window.lightcurve.messages.export(
+          messages
+            .filter(m => request.scope === 'shown' || selectedIds.has(m.messageId))
+            .map(m => toTopicMessage(m, topicName)),
+          options
+        );
+    if (!response.success) {
+      throw new Error(response.error || 'Export failed');
     }
+    return response.data ?? null;
+  };
+
+  const clearMessages = () => {
+    setMessages([]);
+    setSelectedIds(new Set());
   };
 
   const parseMessageId = (messageId: string): { ledgerId: string; entryId: string; batchIndex: string; partitionNumber: string } | null => {
-    // Message ID format: (ledgerId,entryId,batchIndex,partitionNumber)
-    const match = messageId.match(/\((\d+),(\d+),(-?\d+),(\d+)\)/);
+    // Message ID format: (ledgerId,entryId,partitionNumber,batchIndex)
+    const match = messageId.match(/\((\d+),(\d+),(-?\d+),(-?\d+)\)/);
     if (match) {
       return {
         ledgerId: match[1],
         entryId: match[2],
-        batchIndex: match[3],
-        partitionNumber: match[4],
+        partitionNumber: match[3],
+        batchIndex: match[4],
       };
     }
     return null;
@@ -228,14 +456,15 @@ export const BrowseMessages: React.FC<BrowseMessagesProps> = ({ clusterId, topic
       <div className="browse-controls">
         <button
           className="browse-button primary"
-          onClick={fetchPeek}
-          disabled={loading || autoRefresh}
+          onClick={() => fetchPeek()}
+          disabled={loading || autoRefresh || searchMode}
         >
           {loading ? '⟳ Fetching...' : '🔍 Peek Messages'}
         </button>
         <button
           className={`browse-button ${autoRefresh ? 'active' : 'secondary'}`}
           onClick={() => setAutoRefresh(!autoRefresh)}
+          disabled={searchMode}
         >
           {autoRefresh ? '⏸ Stop Auto-Refresh' : '▶ Auto-Refresh'}
         </button>
@@ -257,8 +486,90 @@ export const BrowseMessages: React.FC<BrowseMessagesProps> = ({ clusterId, topic
         >
           🗑 Clear
         </button>
+        <button
+          className={`browse-button ${searchMode ? 'active' : 'secondary'}`}
+          onClick={toggleSearchMode}
+        >
+          {searchMode ? '✕ Close Search' : '🔎 Search'}
+        </button>
+        <button
+          className="browse-button secondary"
+          onClick={() => setShowExport(true)}
+          disabled={autoRefresh}
+        >
+          ⬇ Export{selectedIds.size > 0 ? ` (${selectedIds.size})` : ''}
+        </button>
       </div>
 
+      {exportNotice && <div className="browse-notice">{exportNotice}</div>}
+
+      {searchMode ? (
+        <MessageSearchPanel
+          clusterId={clusterId}
+          topicName={topicName}
+          onSearchStart={() => setMessages([])}
+          onMatches={(matches) => setMessages(prev => [...prev, ...matches.map(fromPeekMessage)])}
+        />
+      ) : (
+        <div className="browse-position">
+          <select
+            className="refresh-interval-select"
+            value={positionMode}
+            onChange={(e) => setPositionMode(e.target.value as PositionMode)}
+            disabled={autoRefresh}
+          >
+            <option value="earliest">From earliest</option>
+            <option value="messageId">From message ID</option>
+            <option value="timestamp">From publish time</option>
+          </select>
+          {positionMode === 'messageId' && (
+            <input
+              className="browse-position-input"
+              type="text"
+              value={positionMessageId}
+              onChange={(e) => setPositionMessageId(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && goToPosition()}
+              placeholder="(ledgerId,entryId,partition,batchIndex) or ledgerId:entryId"
+              disabled={autoRefresh}
+            />
+          )}
+          {positionMode === 'timestamp' && (
+            <input
+              className="browse-position-input"
+              type="datetime-local"
+              value={positionTime}
+              onChange={(e) => setPositionTime(e.target.value)}
+              disabled={autoRefresh}
+            />
+          )}
+          <button
+            className="browse-button secondary"
+            onClick={goToPosition}
+            disabled={loading || autoRefresh}
+          >
+            Go
+          </button>
+          <div className="browse-paging">
+            <button
+              className="browse-button secondary"
+              onClick={() => fetchAdjacentPage('backward')}
+              disabled={partitioned || loading || autoRefresh || !hasOlder || messages.length === 0}
+              title={partitioned ? PARTITIONED_PAGING_HINT : 'Load the page of messages before the oldest one shown'}
+            >
+              ◀ Older
+            </button>
+            <button
+              className="browse-button secondary"
+              onClick={() => fetchAdjacentPage('forward')}
+              disabled={partitioned || loading || autoRefresh || !hasNewer || messages.length === 0}
+              title={partitioned ? PARTITIONED_PAGING_HINT : 'Load the page of messages after the newest one shown'}
+            >
+              Newer ▶
+            </button>
+          </div>
+        </div>
+      )}
+
       {error && (
         <div className="browse-error">
           <p>Error: {error}</p>
@@ -309,7 +620,9 @@ export const BrowseMessages: React.FC<BrowseMessagesProps> = ({ clusterId, topic
         </div>
         {messages.length === 0 ? (
           <div className="browse-empty">
-            {isReading ? 'Waiting for messages...' : 'Click "Peek Messages" to view messages'}
+            {searchMode
+              ? 'Matching messages will appear here'
+              : isReading ? 'Waiting for messages...' : 'Click "Peek Messages" to view messages'}
           </div>
         ) : (
           <div className="timeline-container">
@@ -356,6 +669,13 @@ export const BrowseMessages: React.FC<BrowseMessagesProps> = ({ clusterId, topic
                     <div className="timeline-content">
                       <div className="message-header">
                         <div className="message-header-left">
+                          <input
+                            type="checkbox"
+                            className="message-select"
+                            checked={selectedIds.has(msg.messageId)}
+                            onChange={() => toggleSelected(msg.messageId)}
+                            title="Select for export"
+                          />
                           <span className="message-time inline">
                             <span className="message-time-label">Published</span>
                             <span>{new Date(msg.timestamp).toLocaleString()}</span>
@@ -406,16 +726,24 @@ export const BrowseMessages: React.FC<BrowseMessagesProps> = ({ clusterId, topic
                               <span className="message-id">{msg.messageId}</span>
                             )}
                           </div>
+                          {msg.schemaType && (
+                            <span
+                              className={`schema-badge ${msg.decodeError ? 'error' : ''}`}
+                              title={msg.decodeError || `Decoded with schema version ${msg.schemaVersion}`}
+                            >
+                              {msg.schemaType}{msg.schemaVersion !== undefined ? ` v${msg.schemaVersion}` : ''}
+                              {msg.decodeError ? ' ⚠' : ''}
+                            </span>
+                          )}
                         </div>
                       </div>
                       
-                      <div className="message-payload">
-                        {isJson(msg.payload) ? (
-                          <JsonHighlighter json={parsePayload(msg.payload)} />
-                        ) : (
-                          <pre>{msg.payload}</pre>
-                        )}
-                      </div>
+                      <PayloadViewer
+                        data={msg.payload}
+                        encoding={msg.encoding}
+                        size={msg.size}
+                        decoded={msg.decodedPayload}
+                      />
                       {Object.keys(msg.properties || {}).length > 0 && (
                         <div className="message-properties">
                           <div className="properties-label">Properties:</div>
@@ -457,6 +785,27 @@ export const BrowseMessages: React.FC<BrowseMessagesProps> = ({ clusterId, topic
           </div>
         )}
       </div>
+
+      {showExport && (
+        <ExportDialog
+          topicName={topicName}
+          shownCount={messages.length}
+          selectedCount={selectedIds.size}
+          allowTopicStream={!searchMode}
+          onExport={handleExport}
+          progress={exportProgress}
+          onStop={() => {
+            if (exportIdRef.current) {
+              window.lightcurve.messages.cancelExport(exportIdRef.current);
+            }
+          }}
+          onExported={(result) => {
+            setShowExport(false);
+            setExportNotice(`Exported ${result.count} messages to ${result.filePath}${result.cancelled ? ' (stopped early)' : ''}`);
+          }}
+          onCancel={() => setShowExport(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import type { ClusterDiffEntry, ClusterDiffKind, ClusterDiffResult, ConnectedCluster } from '../shared/types';
+import { EnvironmentBadge } from './EnvironmentBadge';
+import './ClusterDiff.css';
+
+interface ClusterDiffProps {
+  clusters: ConnectedCluster[];
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<ClusterDiffKind, string> = {
+  tenant: 'Tenant',
+  namespace: 'Namespace',
+  topic: 'Topic',
+  partitions: 'Partitions',
+  subscription: 'Subscription',
+  schema: 'Schema',
+  policy: 'Policy',
+};
+
+type StatusFilter = 'all' | ClusterDiffEntry['status'];
+
+const sideValue = (entry: ClusterDiffEntry, side: 'left' | 'right'): string => {
+  if (entry.status === 'different') {
+    return (side === 'left' ? entry.left : entry.right) || '';
+  }
+  const present = entry.status === (side === 'left' ? 'onlyLeft' : 'onlyRight');
+  return present ? 'present' : 'missing';
+};
+
+/**
+ * Side-by-side comparison of two connected clusters
+ */
+export const ClusterDiff: React.FC<ClusterDiffProps> = ({ clusters, onClose }) => {
+  const [leftClusterId, setLeftClusterId] = useState(clusters[0]?.clusterId || '');
+  const [rightClusterId, setRightClusterId] = useState(clusters[1]?.clusterId || '');
+  const [tenantFilter, setTenantFilter] = useState('');
+  const [includeTopicDetails, setIncludeTopicDetails] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ClusterDiffResult | null>(null);
+  const [kindFilter, setKindFilter] = useState<ClusterDiffKind | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [textFilter, setTextFilter] = useState('');
+
+  const clusterById = (clusterId: string) => clusters.find(cluster => cluster.clusterId === clusterId);
+  const clusterLabel = (clusterId: string) => {
+    const cluster = clusterById(clusterId);
+    return cluster ? cluster.name || cluster.adminUrl : clusterId;
+  };
+
+  const runDiff = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const tenants = tenantFilter.split(',').map(tenant => tenant.trim()).filter(Boolean);
+      const response = await window.lightcurve.diff.compare({
+        leftClusterId,
+        rightClusterId,
+        tenants: tenants.length > 0 ? tenants : undefined,
+        includeTopicDetails,
+      });
+      if (response.success && response.data) {
+        setResult(response.data);
+      } else {
+        setError(response.error || 'Failed to compare clusters');
+      }
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const swapSides = () => {
+    setLeftClusterId(rightClusterId);
+    setRightClusterId(leftClusterId);
+    setResult(null);
+  };
+
+  const text = textFilter.trim().toLowerCase();
+  const visibleEntries = (result?.entries || []).filter(entry =>
+    (kindFilter === 'all' || entry.kind === kindFilter) &&
+    (statusFilter === 'all' || entry.status === statusFilter) &&
+    (!text || `${entry.path} ${entry.name || ''}`.toLowerCase().includes(text))
+  );
+  const kindCounts = (result?.entries || []).reduce<Partial<Record<ClusterDiffKind, number>>>((counts, entry) => {
+    counts[entry.kind] = (counts[entry.kind] || 0) + 1;
+    return counts;
+  }, {});
+
+  return (
+    <div className="details-panel">
+      <div className="details-header">
+        <div className="details-icon">⇄</div>
+        <div className="details-title">
+          <span className="details-type">Cluster Diff</span>
+          <h2>Compare clusters</h2>
+        </div>
+        <button className="action-button" onClick={onClose}>Close</button>
+      </div>
+
+      <div className="details-content">
+        <div className="details-section">
+          <div className="cluster-diff-form">
+            <div className="cluster-diff-side">
+              <label>Left</label>
+              <select value={leftClusterId} onChange={(e) => { setLeftClusterId(e.target.value); setResult(null); }}>
+                {clusters.map(cluster => (
+                  <option key={cluster.clusterId} value={cluster.clusterId}>{cluster.name || cluster.adminUrl}</option>
+                ))}
+              </select>
+              <EnvironmentBadge environment={clusterById(leftClusterId)?.environment} />
+            </div>
+            <button className="subscription-action" onClick={swapSides} title="Swap sides">⇄</button>
+            <div className="cluster-diff-side">
+              <label>Right</label>
+              <select value={rightClusterId} onChange={(e) => { setRightClusterId(e.target.value); setResult(null); }}>
+                {clusters.map(cluster => (
+                  <option key={cluster.clusterId} value={cluster.clusterId}>{cluster.name || cluster.adminUrl}</option>
+                ))}
+              </select>
+              <EnvironmentBadge environment={clusterById(rightClusterId)?.environment} />
+            </div>
+          </div>
+
+          <div className="cluster-diff-options">
+            <input
+              type="text"
+              value={tenantFilter}
+              onChange={(e) => setTenantFilter(e.target.value)}
+              placeholder="Tenants to compare, comma separated (all listable tenants if empty)"
+            />
+            <label className="modal-checkbox">
+              <input
+                type="checkbox"
+                checked={includeTopicDetails}
+                onChange={(e) => setIncludeTopicDetails(e.target.checked)}
+              />
+              Compare partitions, subscriptions and schemas of each topic
+            </label>
+          </div>
+
+          <div className="details-actions">
+            <button
+              className="action-button primary"
+              onClick={runDiff}
+              disabled={running || !leftClusterId || !rightClusterId || leftClusterId === rightClusterId}
+            >
+              {running ? 'Comparing...' : 'Compare'}
+            </button>
+          </div>
+          {leftClusterId === rightClusterId && (
+            <p className="details-description">Pick two different clusters to compare.</p>
+          )}
+          {error && <div className="cluster-diff-error">{error}</div>}
+        </div>
+
+        {result && (
+          <div className="details-section">
+            <h3>
+              {result.entries.length === 0 ? 'No differences' : `${result.entries.length} differences`}
+            </h3>
+            <p className="details-description">
+              Compared {result.compared.tenants} tenants, {result.compared.namespaces} namespaces and{' '}
+              {result.compared.topics} topics present on both sides at {new Date(result.comparedAt).toLocaleTimeString()}.
+              Bundles, permissions and replication clusters are not compared because they differ by design.
+            </p>
+
+            {result.entries.length > 0 && (
+              <div className="cluster-diff-filters">
+                <select value={kindFilter} onChange={(e) => setKindFilter(e.target.value as ClusterDiffKind | 'all')}>
+                  <option value="all">All kinds</option>
+                  {(Object.keys(KIND_LABELS) as ClusterDiffKind[]).filter(kind => kindCounts[kind]).map(kind => (
+                    <option key={kind} value={kind}>{KIND_LABELS[kind]} ({kindCounts[kind]})</option>
+                  ))}
+                </select>
+                <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}>
+                  <option value="all">All changes</option>
+                  <option value="onlyLeft">Only in {clusterLabel(result.leftClusterId)}</option>
+                  <option value="onlyRight">Only in {clusterLabel(result.rightClusterId)}</option>
+                  <option value="different">Different</option>
+                </select>
+                <input
+                  type="text"
+                  value={textFilter}
+                  onChange={(e) => setTextFilter(e.target.value)}
+                  placeholder="Filter by name"
+                />
+              </div>
+            )}
+
+            {visibleEntries.length > 0 && (
+              <table className="cluster-diff-table">
+                <thead>
+                  <tr>
+                    <th>Kind</th>
+                    <th>Name</th>
+                    <th>{clusterLabel(result.leftClusterId)}</th>
+                    <th>{clusterLabel(result.rightClusterId)}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleEntries.map((entry, index) => (
+                    <tr key={`${entry.kind}:${entry.path}:${entry.name || ''}:${index}`} className={entry.status}>
+                      <td className="cluster-diff-kind">{KIND_LABELS[entry.kind]}</td>
+                      <td className="cluster-diff-path">
+                        {entry.path}
+                        {entry.name && <span className="cluster-diff-name">{entry.name}</span>}
+                      </td>
+                      <td className="cluster-diff-value">{sideValue(entry, 'left')}</td>
+                      <td className="cluster-diff-value">{sideValue(entry, 'right')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        {result && result.errors.length > 0 && (
+          <div className="details-section">
+            <h3>Not compared ({result.errors.length})</h3>
+            <ul className="cluster-diff-errors">
+              {result.errors.map((message, index) => (
+                <li key={index}>{message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
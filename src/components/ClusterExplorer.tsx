@@ -0,0 +1,71 @@
+import React from 'react';
+import type { ConnectedCluster } from '../shared/types';
+import { ExplorerTree, type StructureChange, type TreeNode } from './ExplorerTree';
+import './ClusterExplorer.css';
+
+interface ClusterExplorerProps {
+  clusters: ConnectedCluster[];
+  activeClusterId: string | null;
+  selection: { clusterId: string; node: TreeNode } | null;
+  onSelectNode: (clusterId: string, node: TreeNode) => void;
+  onActivate: (clusterId: string) => void;
+  onDisconnect: (clusterId: string) => void;
+  onAddConnection: () => void;
+  onCompare: () => void;
+  onConfigure: () => void;
+  structureChange: StructureChange | null;
+  onStructureChange: (change: StructureChange) => void;
+}
+
+/**
+ * Explorer listing every connected cluster, each with its own tenant tree
+ */
+export const ClusterExplorer: React.FC<ClusterExplorerProps> = ({
+  clusters,
+  activeClusterId,
+  selection,
+  onSelectNode,
+  onActivate,
+  onDisconnect,
+  onAddConnection,
+  onCompare,
+  onConfigure,
+  structureChange,
+  onStructureChange,
+}) => (
+  <div className="cluster-explorer">
+    <div className="cluster-explorer-header">
+      <h3>Pulsar Explorer</h3>
+      <div className="cluster-explorer-actions">
+        {clusters.length > 1 && (
+          <button className="refresh-button" onClick={onCompare} title="Compare two connected clusters">
+            ⇄ Compare
+          </button>
+        )}
+        <button className="refresh-button" onClick={onConfigure} title="Export or apply tenant and namespace configuration">
+          {'{ }'} Config
+        </button>
+        <button className="refresh-button" onClick={onAddConnection} title="Connect to another cluster">
+          + Connect
+        </button>
+      </div>
+    </div>
+    <div className="cluster-explorer-content">
+      {clusters.map(cluster => (
+        <ExplorerTree
+          key={cluster.clusterId}
+          clusterId={cluster.clusterId}
+          clusterName={cluster.name || cluster.adminUrl}
+          environment={cluster.environment}
+          active={cluster.clusterId === activeClusterId}
+          onSelectNode={(node) => onSelectNode(cluster.clusterId, node)}
+          selectedNodeId={selection?.clusterId === cluster.clusterId ? selection.node.id : null}
+          onActivate={() => onActivate(cluster.clusterId)}
+          onDisconnect={() => onDisconnect(cluster.clusterId)}
+          structureChange={structureChange}
+          onStructureChange={onStructureChange}
+        />
+      ))}
+    </div>
+  </div>
+);
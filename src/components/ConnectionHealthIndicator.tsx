@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from 'react';
+import type { ConnectionHealth, EndpointHealth } from '../shared/types';
+import './ConnectionHealthIndicator.css';
+
+interface ConnectionHealthIndicatorProps {
+  clusterId: string;
+  initialHealth?: ConnectionHealth;
+}
+
+const STATE_LABELS: Record<ConnectionHealth['state'], string> = {
+  healthy: 'Healthy',
+  degraded: 'Degraded',
+  unreachable: 'Unreachable',
+};
+
+const describeEndpoint = (label: string, endpoint: EndpointHealth): string =>
+  endpoint.ok
+    ? `${label}: OK${endpoint.latencyMs !== undefined ? ` (${endpoint.latencyMs}ms)` : ''}`
+    : `${label}: ${endpoint.error || 'failed'}`;
+
+/**
+ * Header badge showing the latest health check of the connection
+ * Click to check again right away
+ */
+export const ConnectionHealthIndicator: React.FC<ConnectionHealthIndicatorProps> = ({ clusterId, initialHealth }) => {
+  const [health, setHealth] = useState<ConnectionHealth | null>(initialHealth ?? null);
+  const [checking, setChecking] = useState(false);
+  const [notice, setNotice] = useState<{ text: string; warning?: boolean } | null>(null);
+
+  useEffect(() => {
+    window.lightcurve.cluster.getHealth(clusterId).then(response => {
+      if (response.success && response.data) {
+        setHealth(response.data);
+      }
+    });
+    const unsubscribe = window.lightcurve.cluster.onHealth((event) => {
+      if (event.clusterId !== clusterId) return;
+      setHealth(event);
+      if (event.credentialRotation?.failed) {
+        const { failed } = event.credentialRotation;
+        setNotice({
+          text: `Token refreshed, but ${failed} live stream${failed === 1 ? '' : 's'} could not switch to it - restart ${failed === 1 ? 'it' : 'them'} before the old token expires`,
+          warning: true,
+        });
+      } else if (event.credentialRotation?.reattached) {
+        const { reattached } = event.credentialRotation;
+        setNotice({ text: `Moved ${reattached} live stream${reattached === 1 ? '' : 's'} to the refreshed token` });
+      } else if (event.reconnectedConsumers) {
+        setNotice({ text: `Reconnected ${event.reconnectedConsumers} live consumer${event.reconnectedConsumers === 1 ? '' : 's'}` });
+      }
+    });
+    return unsubscribe;
+  }, [clusterId]);
+
+  useEffect(() => {
+    // Warnings stay until dismissed
+    if (!notice || notice.warning) return;
+    const timer = setTimeout(() => setNotice(null), 10000);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  const checkNow = async () => {
+    setChecking(true);
+    try {
+      const response = await window.lightcurve.cluster.checkHealth(clusterId);
+      if (response.success && response.data) {
+        setHealth(response.data);
+      }
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  if (!health) {
+    return null;
+  }
+
+  const details = [
+    health.pulsarVersion ? `Pulsar ${health.pulsarVersion}` : null,
+    describeEndpoint('Admin API', health.admin),
+    describeEndpoint('Broker', health.broker),
+    `Checked ${new Date(health.checkedAt).toLocaleTimeString()} - click to check again`,
+  ].filter(Boolean).join('\n');
+
+  return (
+    <div className="connection-health">
+      <button className={`connection-health-button ${health.state}`} onClick={checkNow} disabled={checking} title={details}>
+        <span className="connection-health-dot" />
+        {checking ? 'Checking...' : STATE_LABELS[health.state]}
+      </button>
+      {notice && (
+        <span
+          className={`connection-health-notice ${notice.warning ? 'warning' : ''}`}
+          onClick={() => setNotice(null)}
+          title={notice.warning ? 'Click to dismiss' : undefined}
+        >
+          {notice.text}
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React, { useEffect, useRef } from 'react';
+import './ContextMenu.css';
+
+export interface ContextMenuItem {
+  label: string;
+  onClick: () => void;
+  danger?: boolean;
+  disabled?: boolean;
+}
+
+interface ContextMenuProps {
+  x: number;
+  y: number;
+  items: ContextMenuItem[];
+  onClose: () => void;
+}
+
+export const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, items, onClose }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu or pressing Escape
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('mousedown', handleMouseDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  return (
+    <div
+      ref={menuRef}
+      className="context-menu"
+      style={{ top: `${y}px`, left: `${x}px` }}
+      role="menu"
+    >
+      {items.map((item, idx) => (
+        <button
+          key={idx}
+          className={`context-menu-item ${item.danger ? 'danger' : ''}`}
+          disabled={item.disabled}
+          role="menuitem"
+          onClick={() => {
+            onClose();
+            item.onClick();
+          }}
+        >
+          {item.label}
+        </button>
+      ))}
+    </div>
+  );
+};
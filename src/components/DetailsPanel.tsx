@@ -1,7 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import type { TopicStats } from '../shared/types';
+import type { PartitionedTopicStats, TenantInfo, TopicStats } from '../shared/types';
 import { TestMessages } from './TestMessages';
 import { BrowseMessages } from './BrowseMessages';
+import { SubscriptionTable } from './SubscriptionTable';
+import { SchemaViewer } from './SchemaViewer';
+import { DlqWorkbench } from './DlqWorkbench';
+import { StatsHistory } from './StatsHistory';
+import { AlertRules } from './AlertRules';
+import { NamespacePolicyEditor } from './NamespacePolicyEditor';
+import { TopicPolicyEditor } from './TopicPolicyEditor';
+import { PermissionsGrid } from './PermissionsGrid';
+import { PartitionStatsTable } from './PartitionStatsTable';
+import { TenantDialog, DeleteTenantDialog, CreateNamespaceDialog, DeleteNamespaceDialog } from './TenantDialogs';
+import type { StructureChange } from './ExplorerTree';
 import './DetailsPanel.css';
 
 interface TreeNode {
@@ -12,14 +23,16 @@ interface TreeNode {
   children?: TreeNode[];
   loading?: boolean;
   fullPath?: string;
+  partitioned?: boolean;
 }
 
 interface DetailsPanelProps {
   clusterId: string;
   node: TreeNode | null;
+  onStructureChange: (change: StructureChange) => void;
 }
 
-export const DetailsPanel: React.FC<DetailsPanelProps> = ({ clusterId, node }) => {
+export const DetailsPanel: React.FC<DetailsPanelProps> = ({ clusterId, node, onStructureChange }) => {
   if (!node) {
     return (
       <div className="details-panel">
@@ -33,9 +46,9 @@ export const DetailsPanel: React.FC<DetailsPanelProps> = ({ clusterId, node }) =
 
   switch (node.type) {
     case 'tenant':
-      return <TenantDetails clusterId={clusterId} tenantName={node.label} />;
+      return <TenantDetails clusterId={clusterId} tenantName={node.label} onStructureChange={onStructureChange} />;
     case 'namespace':
-      return <NamespaceDetails clusterId={clusterId} node={node} />;
+      return <NamespaceDetails clusterId={clusterId} node={node} onStructureChange={onStructureChange} />;
     case 'topic':
       return <TopicDetails clusterId={clusterId} node={node} />;
     default:
@@ -44,31 +57,90 @@ export const DetailsPanel: React.FC<DetailsPanelProps> = ({ clusterId, node }) =
 };
 
 // Tenant Details Component
-const TenantDetails: React.FC<{ clusterId: string; tenantName: string }> = ({ 
+type TenantDialogState =
+  | { mode: 'edit' }
+  | { mode: 'delete' }
+  | { mode: 'createNamespace' }
+  | { mode: 'deleteNamespace'; namespace: string };
+
+const TenantDetails: React.FC<{ clusterId: string; tenantName: string; onStructureChange: (change: StructureChange) => void }> = ({ 
   clusterId, 
-  tenantName 
+  tenantName,
+  onStructureChange,
 }) => {
-  const [namespaceCount, setNamespaceCount] = useState<number | null>(null);
+  const [namespaces, setNamespaces] = useState<string[] | null>(null);
+  const [tenantInfo, setTenantInfo] = useState<TenantInfo | null>(null);
+  const [infoError, setInfoError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [dialog, setDialog] = useState<TenantDialogState | null>(null);
 
   useEffect(() => {
-    loadNamespaceCount();
+    loadTenant();
   }, [clusterId, tenantName]);
 
-  const loadNamespaceCount = async () => {
+  const loadTenant = async () => {
     setLoading(true);
     try {
-      const response = await window.lightcurve.admin.listNamespaces(clusterId, tenantName);
-      if (response.success && response.data) {
-        setNamespaceCount(response.data.length);
+      const [namespacesResponse, infoResponse] = await Promise.all([
+        window.lightcurve.admin.listNamespaces(clusterId, tenantName),
+        window.lightcurve.admin.getTenantInfo(clusterId, tenantName),
+      ]);
+      setNamespaces(namespacesResponse.success && namespacesResponse.data ? namespacesResponse.data : null);
+      if (infoResponse.success && infoResponse.data) {
+        setTenantInfo(infoResponse.data);
+        setInfoError(null);
+      } else {
+        setTenantInfo(null);
+        setInfoError(infoResponse.error || 'Failed to load tenant');
       }
     } catch (err) {
-      console.error('Error loading namespace count:', err);
+      console.error('Error loading tenant:', err);
     } finally {
       setLoading(false);
     }
   };
 
+  // Reload this panel and let the explorer reload the list holding the changed node
+  const changed = (nodeId: string, removed = false) => {
+    setDialog(null);
+    onStructureChange({ clusterId, nodeId, removed });
+    if (!(removed && nodeId === `tenant:${tenantName}`)) {
+      loadTenant();
+    }
+  };
+
+  const renderDialog = (): React.ReactNode => {
+    if (!dialog) return null;
+    const cancel = () => setDialog(null);
+
+    switch (dialog.mode) {
+      case 'edit':
+        return <TenantDialog clusterId={clusterId} tenant={tenantName} onSaved={() => changed(`tenant:${tenantName}`)} onCancel={cancel} />;
+      case 'delete':
+        return <DeleteTenantDialog clusterId={clusterId} tenant={tenantName} onDeleted={() => changed(`tenant:${tenantName}`, true)} onCancel={cancel} />;
+      case 'createNamespace':
+        return (
+          <CreateNamespaceDialog
+            clusterId={clusterId}
+            tenant={tenantName}
+            onCreated={(namespace) => changed(`namespace:${namespace}`)}
+            onCancel={cancel}
+          />
+        );
+      case 'deleteNamespace':
+        return (
+          <DeleteNamespaceDialog
+            clusterId={clusterId}
+            namespace={dialog.namespace}
+            onDeleted={() => changed(`namespace:${dialog.namespace}`, true)}
+            onCancel={cancel}
+          />
+        );
+    }
+  };
+
+  const formatList = (items: string[] | undefined) => (items && items.length > 0 ? items.join(', ') : 'None');
+
   return (
     <div className="details-panel">
       <div className="details-header">
@@ -90,12 +162,59 @@ const TenantDetails: React.FC<{ clusterId: string; tenantName: string }> = ({
             <div className="detail-item">
               <label>Namespaces</label>
               <div className="detail-value">
-                {loading ? '...' : namespaceCount ?? 'N/A'}
+                {loading ? '...' : namespaces?.length ?? 'N/A'}
+              </div>
+            </div>
+            <div className="detail-item">
+              <label>Admin Roles</label>
+              <div className="detail-value-small">
+                {loading ? '...' : tenantInfo ? formatList(tenantInfo.adminRoles) : 'N/A'}
+              </div>
+            </div>
+            <div className="detail-item">
+              <label>Allowed Clusters</label>
+              <div className="detail-value-small">
+                {loading ? '...' : tenantInfo ? formatList(tenantInfo.allowedClusters) : 'N/A'}
               </div>
             </div>
           </div>
+          {infoError && !loading && <p className="details-description">{infoError}</p>}
         </div>
 
+        <div className="details-section">
+          <h3>Administration</h3>
+          <div className="details-actions">
+            <button className="action-button" onClick={() => setDialog({ mode: 'edit' })}>
+              Edit Roles &amp; Clusters
+            </button>
+            <button className="action-button" onClick={() => setDialog({ mode: 'createNamespace' })}>
+              Create Namespace
+            </button>
+            <button className="action-button danger" onClick={() => setDialog({ mode: 'delete' })}>
+              Delete Tenant
+            </button>
+          </div>
+        </div>
+
+        {namespaces && namespaces.length > 0 && (
+          <div className="details-section">
+            <h3>Namespaces</h3>
+            <div className="details-list">
+              {namespaces.map(namespace => (
+                <div key={namespace} className="list-item with-action">
+                  <div className="list-item-name">{namespace.split('/').pop()}</div>
+                  <button
+                    className="subscription-action danger"
+                    onClick={() => setDialog({ mode: 'deleteNamespace', namespace })}
+                  >
+                    Delete
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="details-section">
           <h3>Description</h3>
           <p className="details-description">
@@ -104,17 +223,20 @@ const TenantDetails: React.FC<{ clusterId: string; tenantName: string }> = ({
           </p>
         </div>
       </div>
+      {renderDialog()}
     </div>
   );
 };
 
 // Namespace Details Component
-const NamespaceDetails: React.FC<{ clusterId: string; node: TreeNode }> = ({ 
+const NamespaceDetails: React.FC<{ clusterId: string; node: TreeNode; onStructureChange: (change: StructureChange) => void }> = ({ 
   clusterId, 
-  node 
+  node,
+  onStructureChange,
 }) => {
   const [topicCount, setTopicCount] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
+  const [deleting, setDeleting] = useState(false);
 
   // Extract tenant and namespace from node ID
   const parts = node.id.replace('namespace:', '').split('/');
@@ -172,6 +294,21 @@ const NamespaceDetails: React.FC<{ clusterId: string; node: TreeNode }> = ({
               </div>
             </div>
           </div>
+          <div className="details-actions">
+            <button className="action-button danger" onClick={() => setDeleting(true)}>
+              Delete Namespace
+            </button>
+          </div>
+        </div>
+
+        <div className="details-section">
+          <h3>Policies</h3>
+          <NamespacePolicyEditor clusterId={clusterId} namespace={`${tenant}/${namespace}`} />
+        </div>
+
+        <div className="details-section">
+          <h3>Permissions</h3>
+          <PermissionsGrid clusterId={clusterId} target="namespace" name={`${tenant}/${namespace}`} />
         </div>
 
         <div className="details-section">
@@ -182,6 +319,17 @@ const NamespaceDetails: React.FC<{ clusterId: string; node: TreeNode }> = ({
           </p>
         </div>
       </div>
+      {deleting && (
+        <DeleteNamespaceDialog
+          clusterId={clusterId}
+          namespace={`${tenant}/${namespace}`}
+          onDeleted={() => {
+            setDeleting(false);
+            onStructureChange({ clusterId, nodeId: node.id, removed: true });
+          }}
+          onCancel={() => setDeleting(false)}
+        />
+      )}
     </div>
   );
 };
@@ -203,32 +351,46 @@ const TopicDetails: React.FC<{ clusterId: string; node: TreeNode }> = ({
       topic: match[4],
     };
   };
-  const [activeTab, setActiveTab] = useState<'overview' | 'test' | 'browse'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'test' | 'browse' | 'policies' | 'permissions' | 'schema' | 'dlq'>('overview');
+  const [workbenchTopicName, setWorkbenchTopicName] = useState<string>('');
   const [browsingTopicName, setBrowsingTopicName] = useState<string>('');
   const [stats, setStats] = useState<TopicStats | null>(null);
+  const [partitionStats, setPartitionStats] = useState<PartitionedTopicStats | null>(null);
   const [subscriptions, setSubscriptions] = useState<string[]>([]);
   const [dlqTopics, setDlqTopics] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   const fullTopicName = node.fullPath || '';
+  // A partitioned topic has no stats of its own; they are summed across its partitions
+  const partitioned = !!node.partitioned;
+  const partitionNames = (node.children || []).map(partition => partition.fullPath || '');
 
   useEffect(() => {
+    // A partition picked for browsing belongs to the previous topic
+    setBrowsingTopicName('');
+    setPartitionStats(null);
     loadTopicData();
   }, [clusterId, fullTopicName]);
 
-  const loadTopicData = async () => {
-    setLoading(true);
+  const loadTopicData = async (options?: { silent?: boolean }) => {
+    // Silent refreshes keep the overview mounted (e.g. after a subscription action)
+    if (!options?.silent) {
+      setLoading(true);
+    }
     setError(null);
     try {
       // Load stats and subscriptions in parallel
       const [statsResponse, subsResponse] = await Promise.all([
-        window.lightcurve.admin.getTopicStats(clusterId, fullTopicName),
+        partitioned
+          ? window.lightcurve.admin.getPartitionedStats(clusterId, fullTopicName)
+          : window.lightcurve.admin.getTopicStats(clusterId, fullTopicName),
         window.lightcurve.admin.listSubscriptions(clusterId, fullTopicName),
       ]);
 
       if (statsResponse.success && statsResponse.data) {
         setStats(statsResponse.data);
+        setPartitionStats(partitioned ? statsResponse.data as PartitionedTopicStats : null);
       } else {
         setError(statsResponse.error || 'Failed to load topic stats');
       }
@@ -271,6 +433,10 @@ const TopicDetails: React.FC<{ clusterId: string; node: TreeNode }> = ({
     }
   };
 
+  // A DLQ or retry topic selected directly in the tree can be worked on too
+  const isDeadLetterTopic = /-(DLQ|RETRY)$/.test(fullTopicName);
+  const workbenchTopics = isDeadLetterTopic ? [fullTopicName, ...dlqTopics.filter(t => t !== fullTopicName)] : dlqTopics;
+
   const formatBytes = (bytes: number): string => {
     if (bytes === 0) return '0 B';
     const k = 1024;
@@ -320,6 +486,32 @@ const TopicDetails: React.FC<{ clusterId: string; node: TreeNode }> = ({
         >
           Test Messages
         </button>
+        <button 
+          className={`tab-button ${activeTab === 'policies' ? 'active' : ''}`}
+          onClick={() => setActiveTab('policies')}
+        >
+          Policies
+        </button>
+        <button 
+          className={`tab-button ${activeTab === 'permissions' ? 'active' : ''}`}
+          onClick={() => setActiveTab('permissions')}
+        >
+          Permissions
+        </button>
+        <button 
+          className={`tab-button ${activeTab === 'schema' ? 'active' : ''}`}
+          onClick={() => setActiveTab('schema')}
+        >
+          Schema
+        </button>
+        {workbenchTopics.length > 0 && (
+          <button
+            className={`tab-button ${activeTab === 'dlq' ? 'active' : ''}`}
+            onClick={() => setActiveTab('dlq')}
+          >
+            DLQ Workbench
+          </button>
+        )}
       </div>
 
       <div className="details-content">
@@ -329,7 +521,7 @@ const TopicDetails: React.FC<{ clusterId: string; node: TreeNode }> = ({
           ) : error ? (
             <div className="details-error">
               <p>Error: {error}</p>
-              <button onClick={loadTopicData}>Retry</button>
+              <button onClick={() => loadTopicData()}>Retry</button>
             </div>
           ) : (
             <>
@@ -340,6 +532,12 @@ const TopicDetails: React.FC<{ clusterId: string; node: TreeNode }> = ({
                   <label>Full Name</label>
                   <div className="detail-value detail-value-small">{fullTopicName}</div>
                 </div>
+                {partitioned && (
+                  <div className="detail-item">
+                    <label>Partitions</label>
+                    <div className="detail-value">{partitionStats?.metadata.partitions ?? partitionNames.length}</div>
+                  </div>
+                )}
                 <div className="detail-item">
                   <label>Publishers</label>
                   <div className="detail-value">{stats?.publishers?.length || 0}</div>
@@ -387,6 +585,18 @@ const TopicDetails: React.FC<{ clusterId: string; node: TreeNode }> = ({
                   </div>
                 </div>
 
+                <StatsHistory clusterId={clusterId} topicName={fullTopicName} />
+
+                {partitionStats && (
+                  <PartitionStatsTable
+                    stats={partitionStats}
+                    onBrowse={(partition) => {
+                      setBrowsingTopicName(partition);
+                      setActiveTab('browse');
+                    }}
+                  />
+                )}
+
                 {stats.publishers && stats.publishers.length > 0 && (
                   <div className="details-section">
                     <h3>Publishers ({stats.publishers.length})</h3>
@@ -403,28 +613,20 @@ const TopicDetails: React.FC<{ clusterId: string; node: TreeNode }> = ({
                   </div>
                 )}
 
-                {subscriptions.length > 0 && (
-                  <div className="details-section">
-                    <h3>Subscriptions ({subscriptions.length})</h3>
-                    <div className="details-list">
-                      {subscriptions.map((sub, idx) => {
-                        const subStats = stats.subscriptions?.[sub];
-                        return (
-                          <div key={idx} className="list-item">
-                            <div className="list-item-name">{sub}</div>
-                            {subStats && (
-                              <div className="list-item-stats">
-                                Backlog: {subStats.msgBacklog.toLocaleString()} • 
-                                Rate: {formatRate(subStats.msgRateOut)} msg/s • 
-                                Consumers: {subStats.consumers?.length || 0}
-                              </div>
-                            )}
-                          </div>
-                        );
-                      })}
-                    </div>
-                  </div>
-                )}
+                <SubscriptionTable
+                  clusterId={clusterId}
+                  topicName={fullTopicName}
+                  subscriptions={subscriptions}
+                  stats={stats}
+                  formatRate={formatRate}
+                  onChanged={() => loadTopicData({ silent: true })}
+                />
+
+                <AlertRules
+                  clusterId={clusterId}
+                  topicName={fullTopicName}
+                  subscriptions={subscriptions}
+                />
 
                 {dlqTopics.length > 0 && (
                   <div className="details-section">
@@ -443,6 +645,15 @@ const TopicDetails: React.FC<{ clusterId: string; node: TreeNode }> = ({
                             >
                               📖 Browse
                             </button>
+                            <button
+                              className="action-button"
+                              onClick={() => {
+                                setWorkbenchTopicName(dlq);
+                                setActiveTab('dlq');
+                              }}
+                            >
+                              🛠 Workbench
+                            </button>
                           </div>
                         </div>
                       ))}
@@ -463,7 +674,7 @@ const TopicDetails: React.FC<{ clusterId: string; node: TreeNode }> = ({
                 </button>
                 <button 
                   className="action-button"
-                  onClick={loadTopicData}
+                  onClick={() => loadTopicData()}
                 >
                   ⟳ Refresh Stats
                 </button>
@@ -472,7 +683,38 @@ const TopicDetails: React.FC<{ clusterId: string; node: TreeNode }> = ({
           </>
         )
         ) : activeTab === 'browse' ? (
-          <BrowseMessages clusterId={clusterId} topicName={browsingTopicName || fullTopicName} />
+          <>
+            {/* Partitioned topics are read whole or one partition at a time */}
+            {partitioned && (!browsingTopicName || partitionNames.includes(browsingTopicName)) && (
+              <div className="details-partition-picker">
+                <label>Read from</label>
+                <select value={browsingTopicName} onChange={(e) => setBrowsingTopicName(e.target.value)}>
+                  <option value="">All {partitionNames.length} partitions</option>
+                  {partitionNames.map(partition => (
+                    <option key={partition} value={partition}>{partition.split('/').pop()}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <BrowseMessages
+              clusterId={clusterId}
+              topicName={browsingTopicName || fullTopicName}
+              partitioned={partitioned && !browsingTopicName}
+            />
+          </>
+        ) : activeTab === 'dlq' ? (
+          <DlqWorkbench
+            clusterId={clusterId}
+            dlqTopics={workbenchTopics}
+            initialTopic={workbenchTopicName || undefined}
+            originalTopic={isDeadLetterTopic ? fullTopicName.replace(/-(DLQ|RETRY)$/, '') : fullTopicName}
+          />
+        ) : activeTab === 'policies' ? (
+          <TopicPolicyEditor clusterId={clusterId} topicName={fullTopicName} />
+        ) : activeTab === 'permissions' ? (
+          <PermissionsGrid clusterId={clusterId} target="topic" name={fullTopicName} />
+        ) : activeTab === 'schema' ? (
+          <SchemaViewer clusterId={clusterId} topicName={fullTopicName} />
         ) : (
           <TestMessages clusterId={clusterId} topicName={fullTopicName} />
         )}
@@ -0,0 +1,552 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { AuditEntry, DlqMessage, DlqRedriveItem, DlqRedriveItemResult, PayloadEncoding } from '../shared/types';
+import { PayloadViewer } from './PayloadViewer';
+import { ModalDialog } from './ModalDialog';
+import './DlqWorkbench.css';
+
+interface DlqWorkbenchProps {
+  clusterId: string;
+  dlqTopics: string[];
+  initialTopic?: string;
+  originalTopic: string; // Re-drive target for messages without a REAL_TOPIC property
+}
+
+// Pending edits to a message before it is re-published
+interface MessageEdit {
+  targetTopic: string;
+  data: string;
+  encoding: PayloadEncoding;
+  properties: Record<string, string>;
+}
+
+// Stamped by the client's dead-letter and retry-letter policies; dropped on re-drive so
+// the consumer's retry count starts over
+const DLQ_SYSTEM_PROPERTIES = ['REAL_TOPIC', 'RETRY_TOPIC', 'ORIGIN_MESSAGE_ID', 'RECONSUMETIMES', 'DELAY_TIME'];
+
+const stripPartitionSuffix = (topic: string): string => topic.replace(/-partition-\d+$/, '');
+
+// Byte length of an edited payload, which may no longer match the received size
+const payloadSize = (edit: MessageEdit): number => {
+  if (edit.encoding === 'base64') {
+    return Math.floor((edit.data.length * 3) / 4) - (edit.data.match(/=*$/)?.[0].length ?? 0);
+  }
+  return new TextEncoder().encode(edit.data).length;
+};
+
+const defaultEdit = (msg: DlqMessage, originalTopic: string): MessageEdit => ({
+  targetTopic: msg.realTopic ? stripPartitionSuffix(msg.realTopic) : originalTopic,
+  data: msg.data,
+  encoding: msg.encoding,
+  properties: Object.fromEntries(
+    Object.entries(msg.properties).filter(([key]) => !DLQ_SYSTEM_PROPERTIES.includes(key))
+  ),
+});
+
+export const DlqWorkbench: React.FC<DlqWorkbenchProps> = ({
+  clusterId,
+  dlqTopics,
+  initialTopic,
+  originalTopic,
+}) => {
+  const [topic, setTopic] = useState(initialTopic || dlqTopics[0] || '');
+  const [subscriptions, setSubscriptions] = useState<string[]>([]);
+  const [subscription, setSubscription] = useState('');
+  const [maxMessages, setMaxMessages] = useState(100);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<DlqMessage[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [edits, setEdits] = useState<Map<string, MessageEdit>>(new Map());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [acknowledge, setAcknowledge] = useState(true);
+  const [confirming, setConfirming] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [failures, setFailures] = useState<DlqRedriveItemResult[]>([]);
+  const [history, setHistory] = useState<AuditEntry[]>([]);
+  const sessionIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (initialTopic) {
+      setTopic(initialTopic);
+    }
+  }, [initialTopic]);
+
+  useEffect(() => {
+    loadSubscriptions();
+    return () => {
+      releaseSession();
+    };
+  }, [clusterId, topic]);
+
+  useEffect(() => {
+    loadHistory();
+  }, []);
+
+  const loadSubscriptions = async () => {
+    setSubscriptions([]);
+    setSubscription('');
+    if (!topic) return;
+    const response = await window.lightcurve.admin.listSubscriptions(clusterId, topic);
+    if (response.success && response.data) {
+      setSubscriptions(response.data);
+      setSubscription(response.data[0] || '');
+    } else {
+      setError(response.error || 'Failed to load DLQ subscriptions');
+    }
+  };
+
+  const loadHistory = async () => {
+    const response = await window.lightcurve.audit.list(10, 'dlq.redrive');
+    if (response.success && response.data) {
+      setHistory(response.data);
+    }
+  };
+
+  // Closing the session hands unacknowledged messages back to the subscription
+  const releaseSession = () => {
+    if (sessionIdRef.current) {
+      window.lightcurve.dlq.close(sessionIdRef.current).catch(() => {});
+      sessionIdRef.current = null;
+    }
+    setSessionId(null);
+    setMessages([]);
+    setSelectedIds(new Set());
+    setEdits(new Map());
+    setFailures([]);
+  };
+
+  const openSession = async () => {
+    releaseSession();
+    setLoading(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await window.lightcurve.dlq.open(clusterId, { topic, subscription, maxMessages });
+      if (response.success && response.data) {
+        sessionIdRef.current = response.data.sessionId;
+        setSessionId(response.data.sessionId);
+        setMessages(response.data.messages);
+      } else {
+        setError(response.error || 'Failed to open DLQ');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open DLQ');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSelected = (messageId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(messageId)) {
+        next.delete(messageId);
+      } else {
+        next.add(messageId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(prev => (prev.size === messages.length ? new Set() : new Set(messages.map(m => m.messageId))));
+  };
+
+  const editFor = (msg: DlqMessage): MessageEdit => edits.get(msg.messageId) || defaultEdit(msg, originalTopic);
+
+  const selectedMessages = messages.filter(m => selectedIds.has(m.messageId));
+  const targetTopics = Array.from(new Set(selectedMessages.map(m => editFor(m).targetTopic)));
+
+  const redrive = async () => {
+    if (!sessionId) return;
+    const items: DlqRedriveItem[] = selectedMessages.map(msg => {
+      const edit = editFor(msg);
+      return {
+        messageId: msg.messageId,
+        targetTopic: edit.targetTopic,
+        data: edit.data,
+        encoding: edit.encoding,
+        properties: edit.properties,
+        partitionKey: msg.partitionKey,
+        eventTimestamp: msg.eventTimestamp || undefined,
+        edited: edits.has(msg.messageId),
+      };
+    });
+
+    const response = await window.lightcurve.dlq.redrive(sessionId, { items, acknowledge });
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Re-drive failed');
+    }
+
+    const { results } = response.data;
+    const acknowledged = new Set(results.filter(r => r.acknowledged).map(r => r.messageId));
+    const republished = results.filter(r => r.publishedMessageId && !r.previouslyPublished).length;
+    const previouslyPublished = results.filter(r => r.previouslyPublished).length;
+    setMessages(prev => prev.filter(m => !acknowledged.has(m.messageId)));
+    setSelectedIds(new Set(results.filter(r => r.error).map(r => r.messageId)));
+    setFailures(results.filter(r => r.error));
+    setNotice(
+      `Re-published ${republished} of ${results.length} messages` +
+      (previouslyPublished > 0 ? ` (${previouslyPublished} already published by an earlier re-drive)` : '') +
+      (acknowledge ? ` and acknowledged ${acknowledged.size} off ${subscription}` : '')
+    );
+    setConfirming(false);
+    loadHistory();
+  };
+
+  const editingMessage = editingId ? messages.find(m => m.messageId === editingId) : undefined;
+
+  return (
+    <div className="browse-messages dlq-workbench">
+      <div className="browse-header">
+        <h3>DLQ Workbench</h3>
+        <p className="browse-subtitle">
+          Received messages are held unacknowledged until re-driven or released
+        </p>
+      </div>
+
+      <div className="browse-controls">
+        <select
+          className="refresh-interval-select dlq-topic-select"
+          value={topic}
+          onChange={(e) => setTopic(e.target.value)}
+          disabled={loading}
+        >
+          {dlqTopics.map(t => (
+            <option key={t} value={t}>{t}</option>
+          ))}
+        </select>
+        <select
+          className="refresh-interval-select"
+          value={subscription}
+          onChange={(e) => setSubscription(e.target.value)}
+          disabled={loading || subscriptions.length === 0}
+        >
+          {subscriptions.length === 0 && <option value="">No subscriptions</option>}
+          {subscriptions.map(s => (
+            <option key={s} value={s}>{s}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          className="browse-position-input dlq-max-input"
+          min={1}
+          max={1000}
+          value={maxMessages}
+          onChange={(e) => setMaxMessages(Math.max(1, Number(e.target.value) || 1))}
+          title="Maximum messages to receive"
+          disabled={loading}
+        />
+        <button
+          className="browse-button primary"
+          onClick={openSession}
+          disabled={loading || !subscription}
+        >
+          {loading ? 'Receiving...' : sessionId ? '⟳ Reload' : '📥 Open DLQ'}
+        </button>
+        {sessionId && (
+          <button className="browse-button secondary" onClick={releaseSession} disabled={loading}>
+            Release
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="browse-error">
+          <p>Error: {error}</p>
+        </div>
+      )}
+      {notice && <div className="browse-notice">{notice}</div>}
+      {failures.length > 0 && (
+        <div className="browse-error">
+          {failures.map(f => (
+            <p key={f.messageId}>
+              {f.messageId} → {f.targetTopic}: {f.publishedMessageId
+                ? `published as ${f.publishedMessageId}, but acknowledging failed (${f.error}) - re-drive it again to acknowledge without publishing twice`
+                : f.error}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="browse-status">
+        <span className={`status-indicator ${sessionId ? 'active' : ''}`}>
+          {sessionId ? '● Holding' : '○ Not open'}
+        </span>
+        <span className="message-count">{messages.length} messages</span>
+        {messages.length > 0 && (
+          <label className="dlq-select-all">
+            <input
+              type="checkbox"
+              className="message-select"
+              checked={selectedIds.size === messages.length}
+              onChange={toggleAll}
+            />
+            Select all
+          </label>
+        )}
+      </div>
+
+      <div className="browse-messages-list">
+        {messages.length === 0 ? (
+          <div className="browse-empty">
+            {sessionId ? 'No messages pending on this subscription' : 'Choose a DLQ subscription and open it to inspect messages'}
+          </div>
+        ) : (
+          messages.map(msg => (
+            <div key={msg.messageId} className="browse-message-item dlq-message">
+              <div className="message-header">
+                <div className="message-header-left">
+                  <input
+                    type="checkbox"
+                    className="message-select"
+                    checked={selectedIds.has(msg.messageId)}
+                    onChange={() => toggleSelected(msg.messageId)}
+                    title="Select for re-drive"
+                  />
+                  <span className="message-id">{msg.messageId}</span>
+                  <span className="message-time inline">
+                    <span className="message-time-label">Published</span>
+                    <span>{new Date(msg.publishTimestamp).toLocaleString()}</span>
+                  </span>
+                  {edits.has(msg.messageId) && <span className="dlq-edited-badge">edited</span>}
+                </div>
+                <button className="browse-button secondary dlq-edit-button" onClick={() => setEditingId(msg.messageId)}>
+                  ✎ Edit
+                </button>
+              </div>
+
+              <div className="message-id-pills dlq-pills">
+                <span className="id-pill compact">
+                  <span className="pill-label">Real topic</span>
+                  <span className="pill-value">{msg.realTopic || '—'}</span>
+                </span>
+                <span className="id-pill compact">
+                  <span className="pill-label">Origin ID</span>
+                  <span className="pill-value">{msg.originMessageId || '—'}</span>
+                </span>
+                <span className="id-pill compact">
+                  <span className="pill-label">Reconsume times</span>
+                  <span className="pill-value">{msg.reconsumeTimes ?? '—'}</span>
+                </span>
+                <span className="id-pill compact">
+                  <span className="pill-label">Redeliveries</span>
+                  <span className="pill-value">{msg.redeliveryCount}</span>
+                </span>
+                <span className="id-pill compact">
+                  <span className="pill-label">Re-drive to</span>
+                  <span className="pill-value">{editFor(msg).targetTopic}</span>
+                </span>
+              </div>
+
+              <PayloadViewer
+                data={editFor(msg).data}
+                encoding={editFor(msg).encoding}
+                size={edits.has(msg.messageId) ? payloadSize(editFor(msg)) : msg.size}
+                decoded={edits.has(msg.messageId) ? undefined : msg.decodedData}
+              />
+              {Object.keys(msg.properties).length > 0 && (
+                <div className="message-properties">
+                  <div className="properties-label">Properties:</div>
+                  {Object.entries(msg.properties).map(([key, value]) => (
+                    <div key={key} className="property-item">
+                      <span className="property-key">{key}:</span>
+                      <span className="property-value">{value}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {sessionId && (
+        <div className="dlq-actions">
+          <label className="dlq-ack-option">
+            <input
+              type="checkbox"
+              checked={acknowledge}
+              onChange={(e) => setAcknowledge(e.target.checked)}
+            />
+            Acknowledge off {subscription || 'the subscription'} after re-publishing
+          </label>
+          <button
+            className="browse-button primary"
+            onClick={() => setConfirming(true)}
+            disabled={selectedIds.size === 0}
+          >
+            ↪ Re-drive {selectedIds.size} Selected
+          </button>
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div className="dlq-history">
+          <div className="properties-label">Recent re-drives (audit log)</div>
+          {history.map(entry => (
+            <div key={entry.id} className={`dlq-history-item ${entry.outcome}`}>
+              <span className="dlq-history-time">{new Date(entry.timestamp).toLocaleString()}</span>
+              <span>{entry.target}</span>
+              <span>{entry.summary}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editingMessage && (
+        <DlqEditDialog
+          message={editingMessage}
+          edit={editFor(editingMessage)}
+          onSave={(edit) => {
+            setEdits(prev => new Map(prev).set(editingMessage.messageId, edit));
+            setEditingId(null);
+          }}
+          onReset={() => {
+            setEdits(prev => {
+              const next = new Map(prev);
+              next.delete(editingMessage.messageId);
+              return next;
+            });
+            setEditingId(null);
+          }}
+          onCancel={() => setEditingId(null)}
+        />
+      )}
+
+      {confirming && (
+        <RedriveConfirmDialog
+          count={selectedIds.size}
+          editedCount={selectedMessages.filter(m => edits.has(m.messageId)).length}
+          targetTopics={targetTopics}
+          acknowledge={acknowledge}
+          subscription={subscription}
+          onConfirm={redrive}
+          onCancel={() => setConfirming(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+// Edit a message's target topic, payload and properties before re-publishing
+const DlqEditDialog: React.FC<{
+  message: DlqMessage;
+  edit: MessageEdit;
+  onSave: (edit: MessageEdit) => void;
+  onReset: () => void;
+  onCancel: () => void;
+}> = ({ message, edit, onSave, onReset, onCancel }) => {
+  const [targetTopic, setTargetTopic] = useState(edit.targetTopic);
+  const [data, setData] = useState(edit.data);
+  const [properties, setProperties] = useState(JSON.stringify(edit.properties, null, 2));
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(properties || '{}');
+    } catch (err) {
+      setError(`Properties are not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)
+      || Object.values(parsed).some(v => typeof v !== 'string')) {
+      setError('Properties must be a JSON object of string values');
+      return;
+    }
+    if (edit.encoding === 'base64' && !/^[A-Za-z0-9+/]*={0,2}$/.test(data.replace(/\s/g, ''))) {
+      setError('Payload must be valid base64');
+      return;
+    }
+    onSave({
+      targetTopic: targetTopic.trim(),
+      data: edit.encoding === 'base64' ? data.replace(/\s/g, '') : data,
+      encoding: edit.encoding,
+      properties: parsed as Record<string, string>,
+    });
+  };
+
+  return (
+    <ModalDialog
+      title="Edit Before Re-drive"
+      confirmLabel="Save Edit"
+      error={error}
+      confirmDisabled={!targetTopic.trim()}
+      onConfirm={handleSave}
+      onCancel={onCancel}
+    >
+      <p className="modal-hint">{message.messageId}</p>
+      <label>
+        Target topic
+        <input type="text" value={targetTopic} onChange={(e) => setTargetTopic(e.target.value)} />
+      </label>
+      <label>
+        Payload {edit.encoding === 'base64' ? '(binary, base64)' : ''}
+        <textarea rows={8} value={data} onChange={(e) => setData(e.target.value)} />
+      </label>
+      {message.schemaType && (
+        <p className="modal-hint">
+          The payload is the raw {message.schemaType} bytes; edits are published without re-encoding.
+        </p>
+      )}
+      <label>
+        Properties (JSON)
+        <textarea rows={5} value={properties} onChange={(e) => setProperties(e.target.value)} />
+      </label>
+      <button className="modal-button" onClick={onReset}>
+        Discard Edits
+      </button>
+    </ModalDialog>
+  );
+};
+
+const RedriveConfirmDialog: React.FC<{
+  count: number;
+  editedCount: number;
+  targetTopics: string[];
+  acknowledge: boolean;
+  subscription: string;
+  onConfirm: () => Promise<void>;
+  onCancel: () => void;
+}> = ({ count, editedCount, targetTopics, acknowledge, subscription, onConfirm, onCancel }) => {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleConfirm = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await onConfirm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Re-drive failed');
+      setBusy(false);
+    }
+  };
+
+  return (
+    <ModalDialog
+      title="Re-drive Messages"
+      confirmLabel={`Re-drive ${count}`}
+      busy={busy}
+      error={error}
+      onConfirm={handleConfirm}
+      onCancel={onCancel}
+    >
+      <p className="modal-hint">
+        Publish {count} message{count === 1 ? '' : 's'}
+        {editedCount > 0 ? ` (${editedCount} edited)` : ''} to:
+      </p>
+      <ul className="dlq-confirm-topics">
+        {targetTopics.map(t => <li key={t}>{t}</li>)}
+      </ul>
+      <p className="modal-hint">
+        {acknowledge
+          ? `Each message is acknowledged off ${subscription} only after it is published.`
+          : 'Messages stay on the DLQ subscription.'}
+        {' '}The operation is recorded in the audit log.
+      </p>
+    </ModalDialog>
+  );
+};
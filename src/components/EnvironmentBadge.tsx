@@ -0,0 +1,33 @@
+import React from 'react';
+import type { ClusterEnvironment } from '../shared/types';
+import './EnvironmentBadge.css';
+
+interface EnvironmentBadgeProps {
+  environment?: ClusterEnvironment;
+}
+
+export const ENVIRONMENT_LABELS: Record<ClusterEnvironment, string> = {
+  production: 'Production',
+  staging: 'Staging',
+  development: 'Development',
+  local: 'Local',
+};
+
+const BADGE_TEXT: Record<ClusterEnvironment, string> = {
+  production: 'PROD',
+  staging: 'STAGING',
+  development: 'DEV',
+  local: 'LOCAL',
+};
+
+/**
+ * Colored tag naming a cluster's environment; clusters without one get a neutral tag
+ */
+export const EnvironmentBadge: React.FC<EnvironmentBadgeProps> = ({ environment }) => (
+  <span
+    className={`environment-badge ${environment || 'unset'}`}
+    title={environment ? `${ENVIRONMENT_LABELS[environment]} environment` : 'No environment set for this connection'}
+  >
+    {environment ? BADGE_TEXT[environment] : '—'}
+  </span>
+);
@@ -1,7 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { ContextMenu, type ContextMenuItem } from './ContextMenu';
+import { ModalDialog } from './ModalDialog';
+import { EnvironmentBadge } from './EnvironmentBadge';
+import { TenantDialog, DeleteTenantDialog, CreateNamespaceDialog, DeleteNamespaceDialog } from './TenantDialogs';
+import type { ClusterEnvironment } from '../shared/types';
 import './ExplorerTree.css';
 
-interface TreeNode {
+export interface TreeNode {
   id: string;
   type: 'tenant' | 'namespace' | 'topic';
   label: string;
@@ -9,13 +14,28 @@ interface TreeNode {
   children?: TreeNode[];
   loading?: boolean;
   fullPath?: string; // For topics: persistent://tenant/namespace/topic
+  partitioned?: boolean; // For topics: a partitioned topic whose children are its partitions
   unavailable?: boolean; // Indicates the item doesn't exist in the target cluster
 }
 
+// A tenant or namespace that was created, edited or deleted; the explorer reloads the list holding it
+export interface StructureChange {
+  clusterId: string;
+  nodeId: string; // tenant:<tenant> or namespace:<tenant>/<namespace>
+  removed?: boolean;
+}
+
 interface ExplorerTreeProps {
   clusterId: string;
+  clusterName: string;
+  environment?: ClusterEnvironment;
+  active: boolean; // Cluster the header tools currently act on
   onSelectNode: (node: TreeNode) => void;
   selectedNodeId: string | null;
+  onActivate: () => void;
+  onDisconnect: () => void;
+  structureChange: StructureChange | null;
+  onStructureChange: (change: StructureChange) => void;
 }
 
 interface StructureProfile {
@@ -23,11 +43,89 @@ interface StructureProfile {
   name: string;
 }
 
+interface ContextMenuState {
+  x: number;
+  y: number;
+  node: TreeNode;
+}
+
+type TopicDialogState =
+  | { mode: 'create'; node: TreeNode }
+  | { mode: 'partitions'; node: TreeNode; currentPartitions: number | null }
+  | { mode: 'delete'; node: TreeNode };
+
+type StructureDialogState =
+  | { mode: 'createTenant' }
+  | { mode: 'editTenant'; tenant: string }
+  | { mode: 'deleteTenant'; tenant: string }
+  | { mode: 'createNamespace'; tenant: string }
+  | { mode: 'deleteNamespace'; namespace: string };
+
+// Split a namespace node ID ("namespace:tenant/ns") into its parts
+const parseNamespaceId = (nodeId: string): { tenant: string; namespace: string } => {
+  const parts = nodeId.replace('namespace:', '').split('/');
+  return { tenant: parts[0], namespace: parts[1] };
+};
+
+const PARTITION_SUFFIX = /-partition-(\d+)$/;
+
+const isPartition = (node: TreeNode): boolean => node.type === 'topic' && PARTITION_SUFFIX.test(node.fullPath || '');
+
+const topicNode = (fullPath: string, label: string): TreeNode => ({
+  id: `topic:${fullPath}`,
+  type: 'topic',
+  label,
+  expanded: false,
+  fullPath,
+  unavailable: false,
+});
+
+/**
+ * Build the topic nodes of a namespace, nesting each "-partition-N" topic under its partitioned topic
+ * Topic listings only hold the partitions, so partitioned topics come from their own listing or the partition names
+ */
+const buildTopicNodes = (topics: string[], partitionedTopics: string[]): TreeNode[] => {
+  const partitionsByTopic = new Map<string, string[]>(partitionedTopics.map(topic => [topic, []]));
+  const plainTopics: string[] = [];
+  for (const topic of topics) {
+    const parent = topic.replace(PARTITION_SUFFIX, '');
+    if (parent !== topic) {
+      partitionsByTopic.set(parent, [...(partitionsByTopic.get(parent) || []), topic]);
+    } else {
+      plainTopics.push(topic);
+    }
+  }
+
+  // Extract topic name from full path (e.g., persistent://tenant/namespace/topic)
+  const topicName = (fullPath: string) => fullPath.split('/').pop() || fullPath;
+  const partitionIndex = (fullPath: string) => Number(fullPath.match(PARTITION_SUFFIX)?.[1]);
+
+  const nodes: TreeNode[] = [
+    ...plainTopics.filter(topic => !partitionsByTopic.has(topic)).map(topic => topicNode(topic, topicName(topic))),
+    ...Array.from(partitionsByTopic, ([topic, partitions]) => ({
+      ...topicNode(topic, topicName(topic)),
+      partitioned: true,
+      children: partitions
+        .sort((a, b) => partitionIndex(a) - partitionIndex(b))
+        .map(partition => topicNode(partition, `partition-${partitionIndex(partition)}`)),
+    })),
+  ];
+  return nodes.sort((a, b) => a.label.localeCompare(b.label));
+};
+
 export const ExplorerTree: React.FC<ExplorerTreeProps> = ({ 
   clusterId, 
+  clusterName,
+  environment,
+  active,
   onSelectNode, 
-  selectedNodeId 
+  selectedNodeId,
+  onActivate,
+  onDisconnect,
+  structureChange,
+  onStructureChange,
 }) => {
+  const [collapsed, setCollapsed] = useState(false);
   const [tenants, setTenants] = useState<TreeNode[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -35,12 +133,38 @@ export const ExplorerTree: React.FC<ExplorerTreeProps> = ({
   const [availableProfiles, setAvailableProfiles] = useState<StructureProfile[]>([]);
   const [selectedStructureProfile, setSelectedStructureProfile] = useState<string | null>(null);
   const [loadingFromProfile, setLoadingFromProfile] = useState(false);
+  const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
+  const [topicDialog, setTopicDialog] = useState<TopicDialogState | null>(null);
+  // The dialog as of the last render, so a late metadata response can tell it was closed or replaced
+  const topicDialogRef = useRef<TopicDialogState | null>(null);
+  topicDialogRef.current = topicDialog;
+  const [dialogTopicName, setDialogTopicName] = useState('');
+  const [dialogPersistence, setDialogPersistence] = useState<'persistent' | 'non-persistent'>('persistent');
+  const [dialogPartitions, setDialogPartitions] = useState(0);
+  const [dialogForce, setDialogForce] = useState(false);
+  const [dialogBusy, setDialogBusy] = useState(false);
+  const [dialogError, setDialogError] = useState<string | null>(null);
+  const [structureDialog, setStructureDialog] = useState<StructureDialogState | null>(null);
 
   // Load tenants on mount
   useEffect(() => {
     loadTenants();
   }, [clusterId]);
 
+  // Reload whichever list holds a tenant or namespace changed here or in the details panel
+  useEffect(() => {
+    if (!structureChange || structureChange.clusterId !== clusterId) return;
+    if (structureChange.nodeId.startsWith('tenant:')) {
+      refreshTenants();
+    } else {
+      const { tenant } = parseNamespaceId(structureChange.nodeId);
+      const tenantNode = tenants.find(node => node.label === tenant);
+      if (tenantNode) {
+        loadNamespaces(tenantNode, tenant);
+      }
+    }
+  }, [structureChange]);
+
   const loadAvailableProfiles = async () => {
     try {
       const response = await window.lightcurve.profiles.listProfiles();
@@ -94,6 +218,20 @@ export const ExplorerTree: React.FC<ExplorerTreeProps> = ({
     }
   };
 
+  // Reload the tenant list, keeping the expanded state and children of tenants that remain
+  const refreshTenants = async () => {
+    const response = await window.lightcurve.admin.listTenants(clusterId);
+    if (response.success && response.data) {
+      const names = response.data;
+      setTenants(prev => names.map(name =>
+        prev.find(node => node.label === name) || { id: `tenant:${name}`, type: 'tenant', label: name, expanded: false }
+      ));
+      if (names.length > 0) {
+        setError(null);
+      }
+    }
+  };
+
   const loadTenantsfromProfile = async (profileId: string) => {
     setLoadingFromProfile(true);
     try {
@@ -209,37 +347,37 @@ export const ExplorerTree: React.FC<ExplorerTreeProps> = ({
       // Use the reference profile (DEV) for loading structure, not the current cluster (QA)
       const sourceClusterId = selectedStructureProfile || clusterId;
 
-      const response = await window.lightcurve.admin.listTopics(sourceClusterId, tenant, namespace);
+      const [response, partitionedResponse] = await Promise.all([
+        window.lightcurve.admin.listTopics(sourceClusterId, tenant, namespace),
+        window.lightcurve.admin.listPartitionedTopics(sourceClusterId, tenant, namespace),
+      ]);
       console.log(`loadTopics response for ${tenant}/${namespace}:`, response);
       
       if (response.success && response.data) {
         console.log(`Found ${response.data.length} topics`);
-        const topicNodes: TreeNode[] = response.data.map(topicFullName => {
-          // Extract topic name from full path (e.g., persistent://tenant/namespace/topic)
-          const parts = topicFullName.split('/');
-          const topicName = parts[parts.length - 1];
-          
-          return {
-            id: `topic:${topicFullName}`,
-            type: 'topic',
-            label: topicName,
-            expanded: false,
-            fullPath: topicFullName,
-            unavailable: false,
-          };
-        });
+        // Without the partitioned listing, partitions are still grouped by their names
+        const topicNodes = buildTopicNodes(response.data, partitionedResponse.success && partitionedResponse.data ? partitionedResponse.data : []);
         
         // If using a reference profile, try to validate topics exist in target cluster
         if (selectedStructureProfile) {
           try {
-            const targetResponse = await window.lightcurve.admin.listTopics(clusterId, tenant, namespace);
+            const [targetResponse, targetPartitionedResponse] = await Promise.all([
+              window.lightcurve.admin.listTopics(clusterId, tenant, namespace),
+              window.lightcurve.admin.listPartitionedTopics(clusterId, tenant, namespace),
+            ]);
             
             // Only mark as unavailable if we successfully got the list and the item is missing
             if (targetResponse.success && targetResponse.data) {
-              const targetTopics = new Set(targetResponse.data);
+              const targetTopics = new Set([
+                ...targetResponse.data,
+                ...(targetPartitionedResponse.success && targetPartitionedResponse.data ? targetPartitionedResponse.data : []),
+              ]);
               
               topicNodes.forEach(node => {
-                node.unavailable = !targetTopics.has(node.fullPath || '');
+                node.children?.forEach(partition => {
+                  partition.unavailable = !targetTopics.has(partition.fullPath || '');
+                });
+                node.unavailable = !targetTopics.has(node.fullPath || '') && !node.children?.some(partition => !partition.unavailable);
               });
             } else if (targetResponse.error && (targetResponse.error.includes('401') || targetResponse.error.includes('Unauthorized'))) {
               // If we don't have permission to validate, assume items exist (optimistic)
@@ -305,8 +443,8 @@ export const ExplorerTree: React.FC<ExplorerTreeProps> = ({
   const handleNodeClick = (node: TreeNode) => {
     console.log('Node clicked:', node.id, 'type:', node.type, 'label:', node.label);
     
-    // Toggle expansion if not a topic
-    if (node.type !== 'topic') {
+    // Toggle expansion if not a topic; partitioned topics expand to their partitions
+    if (node.type !== 'topic' || node.partitioned) {
       setTenants(prev => toggleNodeExpansion(prev, node.id));
 
       // Load children if expanding and not loaded yet
@@ -316,9 +454,7 @@ export const ExplorerTree: React.FC<ExplorerTreeProps> = ({
           loadNamespaces(node, node.label);
         } else if (node.type === 'namespace') {
           // Extract tenant from namespace ID
-          const parts = node.id.replace('namespace:', '').split('/');
-          const tenant = parts[0];
-          const namespace = parts[1];
+          const { tenant, namespace } = parseNamespaceId(node.id);
           console.log('Loading topics for namespace:', tenant, namespace);
           loadTopics(node, tenant, namespace);
         }
@@ -329,16 +465,280 @@ export const ExplorerTree: React.FC<ExplorerTreeProps> = ({
     onSelectNode(node);
   };
 
+  const handleContextMenu = (e: React.MouseEvent, node: TreeNode) => {
+    // Partitions are managed through their partitioned topic
+    if (node.unavailable || isPartition(node)) return;
+    e.preventDefault();
+    setContextMenu({ x: e.clientX, y: e.clientY, node });
+  };
+
+  const openTopicDialog = async (dialog: TopicDialogState) => {
+    setDialogError(null);
+    setDialogBusy(false);
+    setDialogForce(false);
+    setDialogTopicName('');
+    setDialogPersistence('persistent');
+    setDialogPartitions(0);
+    setTopicDialog(dialog);
+    topicDialogRef.current = dialog;
+
+    // Prefill the partition editor with the current count
+    if (dialog.mode === 'partitions' && dialog.node.fullPath) {
+      const response = await window.lightcurve.admin.getPartitionedMetadata(clusterId, dialog.node.fullPath);
+      if (topicDialogRef.current !== dialog) {
+        return;
+      }
+      if (response.success && response.data) {
+        const current = response.data.partitions;
+        setTopicDialog({ ...dialog, currentPartitions: current });
+        setDialogPartitions(current + 1);
+      } else {
+        setDialogError(response.error || 'Failed to load partition metadata');
+      }
+    }
+  };
+
+  const getContextMenuItems = (node: TreeNode): ContextMenuItem[] => {
+    if (node.type === 'tenant') {
+      return [
+        { label: '➕ Create namespace...', onClick: () => setStructureDialog({ mode: 'createNamespace', tenant: node.label }) },
+        { label: '⟳ Refresh namespaces', onClick: () => loadNamespaces(node, node.label) },
+        { label: '✎ Edit tenant...', onClick: () => setStructureDialog({ mode: 'editTenant', tenant: node.label }) },
+        { label: '🗑 Delete tenant...', danger: true, onClick: () => setStructureDialog({ mode: 'deleteTenant', tenant: node.label }) },
+      ];
+    }
+    if (node.type === 'namespace') {
+      const { tenant, namespace } = parseNamespaceId(node.id);
+      return [
+        { label: '➕ Create topic...', onClick: () => openTopicDialog({ mode: 'create', node }) },
+        { label: '⟳ Refresh topics', onClick: () => loadTopics(node, tenant, namespace) },
+        { label: '🗑 Delete namespace...', danger: true, onClick: () => setStructureDialog({ mode: 'deleteNamespace', namespace: `${tenant}/${namespace}` }) },
+      ];
+    }
+    if (node.type === 'topic') {
+      return [
+        { label: '🔀 Change partitions...', onClick: () => openTopicDialog({ mode: 'partitions', node, currentPartitions: null }) },
+        { label: '🗑 Delete topic...', danger: true, onClick: () => openTopicDialog({ mode: 'delete', node }) },
+      ];
+    }
+    return [];
+  };
+
+  // Reload the namespace that owns a topic so the tree reflects create/delete
+  const refreshNamespaceOfTopic = (fullTopicName: string) => {
+    const match = fullTopicName.match(/^(?:persistent|non-persistent):\/\/([^/]+)\/([^/]+)\//);
+    if (!match) return;
+    const [, tenant, namespace] = match;
+    const namespaceNode: TreeNode = {
+      id: `namespace:${tenant}/${namespace}`,
+      type: 'namespace',
+      label: namespace,
+      expanded: true,
+    };
+    loadTopics(namespaceNode, tenant, namespace);
+  };
+
+  const handleTopicDialogConfirm = async () => {
+    if (!topicDialog) return;
+    setDialogBusy(true);
+    setDialogError(null);
+
+    try {
+      let response;
+      let fullTopicName: string;
+
+      if (topicDialog.mode === 'create') {
+        const { tenant, namespace } = parseNamespaceId(topicDialog.node.id);
+        fullTopicName = `${dialogPersistence}://${tenant}/${namespace}/${dialogTopicName.trim()}`;
+        response = await window.lightcurve.admin.createTopic(clusterId, fullTopicName, dialogPartitions);
+      } else if (topicDialog.mode === 'partitions') {
+        fullTopicName = topicDialog.node.fullPath || '';
+        response = await window.lightcurve.admin.updatePartitionedTopic(clusterId, fullTopicName, dialogPartitions);
+      } else {
+        fullTopicName = topicDialog.node.fullPath || '';
+        response = await window.lightcurve.admin.deleteTopic(clusterId, fullTopicName, dialogForce);
+      }
+
+      if (response.success) {
+        setTopicDialog(null);
+        refreshNamespaceOfTopic(fullTopicName);
+      } else {
+        setDialogError(response.error || 'Operation failed');
+      }
+    } catch (err) {
+      setDialogError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setDialogBusy(false);
+    }
+  };
+
+  const renderTopicDialog = (): React.ReactNode => {
+    if (!topicDialog) return null;
+
+    if (topicDialog.mode === 'create') {
+      const { tenant, namespace } = parseNamespaceId(topicDialog.node.id);
+      const name = dialogTopicName.trim();
+      return (
+        <ModalDialog
+          title={`Create topic in ${tenant}/${namespace}`}
+          confirmLabel="Create"
+          busy={dialogBusy}
+          error={dialogError}
+          confirmDisabled={!name || name.includes('/') || dialogPartitions < 0}
+          onConfirm={handleTopicDialogConfirm}
+          onCancel={() => setTopicDialog(null)}
+        >
+          <div>
+            <label>Topic Name</label>
+            <input
+              type="text"
+              value={dialogTopicName}
+              onChange={(e) => setDialogTopicName(e.target.value)}
+              placeholder="my-topic"
+              autoFocus
+            />
+          </div>
+          <div>
+            <label>Persistence</label>
+            <select
+              value={dialogPersistence}
+              onChange={(e) => setDialogPersistence(e.target.value as 'persistent' | 'non-persistent')}
+            >
+              <option value="persistent">persistent</option>
+              <option value="non-persistent">non-persistent</option>
+            </select>
+          </div>
+          <div>
+            <label>Partitions</label>
+            <input
+              type="number"
+              min={0}
+              value={dialogPartitions}
+              onChange={(e) => setDialogPartitions(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+            />
+          </div>
+          <p className="modal-hint">
+            {name ? `${dialogPersistence}://${tenant}/${namespace}/${name}` : 'Enter a topic name'}
+            {' • '}
+            {dialogPartitions > 0 ? `${dialogPartitions} partitions` : 'non-partitioned'}
+          </p>
+        </ModalDialog>
+      );
+    }
+
+    if (topicDialog.mode === 'partitions') {
+      const current = topicDialog.currentPartitions;
+      const isPartitioned = current !== null && current > 0;
+      return (
+        <ModalDialog
+          title={`Change partitions of ${topicDialog.node.label}`}
+          confirmLabel="Update"
+          busy={dialogBusy}
+          error={dialogError}
+          confirmDisabled={!isPartitioned || dialogPartitions <= (current ?? 0)}
+          onConfirm={handleTopicDialogConfirm}
+          onCancel={() => setTopicDialog(null)}
+        >
+          <p className="modal-hint">
+            {current === null
+              ? 'Loading partition metadata...'
+              : isPartitioned
+              ? `Currently ${current} partitions. Pulsar only allows increasing the partition count.`
+              : 'This topic is not partitioned, so its partition count cannot be changed.'}
+          </p>
+          <div>
+            <label>New Partition Count</label>
+            <input
+              type="number"
+              min={(current ?? 0) + 1}
+              value={dialogPartitions}
+              disabled={!isPartitioned}
+              onChange={(e) => setDialogPartitions(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+            />
+          </div>
+        </ModalDialog>
+      );
+    }
+
+    return (
+      <ModalDialog
+        title="Delete topic"
+        confirmLabel={dialogForce ? 'Force Delete' : 'Delete'}
+        danger
+        busy={dialogBusy}
+        error={dialogError}
+        onConfirm={handleTopicDialogConfirm}
+        onCancel={() => setTopicDialog(null)}
+      >
+        <p className="modal-hint">
+          Permanently delete <code>{topicDialog.node.fullPath}</code> and all of its messages?
+        </p>
+        <label className="modal-checkbox">
+          <input
+            type="checkbox"
+            checked={dialogForce}
+            onChange={(e) => setDialogForce(e.target.checked)}
+          />
+          Force delete (disconnect producers/consumers and remove subscriptions)
+        </label>
+      </ModalDialog>
+    );
+  };
+
+  const renderStructureDialog = (): React.ReactNode => {
+    if (!structureDialog) return null;
+
+    const done = (nodeId: string, removed = false) => {
+      setStructureDialog(null);
+      onStructureChange({ clusterId, nodeId, removed });
+    };
+    const cancel = () => setStructureDialog(null);
+
+    switch (structureDialog.mode) {
+      case 'createTenant':
+        return <TenantDialog clusterId={clusterId} onSaved={(tenant) => done(`tenant:${tenant}`)} onCancel={cancel} />;
+      case 'editTenant':
+        return <TenantDialog clusterId={clusterId} tenant={structureDialog.tenant} onSaved={(tenant) => done(`tenant:${tenant}`)} onCancel={cancel} />;
+      case 'deleteTenant':
+        return (
+          <DeleteTenantDialog
+            clusterId={clusterId}
+            tenant={structureDialog.tenant}
+            onDeleted={() => done(`tenant:${structureDialog.tenant}`, true)}
+            onCancel={cancel}
+          />
+        );
+      case 'createNamespace':
+        return (
+          <CreateNamespaceDialog
+            clusterId={clusterId}
+            tenant={structureDialog.tenant}
+            onCreated={(namespace) => done(`namespace:${namespace}`)}
+            onCancel={cancel}
+          />
+        );
+      case 'deleteNamespace':
+        return (
+          <DeleteNamespaceDialog
+            clusterId={clusterId}
+            namespace={structureDialog.namespace}
+            onDeleted={() => done(`namespace:${structureDialog.namespace}`, true)}
+            onCancel={cancel}
+          />
+        );
+    }
+  };
+
   const renderNode = (node: TreeNode, depth: number = 0): React.ReactNode => {
     const isSelected = node.id === selectedNodeId;
-    const hasChildren = node.type !== 'topic';
+    const hasChildren = node.type !== 'topic' || !!node.partitioned;
     const isExpanded = node.expanded;
     
     const getTypeLabel = (type: string): string => {
       switch (type) {
         case 'tenant': return 'Tenant';
         case 'namespace': return 'Namespace';
-        case 'topic': return 'Topic';
+        case 'topic': return node.partitioned ? 'Partitioned Topic' : isPartition(node) ? 'Partition' : 'Topic';
         default: return 'Unknown';
       }
     };
@@ -353,6 +753,7 @@ export const ExplorerTree: React.FC<ExplorerTreeProps> = ({
             textDecoration: node.unavailable ? 'line-through' : 'none',
           }}
           onClick={() => handleNodeClick(node)}
+          onContextMenu={(e) => handleContextMenu(e, node)}
           role="button"
           tabIndex={0}
           title={node.unavailable ? `Not available in target cluster - ${getTypeLabel(node.type)}` : getTypeLabel(node.type)}
@@ -372,6 +773,9 @@ export const ExplorerTree: React.FC<ExplorerTreeProps> = ({
             {node.unavailable ? '🚫' : (node.type === 'tenant' ? '🏢' : node.type === 'namespace' ? '📁' : '📄')}
           </span>
           <span className="tree-node-label">{node.label}</span>
+          {node.partitioned && (
+            <span className="tree-node-count" title={`${node.children?.length || 0} partitions`}>{node.children?.length || 0}</span>
+          )}
           {node.unavailable && <span style={{ marginLeft: '4px', fontSize: '10px', color: '#999' }}>⚠️ Not in QA</span>}
         </div>
         {isExpanded && node.children && (
@@ -383,10 +787,51 @@ export const ExplorerTree: React.FC<ExplorerTreeProps> = ({
     );
   };
 
+  // Cluster level above the tenants
+  const header = (
+    <div className="explorer-tree-header">
+      <button
+        className="explorer-cluster-toggle"
+        onClick={() => {
+          setCollapsed(!collapsed);
+          onActivate();
+        }}
+        title={collapsed ? 'Expand cluster' : 'Collapse cluster'}
+      >
+        <span className="tree-node-icon">{collapsed ? '▶' : '▼'}</span>
+        <EnvironmentBadge environment={environment} />
+        <span className="explorer-cluster-name">{clusterName}</span>
+      </button>
+      <div className="explorer-cluster-actions">
+        <button className="refresh-button" onClick={() => setStructureDialog({ mode: 'createTenant' })} title="Create tenant">
+          +
+        </button>
+        <button className="refresh-button" onClick={loadTenants} title="Refresh">
+          ⟳
+        </button>
+        <button className="refresh-button" onClick={onDisconnect} title="Disconnect">
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+  const className = `explorer-tree ${active ? 'active' : ''}`;
+
+  if (collapsed) {
+    return (
+      <div className={`${className} collapsed`}>
+        {header}
+        {renderStructureDialog()}
+      </div>
+    );
+  }
+
   if (loading && tenants.length === 0) {
     return (
-      <div className="explorer-tree loading">
+      <div className={`${className} loading`}>
+        {header}
         <div className="explorer-tree-loading">Loading tenants...</div>
+        {renderStructureDialog()}
       </div>
     );
   }
@@ -395,10 +840,16 @@ export const ExplorerTree: React.FC<ExplorerTreeProps> = ({
     const isAuthError = error.includes('401') || error.includes('Unauthorized') || error.includes('No tenants found');
     
     return (
-      <div className="explorer-tree error">
+      <div className={`${className} error`}>
+        {header}
         <div className="explorer-tree-error">
           <p>Error: {error}</p>
           <button onClick={loadTenants} style={{ marginRight: '0.5rem' }}>Retry</button>
+          {isAuthError && (
+            <p style={{ fontSize: '12px', marginTop: '0.75rem' }}>
+              Use 👤 Who am I in the header to see which role this connection uses and what it may access.
+            </p>
+          )}
           
           {isAuthError && availableProfiles.length > 0 && (
             <div style={{ marginTop: '1rem', padding: '0.75rem', backgroundColor: '#f0f8ff', borderRadius: '4px' }}>
@@ -433,18 +884,14 @@ export const ExplorerTree: React.FC<ExplorerTreeProps> = ({
             </div>
           )}
         </div>
+        {renderStructureDialog()}
       </div>
     );
   }
 
   return (
-    <div className="explorer-tree">
-      <div className="explorer-tree-header">
-        <h3>Pulsar Explorer</h3>
-        <button className="refresh-button" onClick={loadTenants} title="Refresh">
-          ⟳
-        </button>
-      </div>
+    <div className={className}>
+      {header}
       <div style={{ display: 'flex', gap: '0.5rem', padding: '0 0.75rem 0.75rem' }}>
         <input
           type="text"
@@ -481,11 +928,24 @@ export const ExplorerTree: React.FC<ExplorerTreeProps> = ({
               <li><code>notification-service</code></li>
             </ul>
             <p style={{ marginTop: '0.5rem', fontSize: '12px' }}>Enter a tenant name above to explore it.</p>
+            <p style={{ marginTop: '0.5rem', fontSize: '12px' }}>
+              Listing tenants needs super-user rights; 👤 Who am I shows what this connection's role may access.
+            </p>
           </div>
         ) : (
           tenants.map(node => renderNode(node))
         )}
       </div>
+      {contextMenu && (
+        <ContextMenu
+          x={contextMenu.x}
+          y={contextMenu.y}
+          items={getContextMenuItems(contextMenu.node)}
+          onClose={() => setContextMenu(null)}
+        />
+      )}
+      {renderTopicDialog()}
+      {renderStructureDialog()}
     </div>
   );
 };
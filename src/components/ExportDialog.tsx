@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import type { MessageExportColumn, MessageExportFormat, MessageExportResult, TopicExportProgress } from '../shared/types';
+import { ModalDialog } from './ModalDialog';
+import './ExportDialog.css';
+
+export type ExportScope = 'selected' | 'shown' | 'topic';
+
+export interface ExportRequest {
+  scope: ExportScope;
+  format: MessageExportFormat;
+  columns: MessageExportColumn[];
+  maxMessages: number;
+  defaultFileName: string;
+}
+
+interface ExportDialogProps {
+  topicName: string;
+  shownCount: number;
+  selectedCount?: number;
+  allowTopicStream?: boolean; // Offer streaming straight from the topic instead of the loaded messages
+  onExport: (request: ExportRequest) => Promise<MessageExportResult | null>;
+  progress?: TopicExportProgress | null; // Latest progress of a running topic export
+  onStop?: () => void; // Stop a running topic export, keeping what was written
+  onExported: (result: MessageExportResult) => void;
+  onCancel: () => void;
+}
+
+const FORMATS: Array<{ id: MessageExportFormat; label: string; hint: string }> = [
+  { id: 'jsonl', label: 'JSON Lines', hint: 'One JSON object per message with all metadata.' },
+  { id: 'csv', label: 'CSV', hint: 'Spreadsheet-friendly; binary payloads are written as base64.' },
+  { id: 'raw', label: 'Raw archive', hint: 'Original payload bytes and properties, for exact replay.' },
+];
+
+const COLUMNS: Array<{ id: MessageExportColumn; label: string }> = [
+  { id: 'messageId', label: 'Message ID' },
+  { id: 'topicName', label: 'Topic' },
+  { id: 'publishTimestamp', label: 'Publish time' },
+  { id: 'eventTimestamp', label: 'Event time' },
+  { id: 'partitionKey', label: 'Partition key' },
+  { id: 'properties', label: 'Properties' },
+  { id: 'payload', label: 'Payload' },
+  { id: 'encoding', label: 'Encoding' },
+  { id: 'size', label: 'Size (bytes)' },
+  { id: 'schemaType', label: 'Schema type' },
+];
+
+// Default file name: short topic name plus a sortable timestamp
+const exportFileName = (topicName: string): string => {
+  const shortName = topicName.split('/').pop() || 'messages';
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  return `${shortName}-${stamp}`;
+};
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  topicName,
+  shownCount,
+  selectedCount = 0,
+  allowTopicStream = false,
+  onExport,
+  progress,
+  onStop,
+  onExported,
+  onCancel,
+}) => {
+  const [scope, setScope] = useState<ExportScope>(selectedCount > 0 ? 'selected' : 'shown');
+  const [format, setFormat] = useState<MessageExportFormat>('jsonl');
+  const [columns, setColumns] = useState<MessageExportColumn[]>(['messageId', 'publishTimestamp', 'partitionKey', 'properties', 'payload']);
+  const [maxMessages, setMaxMessages] = useState(10000);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleColumn = (column: MessageExportColumn, checked: boolean) => {
+    // Keep columns in their canonical order regardless of click order
+    setColumns(prev => COLUMNS.map(c => c.id).filter(id => (id === column ? checked : prev.includes(id))));
+  };
+
+  const handleConfirm = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await onExport({
+        scope,
+        format,
+        columns,
+        maxMessages,
+        defaultFileName: exportFileName(topicName),
+      });
+      if (result) {
+        onExported(result);
+      } else {
+        setBusy(false);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+      setBusy(false);
+    }
+  };
+
+  const nothingToExport = scope === 'selected' ? selectedCount === 0 : scope === 'shown' ? shownCount === 0 : false;
+
+  return (
+    <ModalDialog
+      title="Export Messages"
+      confirmLabel={busy ? 'Exporting...' : 'Export'}
+      busy={busy}
+      error={error}
+      confirmDisabled={nothingToExport || (format === 'csv' && columns.length === 0)}
+      onConfirm={handleConfirm}
+      onCancel={onCancel}
+    >
+      <label>
+        Messages
+        <select value={scope} onChange={(e) => setScope(e.target.value as ExportScope)} disabled={busy}>
+          <option value="selected" disabled={selectedCount === 0}>Selected messages ({selectedCount})</option>
+          <option value="shown">All shown messages ({shownCount})</option>
+          {allowTopicStream && <option value="topic">Read from topic (streams to disk)</option>}
+        </select>
+      </label>
+      {scope === 'topic' && (
+        <label>
+          Max messages
+          <input
+            type="number"
+            min={1}
+            value={maxMessages}
+            onChange={(e) => setMaxMessages(Math.max(1, Number(e.target.value) || 1))}
+            disabled={busy}
+          />
+        </label>
+      )}
+      {scope === 'topic' && (
+        <p className="modal-hint">Reads from the current browse position without consuming messages.</p>
+      )}
+      {scope === 'topic' && busy && (
+        <div className="export-progress">
+          <span>
+            {progress
+              ? `Scanned ${progress.scanned.toLocaleString()} messages, exported ${progress.exported.toLocaleString()}`
+              : 'Reading from the topic...'}
+          </span>
+          {onStop && (
+            <button className="modal-button" onClick={onStop} type="button">
+              Stop
+            </button>
+          )}
+        </div>
+      )}
+      <label>
+        Format
+        <select value={format} onChange={(e) => setFormat(e.target.value as MessageExportFormat)} disabled={busy}>
+          {FORMATS.map(f => (
+            <option key={f.id} value={f.id}>{f.label}</option>
+          ))}
+        </select>
+      </label>
+      <p className="modal-hint">{FORMATS.find(f => f.id === format)?.hint}</p>
+      {format === 'csv' && (
+        <div className="export-columns">
+          {COLUMNS.map(c => (
+            <label key={c.id} className="modal-checkbox">
+              <input
+                type="checkbox"
+                checked={columns.includes(c.id)}
+                onChange={(e) => toggleColumn(c.id, e.target.checked)}
+                disabled={busy}
+              />
+              {c.label}
+            </label>
+          ))}
+        </div>
+      )}
+    </ModalDialog>
+  );
+};
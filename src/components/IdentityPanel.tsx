@@ -0,0 +1,249 @@
+import React, { useState, useEffect } from 'react';
+import type { ConnectionIdentity, PermissionReport } from '../shared/types';
+import './IdentityPanel.css';
+
+interface IdentityPanelProps {
+  clusterId: string;
+  // Scope of the explorer selection, used to prefill the permission check
+  namespace?: string;
+  topic?: string;
+}
+
+const AUTH_LABELS: Record<ConnectionIdentity['authType'], string> = {
+  token: 'Token',
+  oauth: 'OAuth',
+  tls: 'TLS certificate',
+  none: 'No authentication',
+};
+
+const formatCountdown = (expiresAt: number): string => {
+  const seconds = Math.round((expiresAt - Date.now()) / 1000);
+  if (seconds <= 0) return 'expired';
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h left`;
+  if (hours > 0) return `${hours}h ${minutes}m left`;
+  return `${minutes}m ${seconds % 60}s left`;
+};
+
+/**
+ * Header panel showing who the connection authenticates as and what its role may do
+ */
+export const IdentityPanel: React.FC<IdentityPanelProps> = ({ clusterId, namespace, topic }) => {
+  const [open, setOpen] = useState(false);
+  const [identity, setIdentity] = useState<ConnectionIdentity | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showClaims, setShowClaims] = useState(false);
+  const [checkNamespace, setCheckNamespace] = useState('');
+  const [checkTopic, setCheckTopic] = useState('');
+  const [report, setReport] = useState<PermissionReport | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [checkError, setCheckError] = useState<string | null>(null);
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    setIdentity(null);
+    setReport(null);
+  }, [clusterId]);
+
+  useEffect(() => {
+    if (!open) return;
+    // Keep the expiry countdown current while the panel is visible
+    const timer = setInterval(() => setTick(t => t + 1), 1000);
+    return () => clearInterval(timer);
+  }, [open]);
+
+  const loadIdentity = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await window.lightcurve.identity.whoAmI(clusterId);
+      if (response.success && response.data) {
+        setIdentity(response.data);
+      } else {
+        setError(response.error || 'Failed to resolve identity');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const togglePanel = () => {
+    if (!open) {
+      loadIdentity();
+      setCheckNamespace(namespace || '');
+      setCheckTopic(topic || '');
+    }
+    setOpen(!open);
+  };
+
+  const runCheck = async () => {
+    setChecking(true);
+    setCheckError(null);
+    try {
+      const response = await window.lightcurve.identity.checkPermissions(
+        clusterId,
+        checkNamespace.trim(),
+        checkTopic.trim() || undefined
+      );
+      if (response.success && response.data) {
+        setReport(response.data);
+      } else {
+        setCheckError(response.error || 'Failed to check permissions');
+      }
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const expiresAt = identity?.expiresAt ?? identity?.certificate?.validTo;
+  const expiringSoon = expiresAt !== undefined && expiresAt - Date.now() < 5 * 60 * 1000;
+
+  return (
+    <div className="identity-panel-container">
+      <button className="identity-button" onClick={togglePanel} title="Who am I">
+        👤 Who am I
+      </button>
+
+      {open && (
+        <div className="identity-panel">
+          <div className="identity-section">
+            <div className="identity-title">
+              Identity
+              <button className="identity-small-button" onClick={loadIdentity} disabled={loading}>
+                {loading ? '⟳' : 'Refresh'}
+              </button>
+            </div>
+            {error && <div className="identity-error">{error}</div>}
+            {!identity && !error && <div className="identity-empty">Loading...</div>}
+            {identity && (
+              <>
+                <dl className="identity-fields">
+                  <dt>Authentication</dt>
+                  <dd>{AUTH_LABELS[identity.authType]}{identity.oauthFlow ? ` (${identity.oauthFlow})` : ''}</dd>
+                  <dt>Role</dt>
+                  <dd className="identity-role">{identity.role || 'unknown'}</dd>
+                  {identity.issuer && (
+                    <>
+                      <dt>Issuer</dt>
+                      <dd>{identity.issuer}</dd>
+                    </>
+                  )}
+                  {identity.audience && identity.audience.length > 0 && (
+                    <>
+                      <dt>Audience</dt>
+                      <dd>{identity.audience.join(', ')}</dd>
+                    </>
+                  )}
+                  {identity.certificate && (
+                    <>
+                      <dt>Subject</dt>
+                      <dd>{identity.certificate.subject}</dd>
+                      <dt>Issued by</dt>
+                      <dd>{identity.certificate.issuer}</dd>
+                    </>
+                  )}
+                  {identity.issuedAt && (
+                    <>
+                      <dt>Issued</dt>
+                      <dd>{new Date(identity.issuedAt).toLocaleString()}</dd>
+                    </>
+                  )}
+                  <dt>Expires</dt>
+                  <dd className={expiringSoon ? 'identity-expiring' : ''}>
+                    {expiresAt
+                      ? `${new Date(expiresAt).toLocaleString()} (${formatCountdown(expiresAt)})`
+                      : 'never'}
+                  </dd>
+                </dl>
+                {identity.note && <div className="identity-note">{identity.note}</div>}
+                {identity.claims && (
+                  <>
+                    <button className="identity-small-button" onClick={() => setShowClaims(!showClaims)}>
+                      {showClaims ? 'Hide claims' : 'Show all claims'}
+                    </button>
+                    {showClaims && (
+                      <pre className="identity-claims">{JSON.stringify(identity.claims, null, 2)}</pre>
+                    )}
+                  </>
+                )}
+              </>
+            )}
+          </div>
+
+          {identity && (
+            <div className="identity-section">
+              <div className="identity-title">Tenant listing</div>
+              <div className="identity-note">
+                {identity.canListTenants === true && 'This role can list all tenants, so it is a super-user or the broker does not enforce authorization.'}
+                {identity.canListTenants === false && 'This role cannot list tenants: Pulsar only lets super-users do that, which is why the explorer finds none. Add the tenants you have access to by name instead.'}
+                {identity.canListTenants === null && 'Could not check whether this role may list tenants.'}
+              </div>
+            </div>
+          )}
+
+          <div className="identity-section">
+            <div className="identity-title">Check permissions</div>
+            <div className="identity-check-form">
+              <input
+                type="text"
+                value={checkNamespace}
+                onChange={(e) => setCheckNamespace(e.target.value)}
+                placeholder="tenant/namespace"
+              />
+              <input
+                type="text"
+                value={checkTopic}
+                onChange={(e) => setCheckTopic(e.target.value)}
+                placeholder="persistent://tenant/namespace/topic (optional)"
+              />
+              <button
+                className="identity-small-button"
+                onClick={runCheck}
+                disabled={checking || !/^[^/]+\/[^/]+$/.test(checkNamespace.trim())}
+              >
+                {checking ? 'Checking...' : 'Check'}
+              </button>
+            </div>
+            {checkError && <div className="identity-error">{checkError}</div>}
+            {report && report.results.map(result => (
+              <div key={`${result.scope}:${result.name}`} className="identity-scope">
+                <div className="identity-scope-header">
+                  <span className="identity-scope-type">{result.scope}</span>
+                  <span className="identity-scope-name">{result.name}</span>
+                </div>
+                {result.error ? (
+                  <div className="identity-error">{result.error}</div>
+                ) : (
+                  <>
+                    <div className="identity-effective">
+                      {result.scope === 'tenant'
+                        ? (result.isAdmin ? 'Your role is a tenant admin' : 'Your role is not a tenant admin')
+                        : (result.effectiveActions.length > 0
+                          ? `Your role may: ${result.effectiveActions.join(', ')}`
+                          : 'No grants apply to your role')}
+                    </div>
+                    {result.grants.length === 0 ? (
+                      <div className="identity-empty">No roles granted</div>
+                    ) : (
+                      <ul className="identity-grants">
+                        {result.grants.map(grant => (
+                          <li key={grant.role} className={grant.appliesToRole ? 'applies' : ''}>
+                            <span className="identity-grant-role">{grant.role}</span>
+                            <span className="identity-grant-actions">{grant.actions.join(', ')}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
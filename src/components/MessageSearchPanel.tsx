@@ -0,0 +1,235 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { MessageSearchCriteria, MessageSearchProgress, PeekMessage } from '../shared/types';
+import './MessageSearchPanel.css';
+
+interface MessageSearchPanelProps {
+  clusterId: string;
+  topicName: string;
+  onSearchStart: () => void;
+  onMatches: (matches: PeekMessage[]) => void;
+}
+
+const STOP_REASONS: Record<NonNullable<MessageSearchProgress['stopReason']>, string> = {
+  end: 'Reached the end of the topic',
+  timeWindow: 'Passed the end of the publish time window',
+  cancelled: 'Cancelled',
+  maxScanned: 'Stopped at the scan limit',
+  maxResults: 'Stopped at the result limit',
+  error: 'Search failed',
+};
+
+// Convert a datetime-local value to epoch milliseconds, leaving blanks unset
+const toTimestamp = (value: string): number | undefined => {
+  if (!value) return undefined;
+  const timestamp = new Date(value).getTime();
+  return Number.isNaN(timestamp) ? undefined : timestamp;
+};
+
+export const MessageSearchPanel: React.FC<MessageSearchPanelProps> = ({
+  clusterId,
+  topicName,
+  onSearchStart,
+  onMatches,
+}) => {
+  const [payloadText, setPayloadText] = useState('');
+  const [payloadRegex, setPayloadRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [jsonPath, setJsonPath] = useState('');
+  const [jsonPathValue, setJsonPathValue] = useState('');
+  const [propertyKey, setPropertyKey] = useState('');
+  const [propertyValue, setPropertyValue] = useState('');
+  const [partitionKey, setPartitionKey] = useState('');
+  const [publishFrom, setPublishFrom] = useState('');
+  const [publishTo, setPublishTo] = useState('');
+  const [eventFrom, setEventFrom] = useState('');
+  const [eventTo, setEventTo] = useState('');
+  const [maxScanned, setMaxScanned] = useState(100000);
+  const [progress, setProgress] = useState<MessageSearchProgress | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const searchIdRef = useRef<string | null>(null);
+  const onMatchesRef = useRef(onMatches);
+  onMatchesRef.current = onMatches;
+
+  // Listen for progress from the main process scan
+  useEffect(() => {
+    const unsubscribe = window.lightcurve.messages.onSearchProgress((update) => {
+      if (update.searchId !== searchIdRef.current) {
+        return;
+      }
+      if (update.matches.length > 0) {
+        onMatchesRef.current(update.matches);
+      }
+      setProgress(update);
+      if (update.done) {
+        searchIdRef.current = null;
+        setRunning(false);
+        if (update.error) {
+          setError(update.error);
+        }
+      }
+    });
+    return unsubscribe;
+  }, []);
+
+  // Cancel a running search when the topic changes or the panel closes
+  useEffect(() => {
+    return () => {
+      if (searchIdRef.current) {
+        window.lightcurve.messages.cancelSearch(searchIdRef.current).catch(() => {});
+        searchIdRef.current = null;
+      }
+    };
+  }, [clusterId, topicName]);
+
+  const startSearch = async () => {
+    const criteria: MessageSearchCriteria = {
+      payloadText: payloadText || undefined,
+      payloadRegex,
+      caseSensitive,
+      jsonPath: jsonPath.trim() || undefined,
+      jsonPathValue: jsonPathValue || undefined,
+      propertyKey: propertyKey.trim() || undefined,
+      propertyValue: propertyValue || undefined,
+      partitionKey: partitionKey || undefined,
+      publishTimeFrom: toTimestamp(publishFrom),
+      publishTimeTo: toTimestamp(publishTo),
+      eventTimeFrom: toTimestamp(eventFrom),
+      eventTimeTo: toTimestamp(eventTo),
+    };
+
+    setError(null);
+    setProgress(null);
+    setRunning(true);
+    onSearchStart();
+    try {
+      const response = await window.lightcurve.messages.search(clusterId, {
+        topic: topicName,
+        criteria,
+        maxScanned,
+      });
+      if (response.success && response.data) {
+        searchIdRef.current = response.data;
+      } else {
+        setError(response.error || 'Failed to start search');
+        setRunning(false);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start search');
+      setRunning(false);
+    }
+  };
+
+  const cancelSearch = async () => {
+    if (searchIdRef.current) {
+      await window.lightcurve.messages.cancelSearch(searchIdRef.current);
+    }
+  };
+
+  return (
+    <div className="message-search">
+      <div className="message-search-grid">
+        <label>
+          Payload contains
+          <input
+            type="text"
+            value={payloadText}
+            onChange={(e) => setPayloadText(e.target.value)}
+            placeholder={payloadRegex ? 'Regular expression' : 'Text to find'}
+          />
+        </label>
+        <div className="message-search-options">
+          <label className="message-search-checkbox">
+            <input type="checkbox" checked={payloadRegex} onChange={(e) => setPayloadRegex(e.target.checked)} />
+            Regex
+          </label>
+          <label className="message-search-checkbox">
+            <input type="checkbox" checked={caseSensitive} onChange={(e) => setCaseSensitive(e.target.checked)} />
+            Case sensitive
+          </label>
+        </div>
+        <label>
+          JSONPath
+          <input
+            type="text"
+            value={jsonPath}
+            onChange={(e) => setJsonPath(e.target.value)}
+            placeholder="$.customer.id"
+          />
+        </label>
+        <label>
+          equals (optional)
+          <input
+            type="text"
+            value={jsonPathValue}
+            onChange={(e) => setJsonPathValue(e.target.value)}
+            placeholder="Any value"
+          />
+        </label>
+        <label>
+          Property key
+          <input type="text" value={propertyKey} onChange={(e) => setPropertyKey(e.target.value)} />
+        </label>
+        <label>
+          Property value
+          <input type="text" value={propertyValue} onChange={(e) => setPropertyValue(e.target.value)} />
+        </label>
+        <label>
+          Partition key
+          <input type="text" value={partitionKey} onChange={(e) => setPartitionKey(e.target.value)} />
+        </label>
+        <label>
+          Max messages to scan
+          <input
+            type="number"
+            min={1}
+            value={maxScanned}
+            onChange={(e) => setMaxScanned(Math.max(1, Number(e.target.value) || 1))}
+          />
+        </label>
+        <label>
+          Published from
+          <input type="datetime-local" value={publishFrom} onChange={(e) => setPublishFrom(e.target.value)} />
+        </label>
+        <label>
+          Published to
+          <input type="datetime-local" value={publishTo} onChange={(e) => setPublishTo(e.target.value)} />
+        </label>
+        <label>
+          Event time from
+          <input type="datetime-local" value={eventFrom} onChange={(e) => setEventFrom(e.target.value)} />
+        </label>
+        <label>
+          Event time to
+          <input type="datetime-local" value={eventTo} onChange={(e) => setEventTo(e.target.value)} />
+        </label>
+      </div>
+
+      <div className="message-search-footer">
+        {running ? (
+          <button className="browse-button danger" onClick={cancelSearch}>
+            ✕ Cancel
+          </button>
+        ) : (
+          <button className="browse-button primary" onClick={startSearch}>
+            🔎 Search Topic
+          </button>
+        )}
+        {progress && (
+          <span className="message-search-progress">
+            Scanned {progress.scanned.toLocaleString()} · Matched {progress.matched.toLocaleString()}
+            {progress.lastPublishTimestamp ? ` · at ${new Date(progress.lastPublishTimestamp).toLocaleString()}` : ''}
+            {progress.done && progress.stopReason ? ` · ${STOP_REASONS[progress.stopReason]}` : ''}
+          </span>
+        )}
+        {running && !progress && <span className="message-search-progress">Starting search...</span>}
+      </div>
+
+      {error && (
+        <div className="browse-error">
+          <p>Error: {error}</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import './ModalDialog.css';
+
+interface ModalDialogProps {
+  title: string;
+  children: React.ReactNode;
+  confirmLabel?: string;
+  danger?: boolean;
+  busy?: boolean;
+  error?: string | null;
+  confirmDisabled?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export const ModalDialog: React.FC<ModalDialogProps> = ({
+  title,
+  children,
+  confirmLabel = 'OK',
+  danger = false,
+  busy = false,
+  error,
+  confirmDisabled = false,
+  onConfirm,
+  onCancel,
+}) => {
+  return (
+    <div className="modal-backdrop" onMouseDown={() => !busy && onCancel()}>
+      <div
+        className="modal-dialog"
+        role="dialog"
+        aria-label={title}
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape' && !busy) {
+            onCancel();
+          }
+        }}
+      >
+        <h3 className="modal-title">{title}</h3>
+        <div className="modal-body">{children}</div>
+        {error && <div className="modal-error">{error}</div>}
+        <div className="modal-actions">
+          <button className="modal-button" onClick={onCancel} disabled={busy}>
+            Cancel
+          </button>
+          <button
+            className={`modal-button ${danger ? 'danger' : 'primary'}`}
+            onClick={onConfirm}
+            disabled={busy || confirmDisabled}
+          >
+            {busy ? 'Working...' : confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,500 @@
+import React, { useState, useEffect } from 'react';
+import type {
+  DispatchRate,
+  NamespacePolicies,
+  NamespacePolicyChanges,
+  NamespacePolicyKey,
+  NamespacePoliciesResult,
+  NamespacePolicyUpdateResult,
+  SchemaCompatibilityStrategy,
+} from '../shared/types';
+import { ModalDialog } from './ModalDialog';
+import {
+  BYTES,
+  MEGABYTES,
+  MINUTES,
+  SECONDS,
+  BacklogQuotaFields,
+  DispatchRateFields,
+  PolicyField,
+  PublishRateFields,
+  QuantityInput,
+  RetentionFields,
+  describeBacklogQuota,
+  describeDispatchRate,
+  describePublishRate,
+  describeRetention,
+  formatCount,
+  formatQuantity,
+  wholeNumberError,
+} from './PolicyFields';
+import './NamespacePolicyEditor.css';
+
+interface NamespacePolicyEditorProps {
+  clusterId: string;
+  namespace: string; // tenant/namespace
+}
+
+const POLICY_LABELS: Record<NamespacePolicyKey, string> = {
+  retention: 'Retention',
+  messageTtlSeconds: 'Message TTL',
+  backlogQuota: 'Backlog quota',
+  deduplicationEnabled: 'Deduplication',
+  dispatchRate: 'Dispatch rate (per topic)',
+  subscriptionDispatchRate: 'Dispatch rate (per subscription)',
+  publishRate: 'Publish rate (per topic)',
+  subscribeRate: 'Subscribe rate (per consumer)',
+  maxProducersPerTopic: 'Max producers per topic',
+  maxConsumersPerTopic: 'Max consumers per topic',
+  maxConsumersPerSubscription: 'Max consumers per subscription',
+  schemaCompatibilityStrategy: 'Schema compatibility',
+  autoTopicCreation: 'Auto topic creation',
+};
+
+const POLICY_KEYS = Object.keys(POLICY_LABELS) as NamespacePolicyKey[];
+
+const SCHEMA_STRATEGIES: SchemaCompatibilityStrategy[] = [
+  'ALWAYS_INCOMPATIBLE', 'ALWAYS_COMPATIBLE', 'BACKWARD', 'FORWARD', 'FULL',
+  'BACKWARD_TRANSITIVE', 'FORWARD_TRANSITIVE', 'FULL_TRANSITIVE',
+];
+
+const UNLIMITED_RATE: DispatchRate = { dispatchThrottlingRateInMsg: -1, dispatchThrottlingRateInByte: -1, ratePeriodInSecond: 1 };
+
+// Starting values when a policy is first set on the namespace
+const DEFAULTS: Required<NamespacePolicies> = {
+  retention: { retentionTimeInMinutes: 7 * 1440, retentionSizeInMB: 10 * 1024 },
+  messageTtlSeconds: 86400,
+  backlogQuota: { limitSize: 10 * 1024 ** 3, limitTime: -1, policy: 'producer_request_hold' },
+  deduplicationEnabled: true,
+  dispatchRate: UNLIMITED_RATE,
+  subscriptionDispatchRate: UNLIMITED_RATE,
+  publishRate: { publishThrottlingRateInMsg: -1, publishThrottlingRateInByte: -1 },
+  subscribeRate: { subscribeThrottlingRatePerConsumer: -1, ratePeriodInSecond: 30 },
+  maxProducersPerTopic: 0,
+  maxConsumersPerTopic: 0,
+  maxConsumersPerSubscription: 0,
+  schemaCompatibilityStrategy: 'FULL',
+  autoTopicCreation: { allowAutoTopicCreation: true, topicType: 'non-partitioned' },
+};
+
+/**
+ * Human-readable value of a policy, with units spelled out
+ */
+const describePolicy = (key: NamespacePolicyKey, policies: NamespacePolicies): string => {
+  if (policies[key] === undefined) {
+    return 'broker default';
+  }
+  switch (key) {
+    case 'retention':
+      return describeRetention(policies.retention!);
+    case 'messageTtlSeconds':
+      return policies.messageTtlSeconds === 0 ? 'disabled' : formatQuantity(policies.messageTtlSeconds!, SECONDS);
+    case 'backlogQuota':
+      return describeBacklogQuota(policies.backlogQuota!);
+    case 'deduplicationEnabled':
+      return policies.deduplicationEnabled ? 'enabled' : 'disabled';
+    case 'dispatchRate':
+    case 'subscriptionDispatchRate':
+      return describeDispatchRate(policies[key]!);
+    case 'publishRate':
+      return describePublishRate(policies.publishRate!);
+    case 'subscribeRate': {
+      const { subscribeThrottlingRatePerConsumer, ratePeriodInSecond } = policies.subscribeRate!;
+      return `${formatCount(subscribeThrottlingRatePerConsumer, -1)} subscribes per ${formatQuantity(ratePeriodInSecond, SECONDS)}`;
+    }
+    case 'maxProducersPerTopic':
+    case 'maxConsumersPerTopic':
+    case 'maxConsumersPerSubscription':
+      return formatCount(policies[key]!, 0);
+    case 'schemaCompatibilityStrategy':
+      return policies.schemaCompatibilityStrategy!;
+    case 'autoTopicCreation': {
+      const { allowAutoTopicCreation, topicType, defaultNumPartitions } = policies.autoTopicCreation!;
+      if (!allowAutoTopicCreation) {
+        return 'disabled';
+      }
+      return topicType === 'partitioned' ? `partitioned, ${defaultNumPartitions} partitions` : 'non-partitioned';
+    }
+  }
+};
+
+// Policy objects are flat, so sorting the top-level keys is enough for a stable comparison
+const canonical = (value: unknown) =>
+  JSON.stringify(value, value && typeof value === 'object' ? Object.keys(value).sort() : undefined);
+
+const policyChanges = (before: NamespacePolicies, after: NamespacePolicies): NamespacePolicyChanges => {
+  const changes: Record<string, unknown> = {};
+  for (const key of POLICY_KEYS) {
+    if (canonical(before[key]) !== canonical(after[key])) {
+      changes[key] = after[key] === undefined ? null : after[key];
+    }
+  }
+  return changes as NamespacePolicyChanges;
+};
+
+/**
+ * Catch what the broker would reject, so the diff only shows changes that can be applied
+ */
+const validatePolicies = (policies: NamespacePolicies): string[] => {
+  const errors: string[] = [];
+  const whole = (label: string, value: number, min: number) => {
+    const message = wholeNumberError(label, value, min);
+    if (message) {
+      errors.push(message);
+    }
+  };
+
+  const { retention, backlogQuota } = policies;
+  if (retention) {
+    whole('Retention time', retention.retentionTimeInMinutes, -1);
+    if (!Number.isFinite(retention.retentionSizeInMB) || retention.retentionSizeInMB < -1) {
+      errors.push('Retention size must be a number (-1 for unlimited)');
+    }
+  }
+  if (policies.messageTtlSeconds !== undefined) {
+    whole('Message TTL', policies.messageTtlSeconds, 0);
+  }
+  if (backlogQuota) {
+    whole('Backlog quota size', backlogQuota.limitSize, -1);
+    whole('Backlog quota time', backlogQuota.limitTime, -1);
+  }
+  // The broker only accepts retention that exceeds the backlog quota
+  if (retention && backlogQuota) {
+    if (retention.retentionSizeInMB > 0 && backlogQuota.limitSize > 0 && backlogQuota.limitSize >= retention.retentionSizeInMB * 1024 ** 2) {
+      errors.push(`Retention size (${formatQuantity(retention.retentionSizeInMB, MEGABYTES)}) must exceed the backlog quota size (${formatQuantity(backlogQuota.limitSize, BYTES)})`);
+    }
+    if (retention.retentionTimeInMinutes > 0 && backlogQuota.limitTime > 0 && backlogQuota.limitTime >= retention.retentionTimeInMinutes * 60) {
+      errors.push(`Retention time (${formatQuantity(retention.retentionTimeInMinutes, MINUTES)}) must exceed the backlog quota time (${formatQuantity(backlogQuota.limitTime, SECONDS)})`);
+    }
+  }
+  for (const key of ['dispatchRate', 'subscriptionDispatchRate'] as const) {
+    const rate = policies[key];
+    if (rate) {
+      whole(`${POLICY_LABELS[key]} messages`, rate.dispatchThrottlingRateInMsg, -1);
+      whole(`${POLICY_LABELS[key]} bytes`, rate.dispatchThrottlingRateInByte, -1);
+      whole(`${POLICY_LABELS[key]} period`, rate.ratePeriodInSecond, 1);
+    }
+  }
+  if (policies.publishRate) {
+    whole('Publish rate messages', policies.publishRate.publishThrottlingRateInMsg, -1);
+    whole('Publish rate bytes', policies.publishRate.publishThrottlingRateInByte, -1);
+  }
+  if (policies.subscribeRate) {
+    whole('Subscribe rate', policies.subscribeRate.subscribeThrottlingRatePerConsumer, -1);
+    whole('Subscribe rate period', policies.subscribeRate.ratePeriodInSecond, 1);
+  }
+  for (const key of ['maxProducersPerTopic', 'maxConsumersPerTopic', 'maxConsumersPerSubscription'] as const) {
+    if (policies[key] !== undefined) {
+      whole(POLICY_LABELS[key], policies[key]!, 0);
+    }
+  }
+  const autoCreation = policies.autoTopicCreation;
+  if (autoCreation?.allowAutoTopicCreation && autoCreation.topicType === 'partitioned') {
+    whole('Default partitions', autoCreation.defaultNumPartitions ?? NaN, 1);
+  }
+  return errors;
+};
+
+/**
+ * Namespace policies with an editor that previews the before/after values before applying
+ */
+export const NamespacePolicyEditor: React.FC<NamespacePolicyEditorProps> = ({ clusterId, namespace }) => {
+  const [loaded, setLoaded] = useState<NamespacePoliciesResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<NamespacePolicies | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [dialogError, setDialogError] = useState<string | null>(null);
+  const [failures, setFailures] = useState<NamespacePolicyUpdateResult['results']>([]);
+
+  useEffect(() => {
+    setDraft(null);
+    setFailures([]);
+    loadPolicies();
+  }, [clusterId, namespace]);
+
+  const loadPolicies = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await window.lightcurve.admin.getNamespacePolicies(clusterId, namespace);
+      if (response.success && response.data) {
+        setLoaded(response.data);
+      } else {
+        setError(response.error || 'Failed to load namespace policies');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setPolicy = <K extends NamespacePolicyKey>(key: K, value: NamespacePolicies[K]) => {
+    setDraft(prev => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const updatePolicy = <K extends NamespacePolicyKey>(key: K, changes: Partial<NonNullable<NamespacePolicies[K]>>) => {
+    setDraft(prev => (prev ? { ...prev, [key]: { ...(prev[key] as object), ...changes } } : prev));
+  };
+
+  const applyChanges = async () => {
+    if (!loaded || !draft) return;
+    setBusy(true);
+    setDialogError(null);
+    try {
+      const response = await window.lightcurve.admin.updateNamespacePolicies(clusterId, namespace, policyChanges(loaded.policies, draft));
+      if (!response.success || !response.data) {
+        setDialogError(response.error || 'Failed to update namespace policies');
+        return;
+      }
+      const failed = response.data.results.filter(result => result.error);
+      setFailures(failed);
+      setConfirming(false);
+      await loadPolicies();
+      // Keep editing after a failure so the rejected values can be corrected
+      if (failed.length === 0) {
+        setDraft(null);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderEditor = (key: NamespacePolicyKey, policies: NamespacePolicies) => {
+    switch (key) {
+      case 'retention':
+        return <RetentionFields value={policies.retention!} onChange={(retention) => setPolicy('retention', retention)} />;
+      case 'messageTtlSeconds':
+        return (
+          <PolicyField label="Expire after (0 disables)">
+            <QuantityInput value={policies.messageTtlSeconds!} units={SECONDS} onChange={(ttl) => setPolicy('messageTtlSeconds', ttl)} />
+          </PolicyField>
+        );
+      case 'backlogQuota':
+        return <BacklogQuotaFields value={policies.backlogQuota!} onChange={(quota) => setPolicy('backlogQuota', quota)} />;
+      case 'deduplicationEnabled':
+        return (
+          <PolicyField label="Deduplication">
+            <select
+              value={policies.deduplicationEnabled ? 'enabled' : 'disabled'}
+              onChange={(e) => setPolicy('deduplicationEnabled', e.target.value === 'enabled')}
+            >
+              <option value="enabled">Enabled</option>
+              <option value="disabled">Disabled</option>
+            </select>
+          </PolicyField>
+        );
+      case 'dispatchRate':
+      case 'subscriptionDispatchRate':
+        return <DispatchRateFields value={policies[key]!} onChange={(rate) => setPolicy(key, rate)} />;
+      case 'publishRate':
+        return <PublishRateFields value={policies.publishRate!} onChange={(rate) => setPolicy('publishRate', rate)} />;
+      case 'subscribeRate':
+        return (
+          <>
+            <PolicyField label="Subscribes per consumer (-1 unlimited)">
+              <input
+                type="number"
+                value={policies.subscribeRate!.subscribeThrottlingRatePerConsumer}
+                onChange={(e) => updatePolicy('subscribeRate', { subscribeThrottlingRatePerConsumer: Number(e.target.value) })}
+              />
+            </PolicyField>
+            <PolicyField label="Per">
+              <QuantityInput
+                value={policies.subscribeRate!.ratePeriodInSecond}
+                units={SECONDS}
+                onChange={(ratePeriodInSecond) => updatePolicy('subscribeRate', { ratePeriodInSecond })}
+              />
+            </PolicyField>
+          </>
+        );
+      case 'maxProducersPerTopic':
+      case 'maxConsumersPerTopic':
+      case 'maxConsumersPerSubscription':
+        return (
+          <PolicyField label="Limit (0 unlimited)">
+            <input
+              type="number"
+              min={0}
+              value={policies[key]!}
+              onChange={(e) => setPolicy(key, Number(e.target.value))}
+            />
+          </PolicyField>
+        );
+      case 'schemaCompatibilityStrategy':
+        return (
+          <PolicyField label="Strategy">
+            <select
+              value={policies.schemaCompatibilityStrategy}
+              onChange={(e) => setPolicy('schemaCompatibilityStrategy', e.target.value as SchemaCompatibilityStrategy)}
+            >
+              {SCHEMA_STRATEGIES.map(strategy => <option key={strategy} value={strategy}>{strategy}</option>)}
+            </select>
+          </PolicyField>
+        );
+      case 'autoTopicCreation': {
+        const autoCreation = policies.autoTopicCreation!;
+        return (
+          <>
+            <PolicyField label="Auto-create topics">
+              <select
+                value={autoCreation.allowAutoTopicCreation ? 'allow' : 'deny'}
+                onChange={(e) => updatePolicy('autoTopicCreation', { allowAutoTopicCreation: e.target.value === 'allow' })}
+              >
+                <option value="allow">Allowed</option>
+                <option value="deny">Not allowed</option>
+              </select>
+            </PolicyField>
+            {autoCreation.allowAutoTopicCreation && (
+              <PolicyField label="Topic type">
+                <select
+                  value={autoCreation.topicType}
+                  onChange={(e) => {
+                    const topicType = e.target.value as 'partitioned' | 'non-partitioned';
+                    setPolicy('autoTopicCreation', topicType === 'partitioned'
+                      ? { ...autoCreation, topicType, defaultNumPartitions: autoCreation.defaultNumPartitions || 1 }
+                      : { allowAutoTopicCreation: true, topicType });
+                  }}
+                >
+                  <option value="non-partitioned">Non-partitioned</option>
+                  <option value="partitioned">Partitioned</option>
+                </select>
+              </PolicyField>
+            )}
+            {autoCreation.allowAutoTopicCreation && autoCreation.topicType === 'partitioned' && (
+              <PolicyField label="Default partitions">
+                <input
+                  type="number"
+                  min={1}
+                  value={autoCreation.defaultNumPartitions ?? ''}
+                  onChange={(e) => updatePolicy('autoTopicCreation', { defaultNumPartitions: Number(e.target.value) })}
+                />
+              </PolicyField>
+            )}
+          </>
+        );
+      }
+    }
+  };
+
+  if (loading && !loaded) {
+    return <p className="details-description">Loading policies...</p>;
+  }
+  if (!loaded) {
+    return (
+      <>
+        {error && <div className="ns-policy-error">{error}</div>}
+        <button className="subscription-action" onClick={loadPolicies}>Retry</button>
+      </>
+    );
+  }
+
+  const unsupported = new Set(loaded.unsupported);
+  const changes = draft ? policyChanges(loaded.policies, draft) : {};
+  const changedKeys = POLICY_KEYS.filter(key => key in changes);
+  const validationErrors = draft ? validatePolicies(draft) : [];
+
+  return (
+    <div className="ns-policies">
+      {error && <div className="ns-policy-error">{error}</div>}
+      {failures.length > 0 && (
+        <div className="ns-policy-error">
+          {failures.map(failure => (
+            <div key={failure.policy}>{POLICY_LABELS[failure.policy]}: {failure.error}</div>
+          ))}
+        </div>
+      )}
+
+      {!draft ? (
+        <>
+          <table className="ns-policy-table">
+            <tbody>
+              {POLICY_KEYS.map(key => (
+                <tr key={key} className={loaded.policies[key] === undefined ? 'ns-policy-default' : undefined}>
+                  <td className="ns-policy-label">{POLICY_LABELS[key]}</td>
+                  <td>{unsupported.has(key) ? 'not supported by this broker' : describePolicy(key, loaded.policies)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="details-actions">
+            <button className="action-button" onClick={() => { setFailures([]); setDraft({ ...loaded.policies }); }}>
+              Edit Policies
+            </button>
+            <button className="subscription-action" onClick={loadPolicies} disabled={loading}>
+              {loading ? 'Refreshing...' : 'Refresh'}
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          {POLICY_KEYS.filter(key => !unsupported.has(key)).map(key => {
+            const isSet = draft[key] !== undefined;
+            return (
+              <div key={key} className={`ns-policy-row ${key in changes ? 'changed' : ''}`}>
+                <label className="modal-checkbox ns-policy-toggle">
+                  <input
+                    type="checkbox"
+                    checked={isSet}
+                    onChange={(e) => setPolicy(key, e.target.checked ? (loaded.policies[key] ?? DEFAULTS[key]) : undefined)}
+                  />
+                  {POLICY_LABELS[key]}
+                  {!isSet && <span className="ns-policy-hint">broker default</span>}
+                </label>
+                {isSet && <div className="ns-policy-inputs">{renderEditor(key, draft)}</div>}
+              </div>
+            );
+          })}
+
+          {validationErrors.length > 0 && (
+            <ul className="ns-policy-validation">
+              {validationErrors.map((message, index) => <li key={index}>{message}</li>)}
+            </ul>
+          )}
+
+          <div className="details-actions">
+            <button
+              className="action-button primary"
+              onClick={() => { setDialogError(null); setConfirming(true); }}
+              disabled={changedKeys.length === 0 || validationErrors.length > 0}
+            >
+              Review {changedKeys.length} {changedKeys.length === 1 ? 'Change' : 'Changes'}
+            </button>
+            <button className="action-button" onClick={() => { setDraft(null); setFailures([]); }}>Cancel</button>
+          </div>
+        </>
+      )}
+
+      {confirming && draft && (
+        <ModalDialog
+          title={`Update policies of ${namespace}`}
+          confirmLabel={busy ? 'Applying...' : 'Apply'}
+          busy={busy}
+          error={dialogError}
+          onConfirm={applyChanges}
+          onCancel={() => setConfirming(false)}
+        >
+          <table className="ns-policy-diff">
+            <thead>
+              <tr>
+                <th>Policy</th>
+                <th>Before</th>
+                <th>After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changedKeys.map(key => (
+                <tr key={key}>
+                  <td className="ns-policy-label">{POLICY_LABELS[key]}</td>
+                  <td className="ns-policy-before">{describePolicy(key, loaded.policies)}</td>
+                  <td className="ns-policy-after">{describePolicy(key, draft)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="modal-hint">Changes apply to every topic in the namespace that does not override them.</p>
+        </ModalDialog>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React, { useState, useEffect } from 'react';
+import type { DeviceCodePrompt, OAuthFlow } from '../shared/types';
+import './OAuthLoginPrompt.css';
+
+interface OAuthLoginPromptProps {
+  flow: OAuthFlow;
+  onCancel: () => void;
+}
+
+/**
+ * Tells the user how to finish an interactive login that is in progress
+ */
+export const OAuthLoginPrompt: React.FC<OAuthLoginPromptProps> = ({ flow, onCancel }) => {
+  const [prompt, setPrompt] = useState<DeviceCodePrompt | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    return window.lightcurve.oauth.onDeviceCode(setPrompt);
+  }, []);
+
+  const copyCode = async () => {
+    if (!prompt) return;
+    await navigator.clipboard.writeText(prompt.userCode);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="oauth-login-prompt">
+      {flow === 'device_code' ? (
+        prompt ? (
+          <>
+            <div className="oauth-login-title">Enter this code to log in</div>
+            <button className="oauth-login-code" onClick={copyCode} title="Copy code">
+              {prompt.userCode}
+            </button>
+            <div className="oauth-login-hint">
+              {copied ? 'Copied' : 'Click the code to copy it'} · open{' '}
+              <a href={prompt.verificationUriComplete || prompt.verificationUri} target="_blank" rel="noreferrer">
+                {prompt.verificationUri}
+              </a>{' '}
+              on any device. The code expires at {new Date(prompt.expiresAt).toLocaleTimeString()}.
+            </div>
+          </>
+        ) : (
+          <div className="oauth-login-title">Requesting a device code...</div>
+        )
+      ) : (
+        <>
+          <div className="oauth-login-title">Finish logging in in your browser</div>
+          <div className="oauth-login-hint">
+            A login page has opened in your default browser. LightCurve continues once you approve it.
+          </div>
+        </>
+      )}
+      <button className="oauth-login-cancel" onClick={onCancel}>
+        Cancel Login
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import type { OAuthSessionStatus } from '../shared/types';
+import { OAuthLoginPrompt } from './OAuthLoginPrompt';
+import './OAuthSessionIndicator.css';
+
+interface OAuthSessionIndicatorProps {
+  clusterId: string;
+}
+
+const formatExpiry = (expiresAt: number): string => {
+  const minutes = Math.round((expiresAt - Date.now()) / 60000);
+  if (minutes <= 0) return 'expired';
+  if (minutes < 60) return `${minutes}m left`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m left`;
+};
+
+/**
+ * Header badge for connections that use an interactive OAuth login
+ * Renders nothing for other auth types
+ */
+export const OAuthSessionIndicator: React.FC<OAuthSessionIndicatorProps> = ({ clusterId }) => {
+  const [status, setStatus] = useState<OAuthSessionStatus | null>(null);
+  const [loggingIn, setLoggingIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    window.lightcurve.oauth.getStatus(clusterId).then(response => {
+      if (response.success) {
+        setStatus(response.data ?? null);
+      }
+    });
+    const unsubscribe = window.lightcurve.oauth.onStatus((event) => {
+      if (event.clusterId === clusterId) {
+        setStatus(event.status);
+      }
+    });
+    // Keep the remaining time current
+    const timer = setInterval(() => setTick(t => t + 1), 30000);
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, [clusterId]);
+
+  if (!status) {
+    return null;
+  }
+
+  const handleLogin = async () => {
+    setLoggingIn(true);
+    setError(null);
+    try {
+      const response = await window.lightcurve.oauth.login(clusterId);
+      if (response.success && response.data) {
+        setStatus(response.data);
+      } else {
+        setError(response.error || 'Login failed');
+      }
+    } finally {
+      setLoggingIn(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    setError(null);
+    const response = await window.lightcurve.oauth.logout(clusterId);
+    if (!response.success) {
+      setError(response.error || 'Logout failed');
+    }
+  };
+
+  const expiry = status.expiresAt && !status.canRefresh ? ` · ${formatExpiry(status.expiresAt)}` : '';
+
+  return (
+    <div className="oauth-session">
+      <span
+        className={`oauth-session-status ${status.loggedIn ? 'logged-in' : 'logged-out'}`}
+        title={error || (status.loggedIn ? 'Requests use your own identity' : 'Log in to keep using this connection')}
+      >
+        <span className="oauth-session-dot" />
+        {status.loggedIn ? `${status.subject || 'Logged in'}${expiry}` : 'Logged out'}
+      </span>
+      {status.loggedIn ? (
+        <button className="oauth-session-button" onClick={handleLogout}>
+          Log out
+        </button>
+      ) : (
+        <button className="oauth-session-button" onClick={handleLogin} disabled={loggingIn}>
+          {loggingIn ? 'Logging in...' : 'Log in'}
+        </button>
+      )}
+      {loggingIn && (
+        <div className="oauth-session-popover">
+          <OAuthLoginPrompt flow={status.flow} onCancel={() => window.lightcurve.oauth.cancelLogin()} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import type { PartitionedTopicStats, TopicStats } from '../shared/types';
+import './PartitionStatsTable.css';
+
+interface PartitionStatsTableProps {
+  stats: PartitionedTopicStats;
+  onBrowse: (partition: string) => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes <= 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(sizes.length - 1, Math.floor(Math.log(bytes) / Math.log(k)));
+  return `${(bytes / Math.pow(k, i)).toFixed(i === 0 ? 0 : 1)} ${sizes[i]}`;
+};
+
+const formatRate = (rate: number): string => rate.toFixed(rate >= 100 ? 0 : 2);
+
+const partitionIndex = (partition: string): number => Number(partition.match(/-partition-(\d+)$/)?.[1] ?? -1);
+
+const backlogOf = (stats: TopicStats): number =>
+  Object.values(stats.subscriptions || {}).reduce((total, sub) => total + (sub.msgBacklog || 0), 0);
+
+/**
+ * Per-partition breakdown of a partitioned topic's stats
+ * Rows whose backlog is well above the partition average are flagged, since skew usually points at a hot key
+ */
+export const PartitionStatsTable: React.FC<PartitionStatsTableProps> = ({ stats, onBrowse }) => {
+  const partitions = Object.entries(stats.partitions).sort(([a], [b]) => partitionIndex(a) - partitionIndex(b));
+  const backlogs = partitions.map(([, partitionStats]) => backlogOf(partitionStats));
+  const averageBacklog = backlogs.reduce((total, backlog) => total + backlog, 0) / (backlogs.length || 1);
+
+  return (
+    <div className="details-section">
+      <h3>Partitions ({stats.metadata.partitions})</h3>
+      {partitions.length === 0 ? (
+        <p className="details-description">The broker reported no per-partition stats.</p>
+      ) : (
+        <div className="partition-stats-scroll">
+          <table className="partition-stats-table">
+            <thead>
+              <tr>
+                <th>Partition</th>
+                <th>Rate In</th>
+                <th>Rate Out</th>
+                <th>Throughput In</th>
+                <th>Throughput Out</th>
+                <th>Backlog</th>
+                <th>Storage</th>
+                <th>Producers</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {partitions.map(([partition, partitionStats], index) => (
+                <tr key={partition} className={backlogs[index] > 0 && backlogs[index] > averageBacklog * 2 ? 'partition-stats-skewed' : undefined}>
+                  <td>{partitionIndex(partition)}</td>
+                  <td>{formatRate(partitionStats.msgRateIn)} msg/s</td>
+                  <td>{formatRate(partitionStats.msgRateOut)} msg/s</td>
+                  <td>{formatBytes(partitionStats.msgThroughputIn)}/s</td>
+                  <td>{formatBytes(partitionStats.msgThroughputOut)}/s</td>
+                  <td>{backlogs[index].toLocaleString()}</td>
+                  <td>{formatBytes(partitionStats.storageSize)}</td>
+                  <td>{partitionStats.publishers?.length || 0}</td>
+                  <td>
+                    <button className="subscription-action" onClick={() => onBrowse(partition)}>
+                      📖 Browse
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
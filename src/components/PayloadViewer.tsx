@@ -0,0 +1,136 @@
+import React, { useState, useMemo } from 'react';
+import type { PayloadEncoding } from '../shared/types';
+import { JsonHighlighter } from './JsonHighlighter';
+import './PayloadViewer.css';
+
+type PayloadViewMode = 'text' | 'json' | 'hex' | 'base64';
+
+interface PayloadViewerProps {
+  data: string;
+  encoding: PayloadEncoding;
+  size: number;
+  decoded?: string; // Schema-decoded rendering, preferred for the Text and JSON modes
+}
+
+const HEX_BYTES_PER_LINE = 16;
+// Cap the hex dump so a multi-megabyte payload doesn't stall rendering
+const HEX_DUMP_MAX_BYTES = 64 * 1024;
+
+const toBytes = (data: string, encoding: PayloadEncoding): Uint8Array => {
+  if (encoding === 'base64') {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+  return new TextEncoder().encode(data);
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+/**
+ * Classic offset / hex / ASCII dump, 16 bytes per line
+ */
+const hexDump = (bytes: Uint8Array): string => {
+  const lines: string[] = [];
+  const length = Math.min(bytes.length, HEX_DUMP_MAX_BYTES);
+  for (let offset = 0; offset < length; offset += HEX_BYTES_PER_LINE) {
+    const chunk = bytes.subarray(offset, Math.min(offset + HEX_BYTES_PER_LINE, length));
+    const hex = Array.from(chunk, b => b.toString(16).padStart(2, '0')).join(' ');
+    const ascii = Array.from(chunk, b => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.')).join('');
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(HEX_BYTES_PER_LINE * 3 - 1)}  ${ascii}`);
+  }
+  if (bytes.length > length) {
+    lines.push(`... ${bytes.length - length} more bytes`);
+  }
+  return lines.join('\n');
+};
+
+const formatJson = (text: string): string | null => {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return null;
+  }
+};
+
+const formatByteSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Payload inspector with Text, JSON, Hex dump and Base64 views
+ */
+export const PayloadViewer: React.FC<PayloadViewerProps> = ({ data, encoding, size, decoded }) => {
+  const text = useMemo(() => {
+    if (decoded !== undefined) return decoded;
+    if (encoding === 'utf-8') return data;
+    // Binary payload: show what a UTF-8 reading would look like, with replacement characters
+    return new TextDecoder('utf-8').decode(toBytes(data, encoding));
+  }, [data, encoding, decoded]);
+
+  const json = useMemo(() => formatJson(text), [text]);
+
+  const [mode, setMode] = useState<PayloadViewMode>(() => {
+    if (json !== null) return 'json';
+    return encoding === 'base64' && decoded === undefined ? 'hex' : 'text';
+  });
+
+  const rendered = useMemo(() => {
+    switch (mode) {
+      case 'hex':
+        return hexDump(toBytes(data, encoding));
+      case 'base64':
+        return encoding === 'base64' ? data : toBase64(toBytes(data, encoding));
+      default:
+        return text;
+    }
+  }, [mode, data, encoding, text]);
+
+  const modes: Array<{ id: PayloadViewMode; label: string }> = [
+    { id: 'text', label: 'Text' },
+    { id: 'json', label: 'JSON' },
+    { id: 'hex', label: 'Hex' },
+    { id: 'base64', label: 'Base64' },
+  ];
+
+  return (
+    <div className="payload-viewer">
+      <div className="payload-viewer-toolbar">
+        <div className="payload-view-modes">
+          {modes.map(m => (
+            <button
+              key={m.id}
+              className={`payload-view-mode ${mode === m.id ? 'active' : ''}`}
+              onClick={() => setMode(m.id)}
+              disabled={m.id === 'json' && json === null}
+              title={m.id === 'json' && json === null ? 'Payload is not valid JSON' : undefined}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+        <span className="payload-size" title={`${size} bytes`}>
+          {formatByteSize(size)}{encoding === 'base64' ? ' · binary' : ''}
+        </span>
+      </div>
+      <div className="payload-viewer-body">
+        {mode === 'json' && json !== null ? (
+          <JsonHighlighter json={json} />
+        ) : (
+          <pre className={mode === 'hex' || mode === 'base64' ? 'payload-raw' : ''}>{rendered}</pre>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,271 @@
+import React, { useState, useEffect } from 'react';
+import type { PermissionChanges, PermissionTarget, PermissionsResult, PermissionUpdateResult } from '../shared/types';
+import { ModalDialog } from './ModalDialog';
+import './PermissionsGrid.css';
+
+interface PermissionsGridProps {
+  clusterId: string;
+  target: PermissionTarget;
+  name: string; // tenant/namespace or full topic name
+}
+
+// Topics only take produce and consume; the rest are namespace-wide
+const ACTIONS: Record<PermissionTarget, string[]> = {
+  namespace: ['produce', 'consume', 'functions', 'sources', 'sinks', 'packages'],
+  topic: ['produce', 'consume'],
+};
+
+type Draft = Record<string, string[]>;
+
+const toDraft = (result: PermissionsResult): Draft =>
+  Object.fromEntries(result.grants.map(grant => [grant.role, grant.actions]));
+
+const sameActions = (a: string[], b: string[]) =>
+  a.length === b.length && a.every(action => b.includes(action));
+
+const describeActions = (actions: string[]) => (actions.length > 0 ? [...actions].sort().join(', ') : 'none');
+
+const permissionChanges = (loaded: PermissionsResult, draft: Draft): PermissionChanges => {
+  const before = toDraft(loaded);
+  const changes: PermissionChanges = {};
+  for (const [role, actions] of Object.entries(draft)) {
+    if (!sameActions(before[role] || [], actions)) {
+      changes[role] = [...actions].sort();
+    }
+  }
+  return changes;
+};
+
+/**
+ * Grid of roles and the actions granted to them, edited in place and applied after a before/after review
+ */
+export const PermissionsGrid: React.FC<PermissionsGridProps> = ({ clusterId, target, name }) => {
+  const [loaded, setLoaded] = useState<PermissionsResult | null>(null);
+  const [draft, setDraft] = useState<Draft>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [newRole, setNewRole] = useState('');
+  const [confirming, setConfirming] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [dialogError, setDialogError] = useState<string | null>(null);
+  const [failures, setFailures] = useState<PermissionUpdateResult['results']>([]);
+
+  useEffect(() => {
+    setLoaded(null);
+    setDraft({});
+    setFailures([]);
+    loadPermissions();
+  }, [clusterId, target, name]);
+
+  const loadPermissions = async (keep: Draft = {}) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await window.lightcurve.admin.getPermissions(clusterId, target, name);
+      if (response.success && response.data) {
+        setLoaded(response.data);
+        setDraft({ ...toDraft(response.data), ...keep });
+      } else {
+        setError(response.error || 'Failed to load permissions');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleAction = (role: string, action: string, granted: boolean) => {
+    setDraft(prev => {
+      const current = prev[role] || [];
+      return { ...prev, [role]: granted ? [...current, action] : current.filter(a => a !== action) };
+    });
+  };
+
+  const addRole = () => {
+    const role = newRole.trim();
+    if (!role) return;
+    setDraft(prev => (role in prev ? prev : { ...prev, [role]: [] }));
+    setSearch('');
+    setNewRole('');
+  };
+
+  const applyChanges = async () => {
+    if (!loaded) return;
+    setBusy(true);
+    setDialogError(null);
+    try {
+      const response = await window.lightcurve.admin.updatePermissions(clusterId, target, name, permissionChanges(loaded, draft));
+      if (!response.success || !response.data) {
+        setDialogError(response.error || 'Failed to update permissions');
+        return;
+      }
+      const failed = response.data.results.filter(result => result.error);
+      setFailures(failed);
+      setConfirming(false);
+      // Keep the rejected changes in the grid so they can be corrected or retried
+      await loadPermissions(Object.fromEntries(failed.map(failure => [failure.role, draft[failure.role]])));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading && !loaded) {
+    return <p className="details-description">Loading permissions...</p>;
+  }
+
+  if (!loaded) {
+    return (
+      <>
+        {error && <div className="permissions-error">{error}</div>}
+        <button className="subscription-action" onClick={() => loadPermissions()}>Retry</button>
+      </>
+    );
+  }
+
+  const inherited = Object.fromEntries(loaded.grants.map(grant => [grant.role, grant.inherited]));
+  // Actions the broker reports outside the usual set still get a column, so they are never dropped silently
+  const actions = Array.from(new Set([...ACTIONS[target], ...Object.values(draft).flat()]));
+  const changes = permissionChanges(loaded, draft);
+  const changedRoles = Object.keys(changes).sort();
+  const query = search.trim().toLowerCase();
+  const roles = Array.from(new Set([...loaded.grants.map(grant => grant.role), ...Object.keys(draft)]))
+    .sort()
+    .filter(role => !query || role.toLowerCase().includes(query));
+
+  return (
+    <div className="permissions">
+      {error && <div className="permissions-error">{error}</div>}
+      {failures.length > 0 && (
+        <div className="permissions-error">
+          {failures.map(failure => (
+            <div key={failure.role}>{failure.role}: {failure.error}</div>
+          ))}
+        </div>
+      )}
+
+      <div className="permissions-toolbar">
+        <input
+          type="text"
+          className="permissions-search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search roles..."
+        />
+        <input
+          type="text"
+          value={newRole}
+          onChange={(e) => setNewRole(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') addRole(); }}
+          placeholder="Role to grant"
+        />
+        <button className="subscription-action" onClick={addRole} disabled={!newRole.trim()}>
+          Add Role
+        </button>
+      </div>
+
+      {roles.length === 0 ? (
+        <p className="details-description">
+          {query ? `No roles match "${search.trim()}"` : `No roles are granted on this ${target}`}
+        </p>
+      ) : (
+        <table className="permissions-table">
+          <thead>
+            <tr>
+              <th>Role</th>
+              {actions.map(action => <th key={action} className="permissions-action">{action}</th>)}
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {roles.map(role => {
+              const granted = draft[role] || [];
+              return (
+                <tr key={role} className={role in changes ? 'changed' : undefined}>
+                  <td className="permissions-role">{role}</td>
+                  {actions.map(action => {
+                    const fromNamespace = (inherited[role] || []).includes(action);
+                    return (
+                      <td key={action} className="permissions-action">
+                        <input
+                          type="checkbox"
+                          checked={granted.includes(action)}
+                          onChange={(e) => toggleAction(role, action, e.target.checked)}
+                        />
+                        {fromNamespace && (
+                          <span className="permissions-inherited" title="Granted on the namespace; revoke it there">ns</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td className="permissions-row-actions">
+                    {granted.length > 0 && (
+                      <button className="subscription-action danger" onClick={() => setDraft(prev => ({ ...prev, [role]: [] }))}>
+                        Revoke
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {target === 'topic' && (
+        <p className="details-description">
+          Checkboxes are grants on this topic. <span className="permissions-inherited">ns</span> marks actions the role already has through the namespace.
+        </p>
+      )}
+
+      <div className="details-actions">
+        <button
+          className="action-button primary"
+          onClick={() => { setDialogError(null); setConfirming(true); }}
+          disabled={changedRoles.length === 0}
+        >
+          Review {changedRoles.length} {changedRoles.length === 1 ? 'Change' : 'Changes'}
+        </button>
+        <button className="action-button" onClick={() => { setDraft(toDraft(loaded)); setFailures([]); }} disabled={changedRoles.length === 0}>
+          Discard
+        </button>
+        <button className="subscription-action" onClick={() => loadPermissions()} disabled={loading}>
+          {loading ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      {confirming && (
+        <ModalDialog
+          title={`Update permissions on ${name}`}
+          confirmLabel={busy ? 'Applying...' : 'Apply'}
+          busy={busy}
+          error={dialogError}
+          onConfirm={applyChanges}
+          onCancel={() => setConfirming(false)}
+        >
+          <table className="permissions-diff">
+            <thead>
+              <tr>
+                <th>Role</th>
+                <th>Before</th>
+                <th>After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changedRoles.map(role => (
+                <tr key={role}>
+                  <td className="permissions-role">{role}</td>
+                  <td className="permissions-before">{describeActions(toDraft(loaded)[role] || [])}</td>
+                  <td className="permissions-after">{changes[role].length > 0 ? describeActions(changes[role]) : 'revoked'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="modal-hint">
+            Each role's actions on the {target} are replaced with the After column.
+            {target === 'topic' && ' Grants on the namespace are not changed.'}
+          </p>
+        </ModalDialog>
+      )}
+    </div>
+  );
+};
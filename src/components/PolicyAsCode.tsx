@@ -0,0 +1,342 @@
+import React, { useState } from 'react';
+import type {
+  ConnectedCluster,
+  PolicyApplyResult,
+  PolicyChange,
+  PolicyDocumentFormat,
+  PolicyPlan,
+  PolicyResourceKind,
+} from '../shared/types';
+import { EnvironmentBadge } from './EnvironmentBadge';
+import { ModalDialog } from './ModalDialog';
+import './PolicyAsCode.css';
+
+interface PolicyAsCodeProps {
+  clusters: ConnectedCluster[];
+  initialClusterId: string;
+  initialScope?: string; // Tenant or tenant/namespace selected in the explorer
+  onClose: () => void;
+}
+
+const RESOURCE_LABELS: Record<PolicyResourceKind, string> = {
+  namespace: 'Namespace',
+  retention: 'Retention',
+  messageTtl: 'Message TTL',
+  backlogQuota: 'Backlog quota',
+  permission: 'Permission',
+  topic: 'Topic',
+  partitions: 'Partitions',
+  subscription: 'Subscription',
+  schema: 'Schema',
+};
+
+const CHANGE_SYMBOLS: Record<PolicyChange['change'], string> = {
+  create: '+',
+  update: '~',
+  delete: '−',
+};
+
+const changeStatus = (result: PolicyApplyResult | null, index: number): string | null => {
+  if (!result) {
+    return null;
+  }
+  if (index < result.applied) {
+    return 'applied';
+  }
+  return result.failed?.index === index ? 'failed' : 'skipped';
+};
+
+/**
+ * Export a tenant or namespace to a YAML/JSON document and apply such a document to a cluster
+ */
+export const PolicyAsCode: React.FC<PolicyAsCodeProps> = ({ clusters, initialClusterId, initialScope, onClose }) => {
+  const [exportClusterId, setExportClusterId] = useState(initialClusterId);
+  const [scope, setScope] = useState(initialScope || '');
+  const [format, setFormat] = useState<PolicyDocumentFormat>('yaml');
+  const [exporting, setExporting] = useState(false);
+  const [exportMessage, setExportMessage] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const [targetClusterId, setTargetClusterId] = useState(initialClusterId);
+  const [filePath, setFilePath] = useState<string | null>(null);
+  const [prune, setPrune] = useState(false);
+  const [planning, setPlanning] = useState(false);
+  const [plan, setPlan] = useState<PolicyPlan | null>(null);
+  const [planError, setPlanError] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [applyError, setApplyError] = useState<string | null>(null);
+  const [applyResult, setApplyResult] = useState<PolicyApplyResult | null>(null);
+
+  const clusterById = (clusterId: string) => clusters.find(cluster => cluster.clusterId === clusterId);
+  const clusterLabel = (clusterId: string) => {
+    const cluster = clusterById(clusterId);
+    return cluster ? cluster.name || cluster.adminUrl : clusterId;
+  };
+  const targetCluster = clusterById(targetClusterId);
+
+  const resetPlan = () => {
+    setPlan(null);
+    setPlanError(null);
+    setApplyResult(null);
+  };
+
+  const runExport = async () => {
+    setExporting(true);
+    setExportMessage(null);
+    setExportError(null);
+    try {
+      const response = await window.lightcurve.policy.export(exportClusterId, { scope: scope.trim(), format });
+      if (!response.success) {
+        setExportError(response.error || 'Failed to export configuration');
+      } else if (response.data) {
+        const { filePath: savedPath, namespaces, topics } = response.data;
+        setExportMessage(`Exported ${namespaces} namespaces and ${topics} topics to ${savedPath}`);
+      }
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const chooseFile = async () => {
+    const response = await window.lightcurve.policy.chooseDocument();
+    if (response.success && response.data) {
+      setFilePath(response.data);
+      resetPlan();
+    } else if (!response.success) {
+      setPlanError(response.error || 'Failed to choose file');
+    }
+  };
+
+  const runPlan = async () => {
+    if (!filePath) {
+      return;
+    }
+    setPlanning(true);
+    resetPlan();
+    try {
+      const response = await window.lightcurve.policy.plan(targetClusterId, { filePath, prune });
+      if (response.success && response.data) {
+        setPlan(response.data);
+      } else {
+        setPlanError(response.error || 'Failed to plan configuration');
+      }
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  const runApply = async () => {
+    if (!plan) {
+      return;
+    }
+    setApplying(true);
+    setApplyError(null);
+    try {
+      const response = await window.lightcurve.policy.apply(plan);
+      if (response.success && response.data) {
+        setApplyResult(response.data);
+        setConfirming(false);
+      } else {
+        setApplyError(response.error || 'Failed to apply configuration');
+      }
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const counts = (plan?.changes || []).reduce<Record<PolicyChange['change'], number>>(
+    (totals, change) => ({ ...totals, [change.change]: totals[change.change] + 1 }),
+    { create: 0, update: 0, delete: 0 }
+  );
+
+  return (
+    <div className="details-panel">
+      <div className="details-header">
+        <div className="details-icon">{'{ }'}</div>
+        <div className="details-title">
+          <span className="details-type">Configuration as Code</span>
+          <h2>Export and apply</h2>
+        </div>
+        <button className="action-button" onClick={onClose}>Close</button>
+      </div>
+
+      <div className="details-content">
+        <div className="details-section">
+          <h3>Export</h3>
+          <p className="details-description">
+            Writes namespaces, persistent topics with their partitions and subscriptions, retention, TTL and
+            backlog quota policies, schemas and permissions to a document you can keep under version control.
+          </p>
+          <div className="policy-form">
+            <div className="policy-field">
+              <label>Cluster</label>
+              <div className="policy-cluster">
+                <select value={exportClusterId} onChange={(e) => setExportClusterId(e.target.value)}>
+                  {clusters.map(cluster => (
+                    <option key={cluster.clusterId} value={cluster.clusterId}>{cluster.name || cluster.adminUrl}</option>
+                  ))}
+                </select>
+                <EnvironmentBadge environment={clusterById(exportClusterId)?.environment} />
+              </div>
+            </div>
+            <div className="policy-field">
+              <label>Tenant or namespace</label>
+              <input
+                type="text"
+                value={scope}
+                onChange={(e) => setScope(e.target.value)}
+                placeholder="tenant or tenant/namespace"
+              />
+            </div>
+            <div className="policy-field policy-format">
+              <label>Format</label>
+              <select value={format} onChange={(e) => setFormat(e.target.value as PolicyDocumentFormat)}>
+                <option value="yaml">YAML</option>
+                <option value="json">JSON</option>
+              </select>
+            </div>
+          </div>
+          <div className="details-actions">
+            <button className="action-button primary" onClick={runExport} disabled={exporting || !scope.trim()}>
+              {exporting ? 'Exporting...' : 'Export...'}
+            </button>
+          </div>
+          {exportMessage && <div className="policy-success">{exportMessage}</div>}
+          {exportError && <div className="policy-error">{exportError}</div>}
+        </div>
+
+        <div className="details-section">
+          <h3>Apply</h3>
+          <p className="details-description">
+            Compares a document with a cluster and lists the changes before anything runs. Policies, lists and
+            grants the document leaves out are not touched.
+          </p>
+          <div className="policy-form">
+            <div className="policy-field">
+              <label>Target cluster</label>
+              <div className="policy-cluster">
+                <select value={targetClusterId} onChange={(e) => { setTargetClusterId(e.target.value); resetPlan(); }}>
+                  {clusters.map(cluster => (
+                    <option key={cluster.clusterId} value={cluster.clusterId}>{cluster.name || cluster.adminUrl}</option>
+                  ))}
+                </select>
+                <EnvironmentBadge environment={targetCluster?.environment} />
+              </div>
+            </div>
+            <div className="policy-field">
+              <label>Document</label>
+              <div className="policy-file">
+                <span className="policy-file-path" title={filePath || undefined}>{filePath || 'No file chosen'}</span>
+                <button className="subscription-action" onClick={chooseFile}>Choose...</button>
+              </div>
+            </div>
+          </div>
+          <label className="modal-checkbox">
+            <input type="checkbox" checked={prune} onChange={(e) => { setPrune(e.target.checked); resetPlan(); }} />
+            Delete namespaces, topics, subscriptions and grants the document does not declare
+          </label>
+          <div className="details-actions">
+            <button className="action-button primary" onClick={runPlan} disabled={planning || !filePath}>
+              {planning ? 'Planning...' : plan ? 'Plan again' : 'Plan'}
+            </button>
+          </div>
+          {planError && <div className="policy-error">{planError}</div>}
+        </div>
+
+        {plan && (
+          <div className="details-section">
+            <h3>
+              {plan.changes.length === 0
+                ? `${clusterLabel(plan.clusterId)} already matches the document`
+                : `Plan for ${clusterLabel(plan.clusterId)}: ${counts.create} to create, ${counts.update} to update, ${counts.delete} to delete`}
+            </h3>
+
+            {plan.warnings.length > 0 && (
+              <ul className="policy-warnings">
+                {plan.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+              </ul>
+            )}
+
+            {plan.changes.length > 0 && (
+              <table className="policy-plan-table">
+                <thead>
+                  <tr>
+                    <th></th>
+                    <th>Resource</th>
+                    <th>Name</th>
+                    <th>Current</th>
+                    <th>Document</th>
+                    {applyResult && <th>Status</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.changes.map((change, index) => {
+                    const status = changeStatus(applyResult, index);
+                    return (
+                      <tr key={index} className={change.change}>
+                        <td className="policy-change-symbol">{CHANGE_SYMBOLS[change.change]}</td>
+                        <td className="policy-resource">{RESOURCE_LABELS[change.resource]}</td>
+                        <td className="policy-path">
+                          {change.path}
+                          {change.name && <span className="policy-name">{change.name}</span>}
+                        </td>
+                        <td className="policy-value">{change.from ?? (change.change === 'create' ? 'not set' : '')}</td>
+                        <td className="policy-value">{change.change === 'delete' ? 'deleted' : change.to ?? ''}</td>
+                        {applyResult && <td className={`policy-status ${status}`}>{status}</td>}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+
+            {applyResult && (
+              applyResult.failed ? (
+                <div className="policy-error">
+                  Applied {applyResult.applied} of {plan.changes.length} changes, then stopped:{' '}
+                  {applyResult.failed.error}. Fix the cause and plan again to continue.
+                </div>
+              ) : (
+                <div className="policy-success">Applied all {applyResult.applied} changes.</div>
+              )
+            )}
+
+            {plan.changes.length > 0 && !applyResult && (
+              <div className="details-actions">
+                <button className="action-button primary" onClick={() => { setApplyError(null); setConfirming(true); }}>
+                  Apply {plan.changes.length} changes
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {confirming && plan && (
+        <ModalDialog
+          title={`Apply configuration to ${clusterLabel(plan.clusterId)}`}
+          confirmLabel={applying ? 'Applying...' : 'Apply'}
+          danger={counts.delete > 0 || targetCluster?.environment === 'production'}
+          busy={applying}
+          error={applyError}
+          onConfirm={runApply}
+          onCancel={() => setConfirming(false)}
+        >
+          <p className="modal-hint">
+            {counts.create} creates, {counts.update} updates and {counts.delete} deletes will run in the order listed.
+            Applying stops at the first change that fails.
+          </p>
+          {targetCluster?.environment === 'production' && (
+            <p className="modal-hint">
+              <EnvironmentBadge environment="production" /> This is a production cluster.
+            </p>
+          )}
+          {counts.delete > 0 && (
+            <p className="modal-hint">Deleted topics lose their messages. This cannot be undone.</p>
+          )}
+        </ModalDialog>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import type { BacklogQuotaPolicy, DispatchRate, NamespacePolicies } from '../shared/types';
+import './PolicyFields.css';
+
+export type RetentionPolicy = NonNullable<NamespacePolicies['retention']>;
+export type BacklogQuota = NonNullable<NamespacePolicies['backlogQuota']>;
+export type PublishRate = NonNullable<NamespacePolicies['publishRate']>;
+
+export interface UnitOption {
+  label: string;
+  factor: number; // How many base units one of this unit is
+}
+
+export const MILLISECONDS: UnitOption[] = [
+  { label: 'ms', factor: 1 },
+  { label: 'seconds', factor: 1000 },
+  { label: 'minutes', factor: 60000 },
+];
+export const SECONDS: UnitOption[] = [
+  { label: 'seconds', factor: 1 },
+  { label: 'minutes', factor: 60 },
+  { label: 'hours', factor: 3600 },
+  { label: 'days', factor: 86400 },
+];
+export const MINUTES: UnitOption[] = [
+  { label: 'minutes', factor: 1 },
+  { label: 'hours', factor: 60 },
+  { label: 'days', factor: 1440 },
+];
+export const BYTES: UnitOption[] = [
+  { label: 'bytes', factor: 1 },
+  { label: 'KB', factor: 1024 },
+  { label: 'MB', factor: 1024 ** 2 },
+  { label: 'GB', factor: 1024 ** 3 },
+  { label: 'TB', factor: 1024 ** 4 },
+];
+export const MEGABYTES: UnitOption[] = [
+  { label: 'MB', factor: 1 },
+  { label: 'GB', factor: 1024 },
+  { label: 'TB', factor: 1024 ** 2 },
+];
+
+export const BACKLOG_QUOTA_POLICIES: Array<{ id: BacklogQuotaPolicy; label: string }> = [
+  { id: 'producer_request_hold', label: 'Hold producers' },
+  { id: 'producer_exception', label: 'Reject producers' },
+  { id: 'consumer_backlog_eviction', label: 'Evict oldest backlog' },
+];
+
+const bestUnit = (value: number, units: UnitOption[]): UnitOption =>
+  [...units].reverse().find(unit => value !== 0 && value % unit.factor === 0) || units[0];
+
+/**
+ * Format a quantity in the largest unit that divides it, with the base unit alongside when they differ
+ */
+export const formatQuantity = (value: number, units: UnitOption[], unlimited = -1): string => {
+  if (value === unlimited) {
+    return 'unlimited';
+  }
+  const unit = bestUnit(value, units);
+  const formatted = `${(value / unit.factor).toLocaleString()} ${unit.label}`;
+  return unit === units[0] ? formatted : `${formatted} (${value.toLocaleString()} ${units[0].label})`;
+};
+
+export const formatCount = (value: number, unlimited: number) => (value === unlimited ? 'unlimited' : value.toLocaleString());
+
+export const describeRetention = ({ retentionTimeInMinutes, retentionSizeInMB }: RetentionPolicy) =>
+  `${formatQuantity(retentionTimeInMinutes, MINUTES)}, ${formatQuantity(retentionSizeInMB, MEGABYTES)}`;
+
+export const describeBacklogQuota = ({ limitSize, limitTime, policy }: BacklogQuota) => {
+  const label = BACKLOG_QUOTA_POLICIES.find(p => p.id === policy)?.label || policy;
+  return `${formatQuantity(limitSize, BYTES)}, ${formatQuantity(limitTime, SECONDS)}, ${label.toLowerCase()}`;
+};
+
+export const describeDispatchRate = (rate: DispatchRate) =>
+  `${formatCount(rate.dispatchThrottlingRateInMsg, -1)} msgs and ${formatQuantity(rate.dispatchThrottlingRateInByte, BYTES)} per ${formatQuantity(rate.ratePeriodInSecond, SECONDS)}`;
+
+export const describePublishRate = (rate: PublishRate) =>
+  `${formatCount(rate.publishThrottlingRateInMsg, -1)} msgs and ${formatQuantity(rate.publishThrottlingRateInByte, BYTES)} per second`;
+
+/**
+ * Error for a value that must be a whole number of at least `min` (-1 meaning unlimited)
+ */
+export const wholeNumberError = (label: string, value: number, min: number): string | null =>
+  Number.isInteger(value) && value >= min
+    ? null
+    : `${label} must be a whole number${min === -1 ? ' (-1 for unlimited)' : ` of at least ${min}`}`;
+
+/**
+ * Number input with a unit picker; reports the value in the base unit (the first option)
+ */
+export const QuantityInput: React.FC<{
+  value: number;
+  units: UnitOption[];
+  unlimitedValue?: number; // Offer an "unlimited" checkbox that sets this value
+  onChange: (value: number) => void;
+}> = ({ value, units, unlimitedValue, onChange }) => {
+  const [unit, setUnit] = useState(() => bestUnit(value, units));
+  const [text, setText] = useState(() => String(value === unlimitedValue ? 0 : value / unit.factor));
+  const unlimited = unlimitedValue !== undefined && value === unlimitedValue;
+
+  const emit = (nextText: string, nextUnit: UnitOption) => {
+    const parsed = nextText.trim() === '' ? NaN : Number(nextText);
+    onChange(Number.isFinite(parsed) ? Math.round(parsed * nextUnit.factor) : NaN);
+  };
+
+  return (
+    <span className="policy-quantity">
+      <input
+        type="number"
+        min={0}
+        value={unlimited ? '' : text}
+        disabled={unlimited}
+        onChange={(e) => { setText(e.target.value); emit(e.target.value, unit); }}
+      />
+      <select
+        value={unit.label}
+        disabled={unlimited}
+        onChange={(e) => {
+          const nextUnit = units.find(u => u.label === e.target.value) || units[0];
+          setUnit(nextUnit);
+          emit(text, nextUnit);
+        }}
+      >
+        {units.map(u => <option key={u.label} value={u.label}>{u.label}</option>)}
+      </select>
+      {unlimitedValue !== undefined && (
+        <label className="policy-unlimited">
+          <input
+            type="checkbox"
+            checked={unlimited}
+            onChange={(e) => (e.target.checked ? onChange(unlimitedValue) : emit(text, unit))}
+          />
+          Unlimited
+        </label>
+      )}
+    </span>
+  );
+};
+
+export const PolicyField: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="policy-input-field">
+    <label>{label}</label>
+    {children}
+  </div>
+);
+
+export const RetentionFields: React.FC<{ value: RetentionPolicy; onChange: (value: RetentionPolicy) => void }> = ({ value, onChange }) => (
+  <>
+    <PolicyField label="Time">
+      <QuantityInput
+        value={value.retentionTimeInMinutes}
+        units={MINUTES}
+        unlimitedValue={-1}
+        onChange={(retentionTimeInMinutes) => onChange({ ...value, retentionTimeInMinutes })}
+      />
+    </PolicyField>
+    <PolicyField label="Size">
+      <QuantityInput
+        value={value.retentionSizeInMB}
+        units={MEGABYTES}
+        unlimitedValue={-1}
+        onChange={(retentionSizeInMB) => onChange({ ...value, retentionSizeInMB })}
+      />
+    </PolicyField>
+  </>
+);
+
+export const BacklogQuotaFields: React.FC<{ value: BacklogQuota; onChange: (value: BacklogQuota) => void }> = ({ value, onChange }) => (
+  <>
+    <PolicyField label="Size limit">
+      <QuantityInput
+        value={value.limitSize}
+        units={BYTES}
+        unlimitedValue={-1}
+        onChange={(limitSize) => onChange({ ...value, limitSize })}
+      />
+    </PolicyField>
+    <PolicyField label="Time limit">
+      <QuantityInput
+        value={value.limitTime}
+        units={SECONDS}
+        unlimitedValue={-1}
+        onChange={(limitTime) => onChange({ ...value, limitTime })}
+      />
+    </PolicyField>
+    <PolicyField label="When exceeded">
+      <select value={value.policy} onChange={(e) => onChange({ ...value, policy: e.target.value as BacklogQuotaPolicy })}>
+        {BACKLOG_QUOTA_POLICIES.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+      </select>
+    </PolicyField>
+  </>
+);
+
+export const DispatchRateFields: React.FC<{ value: DispatchRate; onChange: (value: DispatchRate) => void }> = ({ value, onChange }) => (
+  <>
+    <PolicyField label="Messages (-1 unlimited)">
+      <input
+        type="number"
+        value={value.dispatchThrottlingRateInMsg}
+        onChange={(e) => onChange({ ...value, dispatchThrottlingRateInMsg: Number(e.target.value) })}
+      />
+    </PolicyField>
+    <PolicyField label="Bytes">
+      <QuantityInput
+        value={value.dispatchThrottlingRateInByte}
+        units={BYTES}
+        unlimitedValue={-1}
+        onChange={(dispatchThrottlingRateInByte) => onChange({ ...value, dispatchThrottlingRateInByte })}
+      />
+    </PolicyField>
+    <PolicyField label="Per">
+      <QuantityInput
+        value={value.ratePeriodInSecond}
+        units={SECONDS}
+        onChange={(ratePeriodInSecond) => onChange({ ...value, ratePeriodInSecond })}
+      />
+    </PolicyField>
+  </>
+);
+
+export const PublishRateFields: React.FC<{ value: PublishRate; onChange: (value: PublishRate) => void }> = ({ value, onChange }) => (
+  <>
+    <PolicyField label="Messages per second (-1 unlimited)">
+      <input
+        type="number"
+        value={value.publishThrottlingRateInMsg}
+        onChange={(e) => onChange({ ...value, publishThrottlingRateInMsg: Number(e.target.value) })}
+      />
+    </PolicyField>
+    <PolicyField label="Bytes per second">
+      <QuantityInput
+        value={value.publishThrottlingRateInByte}
+        units={BYTES}
+        unlimitedValue={-1}
+        onChange={(publishThrottlingRateInByte) => onChange({ ...value, publishThrottlingRateInByte })}
+      />
+    </PolicyField>
+  </>
+);
@@ -0,0 +1,200 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { ReplayProgress } from '../shared/types';
+import './ReplayPanel.css';
+
+interface ReplayPanelProps {
+  clusterId: string;
+  topicName: string;
+}
+
+/**
+ * Replays a JSONL or raw archive export into a topic
+ * Rendered inside TestMessages and styled with its form classes
+ */
+export const ReplayPanel: React.FC<ReplayPanelProps> = ({ clusterId, topicName }) => {
+  const [filePath, setFilePath] = useState<string | null>(null);
+  const [targetTopic, setTargetTopic] = useState(topicName);
+  const [rateLimit, setRateLimit] = useState('');
+  const [originalTiming, setOriginalTiming] = useState(false);
+  const [dryRun, setDryRun] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<ReplayProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const replayIdRef = useRef<string | null>(null);
+  // Updates that arrive before messages:replay resolves, keyed by replay ID
+  const earlyUpdatesRef = useRef(new Map<string, ReplayProgress>());
+
+  useEffect(() => {
+    setTargetTopic(topicName);
+  }, [topicName]);
+
+  const applyProgress = (update: ReplayProgress) => {
+    setProgress(update);
+    if (update.done) {
+      replayIdRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  useEffect(() => {
+    const unsubscribe = window.lightcurve.messages.onReplayProgress((update) => {
+      if (update.replayId === replayIdRef.current) {
+        applyProgress(update);
+      } else if (!replayIdRef.current) {
+        earlyUpdatesRef.current.set(update.replayId, update);
+      }
+    });
+    return unsubscribe;
+  }, []);
+
+  const chooseFile = async () => {
+    setError(null);
+    const response = await window.lightcurve.messages.chooseReplayFile();
+    if (!response.success) {
+      setError(response.error || 'Failed to choose file');
+    } else if (response.data) {
+      setFilePath(response.data);
+      setProgress(null);
+    }
+  };
+
+  const startReplay = async () => {
+    if (!filePath) {
+      return;
+    }
+    setError(null);
+    setProgress(null);
+    setRunning(true);
+    try {
+      const limit = Number(rateLimit);
+      const response = await window.lightcurve.messages.replay(clusterId, {
+        filePath,
+        topic: targetTopic.trim(),
+        rateLimit: limit > 0 ? limit : undefined,
+        originalTiming,
+        dryRun,
+      });
+      if (response.success && response.data) {
+        replayIdRef.current = response.data;
+        const early = earlyUpdatesRef.current.get(response.data);
+        earlyUpdatesRef.current.clear();
+        if (early) {
+          applyProgress(early);
+        }
+      } else {
+        setError(response.error || 'Failed to start replay');
+        setRunning(false);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start replay');
+      setRunning(false);
+    }
+  };
+
+  const cancelReplay = async () => {
+    if (replayIdRef.current) {
+      await window.lightcurve.messages.cancelReplay(replayIdRef.current);
+    }
+  };
+
+  const percent = progress && progress.totalBytes > 0
+    ? Math.min(100, Math.round((progress.bytesRead / progress.totalBytes) * 100))
+    : 0;
+
+  const summary = (p: ReplayProgress): string => {
+    const parts = [`Read ${p.read}`];
+    if (!dryRun) {
+      parts.push(`published ${p.published}`);
+    }
+    if (p.failed > 0) {
+      parts.push(`failed ${p.failed}`);
+    }
+    return parts.join(' · ');
+  };
+
+  return (
+    <div className="test-section">
+      <h3>Replay From File</h3>
+
+      <div className="form-group">
+        <label>Export File</label>
+        <div className="replay-file">
+          <span className="replay-file-path" title={filePath || undefined}>
+            {filePath || 'No file selected (JSONL or raw archive)'}
+          </span>
+          <button className="add-property-button" onClick={chooseFile} disabled={running}>
+            Choose File...
+          </button>
+        </div>
+      </div>
+
+      <div className="form-group">
+        <label>Target Topic</label>
+        <input
+          type="text"
+          value={targetTopic}
+          onChange={(e) => setTargetTopic(e.target.value)}
+          disabled={running}
+        />
+      </div>
+
+      <div className="form-group">
+        <label>Rate Limit (messages/sec, blank for unlimited)</label>
+        <input
+          type="number"
+          min={0}
+          value={rateLimit}
+          onChange={(e) => setRateLimit(e.target.value)}
+          placeholder="Unlimited"
+          disabled={running}
+        />
+      </div>
+
+      <div className="replay-options">
+        <label>
+          <input
+            type="checkbox"
+            checked={originalTiming}
+            onChange={(e) => setOriginalTiming(e.target.checked)}
+            disabled={running}
+          />
+          Original timing
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={dryRun}
+            onChange={(e) => setDryRun(e.target.checked)}
+            disabled={running}
+          />
+          Dry run (validate only)
+        </label>
+      </div>
+
+      {running ? (
+        <button className="send-button replay-cancel" onClick={cancelReplay}>
+          Cancel Replay
+        </button>
+      ) : (
+        <button className="send-button" onClick={startReplay} disabled={!filePath || !targetTopic.trim()}>
+          {dryRun ? 'Validate File' : 'Start Replay'}
+        </button>
+      )}
+
+      {progress && (
+        <div className="replay-progress">
+          <div className="replay-progress-bar">
+            <div className="replay-progress-fill" style={{ width: `${percent}%` }} />
+          </div>
+          <div className="replay-progress-text">
+            {summary(progress)} · {percent}%
+            {progress.done && (progress.cancelled ? ' · Cancelled' : progress.error && progress.failed === 0 ? ' · Failed' : ' · Done')}
+          </div>
+        </div>
+      )}
+
+      {error && <div className="error-message">{error}</div>}
+      {progress?.error && <div className="error-message">{progress.error}</div>}
+    </div>
+  );
+};
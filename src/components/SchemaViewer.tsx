@@ -0,0 +1,154 @@
+import React, { useState, useEffect } from 'react';
+import type { SchemaInfo } from '../shared/types';
+import { JsonHighlighter } from './JsonHighlighter';
+import './SchemaViewer.css';
+
+interface SchemaViewerProps {
+  clusterId: string;
+  topicName: string;
+}
+
+/**
+ * Render a schema definition in a readable form
+ * PROTOBUF_NATIVE definitions embed a base64 descriptor set, which is summarized instead of shown
+ */
+const formatDefinition = (schema: SchemaInfo): { json: string | null; text: string } => {
+  if (!schema.data) {
+    return { json: null, text: '(no definition)' };
+  }
+  try {
+    const parsed = JSON.parse(schema.data);
+    if (schema.type === 'PROTOBUF_NATIVE' && typeof parsed.fileDescriptorSet === 'string') {
+      parsed.fileDescriptorSet = `<${parsed.fileDescriptorSet.length} base64 chars>`;
+    }
+    return { json: JSON.stringify(parsed, null, 2), text: schema.data };
+  } catch {
+    return { json: null, text: schema.data };
+  }
+};
+
+export const SchemaViewer: React.FC<SchemaViewerProps> = ({ clusterId, topicName }) => {
+  const [schemas, setSchemas] = useState<SchemaInfo[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSchemas();
+  }, [clusterId, topicName]);
+
+  const loadSchemas = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await window.lightcurve.admin.getSchemaVersions(clusterId, topicName);
+      if (response.success && response.data) {
+        setSchemas(response.data);
+        setSelectedVersion(response.data.length > 0 ? response.data[0].version : null);
+      } else {
+        setError(response.error || 'Failed to load schemas');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load schemas');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="details-loading">Loading schemas...</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="details-error">
+        <p>Error: {error}</p>
+        <button onClick={loadSchemas}>Retry</button>
+      </div>
+    );
+  }
+
+  if (schemas.length === 0) {
+    return (
+      <div className="details-section">
+        <h3>Schema</h3>
+        <p className="details-description">
+          No schema is registered for this topic. Payloads are shown as raw bytes/text.
+        </p>
+      </div>
+    );
+  }
+
+  const schema = schemas.find(s => s.version === selectedVersion) || schemas[0];
+  const definition = formatDefinition(schema);
+  const propertyEntries = Object.entries(schema.properties || {});
+
+  return (
+    <>
+      <div className="details-section">
+        <h3>Schema</h3>
+        <div className="details-grid">
+          <div className="detail-item">
+            <label>Type</label>
+            <div className="detail-value">{schema.type}</div>
+          </div>
+          <div className="detail-item">
+            <label>Version</label>
+            <div className="detail-value">
+              <select
+                className="schema-version-select"
+                value={schema.version}
+                onChange={(e) => setSelectedVersion(Number(e.target.value))}
+              >
+                {schemas.map(s => (
+                  <option key={s.version} value={s.version}>
+                    v{s.version}{s.version === schemas[0].version ? ' (latest)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="detail-item">
+            <label>Registered</label>
+            <div className="detail-value detail-value-small">
+              {schema.timestamp ? new Date(schema.timestamp).toLocaleString() : 'N/A'}
+            </div>
+          </div>
+          <div className="detail-item">
+            <label>Versions</label>
+            <div className="detail-value">{schemas.length}</div>
+          </div>
+        </div>
+      </div>
+
+      {propertyEntries.length > 0 && (
+        <div className="details-section">
+          <h3>Properties</h3>
+          <div className="details-list">
+            {propertyEntries.map(([key, value]) => (
+              <div key={key} className="list-item">
+                <div className="list-item-name">{key}</div>
+                <div className="list-item-stats">{value}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="details-section">
+        <h3>Definition</h3>
+        <div className="schema-definition">
+          {definition.json ? <JsonHighlighter json={definition.json} /> : <pre>{definition.text}</pre>}
+        </div>
+      </div>
+
+      <div className="details-section">
+        <div className="details-actions">
+          <button className="action-button" onClick={loadSchemas}>
+            ⟳ Refresh Schema
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
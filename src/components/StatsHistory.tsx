@@ -0,0 +1,287 @@
+import React, { useState, useEffect } from 'react';
+import type { StatsSample } from '../shared/types';
+import './StatsHistory.css';
+
+interface StatsHistoryProps {
+  clusterId: string;
+  topicName: string;
+}
+
+type HistoryRange = '1h' | '6h' | '24h' | '7d';
+
+const RANGES: Array<{ id: HistoryRange; label: string; ms: number }> = [
+  { id: '1h', label: 'Last hour', ms: 60 * 60 * 1000 },
+  { id: '6h', label: 'Last 6 hours', ms: 6 * 60 * 60 * 1000 },
+  { id: '24h', label: 'Last 24 hours', ms: 24 * 60 * 60 * 1000 },
+  { id: '7d', label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+];
+
+const INTERVALS = [10, 30, 60, 300];
+
+interface ChartSeries {
+  name: string;
+  color: string;
+  points: Array<[number, number]>; // [timestamp, value]
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes <= 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(sizes.length - 1, Math.floor(Math.log(bytes) / Math.log(k)));
+  return `${(bytes / Math.pow(k, i)).toFixed(i === 0 ? 0 : 1)} ${sizes[i]}`;
+};
+
+const formatRate = (rate: number): string => `${rate.toFixed(rate >= 100 ? 0 : 2)}/s`;
+
+const formatCount = (count: number): string => Math.round(count).toLocaleString();
+
+const formatInterval = (seconds: number): string => (seconds < 60 ? `${seconds}s` : `${seconds / 60}m`);
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 140;
+
+// Line chart over a fixed time window; each series is scaled against the shared maximum
+const TimeSeriesChart: React.FC<{
+  title: string;
+  series: ChartSeries[];
+  from: number;
+  to: number;
+  formatValue: (value: number) => string;
+  legendNote?: (series: ChartSeries) => React.ReactNode;
+}> = ({ title, series, from, to, formatValue, legendNote }) => {
+  const maxValue = Math.max(0, ...series.flatMap(s => s.points.map(([, v]) => v)));
+  const yMax = maxValue > 0 ? maxValue * 1.1 : 1;
+  const x = (t: number) => ((t - from) / Math.max(1, to - from)) * CHART_WIDTH;
+  const y = (v: number) => CHART_HEIGHT - (v / yMax) * CHART_HEIGHT;
+
+  return (
+    <div className="stats-chart">
+      <div className="stats-chart-title">{title}</div>
+      <svg className="stats-chart-plot" viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none">
+        <line className="stats-chart-midline" x1={0} y1={CHART_HEIGHT / 2} x2={CHART_WIDTH} y2={CHART_HEIGHT / 2} />
+        {series.map(s => (
+          s.points.length === 1 ? (
+            <circle key={s.name} cx={x(s.points[0][0])} cy={y(s.points[0][1])} r={2} fill={s.color} />
+          ) : (
+            <polyline
+              key={s.name}
+              fill="none"
+              stroke={s.color}
+              strokeWidth={1.5}
+              vectorEffect="non-scaling-stroke"
+              points={s.points.map(([t, v]) => `${x(t)},${y(v)}`).join(' ')}
+            />
+          )
+        ))}
+      </svg>
+      <div className="stats-chart-axis">
+        <span>{new Date(from).toLocaleString()}</span>
+        <span>max {formatValue(maxValue)}</span>
+        <span>{new Date(to).toLocaleString()}</span>
+      </div>
+      <div className="stats-chart-legend">
+        {series.map(s => (
+          <span key={s.name} className="stats-chart-legend-item">
+            <span className="stats-chart-swatch" style={{ background: s.color }} />
+            {s.name}
+            <span className="stats-chart-latest">
+              {s.points.length > 0 ? formatValue(s.points[s.points.length - 1][1]) : '—'}
+            </span>
+            {legendNote?.(s)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Whether a backlog series is growing or draining across the window shown
+const backlogTrend = (series: ChartSeries): React.ReactNode => {
+  if (series.points.length < 2) return null;
+  const delta = series.points[series.points.length - 1][1] - series.points[0][1];
+  if (delta > 0) {
+    return <span className="stats-trend growing">▲ +{formatCount(delta)} growing</span>;
+  }
+  if (delta < 0) {
+    return <span className="stats-trend draining">▼ {formatCount(delta)} draining</span>;
+  }
+  return <span className="stats-trend steady">steady</span>;
+};
+
+export const StatsHistory: React.FC<StatsHistoryProps> = ({ clusterId, topicName }) => {
+  const [pinned, setPinned] = useState(false);
+  const [samples, setSamples] = useState<StatsSample[]>([]);
+  const [range, setRange] = useState<HistoryRange>('1h');
+  const [intervalSeconds, setIntervalSeconds] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const rangeMs = RANGES.find(r => r.id === range)!.ms;
+
+  useEffect(() => {
+    loadHistory();
+  }, [clusterId, topicName, range]);
+
+  useEffect(() => {
+    window.lightcurve.stats.getSettings().then(response => {
+      if (response.success && response.data) {
+        setIntervalSeconds(response.data.intervalSeconds);
+      }
+    });
+  }, []);
+
+  // Append live samples for this topic as the main-process sampler takes them
+  useEffect(() => {
+    const unsubscribe = window.lightcurve.stats.onSample((event) => {
+      if (event.clusterId !== clusterId || event.topic !== topicName) {
+        return;
+      }
+      const cutoff = Date.now() - rangeMs;
+      setSamples(prev => [...prev.filter(s => s.timestamp >= cutoff), event.sample]);
+    });
+    return unsubscribe;
+  }, [clusterId, topicName, rangeMs]);
+
+  const loadHistory = async () => {
+    setError(null);
+    const response = await window.lightcurve.stats.getHistory(clusterId, topicName, Date.now() - rangeMs);
+    if (response.success && response.data) {
+      setPinned(response.data.pinned);
+      setSamples(response.data.samples);
+    } else {
+      setError(response.error || 'Failed to load stats history');
+    }
+  };
+
+  const togglePinned = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = pinned
+        ? await window.lightcurve.stats.unpin(clusterId, topicName)
+        : await window.lightcurve.stats.pin(clusterId, topicName);
+      if (!response.success) {
+        setError(response.error || 'Failed to update pinned topics');
+      }
+      await loadHistory();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changeInterval = async (seconds: number) => {
+    const current = await window.lightcurve.stats.getSettings();
+    if (!current.success || !current.data) return;
+    const response = await window.lightcurve.stats.updateSettings({
+      intervalSeconds: seconds,
+      retentionHours: current.data.retentionHours,
+    });
+    if (response.success && response.data) {
+      setIntervalSeconds(response.data.intervalSeconds);
+    } else {
+      setError(response.error || 'Failed to update sampling interval');
+    }
+  };
+
+  const to = Date.now();
+  const from = to - rangeMs;
+  const toPoints = (value: (s: StatsSample) => number): Array<[number, number]> =>
+    samples.map(s => [s.timestamp, value(s)]);
+
+  const subscriptionNames = Array.from(new Set(samples.flatMap(s => Object.keys(s.backlogs)))).sort();
+  const backlogSeries: ChartSeries[] = subscriptionNames.map((name, idx) => ({
+    name,
+    color: `hsl(${(idx * 360) / subscriptionNames.length}, 70%, 60%)`,
+    // A subscription missing from a sample didn't exist yet (or was deleted), so leave a gap rather than a zero
+    points: samples
+      .filter(s => s.backlogs[name] !== undefined)
+      .map(s => [s.timestamp, s.backlogs[name]] as [number, number]),
+  }));
+
+  return (
+    <div className="details-section stats-history">
+      <div className="stats-history-header">
+        <h3>History</h3>
+        <div className="stats-history-controls">
+          <select
+            className="stats-history-select"
+            value={range}
+            onChange={(e) => setRange(e.target.value as HistoryRange)}
+          >
+            {RANGES.map(r => (
+              <option key={r.id} value={r.id}>{r.label}</option>
+            ))}
+          </select>
+          {intervalSeconds !== null && (
+            <select
+              className="stats-history-select"
+              value={intervalSeconds}
+              onChange={(e) => changeInterval(Number(e.target.value))}
+              title="How often pinned topics are sampled (applies to all pinned topics)"
+            >
+              {Array.from(new Set([...INTERVALS, intervalSeconds])).sort((a, b) => a - b).map(seconds => (
+                <option key={seconds} value={seconds}>Every {formatInterval(seconds)}</option>
+              ))}
+            </select>
+          )}
+          <button
+            className={`action-button ${pinned ? '' : 'primary'}`}
+            onClick={togglePinned}
+            disabled={busy}
+          >
+            {pinned ? '📌 Unpin' : '📌 Pin to Record History'}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="stats-history-error">{error}</div>}
+
+      {samples.length === 0 ? (
+        <div className="stats-history-empty">
+          {pinned
+            ? 'No samples in this range yet. Samples are taken while the cluster is connected.'
+            : 'Pin this topic to sample its stats in the background and chart them over time.'}
+        </div>
+      ) : (
+        <div className="stats-chart-grid-layout">
+          <TimeSeriesChart
+            title="Message Rate"
+            from={from}
+            to={to}
+            formatValue={formatRate}
+            series={[
+              { name: 'In', color: '#3b82f6', points: toPoints(s => s.msgRateIn) },
+              { name: 'Out', color: '#10b981', points: toPoints(s => s.msgRateOut) },
+            ]}
+          />
+          <TimeSeriesChart
+            title="Throughput"
+            from={from}
+            to={to}
+            formatValue={(v) => `${formatBytes(v)}/s`}
+            series={[
+              { name: 'In', color: '#3b82f6', points: toPoints(s => s.msgThroughputIn) },
+              { name: 'Out', color: '#10b981', points: toPoints(s => s.msgThroughputOut) },
+            ]}
+          />
+          <TimeSeriesChart
+            title="Storage Size"
+            from={from}
+            to={to}
+            formatValue={formatBytes}
+            series={[{ name: 'Storage', color: '#a78bfa', points: toPoints(s => s.storageSize) }]}
+          />
+          <TimeSeriesChart
+            title="Backlog by Subscription"
+            from={from}
+            to={to}
+            formatValue={formatCount}
+            series={backlogSeries}
+            legendNote={backlogTrend}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
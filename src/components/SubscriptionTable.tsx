@@ -0,0 +1,327 @@
+import React, { useState } from 'react';
+import type { TopicStats, IPCResponse } from '../shared/types';
+import { ModalDialog } from './ModalDialog';
+import './SubscriptionTable.css';
+
+interface SubscriptionTableProps {
+  clusterId: string;
+  topicName: string;
+  subscriptions: string[];
+  stats: TopicStats | null;
+  formatRate: (rate: number) => string; // The details panel's rate format, so rates read the same everywhere
+  onChanged: () => void;
+}
+
+type SubscriptionAction = 'reset' | 'skip' | 'clear' | 'expire' | 'delete' | 'create';
+
+interface DialogState {
+  action: SubscriptionAction;
+  subscription: string;
+}
+
+// Format a Date as the value expected by <input type="datetime-local">
+const toLocalInputValue = (date: Date): string => {
+  const offsetMs = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+export const SubscriptionTable: React.FC<SubscriptionTableProps> = ({
+  clusterId,
+  topicName,
+  subscriptions,
+  stats,
+  formatRate,
+  onChanged,
+}) => {
+  const [dialog, setDialog] = useState<DialogState | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [dialogError, setDialogError] = useState<string | null>(null);
+  const [lastResult, setLastResult] = useState<string | null>(null);
+
+  // Dialog inputs
+  const [resetMode, setResetMode] = useState<'timestamp' | 'messageId'>('timestamp');
+  const [resetTime, setResetTime] = useState('');
+  const [resetMessageId, setResetMessageId] = useState('');
+  const [skipCount, setSkipCount] = useState(1);
+  const [expireSeconds, setExpireSeconds] = useState(3600);
+  const [forceDelete, setForceDelete] = useState(false);
+  const [newSubscriptionName, setNewSubscriptionName] = useState('');
+  const [initialPosition, setInitialPosition] = useState<'earliest' | 'latest'>('latest');
+
+  const openDialog = (action: SubscriptionAction, subscription = '') => {
+    setDialogError(null);
+    setResetMode('timestamp');
+    setResetTime(toLocalInputValue(new Date(Date.now() - 60 * 60 * 1000)));
+    setResetMessageId('');
+    setSkipCount(1);
+    setExpireSeconds(3600);
+    setForceDelete(false);
+    setNewSubscriptionName('');
+    setInitialPosition('latest');
+    setDialog({ action, subscription });
+  };
+
+  const describeAction = (state: DialogState): string => {
+    switch (state.action) {
+      case 'reset':
+        return resetMode === 'timestamp'
+          ? `Reset cursor of ${state.subscription} to ${new Date(resetTime).toLocaleString()}`
+          : `Reset cursor of ${state.subscription} to ${resetMessageId.trim()}`;
+      case 'skip':
+        return `Skipped ${skipCount} messages on ${state.subscription}`;
+      case 'clear':
+        return `Cleared backlog of ${state.subscription}`;
+      case 'expire':
+        return `Expired messages older than ${expireSeconds}s on ${state.subscription}`;
+      case 'delete':
+        return `Deleted subscription ${state.subscription}`;
+      case 'create':
+        return `Created subscription ${newSubscriptionName.trim()} at ${initialPosition}`;
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!dialog) return;
+    setBusy(true);
+    setDialogError(null);
+
+    const admin = window.lightcurve.admin;
+    const sub = dialog.subscription;
+
+    try {
+      let response: IPCResponse<void>;
+      switch (dialog.action) {
+        case 'reset':
+          response = await admin.resetCursor(
+            clusterId,
+            topicName,
+            sub,
+            resetMode === 'timestamp'
+              ? { type: 'timestamp', timestamp: new Date(resetTime).getTime() }
+              : { type: 'messageId', messageId: resetMessageId.trim() }
+          );
+          break;
+        case 'skip':
+          response = await admin.skipMessages(clusterId, topicName, sub, skipCount);
+          break;
+        case 'clear':
+          response = await admin.clearBacklog(clusterId, topicName, sub);
+          break;
+        case 'expire':
+          response = await admin.expireMessages(clusterId, topicName, sub, expireSeconds);
+          break;
+        case 'delete':
+          response = await admin.deleteSubscription(clusterId, topicName, sub, forceDelete);
+          break;
+        case 'create':
+          response = await admin.createSubscription(clusterId, topicName, newSubscriptionName.trim(), initialPosition);
+          break;
+      }
+
+      if (response.success) {
+        setLastResult(describeAction(dialog));
+        setDialog(null);
+        onChanged();
+      } else {
+        setDialogError(response.error || 'Operation failed');
+      }
+    } catch (err) {
+      setDialogError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderDialog = (): React.ReactNode => {
+    if (!dialog) return null;
+
+    const common = {
+      busy,
+      error: dialogError,
+      onConfirm: handleConfirm,
+      onCancel: () => setDialog(null),
+    };
+
+    switch (dialog.action) {
+      case 'reset':
+        return (
+          <ModalDialog
+            {...common}
+            title={`Reset cursor: ${dialog.subscription}`}
+            confirmLabel="Reset Cursor"
+            confirmDisabled={resetMode === 'timestamp' ? !resetTime : !resetMessageId.trim()}
+          >
+            <div>
+              <label>Reset To</label>
+              <select value={resetMode} onChange={(e) => setResetMode(e.target.value as 'timestamp' | 'messageId')}>
+                <option value="timestamp">Publish time</option>
+                <option value="messageId">Message ID</option>
+              </select>
+            </div>
+            {resetMode === 'timestamp' ? (
+              <div>
+                <label>Publish Time (local)</label>
+                <input type="datetime-local" value={resetTime} onChange={(e) => setResetTime(e.target.value)} />
+              </div>
+            ) : (
+              <div>
+                <label>Message ID</label>
+                <input
+                  type="text"
+                  value={resetMessageId}
+                  onChange={(e) => setResetMessageId(e.target.value)}
+                  placeholder="(ledgerId,entryId,partition,batchIndex) or ledgerId:entryId"
+                />
+              </div>
+            )}
+            <p className="modal-hint">
+              Consumers on this subscription will redeliver from the new position.
+            </p>
+          </ModalDialog>
+        );
+      case 'skip':
+        return (
+          <ModalDialog
+            {...common}
+            title={`Skip messages: ${dialog.subscription}`}
+            confirmLabel="Skip"
+            confirmDisabled={skipCount < 1}
+          >
+            <div>
+              <label>Number of Messages</label>
+              <input
+                type="number"
+                min={1}
+                value={skipCount}
+                onChange={(e) => setSkipCount(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+              />
+            </div>
+          </ModalDialog>
+        );
+      case 'clear':
+        return (
+          <ModalDialog {...common} title={`Clear backlog: ${dialog.subscription}`} confirmLabel="Clear Backlog" danger>
+            <p className="modal-hint">
+              All {stats?.subscriptions?.[dialog.subscription]?.msgBacklog.toLocaleString() ?? ''} unacknowledged
+              messages on this subscription will be skipped. This cannot be undone.
+            </p>
+          </ModalDialog>
+        );
+      case 'expire':
+        return (
+          <ModalDialog
+            {...common}
+            title={`Expire messages: ${dialog.subscription}`}
+            confirmLabel="Expire"
+            danger
+            confirmDisabled={expireSeconds < 0}
+          >
+            <div>
+              <label>Expire Messages Older Than (seconds)</label>
+              <input
+                type="number"
+                min={0}
+                value={expireSeconds}
+                onChange={(e) => setExpireSeconds(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+              />
+            </div>
+          </ModalDialog>
+        );
+      case 'delete':
+        return (
+          <ModalDialog {...common} title={`Delete subscription: ${dialog.subscription}`} confirmLabel="Delete" danger>
+            <p className="modal-hint">The subscription and its cursor position will be removed.</p>
+            <label className="modal-checkbox">
+              <input type="checkbox" checked={forceDelete} onChange={(e) => setForceDelete(e.target.checked)} />
+              Force delete (disconnect active consumers)
+            </label>
+          </ModalDialog>
+        );
+      case 'create':
+        return (
+          <ModalDialog
+            {...common}
+            title="Create subscription"
+            confirmLabel="Create"
+            confirmDisabled={!newSubscriptionName.trim()}
+          >
+            <div>
+              <label>Subscription Name</label>
+              <input
+                type="text"
+                value={newSubscriptionName}
+                onChange={(e) => setNewSubscriptionName(e.target.value)}
+                placeholder="my-subscription"
+                autoFocus
+              />
+            </div>
+            <div>
+              <label>Initial Position</label>
+              <select value={initialPosition} onChange={(e) => setInitialPosition(e.target.value as 'earliest' | 'latest')}>
+                <option value="latest">Latest</option>
+                <option value="earliest">Earliest</option>
+              </select>
+            </div>
+          </ModalDialog>
+        );
+    }
+  };
+
+  return (
+    <div className="details-section">
+      <div className="subscription-table-header">
+        <h3>Subscriptions ({subscriptions.length})</h3>
+        <button className="subscription-action" onClick={() => openDialog('create')}>
+          ➕ New Subscription
+        </button>
+      </div>
+
+      {lastResult && <div className="subscription-result">✓ {lastResult}</div>}
+
+      {subscriptions.length === 0 ? (
+        <p className="details-description">No subscriptions on this topic.</p>
+      ) : (
+        <div className="details-list">
+          {subscriptions.map((sub) => {
+            const subStats = stats?.subscriptions?.[sub];
+            return (
+              <div key={sub} className="list-item">
+                <div className="list-item-name">{sub}</div>
+                {subStats && (
+                  <div className="list-item-stats">
+                    Backlog: {subStats.msgBacklog.toLocaleString()} •
+                    Rate: {formatRate(subStats.msgRateOut)} msg/s •
+                    Consumers: {subStats.consumers?.length || 0}
+                  </div>
+                )}
+                <div className="subscription-actions">
+                  <button className="subscription-action" onClick={() => openDialog('reset', sub)}>
+                    ⏮ Reset Cursor
+                  </button>
+                  <button className="subscription-action" onClick={() => openDialog('skip', sub)}>
+                    ⏭ Skip
+                  </button>
+                  <button className="subscription-action" onClick={() => openDialog('expire', sub)}>
+                    ⌛ Expire
+                  </button>
+                  <button
+                    className="subscription-action danger"
+                    onClick={() => openDialog('clear', sub)}
+                    disabled={!!subStats && subStats.msgBacklog === 0}
+                  >
+                    🧹 Clear Backlog
+                  </button>
+                  <button className="subscription-action danger" onClick={() => openDialog('delete', sub)}>
+                    🗑 Delete
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {renderDialog()}
+    </div>
+  );
+};
@@ -0,0 +1,324 @@
+import React, { useState, useEffect } from 'react';
+import type { TenantInfo } from '../shared/types';
+import { ModalDialog } from './ModalDialog';
+import './TenantDialogs.css';
+
+// Pulsar accepts letters, digits and - = : . _ in tenant and namespace names
+const NAME_PATTERN = /^[-=:.\w]+$/;
+
+const nameError = (kind: string, name: string): string | null => {
+  if (!name) return null;
+  return NAME_PATTERN.test(name) ? null : `${kind} names may only contain letters, digits and - = : . _`;
+};
+
+const parseList = (text: string): string[] =>
+  Array.from(new Set(text.split(/[\n,]/).map(item => item.trim()).filter(Boolean)));
+
+interface TenantDialogProps {
+  clusterId: string;
+  tenant?: string; // Edit this tenant; omit to create one
+  onSaved: (tenant: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Create a tenant, or edit the admin roles and allowed clusters of an existing one
+ */
+export const TenantDialog: React.FC<TenantDialogProps> = ({ clusterId, tenant, onSaved, onCancel }) => {
+  const editing = tenant !== undefined;
+  const [name, setName] = useState(tenant || '');
+  const [rolesText, setRolesText] = useState('');
+  const [allowedClusters, setAllowedClusters] = useState<string[]>([]);
+  const [clusters, setClusters] = useState<string[] | null>(null);
+  const [clustersText, setClustersText] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    load();
+  }, [clusterId, tenant]);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [clustersResponse, infoResponse] = await Promise.all([
+        window.lightcurve.admin.listClusters(clusterId),
+        tenant !== undefined ? window.lightcurve.admin.getTenantInfo(clusterId, tenant) : Promise.resolve(null),
+      ]);
+
+      const current = infoResponse?.success && infoResponse.data ? infoResponse.data : null;
+      // Saving without the current values would wipe the tenant's roles and clusters
+      setLoadFailed(!!infoResponse && !current);
+      if (infoResponse && !current) {
+        setError(infoResponse.error || 'Failed to load tenant');
+      }
+      if (current) {
+        setRolesText(current.adminRoles.join('\n'));
+        setAllowedClusters(current.allowedClusters);
+        setClustersText(current.allowedClusters.join(', '));
+      }
+
+      // Listing clusters needs super-user rights; without them clusters are typed in
+      if (clustersResponse.success && clustersResponse.data) {
+        const available = Array.from(new Set([...clustersResponse.data, ...(current?.allowedClusters || [])])).sort();
+        setClusters(available);
+        if (!editing && clustersResponse.data.length === 1) {
+          setAllowedClusters(clustersResponse.data);
+        }
+      } else {
+        setClusters(null);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleCluster = (cluster: string, allowed: boolean) => {
+    setAllowedClusters(prev => (allowed ? [...prev, cluster] : prev.filter(c => c !== cluster)));
+  };
+
+  const trimmedName = name.trim();
+  const selectedClusters = clusters ? allowedClusters : parseList(clustersText);
+  const validation = nameError('Tenant', trimmedName);
+
+  const handleConfirm = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const info: TenantInfo = { adminRoles: parseList(rolesText), allowedClusters: selectedClusters };
+      const response = editing
+        ? await window.lightcurve.admin.updateTenant(clusterId, trimmedName, info)
+        : await window.lightcurve.admin.createTenant(clusterId, trimmedName, info);
+      if (response.success) {
+        onSaved(trimmedName);
+      } else {
+        setError(response.error || `Failed to ${editing ? 'update' : 'create'} tenant`);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <ModalDialog
+      title={editing ? `Edit tenant ${tenant}` : 'Create tenant'}
+      confirmLabel={editing ? 'Save' : 'Create'}
+      busy={busy}
+      error={error || validation}
+      confirmDisabled={loading || loadFailed || !trimmedName || !!validation || selectedClusters.length === 0}
+      onConfirm={handleConfirm}
+      onCancel={onCancel}
+    >
+      {!editing && (
+        <div>
+          <label>Tenant Name</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="my-team"
+            autoFocus
+          />
+        </div>
+      )}
+      <div>
+        <label>Admin Roles</label>
+        <textarea
+          rows={3}
+          value={rolesText}
+          onChange={(e) => setRolesText(e.target.value)}
+          placeholder="One role per line"
+          disabled={loading}
+        />
+      </div>
+      <div>
+        <label>Allowed Clusters</label>
+        {loading ? (
+          <p className="modal-hint">Loading clusters...</p>
+        ) : clusters ? (
+          <div className="tenant-dialog-clusters">
+            {clusters.map(cluster => (
+              <label key={cluster} className="modal-checkbox">
+                <input
+                  type="checkbox"
+                  checked={allowedClusters.includes(cluster)}
+                  onChange={(e) => toggleCluster(cluster, e.target.checked)}
+                />
+                {cluster}
+              </label>
+            ))}
+          </div>
+        ) : (
+          <input
+            type="text"
+            value={clustersText}
+            onChange={(e) => setClustersText(e.target.value)}
+            placeholder="Comma-separated cluster names"
+          />
+        )}
+      </div>
+      <p className="modal-hint">
+        Admin roles can manage the tenant's namespaces. Namespaces may only use the allowed clusters, and at least one is required.
+      </p>
+    </ModalDialog>
+  );
+};
+
+interface DeleteTenantDialogProps {
+  clusterId: string;
+  tenant: string;
+  onDeleted: () => void;
+  onCancel: () => void;
+}
+
+export const DeleteTenantDialog: React.FC<DeleteTenantDialogProps> = ({ clusterId, tenant, onDeleted, onCancel }) => {
+  const [force, setForce] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleConfirm = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await window.lightcurve.admin.deleteTenant(clusterId, tenant, force);
+      if (response.success) {
+        onDeleted();
+      } else {
+        setError(response.error || 'Failed to delete tenant');
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <ModalDialog
+      title="Delete tenant"
+      confirmLabel={force ? 'Force Delete' : 'Delete'}
+      danger
+      busy={busy}
+      error={error}
+      onConfirm={handleConfirm}
+      onCancel={onCancel}
+    >
+      <p className="modal-hint">
+        Delete the tenant <code>{tenant}</code>? Without force, the broker refuses while the tenant still has namespaces.
+      </p>
+      <label className="modal-checkbox">
+        <input type="checkbox" checked={force} onChange={(e) => setForce(e.target.checked)} />
+        Force delete (also delete every namespace, topic and message in the tenant)
+      </label>
+    </ModalDialog>
+  );
+};
+
+interface CreateNamespaceDialogProps {
+  clusterId: string;
+  tenant: string;
+  onCreated: (namespace: string) => void; // tenant/namespace
+  onCancel: () => void;
+}
+
+export const CreateNamespaceDialog: React.FC<CreateNamespaceDialogProps> = ({ clusterId, tenant, onCreated, onCancel }) => {
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const trimmedName = name.trim();
+  const validation = nameError('Namespace', trimmedName);
+
+  const handleConfirm = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const namespace = `${tenant}/${trimmedName}`;
+      const response = await window.lightcurve.admin.createNamespace(clusterId, namespace);
+      if (response.success) {
+        onCreated(namespace);
+      } else {
+        setError(response.error || 'Failed to create namespace');
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <ModalDialog
+      title={`Create namespace in ${tenant}`}
+      confirmLabel="Create"
+      busy={busy}
+      error={error || validation}
+      confirmDisabled={!trimmedName || !!validation}
+      onConfirm={handleConfirm}
+      onCancel={onCancel}
+    >
+      <div>
+        <label>Namespace Name</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="my-namespace"
+          autoFocus
+        />
+      </div>
+      <p className="modal-hint">
+        {trimmedName ? `${tenant}/${trimmedName}` : 'Enter a namespace name'}
+        {' • '}
+        Policies start at the broker defaults
+      </p>
+    </ModalDialog>
+  );
+};
+
+interface DeleteNamespaceDialogProps {
+  clusterId: string;
+  namespace: string; // tenant/namespace
+  onDeleted: () => void;
+  onCancel: () => void;
+}
+
+export const DeleteNamespaceDialog: React.FC<DeleteNamespaceDialogProps> = ({ clusterId, namespace, onDeleted, onCancel }) => {
+  const [force, setForce] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleConfirm = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await window.lightcurve.admin.deleteNamespace(clusterId, namespace, force);
+      if (response.success) {
+        onDeleted();
+      } else {
+        setError(response.error || 'Failed to delete namespace');
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <ModalDialog
+      title="Delete namespace"
+      confirmLabel={force ? 'Force Delete' : 'Delete'}
+      danger
+      busy={busy}
+      error={error}
+      onConfirm={handleConfirm}
+      onCancel={onCancel}
+    >
+      <p className="modal-hint">
+        Delete the namespace <code>{namespace}</code>? Without force, the broker refuses while the namespace still has topics.
+      </p>
+      <label className="modal-checkbox">
+        <input type="checkbox" checked={force} onChange={(e) => setForce(e.target.checked)} />
+        Force delete (also delete every topic and message in the namespace)
+      </label>
+    </ModalDialog>
+  );
+};
@@ -1,4 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
+import type { BrowsedMessage, MessageExportResult, PayloadEncoding } from '../shared/types';
+import { PayloadViewer } from './PayloadViewer';
+import { ExportDialog, type ExportRequest } from './ExportDialog';
+import { ReplayPanel } from './ReplayPanel';
 import './TestMessages.css';
 
 interface TestMessagesProps {
@@ -8,11 +12,18 @@ interface TestMessagesProps {
 
 interface ReceivedMessage {
   messageId: string;
+  topicName: string;
   data: string;
+  encoding: PayloadEncoding;
+  size: number;
+  decodedData?: string;
   properties: Record<string, string>;
   publishTimestamp: number;
   eventTimestamp: number;
   partitionKey?: string;
+  schemaType?: string;
+  schemaVersion?: number;
+  decodeError?: string;
   receivedAt: number;
 }
 
@@ -32,6 +43,8 @@ export const TestMessages: React.FC<TestMessagesProps> = ({ clusterId, topicName
   const [consumerStatus, setConsumerStatus] = useState<'stopped' | 'running' | 'paused'>('stopped');
   const [messages, setMessages] = useState<ReceivedMessage[]>([]);
   const [consumerError, setConsumerError] = useState<string | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [exportNotice, setExportNotice] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll to bottom when new messages arrive
@@ -185,6 +198,20 @@ export const TestMessages: React.FC<TestMessagesProps> = ({ clusterId, topicName
     setMessages([]);
   };
 
+  const handleExport = async (request: ExportRequest): Promise<MessageExportResult | null> => {
+    // Drop the log-only receivedAt field; everything else is the received message as-is
+    const exported: BrowsedMessage[] = messages.map(({ receivedAt: _receivedAt, ...message }) => message);
+    const response = await window.lightcurve.messages.export(exported, {
+      format: request.format,
+      columns: request.columns,
+      defaultFileName: request.defaultFileName,
+    });
+    if (!response.success) {
+      throw new Error(response.error || 'Export failed');
+    }
+    return response.data ?? null;
+  };
+
   const formatTimestamp = (timestamp: number): string => {
     return new Date(timestamp).toLocaleTimeString();
   };
@@ -262,6 +289,8 @@ export const TestMessages: React.FC<TestMessagesProps> = ({ clusterId, topicName
             </div>
           )}
         </div>
+
+        <ReplayPanel clusterId={clusterId} topicName={topicName} />
       </div>
 
       <div className="test-messages-right">
@@ -322,10 +351,18 @@ export const TestMessages: React.FC<TestMessagesProps> = ({ clusterId, topicName
               >
                 🗑 Clear
               </button>
+              <button
+                className="control-button clear"
+                onClick={() => setShowExport(true)}
+                disabled={messages.length === 0}
+              >
+                ⬇ Export
+              </button>
             </div>
           </div>
 
           {consumerError && <div className="error-message">{consumerError}</div>}
+          {exportNotice && <div className="success-message">{exportNotice}</div>}
 
           <div className="messages-log">
             <div className="messages-log-header">
@@ -348,11 +385,20 @@ export const TestMessages: React.FC<TestMessagesProps> = ({ clusterId, topicName
                       <span className="message-time">{formatTimestamp(msg.receivedAt)}</span>
                       <span className="message-id">{msg.messageId}</span>
                     </div>
-                    <div className="message-body">
-                      <pre>{msg.data}</pre>
-                    </div>
-                    {(msg.partitionKey || Object.keys(msg.properties).length > 0) && (
+                    <PayloadViewer
+                      data={msg.data}
+                      encoding={msg.encoding}
+                      size={msg.size}
+                      decoded={msg.decodedData}
+                    />
+                    {(msg.partitionKey || msg.schemaType || Object.keys(msg.properties).length > 0) && (
                       <div className="message-meta">
+                        {msg.schemaType && (
+                          <span className="meta-item" title={msg.decodeError || undefined}>
+                            Schema: {msg.schemaType}{msg.schemaVersion !== undefined ? ` v${msg.schemaVersion}` : ''}
+                            {msg.decodeError ? ' ⚠ not decoded' : ''}
+                          </span>
+                        )}
                         {msg.partitionKey && (
                           <span className="meta-item">Key: {msg.partitionKey}</span>
                         )}
@@ -371,6 +417,19 @@ export const TestMessages: React.FC<TestMessagesProps> = ({ clusterId, topicName
           </div>
         </div>
       </div>
+
+      {showExport && (
+        <ExportDialog
+          topicName={topicName}
+          shownCount={messages.length}
+          onExport={handleExport}
+          onExported={(result) => {
+            setShowExport(false);
+            setExportNotice(`Exported ${result.count} messages to ${result.filePath}`);
+          }}
+          onCancel={() => setShowExport(false)}
+        />
+      )}
     </div>
   );
 };
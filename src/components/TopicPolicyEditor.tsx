@@ -0,0 +1,461 @@
+import React, { useState, useEffect } from 'react';
+import type {
+  DispatchRate,
+  TopicPolicies,
+  TopicPolicyKey,
+  TopicPoliciesResult,
+  TopicPolicySource,
+} from '../shared/types';
+import { ModalDialog } from './ModalDialog';
+import {
+  BYTES,
+  MILLISECONDS,
+  SECONDS,
+  BacklogQuotaFields,
+  DispatchRateFields,
+  PolicyField,
+  PublishRateFields,
+  QuantityInput,
+  RetentionFields,
+  describeBacklogQuota,
+  describeDispatchRate,
+  describePublishRate,
+  describeRetention,
+  formatCount,
+  formatQuantity,
+  wholeNumberError,
+} from './PolicyFields';
+import './TopicPolicyEditor.css';
+
+interface TopicPolicyEditorProps {
+  clusterId: string;
+  topicName: string; // Full topic name
+}
+
+const POLICY_LABELS: Record<TopicPolicyKey, string> = {
+  retention: 'Retention',
+  messageTtlSeconds: 'Message TTL',
+  backlogQuota: 'Backlog quota',
+  maxUnackedMessagesOnConsumer: 'Max unacked messages per consumer',
+  maxUnackedMessagesOnSubscription: 'Max unacked messages per subscription',
+  delayedDelivery: 'Delayed delivery',
+  deduplicationEnabled: 'Deduplication',
+  maxProducers: 'Max producers',
+  maxConsumers: 'Max consumers',
+  maxConsumersPerSubscription: 'Max consumers per subscription',
+  dispatchRate: 'Dispatch rate (topic)',
+  subscriptionDispatchRate: 'Dispatch rate (per subscription)',
+  publishRate: 'Publish rate',
+  compactionThreshold: 'Compaction threshold',
+};
+
+const POLICY_KEYS = Object.keys(POLICY_LABELS) as TopicPolicyKey[];
+
+const SOURCE_LABELS: Record<TopicPolicySource, string> = {
+  topic: 'Topic override',
+  namespace: 'Namespace',
+  broker: 'Broker default',
+};
+
+const UNLIMITED_RATE: DispatchRate = { dispatchThrottlingRateInMsg: -1, dispatchThrottlingRateInByte: -1, ratePeriodInSecond: 1 };
+
+// Starting values for an override when the broker does not report the effective value
+const DEFAULTS: Required<TopicPolicies> = {
+  retention: { retentionTimeInMinutes: 7 * 1440, retentionSizeInMB: 10 * 1024 },
+  messageTtlSeconds: 86400,
+  backlogQuota: { limitSize: 10 * 1024 ** 3, limitTime: -1, policy: 'producer_request_hold' },
+  maxUnackedMessagesOnConsumer: 50000,
+  maxUnackedMessagesOnSubscription: 200000,
+  delayedDelivery: { active: true, tickTime: 1000 },
+  deduplicationEnabled: true,
+  maxProducers: 0,
+  maxConsumers: 0,
+  maxConsumersPerSubscription: 0,
+  dispatchRate: UNLIMITED_RATE,
+  subscriptionDispatchRate: UNLIMITED_RATE,
+  publishRate: { publishThrottlingRateInMsg: -1, publishThrottlingRateInByte: -1 },
+  compactionThreshold: 100 * 1024 ** 2,
+};
+
+const sourceOf = (key: TopicPolicyKey, result: TopicPoliciesResult): TopicPolicySource => {
+  if (result.overrides[key] !== undefined) return 'topic';
+  if (result.namespace[key] !== undefined) return 'namespace';
+  return 'broker';
+};
+
+/**
+ * Human-readable value of a policy, with units spelled out
+ */
+const describePolicy = (key: TopicPolicyKey, policies: TopicPolicies): string => {
+  if (policies[key] === undefined) {
+    return 'broker default';
+  }
+  switch (key) {
+    case 'retention':
+      return describeRetention(policies.retention!);
+    case 'messageTtlSeconds':
+      return policies.messageTtlSeconds === 0 ? 'disabled' : formatQuantity(policies.messageTtlSeconds!, SECONDS);
+    case 'backlogQuota':
+      return describeBacklogQuota(policies.backlogQuota!);
+    case 'delayedDelivery': {
+      const { active, tickTime } = policies.delayedDelivery!;
+      return active ? `enabled, ${formatQuantity(tickTime, MILLISECONDS)} tick` : 'disabled';
+    }
+    case 'deduplicationEnabled':
+      return policies.deduplicationEnabled ? 'enabled' : 'disabled';
+    case 'dispatchRate':
+    case 'subscriptionDispatchRate':
+      return describeDispatchRate(policies[key]!);
+    case 'publishRate':
+      return describePublishRate(policies.publishRate!);
+    case 'compactionThreshold':
+      return policies.compactionThreshold === 0 ? 'disabled' : formatQuantity(policies.compactionThreshold!, BYTES);
+    case 'maxUnackedMessagesOnConsumer':
+    case 'maxUnackedMessagesOnSubscription':
+    case 'maxProducers':
+    case 'maxConsumers':
+    case 'maxConsumersPerSubscription':
+      return formatCount(policies[key]!, 0);
+  }
+};
+
+/**
+ * Catch what the broker would reject before sending the override
+ */
+const validatePolicy = (key: TopicPolicyKey, policies: TopicPolicies): string[] => {
+  const errors: string[] = [];
+  const whole = (label: string, value: number, min: number) => {
+    const message = wholeNumberError(label, value, min);
+    if (message) {
+      errors.push(message);
+    }
+  };
+
+  switch (key) {
+    case 'retention':
+      whole('Retention time', policies.retention!.retentionTimeInMinutes, -1);
+      if (!Number.isFinite(policies.retention!.retentionSizeInMB) || policies.retention!.retentionSizeInMB < -1) {
+        errors.push('Retention size must be a number (-1 for unlimited)');
+      }
+      break;
+    case 'messageTtlSeconds':
+      whole('Message TTL', policies.messageTtlSeconds!, 0);
+      break;
+    case 'backlogQuota':
+      whole('Backlog quota size', policies.backlogQuota!.limitSize, -1);
+      whole('Backlog quota time', policies.backlogQuota!.limitTime, -1);
+      break;
+    case 'delayedDelivery':
+      if (policies.delayedDelivery!.active) {
+        whole('Tick time', policies.delayedDelivery!.tickTime, 1);
+      }
+      break;
+    case 'dispatchRate':
+    case 'subscriptionDispatchRate': {
+      const rate = policies[key]!;
+      whole(`${POLICY_LABELS[key]} messages`, rate.dispatchThrottlingRateInMsg, -1);
+      whole(`${POLICY_LABELS[key]} bytes`, rate.dispatchThrottlingRateInByte, -1);
+      whole(`${POLICY_LABELS[key]} period`, rate.ratePeriodInSecond, 1);
+      break;
+    }
+    case 'publishRate':
+      whole('Publish rate messages', policies.publishRate!.publishThrottlingRateInMsg, -1);
+      whole('Publish rate bytes', policies.publishRate!.publishThrottlingRateInByte, -1);
+      break;
+    case 'deduplicationEnabled':
+      break;
+    default:
+      whole(POLICY_LABELS[key], policies[key]!, 0);
+  }
+  return errors;
+};
+
+/**
+ * Effective topic policies with where each one comes from, and overrides that can be set or removed
+ */
+export const TopicPolicyEditor: React.FC<TopicPolicyEditorProps> = ({ clusterId, topicName }) => {
+  const [loaded, setLoaded] = useState<TopicPoliciesResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ key: TopicPolicyKey; draft: TopicPolicies } | null>(null);
+  const [removing, setRemoving] = useState<TopicPolicyKey | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [dialogError, setDialogError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setEditing(null);
+    setRemoving(null);
+    loadPolicies();
+  }, [clusterId, topicName]);
+
+  const loadPolicies = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await window.lightcurve.admin.getTopicPolicies(clusterId, topicName);
+      if (response.success && response.data) {
+        setLoaded(response.data);
+      } else {
+        setError(response.error || 'Failed to load topic policies');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEditing = (key: TopicPolicyKey) => {
+    if (!loaded) return;
+    setDialogError(null);
+    setEditing({ key, draft: { [key]: loaded.overrides[key] ?? loaded.effective[key] ?? DEFAULTS[key] } });
+  };
+
+  const setDraft = <K extends TopicPolicyKey>(key: K, value: TopicPolicies[K]) => {
+    setEditing(prev => (prev ? { ...prev, draft: { [key]: value } } : prev));
+  };
+
+  const updateOverride = async (key: TopicPolicyKey, value: TopicPolicies[TopicPolicyKey] | null) => {
+    setBusy(true);
+    setDialogError(null);
+    try {
+      const response = await window.lightcurve.admin.updateTopicPolicy(clusterId, topicName, key, value);
+      if (!response.success) {
+        setDialogError(response.error || 'Failed to update topic policy');
+        return;
+      }
+      setEditing(null);
+      setRemoving(null);
+      await loadPolicies();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderEditor = (key: TopicPolicyKey, policies: TopicPolicies) => {
+    switch (key) {
+      case 'retention':
+        return <RetentionFields value={policies.retention!} onChange={(retention) => setDraft('retention', retention)} />;
+      case 'messageTtlSeconds':
+        return (
+          <PolicyField label="Expire after (0 disables)">
+            <QuantityInput value={policies.messageTtlSeconds!} units={SECONDS} onChange={(ttl) => setDraft('messageTtlSeconds', ttl)} />
+          </PolicyField>
+        );
+      case 'backlogQuota':
+        return <BacklogQuotaFields value={policies.backlogQuota!} onChange={(quota) => setDraft('backlogQuota', quota)} />;
+      case 'delayedDelivery': {
+        const delayed = policies.delayedDelivery!;
+        return (
+          <>
+            <PolicyField label="Delayed delivery">
+              <select
+                value={delayed.active ? 'enabled' : 'disabled'}
+                onChange={(e) => setDraft('delayedDelivery', { ...delayed, active: e.target.value === 'enabled' })}
+              >
+                <option value="enabled">Enabled</option>
+                <option value="disabled">Disabled</option>
+              </select>
+            </PolicyField>
+            {delayed.active && (
+              <PolicyField label="Tick time">
+                <QuantityInput
+                  value={delayed.tickTime}
+                  units={MILLISECONDS}
+                  onChange={(tickTime) => setDraft('delayedDelivery', { ...delayed, tickTime })}
+                />
+              </PolicyField>
+            )}
+          </>
+        );
+      }
+      case 'deduplicationEnabled':
+        return (
+          <PolicyField label="Deduplication">
+            <select
+              value={policies.deduplicationEnabled ? 'enabled' : 'disabled'}
+              onChange={(e) => setDraft('deduplicationEnabled', e.target.value === 'enabled')}
+            >
+              <option value="enabled">Enabled</option>
+              <option value="disabled">Disabled</option>
+            </select>
+          </PolicyField>
+        );
+      case 'dispatchRate':
+      case 'subscriptionDispatchRate':
+        return <DispatchRateFields value={policies[key]!} onChange={(rate) => setDraft(key, rate)} />;
+      case 'publishRate':
+        return <PublishRateFields value={policies.publishRate!} onChange={(rate) => setDraft('publishRate', rate)} />;
+      case 'compactionThreshold':
+        return (
+          <PolicyField label="Compact when backlog exceeds (0 disables)">
+            <QuantityInput value={policies.compactionThreshold!} units={BYTES} onChange={(size) => setDraft('compactionThreshold', size)} />
+          </PolicyField>
+        );
+      case 'maxUnackedMessagesOnConsumer':
+      case 'maxUnackedMessagesOnSubscription':
+      case 'maxProducers':
+      case 'maxConsumers':
+      case 'maxConsumersPerSubscription':
+        return (
+          <PolicyField label="Limit (0 unlimited)">
+            <input
+              type="number"
+              min={0}
+              value={policies[key]!}
+              onChange={(e) => setDraft(key, Number(e.target.value))}
+            />
+          </PolicyField>
+        );
+    }
+  };
+
+  if (loading && !loaded) {
+    return <p className="details-description">Loading policies...</p>;
+  }
+  if (!loaded) {
+    return (
+      <>
+        {error && <div className="topic-policy-error">{error}</div>}
+        <button className="subscription-action" onClick={loadPolicies}>Retry</button>
+      </>
+    );
+  }
+
+  const unsupported = new Set(loaded.unsupported);
+  const isPartition = /-partition-\d+$/.test(topicName);
+  // What the topic falls back to once its override is removed
+  const inherited: TopicPolicies = { ...loaded.effective, ...loaded.namespace };
+  for (const key of POLICY_KEYS) {
+    if (loaded.overrides[key] !== undefined && loaded.namespace[key] === undefined) {
+      delete inherited[key];
+    }
+  }
+  const validationErrors = editing ? validatePolicy(editing.key, editing.draft) : [];
+
+  return (
+    <div className="topic-policies">
+      {error && <div className="topic-policy-error">{error}</div>}
+      {loaded.disabledReason && (
+        <div className="topic-policy-notice">
+          Topic-level policies are disabled on this broker, so only namespace values and broker defaults apply.
+          Enable <code>topicLevelPoliciesEnabled</code> in the broker configuration to set overrides.
+        </div>
+      )}
+      {isPartition && (
+        <p className="details-description">Overrides apply to the whole partitioned topic, not just this partition.</p>
+      )}
+
+      <table className="topic-policy-table">
+        <thead>
+          <tr>
+            <th>Policy</th>
+            <th>Effective Value</th>
+            <th>Source</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {POLICY_KEYS.map(key => {
+            const source = sourceOf(key, loaded);
+            const canOverride = !unsupported.has(key);
+            return (
+              <tr key={key}>
+                <td className="topic-policy-label">{POLICY_LABELS[key]}</td>
+                <td className={loaded.effective[key] === undefined ? 'topic-policy-unknown' : undefined}>
+                  {describePolicy(key, loaded.effective)}
+                  {source === 'topic' && (
+                    <div className="topic-policy-shadowed">
+                      instead of {describePolicy(key, inherited)}
+                      {loaded.namespace[key] !== undefined ? ' from the namespace' : ''}
+                    </div>
+                  )}
+                </td>
+                <td>
+                  <span className={`topic-policy-source ${source}`}>{SOURCE_LABELS[source]}</span>
+                </td>
+                <td className="topic-policy-actions">
+                  {canOverride && (
+                    <button className="subscription-action" onClick={() => startEditing(key)}>
+                      {source === 'topic' ? 'Edit' : 'Override'}
+                    </button>
+                  )}
+                  {canOverride && source === 'topic' && (
+                    <button className="subscription-action" onClick={() => { setDialogError(null); setRemoving(key); }}>
+                      Remove
+                    </button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div className="details-actions">
+        <button className="subscription-action" onClick={loadPolicies} disabled={loading}>
+          {loading ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      {editing && (
+        <ModalDialog
+          title={`${POLICY_LABELS[editing.key]} override`}
+          confirmLabel={busy ? 'Applying...' : 'Apply'}
+          busy={busy}
+          error={dialogError}
+          confirmDisabled={validationErrors.length > 0}
+          onConfirm={() => updateOverride(editing.key, editing.draft[editing.key]!)}
+          onCancel={() => setEditing(null)}
+        >
+          <div className="topic-policy-inputs">{renderEditor(editing.key, editing.draft)}</div>
+          {validationErrors.length > 0 && (
+            <ul className="topic-policy-validation">
+              {validationErrors.map((message, index) => <li key={index}>{message}</li>)}
+            </ul>
+          )}
+          <table className="topic-policy-diff">
+            <tbody>
+              <tr>
+                <td className="topic-policy-label">Before</td>
+                <td className="topic-policy-before">
+                  {describePolicy(editing.key, loaded.effective)} ({SOURCE_LABELS[sourceOf(editing.key, loaded)].toLowerCase()})
+                </td>
+              </tr>
+              <tr>
+                <td className="topic-policy-label">After</td>
+                <td className="topic-policy-after">{describePolicy(editing.key, editing.draft)} (topic override)</td>
+              </tr>
+            </tbody>
+          </table>
+        </ModalDialog>
+      )}
+
+      {removing && (
+        <ModalDialog
+          title={`Remove ${POLICY_LABELS[removing].toLowerCase()} override`}
+          confirmLabel={busy ? 'Removing...' : 'Remove Override'}
+          danger
+          busy={busy}
+          error={dialogError}
+          onConfirm={() => updateOverride(removing, null)}
+          onCancel={() => setRemoving(null)}
+        >
+          <table className="topic-policy-diff">
+            <tbody>
+              <tr>
+                <td className="topic-policy-label">Before</td>
+                <td className="topic-policy-before">{describePolicy(removing, loaded.overrides)} (topic override)</td>
+              </tr>
+              <tr>
+                <td className="topic-policy-label">After</td>
+                <td className="topic-policy-after">
+                  {describePolicy(removing, inherited)} ({loaded.namespace[removing] !== undefined ? 'namespace' : 'broker default'})
+                </td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="modal-hint">The topic falls back to its namespace value, or the broker default when the namespace sets none.</p>
+        </ModalDialog>
+      )}
+    </div>
+  );
+};
@@ -3,23 +3,320 @@
  * These types define the IPC API contract
  */
 
-// OAuth configuration for client_credentials flow
+// OAuth grant used to obtain tokens: a service account, or a user logging in through the browser or a device code
+export type OAuthFlow = 'client_credentials' | 'authorization_code' | 'device_code';
+
+// OAuth configuration; clientSecret may be empty for public clients using an interactive flow
 export interface OAuthConfig {
-  type: 'client_credentials';
+  type: OAuthFlow;
   clientId: string;
   clientSecret: string;
   issuerUrl: string;
   audience: string;
   scopes?: string[];
+  privateKeyFile?: string; // Pulsar/StreamNative credentials JSON, used instead of clientId/clientSecret
+}
+
+// Login state of an interactive OAuth connection
+export interface OAuthSessionStatus {
+  flow: OAuthFlow;
+  loggedIn: boolean;
+  subject?: string; // Username or email from the token claims
+  expiresAt?: number; // Access token expiry (ms since epoch)
+  canRefresh: boolean;
+}
+
+export interface OAuthStatusEvent {
+  clusterId: string;
+  status: OAuthSessionStatus;
+}
+
+// Shown to the user while a device code login waits for them
+export interface DeviceCodePrompt {
+  userCode: string;
+  verificationUri: string;
+  verificationUriComplete?: string;
+  expiresAt: number;
+}
+
+// Cross-cluster diff
+export interface ClusterDiffOptions {
+  leftClusterId: string;
+  rightClusterId: string;
+  tenants?: string[]; // Limit the comparison to these tenants; all listable tenants otherwise
+  includeTopicDetails?: boolean; // Compare partitions, subscriptions and schemas of topics present on both sides
+}
+
+export type ClusterDiffKind = 'tenant' | 'namespace' | 'topic' | 'partitions' | 'subscription' | 'schema' | 'policy';
+
+export interface ClusterDiffEntry {
+  kind: ClusterDiffKind;
+  path: string; // Tenant, namespace or topic the entry is about
+  name?: string; // Subscription or policy within that path
+  status: 'onlyLeft' | 'onlyRight' | 'different';
+  left?: string; // Value on each side when it differs
+  right?: string;
+}
+
+export interface ClusterDiffResult {
+  leftClusterId: string;
+  rightClusterId: string;
+  comparedAt: number;
+  compared: { tenants: number; namespaces: number; topics: number };
+  entries: ClusterDiffEntry[];
+  errors: string[]; // Parts that could not be read on one side, usually for lack of permission
+}
+
+// Who administers a tenant and which clusters its namespaces may use
+export interface TenantInfo {
+  adminRoles: string[];
+  allowedClusters: string[];
+}
+
+export type BacklogQuotaPolicy = 'producer_request_hold' | 'producer_exception' | 'consumer_backlog_eviction';
+
+export type SchemaCompatibilityStrategy =
+  | 'ALWAYS_INCOMPATIBLE' | 'ALWAYS_COMPATIBLE'
+  | 'BACKWARD' | 'FORWARD' | 'FULL'
+  | 'BACKWARD_TRANSITIVE' | 'FORWARD_TRANSITIVE' | 'FULL_TRANSITIVE';
+
+// -1 means unlimited for either limit
+export interface DispatchRate {
+  dispatchThrottlingRateInMsg: number;
+  dispatchThrottlingRateInByte: number;
+  ratePeriodInSecond: number;
+}
+
+// Policies set on a namespace itself; an omitted policy falls back to the broker default
+export interface NamespacePolicies {
+  retention?: { retentionTimeInMinutes: number; retentionSizeInMB: number }; // -1 means unlimited
+  messageTtlSeconds?: number; // 0 disables expiry
+  backlogQuota?: { limitSize: number; limitTime: number; policy: BacklogQuotaPolicy }; // Bytes and seconds, -1 for no limit
+  deduplicationEnabled?: boolean;
+  dispatchRate?: DispatchRate; // Per topic
+  subscriptionDispatchRate?: DispatchRate; // Per subscription
+  publishRate?: { publishThrottlingRateInMsg: number; publishThrottlingRateInByte: number }; // Per topic, per second
+  subscribeRate?: { subscribeThrottlingRatePerConsumer: number; ratePeriodInSecond: number };
+  maxProducersPerTopic?: number; // 0 means unlimited
+  maxConsumersPerTopic?: number;
+  maxConsumersPerSubscription?: number;
+  schemaCompatibilityStrategy?: SchemaCompatibilityStrategy;
+  autoTopicCreation?: {
+    allowAutoTopicCreation: boolean;
+    topicType: 'partitioned' | 'non-partitioned';
+    defaultNumPartitions?: number; // Required for partitioned topics
+  };
+}
+
+export type NamespacePolicyKey = keyof NamespacePolicies;
+
+// Only the policies being changed; null removes the namespace's own value
+export type NamespacePolicyChanges = { [K in NamespacePolicyKey]?: NamespacePolicies[K] | null };
+
+export interface NamespacePoliciesResult {
+  policies: NamespacePolicies;
+  unsupported: NamespacePolicyKey[]; // Policies the broker has no endpoint for, usually because it is older
+}
+
+export interface NamespacePolicyUpdateResult {
+  auditId: string;
+  results: Array<{ policy: NamespacePolicyKey; error?: string }>;
+}
+
+// Per-topic policy overrides; each one wins over the namespace value, which wins over the broker default
+// Topic-level policies only exist when the broker runs with topicLevelPoliciesEnabled
+export interface TopicPolicies {
+  retention?: NamespacePolicies['retention'];
+  messageTtlSeconds?: number;
+  backlogQuota?: NamespacePolicies['backlogQuota'];
+  maxUnackedMessagesOnConsumer?: number; // 0 means unlimited
+  maxUnackedMessagesOnSubscription?: number;
+  delayedDelivery?: { active: boolean; tickTime: number }; // Tick time in milliseconds
+  deduplicationEnabled?: boolean;
+  maxProducers?: number; // 0 means unlimited
+  maxConsumers?: number;
+  maxConsumersPerSubscription?: number;
+  dispatchRate?: DispatchRate;
+  subscriptionDispatchRate?: DispatchRate;
+  publishRate?: NamespacePolicies['publishRate'];
+  compactionThreshold?: number; // Backlog bytes that trigger compaction, 0 disables it
+}
+
+export type TopicPolicyKey = keyof TopicPolicies;
+
+export type TopicPolicySource = 'topic' | 'namespace' | 'broker';
+
+export interface TopicPoliciesResult {
+  overrides: TopicPolicies; // Set on the topic itself
+  namespace: TopicPolicies; // Set on the topic's namespace
+  effective: TopicPolicies; // Applied by the broker; missing when the broker does not report it
+  unsupported: TopicPolicyKey[]; // Policies the broker has no topic endpoint for
+  disabledReason?: string; // Set when the broker has topic-level policies turned off
+}
+
+// Declarative configuration of a tenant or namespace subtree, exported to and applied from YAML or JSON
+// Anything a document omits is left alone when it is applied
+export type PolicyDocumentFormat = 'yaml' | 'json';
+
+export interface PolicyDocumentTopic {
+  name: string; // Local name within the namespace; only persistent topics are managed
+  partitions?: number; // 0 or omitted for a non-partitioned topic
+  subscriptions?: string[];
+  permissions?: Record<string, string[]>; // Grants on the topic itself, not those inherited from the namespace
+  schema?: {
+    type: string;
+    definition: unknown; // Parsed when the schema data is JSON (Avro, JSON, Protobuf), the raw string otherwise
+    properties?: Record<string, string>;
+  };
+}
+
+export interface PolicyDocumentNamespace {
+  name: string; // tenant/namespace
+  retention?: { retentionTimeInMinutes: number; retentionSizeInMB: number };
+  messageTtlSeconds?: number;
+  backlogQuota?: { limitSize: number; limitTime: number; policy: string };
+  permissions?: Record<string, string[]>;
+  topics?: PolicyDocumentTopic[];
+}
+
+export interface PolicyDocument {
+  version: 1;
+  scope: string; // Tenant or tenant/namespace the document describes
+  exportedFrom?: string;
+  exportedAt?: string;
+  namespaces: PolicyDocumentNamespace[];
 }
 
-// Authentication configuration (token or OAuth)
+export interface PolicyExportOptions {
+  scope: string;
+  format: PolicyDocumentFormat;
+}
+
+export interface PolicyExportResult {
+  filePath: string;
+  namespaces: number;
+  topics: number;
+}
+
+export type PolicyResourceKind =
+  | 'namespace' | 'retention' | 'messageTtl' | 'backlogQuota' | 'permission'
+  | 'topic' | 'partitions' | 'subscription' | 'schema';
+
+export interface PolicyChange {
+  change: 'create' | 'update' | 'delete';
+  resource: PolicyResourceKind;
+  path: string; // Namespace or full topic name the change applies to
+  name?: string; // Role or subscription within that path
+  from?: string; // Current value on the target, for display
+  to?: string; // Value from the document, for display
+  value?: unknown; // Payload sent to the admin API
+}
+
+export interface PolicyPlanOptions {
+  filePath: string;
+  prune?: boolean; // Also delete namespaces, topics, subscriptions and grants the document does not declare
+}
+
+export interface PolicyPlan {
+  clusterId: string;
+  filePath: string;
+  scope: string;
+  prune: boolean;
+  plannedAt: number;
+  changes: PolicyChange[]; // In the order they will be applied
+  warnings: string[]; // Differences the plan cannot reconcile, such as shrinking a partitioned topic
+}
+
+export interface PolicyApplyResult {
+  auditId: string;
+  applied: number;
+  failed?: { index: number; error: string }; // Applying stops at the first failure
+}
+
+// Who the active connection authenticates as
+export interface ConnectionIdentity {
+  authType: 'token' | 'oauth' | 'tls' | 'none';
+  oauthFlow?: OAuthFlow;
+  role?: string; // Role the broker authorizes: the token subject or the certificate CN
+  issuer?: string;
+  audience?: string[];
+  issuedAt?: number; // ms since epoch
+  expiresAt?: number; // ms since epoch
+  claims?: Record<string, unknown>;
+  certificate?: {
+    subject: string;
+    issuer: string;
+    validTo: number;
+  };
+  note?: string; // Why some details are unavailable, e.g. an opaque (non-JWT) token
+  canListTenants: boolean | null; // Listing all tenants needs super-user; null when the check failed
+}
+
+export interface PermissionGrant {
+  role: string;
+  actions: string[];
+  appliesToRole: boolean; // Granted to the connection's role, directly or by wildcard
+}
+
+export interface PermissionScopeResult {
+  scope: 'tenant' | 'namespace' | 'topic';
+  name: string;
+  grants: PermissionGrant[];
+  effectiveActions: string[]; // What the connection's role may do here
+  isAdmin?: boolean; // Role is a tenant admin
+  error?: string; // Usually the role may not read the permissions itself
+}
+
+export interface PermissionReport {
+  role?: string;
+  results: PermissionScopeResult[];
+}
+
+// Role permissions managed from the namespace and topic detail views
+export type PermissionTarget = 'namespace' | 'topic';
+
+export interface RolePermissions {
+  role: string;
+  actions: string[]; // Granted on the target itself
+  inherited: string[]; // Granted on the topic's namespace; always empty for namespaces
+}
+
+export interface PermissionsResult {
+  target: PermissionTarget;
+  name: string; // tenant/namespace or full topic name
+  grants: RolePermissions[];
+}
+
+// Actions each changed role should have on the target; an empty list revokes the role
+export type PermissionChanges = Record<string, string[]>;
+
+export interface PermissionUpdateResult {
+  auditId: string;
+  results: Array<{ role: string; error?: string }>;
+}
+
+// TLS client-certificate (mTLS) configuration; paths are read in the main process
+export interface TlsConfig {
+  certFilePath: string;
+  keyFilePath: string;
+  caFilePath?: string; // Trust this CA instead of the system store
+  validateHostname?: boolean; // Defaults to true
+  allowInsecureConnection?: boolean; // Accept untrusted server certificates
+}
+
+// Files chosen in the connection form: TLS certificate, TLS key, CA bundle, OAuth key file
+export type CredentialFileKind = 'cert' | 'key' | 'ca' | 'oauthKey';
+
+// Authentication configuration (token, OAuth or TLS client certificate)
 export type AuthConfig = {
   type: 'token';
   token: string;
 } | {
   type: 'oauth';
   oauth: OAuthConfig;
+} | {
+  type: 'tls';
+  tls: TlsConfig;
 } | {
   type: 'none';
 };
@@ -33,8 +330,14 @@ export interface ClusterConfig {
   auth?: AuthConfig;
   // Legacy support for direct authToken (converted to token auth internally)
   authToken?: string;
+  // Saved profile whose stored secrets fill any secret fields left blank in `auth`
+  profileId?: string;
+  environment?: ClusterEnvironment;
 }
 
+// Deployment stage of a cluster, shown as a colored badge so production stands out
+export type ClusterEnvironment = 'production' | 'staging' | 'development' | 'local';
+
 // Pulsar topic statistics (simplified from PulsarTopicStats)
 export interface TopicStats {
   msgRateIn: number;
@@ -63,42 +366,347 @@ export interface TopicStats {
   }>;
 }
 
+// Stats of a partitioned topic summed across partitions, with each partition's own stats
+export interface PartitionedTopicStats extends TopicStats {
+  metadata: PartitionedTopicMetadata;
+  partitions: Record<string, TopicStats>; // Keyed by partition topic name
+}
+
+// One point-in-time sample of a pinned topic's stats
+export interface StatsSample {
+  timestamp: number;
+  msgRateIn: number;
+  msgRateOut: number;
+  msgThroughputIn: number;
+  msgThroughputOut: number;
+  storageSize: number;
+  backlogs: Record<string, number>; // Backlog per subscription
+}
+
+// A topic sampled in the background; keyed by admin URL so history survives reconnects
+export interface PinnedTopic {
+  adminUrl: string;
+  topic: string;
+}
+
+export interface StatsHistorySettings {
+  intervalSeconds: number;
+  retentionHours: number;
+  pinned: PinnedTopic[];
+}
+
+export interface StatsHistoryResult {
+  pinned: boolean;
+  samples: StatsSample[];
+}
+
+// Pushed to the renderer as each sample is taken
+export interface StatsSampleEvent {
+  clusterId: string;
+  topic: string;
+  sample: StatsSample;
+}
+
+// Stats an alert condition can test; subscription-scoped rules read the subscription's values
+export type AlertMetric =
+  | 'backlog'
+  | 'msgRateIn'
+  | 'msgRateOut'
+  | 'publishers'
+  | 'consumers'
+  | 'storageSize';
+
+export type AlertComparator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+
+export interface AlertCondition {
+  metric: AlertMetric;
+  comparator: AlertComparator;
+  threshold: number;
+}
+
+// Fires once every condition has held continuously for `forSeconds`
+export interface AlertRule {
+  ruleId: string;
+  name: string;
+  enabled: boolean;
+  adminUrl: string;
+  topic: string;
+  subscription?: string;
+  conditions: AlertCondition[];
+  forSeconds: number;
+  notify: boolean; // Raise a desktop notification as well as the in-app alert
+  createdAt: number;
+}
+
+export type AlertRuleInput = Omit<AlertRule, 'ruleId' | 'adminUrl' | 'createdAt'>;
+
+export interface AlertEvent {
+  eventId: string;
+  ruleId: string;
+  ruleName: string;
+  topic: string;
+  subscription?: string;
+  state: 'firing' | 'resolved';
+  message: string;
+  timestamp: number;
+}
+
+export interface AlertStatus {
+  firing: AlertEvent[]; // Latest firing event of each rule still in alert
+  recent: AlertEvent[]; // Newest first
+}
+
+// Partition metadata for a topic (partitions is 0 for non-partitioned topics)
+export interface PartitionedTopicMetadata {
+  partitions: number;
+}
+
+// Schema registered for a topic (data holds the type-specific definition)
+export interface SchemaInfo {
+  version: number;
+  type: string;
+  timestamp: number;
+  data: string;
+  properties: Record<string, string>;
+}
+
+// Target position for resetting a subscription cursor
+export type ResetCursorTarget = {
+  type: 'timestamp';
+  timestamp: number; // Epoch milliseconds
+} | {
+  type: 'messageId';
+  messageId: string;
+};
+
+// Where message browsing starts: either end of the topic, a message ID or a publish time
+export type BrowseStartPosition = 'earliest' | 'latest' | ResetCursorTarget;
+
 // Message browsing options
 export interface BrowseMessagesOptions {
   topic: string;
   maxMessages?: number;
-  startPosition?: 'earliest' | 'latest';
+  startPosition?: BrowseStartPosition;
   timeoutMs?: number;
 }
 
+// How a payload string is encoded: UTF-8 text, or base64 for binary bytes
+export type PayloadEncoding = 'utf-8' | 'base64';
+
 // Peek (admin API) options/result
 export interface PeekMessagesOptions {
   topic: string;
   maxMessages?: number;
   subscription?: string; // optional: admin peek requires a subscription name
+  startPosition?: BrowseStartPosition; // Defaults to 'earliest'
+  // 'backward' reads the page that ends just before a message ID start position
+  direction?: 'forward' | 'backward';
+  // Forward pages from a message ID include that message unless this is false
+  inclusive?: boolean;
 }
 
 export interface PeekMessage {
   messageId: string;
-  payload: string;
+  payload: string; // Raw payload, encoded as described by `encoding`
+  encoding: PayloadEncoding;
+  size: number; // Payload length in bytes
+  decodedPayload?: string; // Schema-decoded payload, rendered as JSON or text
+  topicName?: string; // Topic or partition the message was read from
+  partitionKey?: string;
   properties: Record<string, string>;
   publishTimestamp: number;
   eventTimestamp?: number;
+  schemaType?: string;
+  schemaVersion?: number;
+  decodeError?: string; // Set when a schema exists but the payload could not be decoded
 }
 
 export interface PeekMessagesResult {
   messages: PeekMessage[];
+  hasMore?: boolean; // More messages exist beyond this page in the direction read
+}
+
+// Criteria for scanning a topic; every criterion that is set must match
+export interface MessageSearchCriteria {
+  payloadText?: string;
+  payloadRegex?: boolean; // Treat payloadText as a regular expression
+  caseSensitive?: boolean;
+  jsonPath?: string; // Matches when the path selects at least one value
+  jsonPathValue?: string; // Also require a selected value to equal this (strings as-is, others as JSON)
+  propertyKey?: string;
+  propertyValue?: string;
+  partitionKey?: string;
+  publishTimeFrom?: number; // Epoch milliseconds, inclusive
+  publishTimeTo?: number;
+  eventTimeFrom?: number;
+  eventTimeTo?: number;
+}
+
+export interface MessageSearchOptions {
+  topic: string;
+  criteria: MessageSearchCriteria;
+  startPosition?: BrowseStartPosition; // Defaults to publishTimeFrom when set, otherwise 'earliest'
+  maxScanned?: number; // Defaults to 100000
+  maxResults?: number; // Defaults to 500
+}
+
+// Incremental search update pushed to the renderer while a scan runs
+export interface MessageSearchProgress {
+  searchId: string;
+  scanned: number;
+  matched: number;
+  matches: PeekMessage[]; // Matches found since the previous update
+  lastPublishTimestamp?: number; // Publish time of the last message scanned
+  done: boolean;
+  stopReason?: 'end' | 'timeWindow' | 'cancelled' | 'maxScanned' | 'maxResults' | 'error';
+  error?: string;
 }
 
 // Browsed message result
 export interface BrowsedMessage {
   messageId: string;
-  data: string; // Base64 encoded or UTF-8 string
+  data: string; // Raw payload, encoded as described by `encoding`
+  encoding: PayloadEncoding;
+  size: number; // Payload length in bytes
+  decodedData?: string; // Schema-decoded payload, rendered as JSON or text
   properties: Record<string, string>;
   publishTimestamp: number;
   eventTimestamp: number;
   partitionKey?: string;
   topicName: string;
+  schemaType?: string;
+  schemaVersion?: number;
+  decodeError?: string; // Set when a schema exists but the payload could not be decoded
+}
+
+// Message export file formats: JSON Lines, CSV, or a binary archive that replays byte-for-byte
+export type MessageExportFormat = 'jsonl' | 'csv' | 'raw';
+
+export type MessageExportColumn =
+  | 'messageId'
+  | 'topicName'
+  | 'publishTimestamp'
+  | 'eventTimestamp'
+  | 'partitionKey'
+  | 'properties'
+  | 'payload'
+  | 'encoding'
+  | 'size'
+  | 'schemaType';
+
+export interface MessageExportOptions {
+  format: MessageExportFormat;
+  columns?: MessageExportColumn[]; // CSV only; defaults to every column
+  defaultFileName?: string;
+}
+
+// Export read straight from a topic, so large exports never pass through the renderer
+export interface TopicExportOptions extends MessageExportOptions {
+  topic: string;
+  startPosition?: BrowseStartPosition; // Defaults to 'earliest'
+  maxMessages?: number; // Defaults to 10000
+  criteria?: MessageSearchCriteria; // Only export matching messages
+}
+
+export interface MessageExportResult {
+  filePath: string;
+  count: number;
+  cancelled?: boolean; // Stopped early; the file holds what was exported until then
+}
+
+// Progress pushed to the renderer while a topic export streams to disk
+export interface TopicExportProgress {
+  exportId: string;
+  scanned: number;
+  exported: number;
+  done: boolean;
+  result?: MessageExportResult; // Set once done without an error
+  error?: string;
+}
+
+// Replay of an exported JSONL or raw archive file into a topic
+export interface ReplayOptions {
+  filePath: string;
+  topic: string;
+  rateLimit?: number; // Max messages per second; unset publishes as fast as the broker accepts
+  originalTiming?: boolean; // Reproduce the gaps between the original publish times
+  dryRun?: boolean; // Read and validate the file without publishing
+}
+
+// Progress pushed to the renderer while a replay runs
+export interface ReplayProgress {
+  replayId: string;
+  read: number;
+  published: number;
+  failed: number;
+  bytesRead: number;
+  totalBytes: number;
+  done: boolean;
+  cancelled?: boolean;
+  error?: string; // Fatal error, or the most recent send failure
+}
+
+// Dead-letter queue workbench session: a held consumer on a DLQ subscription
+export interface DlqOpenOptions {
+  topic: string;
+  subscription: string;
+  maxMessages?: number;
+}
+
+// A DLQ message plus the properties the client's dead-letter policy stamps on it
+export interface DlqMessage extends BrowsedMessage {
+  redeliveryCount: number;
+  realTopic?: string; // REAL_TOPIC: the topic the message originally failed on
+  originMessageId?: string; // ORIGIN_MESSAGE_ID: its ID on that topic
+  reconsumeTimes?: number; // RECONSUMETIMES: retries taken through the retry-letter topic
+}
+
+export interface DlqSession {
+  sessionId: string;
+  messages: DlqMessage[];
+}
+
+// One message to re-publish, with its (possibly edited) payload and properties
+export interface DlqRedriveItem {
+  messageId: string;
+  targetTopic: string;
+  data: string;
+  encoding: PayloadEncoding;
+  properties: Record<string, string>;
+  partitionKey?: string;
+  eventTimestamp?: number;
+  edited: boolean;
+}
+
+export interface DlqRedriveOptions {
+  items: DlqRedriveItem[];
+  acknowledge: boolean; // Acknowledge each message off the DLQ subscription once re-published
+}
+
+export interface DlqRedriveItemResult {
+  messageId: string;
+  targetTopic: string;
+  publishedMessageId?: string;
+  previouslyPublished?: boolean; // Published by an earlier re-drive that failed to acknowledge it, so not published again
+  acknowledged: boolean;
+  error?: string; // With publishedMessageId set, the publish went through and only the acknowledgement failed
+}
+
+export interface DlqRedriveResult {
+  auditId: string;
+  results: DlqRedriveItemResult[];
+}
+
+// Audit log record of a state-changing bulk operation
+export interface AuditEntry {
+  id: string;
+  timestamp: number;
+  clusterId: string;
+  action: string; // e.g. 'dlq.redrive'
+  target: string; // Topic, namespace or other resource acted on
+  outcome: 'success' | 'partial' | 'failure';
+  summary: string;
+  details?: unknown;
 }
 
 // Browse result with messages and metadata
@@ -124,6 +732,7 @@ export interface CreateConsumerOptions {
 // Message to send via producer
 export interface SendMessageOptions {
   data: string; // String or base64-encoded data
+  encoding?: PayloadEncoding; // Defaults to 'utf-8'
   properties?: Record<string, string>;
   partitionKey?: string;
   eventTimestamp?: number;
@@ -140,12 +749,46 @@ export interface IPCResponse<T> {
 export interface ConnectedCluster {
   clusterId: string;
   name?: string;
+  profileId?: string; // Saved profile the connection was opened from
   adminUrl: string;
   serviceUrl: string;
   connected: boolean;
   connectedAt: number;
+  environment?: ClusterEnvironment;
+  pulsarVersion?: string;
+  health?: ConnectionHealth;
 }
 
+// Connection health
+export type ConnectionErrorKind = 'dns' | 'network' | 'timeout' | 'tls' | 'auth' | 'http' | 'unknown';
+
+export interface EndpointHealth {
+  ok: boolean;
+  latencyMs?: number;
+  errorKind?: ConnectionErrorKind;
+  error?: string;
+}
+
+// Producers, consumers and readers moved to a new broker client after its OAuth token was refreshed
+export interface CredentialRotation {
+  reattached: number;
+  failed: number; // Left on the old client; they stop working once its token expires and must be restarted
+}
+
+export interface ConnectionHealth {
+  clusterId: string;
+  state: 'healthy' | 'degraded' | 'unreachable';
+  checkedAt: number;
+  admin: EndpointHealth; // Admin REST API
+  broker: EndpointHealth; // Binary protocol at the service URL
+  pulsarVersion?: string;
+  reconnectedConsumers?: number; // Streaming consumers recreated after the broker came back
+  credentialRotation?: CredentialRotation; // Set on the check that moved handles to a refreshed token
+}
+
+// Stands in for a saved secret in the renderer; sending it back keeps the stored value
+export const STORED_SECRET = '\u0000stored-secret';
+
 // Saved connection profile
 export interface SavedProfile {
   profileId: string;
@@ -154,6 +797,16 @@ export interface SavedProfile {
   adminUrl: string;
   serviceUrl: string;
   auth?: AuthConfig;
+  environment?: ClusterEnvironment;
   savedAt: number;
   structureSourceProfileId?: string; // Reference profile to use for namespace/topic discovery if this profile lacks permissions
+  secretsRedacted?: boolean; // Secret fields were replaced with STORED_SECRET before reaching the renderer
+  secretsUnreadable?: boolean; // A saved secret could not be decrypted (e.g. the OS keyring changed) and must be entered again
+}
+
+// Whether saved credentials are encrypted at rest
+export interface SecretStorageStatus {
+  encrypted: boolean;
+  backend?: string; // Linux secret store selected by Electron
+  message?: string; // Explains the fallback when not encrypted
 }
@@ -6,14 +6,68 @@
 import type {
   ClusterConfig,
   TopicStats,
+  StatsSampleEvent,
+  StatsHistorySettings,
+  StatsHistoryResult,
+  AlertRule,
+  AlertRuleInput,
+  AlertEvent,
+  AlertStatus,
+  PartitionedTopicMetadata,
+  SchemaInfo,
+  ResetCursorTarget,
   BrowseMessagesOptions,
   BrowseMessagesResult,
+  PeekMessagesOptions,
+  PeekMessagesResult,
+  MessageSearchOptions,
+  MessageSearchProgress,
+  BrowsedMessage,
+  MessageExportOptions,
+  MessageExportResult,
+  TopicExportOptions,
+  TopicExportProgress,
+  ReplayOptions,
+  ReplayProgress,
+  DlqOpenOptions,
+  DlqSession,
+  DlqRedriveOptions,
+  DlqRedriveResult,
+  AuditEntry,
   CreateProducerOptions,
   CreateConsumerOptions,
   SendMessageOptions,
   IPCResponse,
   ConnectedCluster,
   SavedProfile,
+  AuthConfig,
+  SecretStorageStatus,
+  CredentialFileKind,
+  OAuthSessionStatus,
+  OAuthStatusEvent,
+  DeviceCodePrompt,
+  ConnectionIdentity,
+  PermissionReport,
+  ConnectionHealth,
+  ClusterDiffOptions,
+  ClusterDiffResult,
+  PolicyExportOptions,
+  PolicyExportResult,
+  PolicyPlanOptions,
+  PolicyPlan,
+  PolicyApplyResult,
+  NamespacePolicyChanges,
+  NamespacePoliciesResult,
+  NamespacePolicyUpdateResult,
+  TopicPolicies,
+  TopicPolicyKey,
+  TopicPoliciesResult,
+  TenantInfo,
+  PermissionTarget,
+  PermissionsResult,
+  PermissionChanges,
+  PermissionUpdateResult,
+  PartitionedTopicStats,
 } from '../shared/types';
 
 export interface LightCurveAPI {
@@ -21,24 +75,67 @@ export interface LightCurveAPI {
     connect: (config: ClusterConfig) => Promise<IPCResponse<ConnectedCluster>>;
     disconnect: (clusterId: string) => Promise<IPCResponse<void>>;
     listConnected: () => Promise<IPCResponse<ConnectedCluster[]>>;
+    getHealth: (clusterId: string) => Promise<IPCResponse<ConnectionHealth | null>>;
+    checkHealth: (clusterId: string) => Promise<IPCResponse<ConnectionHealth>>;
+    onHealth: (callback: (health: ConnectionHealth) => void) => () => void;
   };
   profiles: {
     listProfiles: () => Promise<IPCResponse<SavedProfile[]>>;
-    saveProfile: (profile: Omit<SavedProfile, 'profileId' | 'savedAt'>) => Promise<IPCResponse<SavedProfile>>;
+    saveProfile: (profile: Omit<SavedProfile, 'profileId' | 'savedAt'>, secretsFromProfileId?: string) => Promise<IPCResponse<SavedProfile>>;
     deleteProfile: (profileId: string) => Promise<IPCResponse<void>>;
     getProfile: (profileId: string) => Promise<IPCResponse<SavedProfile | null>>;
+    revealSecrets: (profileId: string) => Promise<IPCResponse<AuthConfig | null>>;
+    getSecretStorageStatus: () => Promise<IPCResponse<SecretStorageStatus>>;
+    chooseCredentialFile: (kind: CredentialFileKind) => Promise<IPCResponse<string | null>>;
   };
   admin: {
     listClusters: (clusterId: string) => Promise<IPCResponse<string[]>>;
     listTenants: (clusterId: string) => Promise<IPCResponse<string[]>>;
     listNamespaces: (clusterId: string, tenant: string) => Promise<IPCResponse<string[]>>;
     listTopics: (clusterId: string, tenant: string, namespace: string) => Promise<IPCResponse<string[]>>;
+    listPartitionedTopics: (clusterId: string, tenant: string, namespace: string) => Promise<IPCResponse<string[]>>;
     getTopicStats: (clusterId: string, fullTopicName: string) => Promise<IPCResponse<TopicStats>>;
+    getPartitionedStats: (clusterId: string, fullTopicName: string) => Promise<IPCResponse<PartitionedTopicStats>>;
     listSubscriptions: (clusterId: string, fullTopicName: string) => Promise<IPCResponse<string[]>>;
+    getTenantInfo: (clusterId: string, tenant: string) => Promise<IPCResponse<TenantInfo>>;
+    createTenant: (clusterId: string, tenant: string, info: TenantInfo) => Promise<IPCResponse<void>>;
+    updateTenant: (clusterId: string, tenant: string, info: TenantInfo) => Promise<IPCResponse<void>>;
+    deleteTenant: (clusterId: string, tenant: string, force?: boolean) => Promise<IPCResponse<void>>;
+    createNamespace: (clusterId: string, namespace: string) => Promise<IPCResponse<void>>;
+    deleteNamespace: (clusterId: string, namespace: string, force?: boolean) => Promise<IPCResponse<void>>;
+    createTopic: (clusterId: string, fullTopicName: string, partitions: number) => Promise<IPCResponse<void>>;
+    updatePartitionedTopic: (clusterId: string, fullTopicName: string, partitions: number) => Promise<IPCResponse<void>>;
+    getPartitionedMetadata: (clusterId: string, fullTopicName: string) => Promise<IPCResponse<PartitionedTopicMetadata>>;
+    deleteTopic: (clusterId: string, fullTopicName: string, force?: boolean) => Promise<IPCResponse<void>>;
+    createSubscription: (clusterId: string, fullTopicName: string, subscription: string, position?: 'earliest' | 'latest') => Promise<IPCResponse<void>>;
+    deleteSubscription: (clusterId: string, fullTopicName: string, subscription: string, force?: boolean) => Promise<IPCResponse<void>>;
+    resetCursor: (clusterId: string, fullTopicName: string, subscription: string, target: ResetCursorTarget) => Promise<IPCResponse<void>>;
+    skipMessages: (clusterId: string, fullTopicName: string, subscription: string, count: number) => Promise<IPCResponse<void>>;
+    clearBacklog: (clusterId: string, fullTopicName: string, subscription: string) => Promise<IPCResponse<void>>;
+    expireMessages: (clusterId: string, fullTopicName: string, subscription: string, expireTimeSeconds: number) => Promise<IPCResponse<void>>;
+    getSchema: (clusterId: string, fullTopicName: string) => Promise<IPCResponse<SchemaInfo | null>>;
+    getSchemaVersions: (clusterId: string, fullTopicName: string) => Promise<IPCResponse<SchemaInfo[]>>;
+    getNamespacePolicies: (clusterId: string, namespace: string) => Promise<IPCResponse<NamespacePoliciesResult>>;
+    updateNamespacePolicies: (clusterId: string, namespace: string, changes: NamespacePolicyChanges) => Promise<IPCResponse<NamespacePolicyUpdateResult>>;
+    getTopicPolicies: (clusterId: string, fullTopicName: string) => Promise<IPCResponse<TopicPoliciesResult>>;
+    updateTopicPolicy: <K extends TopicPolicyKey>(clusterId: string, fullTopicName: string, policy: K, value: TopicPolicies[K] | null) => Promise<IPCResponse<void>>;
+    getPermissions: (clusterId: string, target: PermissionTarget, name: string) => Promise<IPCResponse<PermissionsResult>>;
+    updatePermissions: (clusterId: string, target: PermissionTarget, name: string, changes: PermissionChanges) => Promise<IPCResponse<PermissionUpdateResult>>;
   };
   messages: {
     browse: (clusterId: string, options: BrowseMessagesOptions) => Promise<IPCResponse<BrowseMessagesResult>>;
     peek: (clusterId: string, options: PeekMessagesOptions) => Promise<IPCResponse<PeekMessagesResult>>;
+    search: (clusterId: string, options: MessageSearchOptions) => Promise<IPCResponse<string>>;
+    cancelSearch: (searchId: string) => Promise<IPCResponse<void>>;
+    onSearchProgress: (callback: (progress: MessageSearchProgress) => void) => () => void;
+    export: (messages: BrowsedMessage[], options: MessageExportOptions) => Promise<IPCResponse<MessageExportResult | null>>;
+    exportTopic: (clusterId: string, options: TopicExportOptions) => Promise<IPCResponse<string | null>>;
+    cancelExport: (exportId: string) => Promise<IPCResponse<void>>;
+    onExportProgress: (callback: (progress: TopicExportProgress) => void) => () => void;
+    chooseReplayFile: () => Promise<IPCResponse<string | null>>;
+    replay: (clusterId: string, options: ReplayOptions) => Promise<IPCResponse<string>>;
+    cancelReplay: (replayId: string) => Promise<IPCResponse<void>>;
+    onReplayProgress: (callback: (progress: ReplayProgress) => void) => () => void;
     browseMessages: (clusterId: string, topicName: string) => Promise<IPCResponse<{ readerId: string }>>;
     readMessages: (clusterId: string, readerId: string, maxMessages: number) => Promise<IPCResponse<any[]>>;
     closeReader: (clusterId: string, readerId: string) => Promise<IPCResponse<void>>;
@@ -59,6 +156,51 @@ export interface LightCurveAPI {
     acknowledge: (consumerId: string, messageId: string) => Promise<IPCResponse<void>>;
     close: (consumerId: string) => Promise<IPCResponse<void>>;
   };
+  dlq: {
+    open: (clusterId: string, options: DlqOpenOptions) => Promise<IPCResponse<DlqSession>>;
+    redrive: (sessionId: string, options: DlqRedriveOptions) => Promise<IPCResponse<DlqRedriveResult>>;
+    close: (sessionId: string) => Promise<IPCResponse<void>>;
+  };
+  audit: {
+    list: (limit?: number, action?: string) => Promise<IPCResponse<AuditEntry[]>>;
+  };
+  stats: {
+    getSettings: () => Promise<IPCResponse<StatsHistorySettings>>;
+    updateSettings: (settings: Pick<StatsHistorySettings, 'intervalSeconds' | 'retentionHours'>) => Promise<IPCResponse<StatsHistorySettings>>;
+    pin: (clusterId: string, topic: string) => Promise<IPCResponse<void>>;
+    unpin: (clusterId: string, topic: string, clearHistory?: boolean) => Promise<IPCResponse<void>>;
+    getHistory: (clusterId: string, topic: string, since?: number) => Promise<IPCResponse<StatsHistoryResult>>;
+    onSample: (callback: (event: StatsSampleEvent) => void) => () => void;
+  };
+  alerts: {
+    listRules: (clusterId: string, topic?: string) => Promise<IPCResponse<AlertRule[]>>;
+    saveRule: (clusterId: string, rule: AlertRuleInput, ruleId?: string) => Promise<IPCResponse<AlertRule>>;
+    deleteRule: (ruleId: string) => Promise<IPCResponse<void>>;
+    getStatus: () => Promise<IPCResponse<AlertStatus>>;
+    clearRecent: () => Promise<IPCResponse<void>>;
+    onAlert: (callback: (event: AlertEvent) => void) => () => void;
+  };
+  oauth: {
+    getStatus: (clusterId: string) => Promise<IPCResponse<OAuthSessionStatus | null>>;
+    login: (clusterId: string) => Promise<IPCResponse<OAuthSessionStatus>>;
+    logout: (clusterId: string) => Promise<IPCResponse<void>>;
+    cancelLogin: () => Promise<IPCResponse<void>>;
+    onStatus: (callback: (event: OAuthStatusEvent) => void) => () => void;
+    onDeviceCode: (callback: (prompt: DeviceCodePrompt) => void) => () => void;
+  };
+  diff: {
+    compare: (options: ClusterDiffOptions) => Promise<IPCResponse<ClusterDiffResult>>;
+  };
+  policy: {
+    export: (clusterId: string, options: PolicyExportOptions) => Promise<IPCResponse<PolicyExportResult | null>>;
+    chooseDocument: () => Promise<IPCResponse<string | null>>;
+    plan: (clusterId: string, options: PolicyPlanOptions) => Promise<IPCResponse<PolicyPlan>>;
+    apply: (plan: PolicyPlan) => Promise<IPCResponse<PolicyApplyResult>>;
+  };
+  identity: {
+    whoAmI: (clusterId: string) => Promise<IPCResponse<ConnectionIdentity>>;
+    checkPermissions: (clusterId: string, namespace: string, fullTopicName?: string) => Promise<IPCResponse<PermissionReport>>;
+  };
 }
 
 declare global {